@@ -7,6 +7,11 @@ import { AnalystResponse } from '../schemas/agentSchemas';
 import { logger } from '../config/logger';
 import { nanoid } from 'nanoid';
 import { getAnalystPrompt } from '../prompts/analyst';
+import { transcriptImporter } from '../services/transcriptImporter';
+import { processIndicatorDetector } from '../services/processIndicatorDetector';
+import { TranscriptTurn } from '../../src/types/transcript';
+import { ProcessIndicatorMatch } from '../../src/types/processProtocolTemplate';
+import type { TranscriptExerciseConfig } from './reviewerAgent';
 
 export class AnalystAgent extends BaseAgent {
   constructor() {
@@ -15,8 +20,13 @@ export class AnalystAgent extends BaseAgent {
 
   /**
    * Generate iterative feedback for student response
+   * Process indicators detected in the input are cited in the feedback.
    */
-  async generateResponse(context: AgentContext, userInput: string): Promise<AnalystResponse> {
+  async generateResponse(
+    context: AgentContext,
+    userInput: string,
+    processIndicators: ProcessIndicatorMatch[] = []
+  ): Promise<AnalystResponse> {
     logger.debug('AnalystAgent.generateResponse starting', {
       sessionId: context.sessionId,
       agentType: this.agentType,
@@ -43,7 +53,10 @@ export class AnalystAgent extends BaseAgent {
         {
           role: 'system', 
           content: analystPrompt
-        }
+        },
+        ...(processIndicators.length > 0
+          ? [{ role: 'system' as const, content: processIndicatorDetector.describeTurn(processIndicators) }]
+          : [])
       ]
     };
 
@@ -84,6 +97,33 @@ export class AnalystAgent extends BaseAgent {
     return analystResponse;
   }
 
+  /**
+   * Retrospective feedback for one student turn of an uploaded transcript
+   * The Analyst sees the conversation up to and including that turn, and the
+   * feedback carries the turn's segmentId so it can be shown next to it.
+   */
+  async analyzeTranscriptTurn(
+    protocols: string[],
+    turns: TranscriptTurn[],
+    turnIndex: number,
+    exerciseConfig?: TranscriptExerciseConfig
+  ): Promise<AnalystResponse> {
+    const turn = turns[turnIndex];
+
+    const response = await this.generateResponse({
+      sessionId: 'transcript_analysis',
+      protocols,
+      conversationHistory: transcriptImporter.toConversationHistory(turns.slice(0, turnIndex)),
+      exerciseConfig: {
+        focusHint: exerciseConfig?.focusHint || 'Comprehensive conversation analysis',
+        caseRole: exerciseConfig?.caseRole || 'Various roles',
+        caseBackground: exerciseConfig?.caseBackground || 'Recorded conversation transcript'
+      }
+    }, transcriptImporter.formatTurn(turn));
+
+    return { ...response, segment_id: turn.segmentId };
+  }
+
   /**
    * Generate comparative analysis (compare current vs previous responses)
    */
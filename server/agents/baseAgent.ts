@@ -2,19 +2,25 @@
  * Base Agent - Common functionality for all BASIS agents
  */
 
-import OpenAI from 'openai';
 import { logger } from '../config/logger';
-import { guardrailValidator, GuardrailViolation } from '../middleware/guardrails';
+import { guardrailValidator, GuardrailRuleSet, GuardrailViolation } from '../middleware/guardrails';
+import { GuardrailRuleDefinition } from '../../src/types/guardrailRules';
+import { CasePersona, EmotionalState } from '../../src/types/basis';
 import { AgentType, AGENT_CONFIGS } from '../config/agents';
 import { AGENT_SCHEMAS, AgentResponse } from '../schemas/agentSchemas';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { protocolRegistry, ResolvedProtocol } from '../services/protocolRegistry';
+import { getLLMProvider, LLMCompletion, LLMMessage, ModelRejectedError } from '../providers';
+import { modelResolver } from '../services/modelResolver';
+import { guardrailMetrics } from '../services/guardrailMetrics';
+import { feedbackValidation, FeedbackValidationIssue, FeedbackValidationOutcome } from '../services/feedbackValidation';
 
 export interface AgentContext {
   sessionId: string;
   protocols: string[];
+  /** Exercise guardrail rules merged with the built-in defaults */
+  guardrailRules?: GuardrailRuleDefinition[];
+  /** Normalized protocol weights from the exercise's protocol stack; applied by the Reviewer */
+  protocolWeights?: Record<string, number>;
   conversationHistory: Array<{
     role: 'system' | 'user' | 'assistant';
     content: string;
@@ -23,6 +29,15 @@ export interface AgentContext {
     focusHint: string;
     caseRole: string;
     caseBackground: string;
+    /** Full case persona including hidden facts; only set for the roleplay agent */
+    persona?: CasePersona;
+    /** Character's current emotional state; only set for the roleplay agent */
+    emotionalState?: EmotionalState;
+    meta?: {
+      instructionContent?: string;
+      caseContent?: string;
+      protocolContent?: string;
+    };
   };
 }
 
@@ -38,18 +53,47 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Generate response with retry logic and guardrail validation
+   * Generate response with guardrail validation, targeted repair and full regeneration
    */
   async generateResponse(context: AgentContext, userInput?: string): Promise<AgentResponse> {
     let attempts = 0;
     const maxAttempts = this.config.maxRetries;
+    let repairsLeft = this.config.maxRepairs;
     let lastRawResponse: AgentResponse | undefined;
 
+    // Resolve protocol definitions once per generation, not per retry
+    const protocols = await protocolRegistry.resolve(context.protocols);
+    const messages = this.buildMessages(context, protocols, userInput);
+    const ruleSet = guardrailValidator.compileRules(context.guardrailRules);
+    const validatedProtocols = feedbackValidation.applicableProtocols(this.agentType, protocols);
+    const validationIssues: FeedbackValidationIssue[] = [];
+    let repaired = false;
+
+    // One feedback_validation_logs row per generation that ran protocol validationRules
+    const recordValidation = (outcome: FeedbackValidationOutcome) => {
+      if (validatedProtocols.length === 0) return;
+      void feedbackValidation.record({
+        sessionId: context.sessionId,
+        agentType: this.agentType,
+        protocolIds: validatedProtocols.map(protocol => protocol.id),
+        // Recoveries caused only by temporal guardrails still count as a protocol pass
+        outcome: outcome === 'failed' || validationIssues.length > 0 ? outcome : 'passed',
+        attempts,
+        violations: validationIssues
+      });
+    };
+
     while (attempts < maxAttempts) {
+      const isRegeneration = attempts > 0;
+      const startedAt = Date.now();
+      let usage: LLMCompletion['usage'];
+
       try {
         attempts++;
 
-        const response = await this.callOpenAI(context, userInput);
+        const result = await this.callLLM(messages);
+        let response = result.response;
+        usage = result.usage;
         // Debug: Log raw output BEFORE guardrails are applied
         try {
           logger.info(`Agent ${this.agentType} raw output before guardrails`, {
@@ -61,17 +105,37 @@ export abstract class BaseAgent {
         }
         lastRawResponse = response;
 
-        // Validate guardrails
-        const responseText = JSON.stringify(response);
-        const violations = guardrailValidator.validateTemporal(this.agentType, responseText);
+        let errors = await this.checkGuardrails(response, context.sessionId, ruleSet, protocols);
+        validationIssues.push(...feedbackValidation.toIssues(errors));
 
-        if (violations.length > 0) {
-          guardrailValidator.logViolations(violations, context.sessionId);
+        if (isRegeneration) {
+          guardrailMetrics.record({
+            agentType: this.agentType,
+            kind: 'regeneration',
+            success: errors.length === 0,
+            latencyMs: Date.now() - startedAt,
+            ...usage
+          });
+        }
+
+        // Try rewriting only the violating spans before paying for a full regeneration
+        while (errors.length > 0 && repairsLeft > 0) {
+          repairsLeft--;
+          const repair = await this.repairResponse(context, messages, response, errors, ruleSet, protocols);
+          if (!repair) break;
+
+          response = repair.response;
+          lastRawResponse = repair.response;
+          errors = repair.errors;
+          repaired = true;
+          validationIssues.push(...feedbackValidation.toIssues(errors));
+        }
 
+        if (errors.length > 0) {
           if (attempts >= maxAttempts) {
             const err: any = new Error(
-              `Agent ${this.agentType} violated guardrails after ${maxAttempts} attempts: ${violations
-                .map(v => v.matches.join(', '))
+              `Agent ${this.agentType} violated guardrails after ${maxAttempts} attempts: ${errors
+                .map(v => v.matches.length > 0 ? v.matches.join(', ') : v.pattern)
                 .join('; ')}`
             );
             // Attach raw response for upstream handlers (frontend placeholders)
@@ -79,15 +143,16 @@ export abstract class BaseAgent {
             throw err;
           }
 
-          logger.warn(`Agent ${this.agentType} guardrail violation, retrying (attempt ${attempts}/${maxAttempts})`, {
+          logger.warn(`Agent ${this.agentType} guardrail violation, regenerating (attempt ${attempts}/${maxAttempts})`, {
             sessionId: context.sessionId,
-            violations: violations.map(v => v.matches)
+            violations: errors.map(v => v.matches)
           });
 
           continue;
         }
 
         // Success - response passes guardrails
+        recordValidation(isRegeneration ? 'regenerated' : repaired ? 'repaired' : 'passed');
         logger.info(`Agent ${this.agentType} generated valid response`, {
           sessionId: context.sessionId,
           attempts,
@@ -96,6 +161,16 @@ export abstract class BaseAgent {
 
         return response;
       } catch (error) {
+        if (isRegeneration && !usage) {
+          // The regeneration call itself failed
+          guardrailMetrics.record({
+            agentType: this.agentType,
+            kind: 'regeneration',
+            success: false,
+            latencyMs: Date.now() - startedAt
+          });
+        }
+
         logger.error(`Agent ${this.agentType} generation error (attempt ${attempts}/${maxAttempts})`, {
           sessionId: context.sessionId,
           error: error instanceof Error ? error.message : String(error),
@@ -103,6 +178,7 @@ export abstract class BaseAgent {
         });
 
         if (attempts >= maxAttempts) {
+          recordValidation('failed');
           const finalErr: any = new Error(
             `Agent ${this.agentType} failed after ${maxAttempts} attempts: ${error instanceof Error ? error.message : String(error)}`
           );
@@ -117,53 +193,182 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Call OpenAI with structured output
+   * Validate a response against guardrails and protocol validationRules, returning the
+   * error-severity violations (warnings are only logged)
    */
-  private async callOpenAI(context: AgentContext, userInput?: string): Promise<AgentResponse> {
-    const messages = this.buildMessages(context, userInput);
-    
-    const completion = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      messages,
-      temperature: this.config.temperature,
-      max_tokens: this.config.maxTokens,
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: `${this.agentType}_response`,
-          schema: this.schema,
-          strict: true
-        }
-      }
+  private async checkGuardrails(
+    response: AgentResponse,
+    sessionId: string,
+    ruleSet: GuardrailRuleSet,
+    protocols: ResolvedProtocol[]
+  ): Promise<GuardrailViolation[]> {
+    const violations = [
+      ...await guardrailValidator.validate(this.agentType, JSON.stringify(response), ruleSet),
+      ...feedbackValidation.validate(this.agentType, response, protocols)
+    ];
+    if (violations.length > 0) {
+      guardrailValidator.logViolations(violations, sessionId);
+    }
+
+    return guardrailValidator.getErrors(violations);
+  }
+
+  /**
+   * Ask the model to rewrite only the violating spans, keeping the rest of the response
+   */
+  private async repairResponse(
+    context: AgentContext,
+    messages: LLMMessage[],
+    response: AgentResponse,
+    violations: GuardrailViolation[],
+    ruleSet: GuardrailRuleSet,
+    protocols: ResolvedProtocol[]
+  ): Promise<{ response: AgentResponse; errors: GuardrailViolation[] } | null> {
+    const startedAt = Date.now();
+    const spans = [...new Set(violations.flatMap(v => v.matches))];
+    const protocolFields = [...new Set(violations.flatMap(v => v.violationType === 'protocol_validation' && v.field ? [v.field] : []))];
+
+    logger.info(`Agent ${this.agentType} attempting guardrail repair`, {
+      sessionId: context.sessionId,
+      spans
     });
 
-    const content = completion.choices[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('No response content from OpenAI');
+    const repairMessages: LLMMessage[] = [
+      ...messages,
+      { role: 'assistant', content: JSON.stringify(response) },
+      {
+        role: 'user',
+        content: `Ditt svar bröt mot ${protocolFields.length > 0 ? 'reglerna' : 'tidsriktningen'} för din roll:
+${guardrailValidator.getViolationMessages(violations).map(message => `- ${message}`).join('\n')}
+${spans.length > 0 ? `
+Skriv om ENDAST dessa formuleringar så att de följer ${protocolFields.length > 0 ? 'reglerna' : 'din tidsriktning'}:
+${spans.map(span => `- "${span}"`).join('\n')}
+` : ''}${protocolFields.length > 0 ? `
+Justera texten i ${protocolFields.join(', ')} så att den följer protokollets krav på ordval, formuleringar och längd.
+` : ''}
+Behåll allt annat oförändrat och svara med hela det korrigerade JSON-objektet.`
+      }
+    ];
+
+    try {
+      const { response: repaired, usage } = await this.callLLM(repairMessages);
+      const errors = await this.checkGuardrails(repaired, context.sessionId, ruleSet, protocols);
+
+      guardrailMetrics.record({
+        agentType: this.agentType,
+        kind: 'repair',
+        success: errors.length === 0,
+        latencyMs: Date.now() - startedAt,
+        ...usage
+      });
+
+      return { response: repaired, errors };
+    } catch (error) {
+      guardrailMetrics.record({
+        agentType: this.agentType,
+        kind: 'repair',
+        success: false,
+        latencyMs: Date.now() - startedAt
+      });
+
+      logger.warn(`Agent ${this.agentType} guardrail repair failed`, {
+        sessionId: context.sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
     }
+  }
+
+  /**
+   * Call the configured LLM provider with structured output
+   */
+  private async callLLM(messages: LLMMessage[]): Promise<{ response: AgentResponse; usage: LLMCompletion['usage'] }> {
+    const provider = getLLMProvider();
+
+    const completion = await this.withModelFallback(model => provider.completeJSON({
+      agentType: this.agentType,
+      model,
+      messages,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      schemaName: `${this.agentType}_response`,
+      schema: this.schema
+    }));
 
     try {
-      const response = JSON.parse(content);
-      return response as AgentResponse;
+      const response = JSON.parse(completion.content);
+      return { response: response as AgentResponse, usage: completion.usage };
     } catch (error) {
       throw new Error(`Failed to parse JSON response: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Build message array for OpenAI API
+   * Stream a plain-text reply from the configured LLM provider, returning the full text
+   */
+  protected async streamLLM(context: AgentContext, userInput: string, onToken: (delta: string) => void): Promise<string> {
+    const protocols = await protocolRegistry.resolve(context.protocols);
+    const messages = this.buildMessages(context, protocols, userInput, 'text');
+    const provider = getLLMProvider();
+
+    // Model rejections surface before the first token, so falling back never duplicates output
+    const completion = await this.withModelFallback(model => provider.streamText({
+      agentType: this.agentType,
+      model,
+      messages,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens
+    }, onToken));
+
+    logger.info(`Agent ${this.agentType} streamed response`, {
+      sessionId: context.sessionId,
+      model: completion.model,
+      contentLength: completion.content.length
+    });
+
+    return completion.content;
+  }
+
+  /**
+   * Run a provider call with the agent's tier model, retrying once with the provider default if it is rejected
+   */
+  private async withModelFallback<T>(call: (model: string | undefined) => Promise<T>): Promise<T> {
+    const model = await modelResolver.resolveModel(this.agentType);
+
+    try {
+      return await call(model);
+    } catch (error) {
+      if (!(error instanceof ModelRejectedError) || !model) {
+        throw error;
+      }
+
+      // Configured tier model is unavailable; retry once with the provider default
+      modelResolver.markRejected(error.model);
+      return call(undefined);
+    }
+  }
+
+  /**
+   * Build message array for the LLM provider
    */
-  protected buildMessages(context: AgentContext, userInput?: string): Array<{
+  protected buildMessages(
+    context: AgentContext,
+    protocols: ResolvedProtocol[],
+    userInput?: string,
+    responseFormat: 'json' | 'text' = 'json'
+  ): Array<{
     role: 'system' | 'user' | 'assistant';
     content: string;
   }> {
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
 
     // System prompt with protocol context
-    const protocolContext = this.buildProtocolContext(context.protocols);
+    const protocolContext = this.buildProtocolContext(protocols);
     const exerciseContext = this.buildExerciseContext(context.exerciseConfig);
-    
+    const formatInstruction = responseFormat === 'json'
+      ? 'VIKTIGT: Svara ENDAST med valid JSON enligt schema. Inga extra kommentarer eller text utanför JSON.'
+      : 'VIKTIGT: Svara ENDAST med själva repliken som ren text. Ingen JSON, inga citattecken eller kommentarer.';
+
     messages.push({
       role: 'system',
       content: `${this.config.systemPrompt}
@@ -174,7 +379,7 @@ ${protocolContext}
 ÖVNINGS-KONTEXT:
 ${exerciseContext}
 
-VIKTIGT: Svara ENDAST med valid JSON enligt schema. Inga extra kommentarer eller text utanför JSON.`
+${formatInstruction}`
     });
 
     // Add conversation history (last N messages to stay within context window)
@@ -193,23 +398,10 @@ VIKTIGT: Svara ENDAST med valid JSON enligt schema. Inga extra kommentarer eller
   }
 
   /**
-   * Build protocol context for agent
+   * Build protocol context for agent from resolved protocol definitions
    */
-  private buildProtocolContext(protocols: string[]): string {
-    // Mock BASIS protocol - replace with real protocol loading
-    const basisFields = [
-      'Active Listening (0-4): Demonstrates attentive listening and understanding',
-      'Empathy (0-4): Shows understanding and validation of emotions', 
-      'Professionalism (0-4): Maintains appropriate boundaries and conduct',
-      'Problem Resolution (0-4): Works towards constructive outcomes'
-    ];
-
-    return `Aktiva protokoll: ${protocols.join(', ')}
-
-RUBRIC-FÄLT (BASIS):
-${basisFields.map(field => `- ${field}`).join('\n')}
-
-Använd EXAKT dessa fältnamn i dina rubric-bedömningar.`;
+  private buildProtocolContext(protocols: ResolvedProtocol[]): string {
+    return protocolRegistry.renderForPrompt(protocols);
   }
 
   /**
@@ -235,15 +427,18 @@ Anpassa din feedback till denna specifika övningskontext.`;
 
 /**
  * Agent factory
+ * Agents extend BaseAgent, so they are loaded lazily to avoid a circular import
  */
-export function createAgent(agentType: AgentType): BaseAgent {
+export async function createAgent(agentType: AgentType): Promise<BaseAgent> {
   switch (agentType) {
     case 'navigator':
-      return new (require('./navigatorAgent').NavigatorAgent)();
+      return new (await import('./navigatorAgent')).NavigatorAgent();
     case 'analyst':
-      return new (require('./analystAgent').AnalystAgent)();
+      return new (await import('./analystAgent')).AnalystAgent();
     case 'reviewer':
-      return new (require('./reviewerAgent').ReviewerAgent)();
+      return new (await import('./reviewerAgent')).ReviewerAgent();
+    case 'roleplay':
+      return new (await import('./roleplayAgent')).RoleplayAgent();
     default:
       throw new Error(`Unknown agent type: ${agentType}`);
   }
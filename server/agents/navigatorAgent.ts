@@ -7,6 +7,7 @@ import { NavigatorResponse } from '../schemas/agentSchemas';
 import { logger } from '../config/logger';
 import { nanoid } from 'nanoid';
 import { getNavigatorPrompt } from '../prompts/navigator';
+import { BBICBoxCoverage } from '../../src/types/bbicTemplate';
 
 export class NavigatorAgent extends BaseAgent {
   constructor() {
@@ -111,6 +112,8 @@ Använd formatet: "I den här övningen kommer du särskilt träna på..." och f
     conversationState: {
       turnCount: number;
       lastAnalystScores?: Array<{ field: string; score: number }>;
+      /** Required BBIC checklist boxes the student has not covered yet */
+      uncoveredRequiredBoxes?: BBICBoxCoverage[];
     }
   ): Promise<NavigatorResponse> {
     logger.debug('NavigatorAgent.generateMidConversationGuidance starting', {
@@ -144,6 +147,14 @@ Använd positiv språkföring som "Kom ihåg att..." eller "Nästa steg kan vara
       }
     }
 
+    // Point toward the next uncovered part of the conversation structure, never a script
+    if (conversationState.uncoveredRequiredBoxes?.length) {
+      guidancePrompt += `
+
+SAMTALSSTRUKTUR: Följande obligatoriska moment har ännu inte genomförts: ${conversationState.uncoveredRequiredBoxes.map(box => box.label).join(', ')}.
+Styr försiktigt mot det moment som passar bäst härnäst i samtalet. Ge inga färdiga repliker, manus eller exempelformuleringar, och nämn inte checklistan.`;
+    }
+
     const enhancedContext: AgentContext = {
       ...context,
       conversationHistory: [
@@ -5,6 +5,21 @@
 import { BaseAgent, AgentContext } from './baseAgent';
 import { ReviewerResponse } from '../schemas/agentSchemas';
 import { getReviewerPrompt } from '../prompts/reviewer';
+import { transcriptImporter } from '../services/transcriptImporter';
+import { protocolStackValidator } from '../services/protocolStackValidator';
+import { TranscriptSpeakerRole, TranscriptTurn } from '../../src/types/transcript';
+
+export interface TranscriptExerciseConfig {
+  focusHint?: string;
+  caseRole?: string;
+  caseBackground?: string;
+}
+
+const SPEAKER_ROLE_LABELS: Record<TranscriptSpeakerRole, string> = {
+  student: 'student',
+  counterpart: 'counterpart',
+  unknown: 'role unknown'
+};
 
 export class ReviewerAgent extends BaseAgent {
   constructor() {
@@ -17,27 +32,34 @@ export class ReviewerAgent extends BaseAgent {
   async analyzeTranscript(
     protocols: string[],
     transcript: string,
-    exerciseConfig?: {
-      focusHint: string;
-      title: string;
-    }
+    exerciseConfig?: TranscriptExerciseConfig
   ): Promise<ReviewerResponse> {
-    
-    // Parse transcript into conversation turns
-    const conversationHistory = this.parseTranscript(transcript);
-    
+    return this.analyzeTurns(protocols, transcriptImporter.parse(transcript).turns, exerciseConfig);
+  }
+
+  /**
+   * Generate holistic feedback for an imported transcript's speaker turns
+   */
+  async analyzeTurns(
+    protocols: string[],
+    turns: TranscriptTurn[],
+    exerciseConfig?: TranscriptExerciseConfig
+  ): Promise<ReviewerResponse> {
+    const caseRole = exerciseConfig?.caseRole || 'Various roles';
+    const caseBackground = exerciseConfig?.caseBackground || 'Complete conversation transcript analysis';
+
     // Enhanced context with custom reviewer prompt
     const reviewerPrompt = getReviewerPrompt({ 
       focus: exerciseConfig?.focusHint,
-      caseRole: 'Various roles',
-      caseBackground: 'Complete conversation transcript analysis'
+      caseRole,
+      caseBackground
     });
     
     const context: AgentContext = {
       sessionId: 'transcript_analysis',
       protocols,
       conversationHistory: [
-        ...conversationHistory,
+        ...this.toConversationHistory(turns),
         {
           role: 'system',
           content: reviewerPrompt
@@ -45,8 +67,8 @@ export class ReviewerAgent extends BaseAgent {
       ],
       exerciseConfig: {
         focusHint: exerciseConfig?.focusHint || 'Comprehensive conversation analysis',
-        caseRole: 'Various roles',
-        caseBackground: 'Complete conversation transcript analysis'
+        caseRole,
+        caseBackground
       }
     };
 
@@ -57,7 +79,8 @@ export class ReviewerAgent extends BaseAgent {
       throw new Error('Reviewer agent returned invalid response type');
     }
 
-    return response as ReviewerResponse;
+    const review = response as ReviewerResponse;
+    return { ...review, exemplar_quotes: this.keepStudentQuotes(review.exemplar_quotes, turns) };
   }
 
   /**
@@ -67,6 +90,9 @@ export class ReviewerAgent extends BaseAgent {
     
     // Enhanced context with custom reviewer prompt
     const reviewerPrompt = getReviewerPrompt(context.exerciseConfig);
+    const weightPrompt = context.protocolWeights
+      ? await protocolStackValidator.describeWeights(context.protocolWeights)
+      : '';
     
     const enhancedContext: AgentContext = {
       ...context,
@@ -74,7 +100,7 @@ export class ReviewerAgent extends BaseAgent {
         ...context.conversationHistory,
         {
           role: 'system',
-          content: reviewerPrompt
+          content: weightPrompt ? `${reviewerPrompt}\n\n${weightPrompt}` : reviewerPrompt
         }
       ]
     };
@@ -126,51 +152,43 @@ Identify trends, improvements, and persistent challenges across sessions.`
   }
 
   /**
-   * Parse transcript text into conversation history
+   * Speaker turns as conversation history; each turn keeps its speaker label and
+   * timestamp so quotes can be attributed even when a speaker's role is unknown
    */
-  private parseTranscript(transcript: string): Array<{
+  private toConversationHistory(turns: TranscriptTurn[]): Array<{
     role: 'system' | 'user' | 'assistant';
     content: string;
   }> {
-    const lines = transcript.split('\n').filter(line => line.trim());
-    const history: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+    const speakers = [...new Map(turns.map(turn => [turn.speaker, turn.role])).entries()]
+      .map(([speaker, role]) => `${speaker} (${SPEAKER_ROLE_LABELS[role]})`)
+      .join(', ');
+
+    return [
+      {
+        role: 'system',
+        content: `Transcript analysis - reviewing complete conversation for holistic assessment. ${turns.length} turns by: ${speakers}. Only quote the student's own turns as exemplar_quotes.`
+      },
+      ...transcriptImporter.toConversationHistory(turns)
+    ];
+  }
 
-    // Add system message
-    history.push({
-      role: 'system',
-      content: 'Transcript analysis - reviewing complete conversation for holistic assessment.'
-    });
+  /**
+   * Drop exemplar quotes that are not the student's own words
+   * Skipped when no speaker is known to be the student.
+   */
+  private keepStudentQuotes(quotes: string[], turns: TranscriptTurn[]): string[] {
+    const normalize = (text: string) => text.toLowerCase().replace(/["'”“„«»…]/g, '').replace(/\s+/g, ' ').trim();
+    const studentText = turns.filter(turn => turn.role === 'student').map(turn => normalize(turn.content));
 
-    // Simple parsing - look for common patterns
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      if (!trimmed) continue;
-
-      // Look for speaker indicators
-      if (trimmed.toLowerCase().startsWith('student:') || 
-          trimmed.toLowerCase().startsWith('trainee:') ||
-          trimmed.toLowerCase().startsWith('you:')) {
-        history.push({
-          role: 'user',
-          content: trimmed.replace(/^(student|trainee|you):\s*/i, '')
-        });
-      } else if (trimmed.toLowerCase().startsWith('parent:') ||
-                 trimmed.toLowerCase().startsWith('client:') ||
-                 trimmed.toLowerCase().startsWith('role:')) {
-        history.push({
-          role: 'assistant', 
-          content: trimmed.replace(/^(parent|client|role):\s*/i, '')
-        });
-      } else {
-        // Default to user if no clear indicator
-        history.push({
-          role: 'user',
-          content: trimmed
-        });
-      }
+    if (studentText.length === 0) {
+      return quotes;
     }
 
-    return history;
+    return quotes.filter(quote => {
+      // Quotes may keep the "[mm:ss] Speaker:" prefix they were shown with
+      const quoted = normalize(quote);
+      const unprefixed = quoted.replace(/^\[[^\]]*\]\s*/, '').replace(/^[^:]{1,40}:\s*/, '');
+      return studentText.some(text => text.includes(quoted) || (unprefixed.length > 0 && text.includes(unprefixed)));
+    });
   }
-}
\ No newline at end of file
+}
@@ -4,16 +4,11 @@
 
 import { BaseAgent, AgentContext } from './baseAgent';
 import { logger } from '../config/logger';
+import { RoleplayResponse } from '../schemas/agentSchemas';
+import { caseLoader, DEFAULT_CASE_PERSONA } from '../services/caseLoader';
+import { emotionalStateMachine } from '../services/emotionalStateMachine';
 
-export interface RoleplayResponse {
-  type: 'roleplay';
-  content: string;
-  metadata?: {
-    role: string;
-    scenario: string;
-    emotional_state?: string;
-  };
-}
+export type { RoleplayResponse };
 
 export class RoleplayAgent extends BaseAgent {
   constructor() {
@@ -21,7 +16,7 @@ export class RoleplayAgent extends BaseAgent {
   }
 
   /**
-   * Generate contextual roleplay response as the parent/case character
+   * Generate contextual roleplay response as the case character
    */
   async generateResponse(context: AgentContext, userInput: string): Promise<RoleplayResponse> {
     logger.debug('RoleplayAgent.generateResponse starting', {
@@ -36,53 +31,24 @@ export class RoleplayAgent extends BaseAgent {
       throw new Error('Roleplay agent requires user input to respond to');
     }
 
-    // Enhanced context for roleplay with character background
-    const roleplayContext: AgentContext = {
-      ...context,
-      exerciseConfig: {
-        ...context.exerciseConfig,
-        caseRole: 'Concerned Parent',
-        caseBackground: 'A parent is worried about their child\'s academic progress and emotional well-being. They want to understand what support is available and how they can help at home.'
-      },
-      conversationHistory: [
-        ...context.conversationHistory,
-        {
-          role: 'system',
-          content: this.buildRoleplaySystemPrompt(context, userInput)
-        },
-        {
-          role: 'user',
-          content: userInput
-        }
-      ]
-    };
+    const roleplayContext = this.buildRoleplayContext(context, userInput);
 
     let response;
     let rawResponse;
     try {
-      // Call parent generateResponse which uses callOpenAI
+      // Call parent generateResponse which uses the configured LLM provider
       const aiResponse = await super.generateResponse(roleplayContext, userInput);
       rawResponse = aiResponse;
       
       // Extract content from AI response
       let content: string;
-      if (typeof aiResponse === 'string') {
-        content = aiResponse;
-      } else if (aiResponse && typeof aiResponse === 'object') {
-        content = (aiResponse as any).content || (aiResponse as any).message || JSON.stringify(aiResponse);
+      if (aiResponse.type === 'roleplay' && aiResponse.content) {
+        content = aiResponse.content;
       } else {
         content = 'I appreciate you taking the time to discuss this with me.';
       }
 
-      response = {
-        type: 'roleplay' as const,
-        content,
-        metadata: {
-          role: 'Concerned Parent',
-          scenario: context.exerciseConfig?.caseBackground || 'Parent consultation',
-          emotional_state: this.analyzeEmotionalState(userInput)
-        }
-      };
+      response = this.toRoleplayResponse(context, content);
       
       logger.debug('RoleplayAgent received response from OpenAI', {
         sessionId: context.sessionId,
@@ -102,6 +68,66 @@ export class RoleplayAgent extends BaseAgent {
     return response;
   }
 
+  /**
+   * Stream the character's reply token by token, resolving with the complete response
+   */
+  async streamResponse(context: AgentContext, userInput: string, onToken: (delta: string) => void): Promise<RoleplayResponse> {
+    if (!userInput || userInput.trim().length === 0) {
+      throw new Error('Roleplay agent requires user input to respond to');
+    }
+
+    try {
+      const content = await this.streamLLM(this.buildRoleplayContext(context, userInput), userInput, onToken);
+      return this.toRoleplayResponse(context, content.trim());
+    } catch (error) {
+      logger.error('RoleplayAgent streaming call failed', {
+        sessionId: context.sessionId,
+        agentType: this.agentType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Enhance context for roleplay with character background
+   */
+  private buildRoleplayContext(context: AgentContext, userInput: string): AgentContext {
+    const persona = context.exerciseConfig.persona ?? DEFAULT_CASE_PERSONA;
+    return {
+      ...context,
+      exerciseConfig: {
+        ...context.exerciseConfig,
+        ...caseLoader.toExerciseContext(persona, context.exerciseConfig.focusHint),
+        persona
+      },
+      conversationHistory: [
+        ...context.conversationHistory,
+        {
+          role: 'system',
+          content: this.buildRoleplaySystemPrompt(context, userInput)
+        },
+        {
+          role: 'user',
+          content: userInput
+        }
+      ]
+    };
+  }
+
+  private toRoleplayResponse(context: AgentContext, content: string): RoleplayResponse {
+    const persona = context.exerciseConfig.persona ?? DEFAULT_CASE_PERSONA;
+    return {
+      type: 'roleplay',
+      content,
+      metadata: {
+        role: caseLoader.describe(persona),
+        scenario: context.exerciseConfig?.caseBackground || 'Parent consultation',
+        emotional_state: context.exerciseConfig.emotionalState ?? emotionalStateMachine.profileFor(persona).initialState
+      }
+    };
+  }
+
   /**
    * Build system prompt for roleplay, prioritizing instruction content
    */
@@ -117,6 +143,25 @@ export class RoleplayAgent extends BaseAgent {
     if (context.exerciseConfig?.meta?.caseContent) {
       prompt += `KARAKTÄRSDEFINITION:\n${context.exerciseConfig.meta.caseContent}\n\n`;
     }
+
+    const persona = context.exerciseConfig.persona;
+    if (persona) {
+      prompt += `DIN KARAKTÄR:\n`;
+      if (persona.name) prompt += `- Namn: ${persona.name}\n`;
+      prompt += `- Roll: ${persona.role}\n- Bakgrund: ${persona.background}\n`;
+      if (persona.goals) prompt += `- Mål med samtalet: ${persona.goals}\n`;
+      prompt += '\n';
+
+      const profile = emotionalStateMachine.profileFor(persona);
+      const emotionalState = context.exerciseConfig.emotionalState ?? profile.initialState;
+      prompt += `DITT KÄNSLOLÄGE:\n${emotionalStateMachine.describeForPrompt(emotionalState)}\n\n`;
+
+      if (persona.hiddenFacts.length > 0) {
+        prompt += emotionalStateMachine.mayRevealHiddenFacts(emotionalState, profile)
+          ? `DOLDA FAKTA (avslöja inte självmant - berätta endast när studenten bygger förtroende eller ställer frågor som leder dit):\n${persona.hiddenFacts.map(fact => `- ${fact}`).join('\n')}\n\n`
+          : `DOLDA FAKTA (avslöja INTE ännu - du litar inte tillräckligt på studenten; antyd högst att det finns mer):\n${persona.hiddenFacts.map(fact => `- ${fact}`).join('\n')}\n\n`;
+      }
+    }
     
     prompt += `Du är en rollspelskaraktär i en träningsövning. Agera enligt ovanstående instruktioner och karaktärsdefinition. Svara naturligt på: "${userInput}"`;
     
@@ -129,26 +174,7 @@ export class RoleplayAgent extends BaseAgent {
   }
 
   /**
-   * Analyze emotional state from user input to adjust parent character response
-   */
-  private analyzeEmotionalState(userInput: string): string {
-    const input = userInput.toLowerCase();
-    
-    if (input.includes('understand') || input.includes('explain')) {
-      return 'curious';
-    } else if (input.includes('worry') || input.includes('concern')) {
-      return 'anxious';
-    } else if (input.includes('help') || input.includes('support')) {
-      return 'hopeful';
-    } else if (input.includes('good') || input.includes('positive')) {
-      return 'relieved';
-    } else {
-      return 'engaged';
-    }
-  }
-
-  /**
-   * Generate initial greeting from parent character
+   * Generate initial greeting from the case character
    */
   async generateInitialGreeting(context: AgentContext): Promise<RoleplayResponse> {
     const greetingContext: AgentContext = {
@@ -157,7 +183,7 @@ export class RoleplayAgent extends BaseAgent {
         ...context.conversationHistory,
         {
           role: 'system',
-          content: 'Generate an opening statement as a concerned parent meeting with a school professional. Express your main worries about your child while being respectful.'
+          content: `Generate an opening statement as ${caseLoader.describe(context.exerciseConfig.persona ?? DEFAULT_CASE_PERSONA)} meeting with a professional. Express your main concerns while staying in character.`
         }
       ]
     };
@@ -2,6 +2,13 @@
  * Agent Configuration - System prompts and settings for each agent
  */
 
+/**
+ * Model tiers as stored in the model_configurations table.
+ * INTERACTIVE agents run on every turn and need low latency;
+ * ANALYTICAL agents run once per transcript and can afford a larger model.
+ */
+export type ModelTier = 'INTERACTIVE' | 'ANALYTICAL';
+
 export const AGENT_CONFIGS = {
   navigator: {
     name: 'Navigator Agent',
@@ -45,7 +52,9 @@ EXEMPEL PÅ BRA SPRÅK:
     
     temperature: 0.7,
     maxTokens: 800,
-    maxRetries: 3
+    maxRetries: 3,
+    maxRepairs: 1, // targeted rewrites of violating spans before a full regeneration
+    modelTier: 'INTERACTIVE' as ModelTier
   },
 
   analyst: {
@@ -76,7 +85,9 @@ EXEMPEL PÅ BRA SPRÅK:
     
     temperature: 0.3,
     maxTokens: 600,
-    maxRetries: 2
+    maxRetries: 2,
+    maxRepairs: 1,
+    modelTier: 'INTERACTIVE' as ModelTier
   },
 
   reviewer: {
@@ -108,7 +119,30 @@ EXEMPEL PÅ BRA SPRÅK:
     
     temperature: 0.4,
     maxTokens: 1000,
-    maxRetries: 2
+    maxRetries: 2,
+    maxRepairs: 1,
+    modelTier: 'ANALYTICAL' as ModelTier
+  },
+
+  roleplay: {
+    name: 'Roleplay Agent',
+    role: 'roleplay',
+    systemPrompt: `Du är en rollspelskaraktär i BASIS Training Platform.
+
+UPPGIFT: Spela den karaktär som beskrivs i övningens case så att studenten kan träna samtalsteknik.
+
+RIKTLINJER:
+- Håll dig strikt inom din karaktär och situation
+- Var realistisk och trovärdig, även när du är orolig eller defensiv
+- Svara kort och naturligt (1-3 meningar) som karaktären skulle göra
+- Ge aldrig feedback, bedömningar eller coachning till studenten
+- Bryt aldrig rollen`,
+
+    temperature: 0.8,
+    maxTokens: 400,
+    maxRetries: 2,
+    maxRepairs: 1,
+    modelTier: 'INTERACTIVE' as ModelTier
   }
 } as const;
 
@@ -0,0 +1,57 @@
+/**
+ * Guardrail Configuration - Semantic temporal direction tier settings
+ *
+ * GUARDRAIL_CLASSIFIER=heuristic (default) | llm | none
+ */
+
+import { AgentType } from './agents';
+
+export type GuardrailSeverity = 'error' | 'warning';
+
+export type TemporalDirection = 'retrospective' | 'prospective' | 'neutral';
+
+export type ClassifierName = 'heuristic' | 'llm' | 'none';
+
+export interface SemanticGuardrailConfig {
+  /** Which classifier backs the semantic tier; 'none' keeps regex-only behaviour */
+  classifier: ClassifierName;
+  /** Minimum classifier confidence for a sentence to count as directional */
+  minConfidence: number;
+  /** Severity of regex hits the classifier does not confirm (e.g. a harmless "nästa") */
+  unconfirmedRegexSeverity: GuardrailSeverity;
+  /**
+   * Severity of paraphrased violations found only by the classifier. Warnings by
+   * default: a heuristic misread should not force repairs until the agent fails.
+   */
+  semanticOnlySeverity: GuardrailSeverity;
+}
+
+/**
+ * Temporal direction each agent must never take.
+ * The Reviewer's constraint is about segment-specific wording, which stays regex-only.
+ */
+export const FORBIDDEN_DIRECTIONS: Partial<Record<AgentType, TemporalDirection>> = {
+  navigator: 'retrospective',
+  analyst: 'prospective'
+};
+
+function parseSeverity(value: string | undefined, fallback: GuardrailSeverity): GuardrailSeverity {
+  return value === 'error' || value === 'warning' ? value : fallback;
+}
+
+function parseClassifier(value: string | undefined): ClassifierName {
+  const name = (value || 'heuristic').toLowerCase();
+  return name === 'llm' || name === 'none' ? name : 'heuristic';
+}
+
+/**
+ * Read semantic guardrail settings from the environment (after dotenv has loaded)
+ */
+export function getSemanticGuardrailConfig(): SemanticGuardrailConfig {
+  return {
+    classifier: parseClassifier(process.env.GUARDRAIL_CLASSIFIER),
+    minConfidence: Number(process.env.GUARDRAIL_MIN_CONFIDENCE) || 0.6,
+    unconfirmedRegexSeverity: parseSeverity(process.env.GUARDRAIL_UNCONFIRMED_REGEX_SEVERITY, 'warning'),
+    semanticOnlySeverity: parseSeverity(process.env.GUARDRAIL_SEMANTIC_ONLY_SEVERITY, 'warning')
+  };
+}
@@ -10,9 +10,17 @@ import { createServer } from 'http';
 import { logger } from './config/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { validateApiKey } from './middleware/validateApiKey';
+import { resolveCallerRole } from './middleware/callerRole';
+import { resolveStudent } from './middleware/studentIdentity';
 import { sessionRoutes } from './routes/session';
 import { transcriptRoutes } from './routes/transcript';
 import { healthRoutes } from './routes/health';
+import { modelRoutes } from './routes/models';
+import { protocolRoutes } from './routes/protocols';
+import { studentRoutes } from './routes/students';
+import { retentionRoutes } from './routes/retention';
+import { sessionSocketServer } from './services/sessionSocket';
+import { reviewJobQueue } from './services/reviewJobQueue';
 
 // Load environment variables
 dotenv.config();
@@ -48,9 +56,19 @@ app.use('/api/health', healthRoutes);
 // API key validation for protected routes
 app.use('/api', validateApiKey);
 
+// Caller role decides whether rubric scores are included in responses
+app.use('/api', resolveCallerRole);
+
+// Enrolled students are identified by their student key
+app.use('/api', resolveStudent);
+
 // Routes
 app.use('/api/session', sessionRoutes);
 app.use('/api/transcript', transcriptRoutes);
+app.use('/api/models', modelRoutes);
+app.use('/api/protocols', protocolRoutes);
+app.use('/api/students', studentRoutes);
+app.use('/api/retention', retentionRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -62,7 +80,12 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/api/health',
       session: '/api/session',
-      transcript: '/api/transcript'
+      transcript: '/api/transcript',
+      models: '/api/models',
+      protocols: '/api/protocols',
+      students: '/api/students',
+      retention: '/api/retention',
+      sessionSocket: '/api/ws/session/:id'
     }
   });
 });
@@ -76,7 +99,8 @@ app.use('*', (req, res) => {
       'GET /api/health',
       'POST /api/session',
       'POST /api/session/:id/input',
-      'POST /api/transcript/review'
+      'POST /api/transcript/review',
+      'GET /api/models'
     ]
   });
 });
@@ -84,6 +108,9 @@ app.use('*', (req, res) => {
 // Error handling
 app.use(errorHandler);
 
+// WebSocket streaming for live sessions
+sessionSocketServer.attach(server);
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
@@ -107,6 +134,9 @@ server.listen(PORT, () => {
     environment: process.env.NODE_ENV || 'development',
     timestamp: new Date().toISOString()
   });
+
+  // Pick up batch review items interrupted by the last shutdown
+  reviewJobQueue.resumePending();
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,59 @@
+/**
+ * Caller Role Middleware
+ * Students use access codes and call the API anonymously; teachers and
+ * researchers send their Supabase access token. The resolved role is stored
+ * in res.locals.callerRole and selects the response projection; the verified
+ * user id is stored in res.locals.callerId for ownership checks.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { supabase } from '../services/supabaseClient';
+import { CallerRole } from '../../src/types/basis';
+
+const ROLE_CACHE_TTL = 5 * 60 * 1000;
+const roleCache = new Map<string, { role: CallerRole; userId: string; expiresAt: number }>();
+
+async function callerForToken(token: string): Promise<{ role: CallerRole; userId?: string }> {
+  const cached = roleCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    return { role: 'student' };
+  }
+
+  // Only verified users are cached, so a transient auth outage is not remembered
+  const role: CallerRole = data.user.app_metadata?.role === 'research' ? 'research' : 'teacher';
+  roleCache.set(token, { role, userId: data.user.id, expiresAt: Date.now() + ROLE_CACHE_TTL });
+  return { role, userId: data.user.id };
+}
+
+export const resolveCallerRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  res.locals.callerRole = 'student';
+  res.locals.callerId = undefined;
+
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const caller = await callerForToken(token);
+    res.locals.callerRole = caller.role;
+    res.locals.callerId = caller.userId;
+  } catch (error) {
+    // Fail closed: an unverifiable token gets the student view
+    logger.warn('Failed to resolve caller role', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  next();
+};
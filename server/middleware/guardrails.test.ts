@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { guardrailValidator } from './guardrails';
+
+const phraseRule = (phrases: string[]) => guardrailValidator.compileRules([{
+  id: 'custom.phrases',
+  agentType: 'analyst',
+  ruleType: 'phrase_list',
+  phrases,
+  severity: 'error'
+}]);
+
+const phraseMatches = (phrases: string[], text: string) =>
+  guardrailValidator.validateTemporal('analyst', text, phraseRule(phrases))
+    .find(violation => violation.ruleId === 'custom.phrases')?.matches ?? [];
+
+describe('phrase list guardrail rules', () => {
+  it('match phrases that start or end with å, ä or ö', () => {
+    expect(phraseMatches(['övning', 'också'], 'Det var en övning och jag också')).toEqual(['övning', 'också']);
+  });
+
+  it('match whole words only', () => {
+    expect(phraseMatches(['rätt'], 'Föräldern berättade om skolan')).toEqual([]);
+    expect(phraseMatches(['bra'], 'Du visade tålamod, det var bra.')).toEqual(['bra']);
+  });
+
+  it('treat regex characters in phrases literally', () => {
+    expect(phraseMatches(['(nästa)'], 'Inför (nästa) steg')).toEqual(['(nästa)']);
+  });
+});
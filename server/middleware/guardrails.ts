@@ -1,69 +1,125 @@
 /**
  * Guardrails - Temporal Direction Enforcement for Agents
- * Blocks agents from violating their temporal constraints
+ * Blocks agents from violating their temporal constraints.
+ * Tier 1 matches fixed regex patterns; tier 2 classifies each sentence's
+ * temporal direction so paraphrases are caught and harmless hits downgraded.
  */
 
 import { AgentType } from '../config/agents';
 import { logger } from '../config/logger';
-
-// Regex patterns for temporal direction violations
-const NAVIGATOR_FORBIDDEN_PATTERNS = [
-  /\b(nyligen|precis|nyss|du gjorde|tidigare svar|det som hände|i ditt förra)\b/gi,
-  /\b(you just|previously|earlier|what happened|your last)\b/gi,
-  /\b(analys av|feedback på|bedömning av) .*(replik|svar|yttrande)\b/gi
-];
-
-const ANALYST_FORBIDDEN_PATTERNS = [
-  /\b(nästa gång|framöver|bör du nu|kommande steg|fortsätt med|nästa)\b/gi,
-  /\b(next time|going forward|you should now|upcoming|continue to)\b/gi,
-  /\b(i framtiden|kommande|planera för|förbered dig)\b/gi
-];
-
-const REVIEWER_FORBIDDEN_PATTERNS = [
-  /\bsegment_id\b/gi,
-  /\b(i replik|efter replik|denna specifika|just nu)\b/gi,
-  /\b(this specific response|in this reply|right now)\b/gi
-];
+import { FORBIDDEN_DIRECTIONS, getSemanticGuardrailConfig } from '../config/guardrails';
+import { getTemporalClassifier, splitSentences } from '../services/temporalClassifier';
+import {
+  BUILT_IN_GUARDRAIL_RULES,
+  GuardrailRuleDefinition,
+  GuardrailRuleSeverity,
+  SEMANTIC_GUARDRAIL_RULE_IDS
+} from '../../src/types/guardrailRules';
 
 export interface GuardrailViolation {
   agentType: AgentType;
-  violationType: 'temporal_direction' | 'schema_compliance';
+  violationType: 'temporal_direction' | 'semantic_direction' | 'schema_compliance' | 'protocol_validation';
   pattern: string;
   matches: string[];
   severity: 'error' | 'warning';
+  /** Id of the built-in or exercise rule that matched */
+  ruleId?: string;
+  /** Classifier that confirmed or raised the violation, if the semantic tier ran */
+  classifier?: string;
+  /** Highest classifier confidence among the flagged sentences */
+  confidence?: number;
+  /** Protocol whose validationRules were broken (protocol_validation only) */
+  protocolId?: string;
+  /** Response field that was validated (protocol_validation only) */
+  field?: string;
+}
+
+interface CompiledRule {
+  id: string;
+  agentType: AgentType;
+  regex: RegExp;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Built-in rules merged with an exercise's rules, ready for validation
+ */
+export interface GuardrailRuleSet {
+  rules: CompiledRule[];
+  /** Severity overrides for the semantic tier per agent */
+  semanticSeverity: Partial<Record<AgentType, GuardrailRuleSeverity>>;
 }
 
+// JSON fields that hold identifiers or enums rather than prose
+const NON_PROSE_FIELDS = new Set(['type', 'segment_id', 'field']);
+
 export class GuardrailValidator {
   
+  private defaultRuleSet: GuardrailRuleSet | null = null;
+
   /**
-   * Validate agent response against temporal direction rules
+   * Merge exercise rules with the built-in defaults. Severity overrides apply to
+   * built-in rules, custom rules and the semantic tier; invalid patterns are skipped.
    */
-  validateTemporal(agentType: AgentType, responseText: string): GuardrailViolation[] {
-    const violations: GuardrailViolation[] = [];
-    
-    let patterns: RegExp[] = [];
-    
-    switch (agentType) {
-      case 'navigator':
-        patterns = NAVIGATOR_FORBIDDEN_PATTERNS;
-        break;
-      case 'analyst':  
-        patterns = ANALYST_FORBIDDEN_PATTERNS;
-        break;
-      case 'reviewer':
-        patterns = REVIEWER_FORBIDDEN_PATTERNS;
-        break;
+  compileRules(customRules: GuardrailRuleDefinition[] = []): GuardrailRuleSet {
+    const enabled = customRules.filter(rule => rule.enabled !== false);
+    const overrides = new Map<string, GuardrailRuleSeverity>();
+    for (const rule of enabled) {
+      if (rule.ruleType === 'severity_override' && rule.targetRuleId) {
+        overrides.set(rule.targetRuleId, rule.severity);
+      }
     }
 
-    for (const pattern of patterns) {
-      const matches = responseText.match(pattern);
+    const definitions = [
+      ...BUILT_IN_GUARDRAIL_RULES,
+      ...enabled.filter(rule => rule.ruleType !== 'severity_override')
+    ];
+
+    const rules: CompiledRule[] = [];
+    for (const definition of definitions) {
+      const severity = overrides.get(definition.id) ?? definition.severity;
+      if (severity === 'off') continue;
+
+      const regex = compilePattern(definition);
+      if (!regex) {
+        logger.warn('Skipping guardrail rule with invalid pattern', {
+          ruleId: definition.id,
+          ruleType: definition.ruleType
+        });
+        continue;
+      }
+
+      rules.push({ id: definition.id, agentType: definition.agentType, regex, severity });
+    }
+
+    const semanticSeverity: GuardrailRuleSet['semanticSeverity'] = {};
+    for (const [agentType, ruleId] of Object.entries(SEMANTIC_GUARDRAIL_RULE_IDS)) {
+      const override = ruleId ? overrides.get(ruleId) : undefined;
+      if (override) {
+        semanticSeverity[agentType as AgentType] = override;
+      }
+    }
+
+    return { rules, semanticSeverity };
+  }
+
+  /**
+   * Validate agent response against temporal direction rules (regex tier)
+   */
+  validateTemporal(agentType: AgentType, responseText: string, ruleSet?: GuardrailRuleSet): GuardrailViolation[] {
+    const violations: GuardrailViolation[] = [];
+    const rules = (ruleSet ?? this.getDefaultRuleSet()).rules.filter(rule => rule.agentType === agentType);
+
+    for (const rule of rules) {
+      const matches = responseText.match(rule.regex);
       if (matches && matches.length > 0) {
         violations.push({
           agentType,
           violationType: 'temporal_direction',
-          pattern: pattern.source,
+          pattern: rule.regex.source,
           matches: [...new Set(matches)], // Remove duplicates
-          severity: 'error'
+          severity: rule.severity,
+          ruleId: rule.id
         });
       }
     }
@@ -71,6 +127,78 @@ export class GuardrailValidator {
     return violations;
   }
 
+  /**
+   * Validate with both tiers: regex hits are confirmed or downgraded by the
+   * temporal classifier, and classifier-only hits become semantic violations
+   */
+  async validate(agentType: AgentType, responseText: string, ruleSet?: GuardrailRuleSet): Promise<GuardrailViolation[]> {
+    const regexViolations = this.validateTemporal(agentType, responseText, ruleSet);
+    const forbiddenDirection = FORBIDDEN_DIRECTIONS[agentType];
+    const classifier = getTemporalClassifier();
+    const semanticOverride = ruleSet?.semanticSeverity[agentType];
+
+    if (!forbiddenDirection || !classifier || semanticOverride === 'off') {
+      return regexViolations;
+    }
+
+    const config = getSemanticGuardrailConfig();
+    const classifications = await classifier.classify(splitSentences(extractProse(responseText)), agentType);
+    const flagged = classifications.filter(c =>
+      c.direction === forbiddenDirection && c.confidence >= config.minConfidence
+    );
+    const containsMatch = (sentence: string, matches: string[]) =>
+      matches.some(match => sentence.toLowerCase().includes(match.toLowerCase()));
+
+    const violations: GuardrailViolation[] = regexViolations.map(violation => {
+      const confirming = flagged.filter(c => containsMatch(c.sentence, violation.matches));
+
+      return confirming.length > 0
+        ? {
+            ...violation,
+            classifier: classifier.name,
+            confidence: Math.max(...confirming.map(c => c.confidence))
+          }
+        : {
+            ...violation,
+            // Unconfirmed hits are never stricter than the rule itself
+            severity: violation.severity === 'warning' ? 'warning' : config.unconfirmedRegexSeverity,
+            classifier: classifier.name
+          };
+    });
+
+    const regexMatches = regexViolations.flatMap(v => v.matches);
+    const semanticOnly = flagged.filter(c => !containsMatch(c.sentence, regexMatches));
+
+    if (semanticOnly.length > 0) {
+      violations.push({
+        agentType,
+        violationType: 'semantic_direction',
+        pattern: `${classifier.name}:${forbiddenDirection}`,
+        matches: semanticOnly.map(c => c.sentence),
+        severity: semanticOverride ?? config.semanticOnlySeverity,
+        ruleId: SEMANTIC_GUARDRAIL_RULE_IDS[agentType as keyof typeof SEMANTIC_GUARDRAIL_RULE_IDS],
+        classifier: classifier.name,
+        confidence: Math.max(...semanticOnly.map(c => c.confidence))
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Violations that should block or retry a response (warnings are only logged)
+   */
+  getErrors(violations: GuardrailViolation[]): GuardrailViolation[] {
+    return violations.filter(v => v.severity === 'error');
+  }
+
+  private getDefaultRuleSet(): GuardrailRuleSet {
+    if (!this.defaultRuleSet) {
+      this.defaultRuleSet = this.compileRules();
+    }
+    return this.defaultRuleSet;
+  }
+
   /**
    * Check if response violates guardrails
    */
@@ -86,6 +214,10 @@ export class GuardrailValidator {
     return violations.map(v => {
       const agentName = v.agentType.charAt(0).toUpperCase() + v.agentType.slice(1);
       const matched = v.matches.join(', ');
+
+      if (v.violationType === 'protocol_validation') {
+        return `${agentName} agent broke the rules of protocol "${v.protocolId}" in ${v.field}: ${v.pattern}`;
+      }
       
       switch (v.agentType) {
         case 'navigator':
@@ -109,9 +241,12 @@ export class GuardrailValidator {
         sessionId,
         agentType: violation.agentType,
         violationType: violation.violationType,
+        ruleId: violation.ruleId,
         pattern: violation.pattern,
         matches: violation.matches,
         severity: violation.severity,
+        classifier: violation.classifier,
+        confidence: violation.confidence,
         timestamp: new Date().toISOString()
       });
     }
@@ -129,43 +264,108 @@ export const validateAgentResponse = (agentType: AgentType) => {
     const originalJson = res.json;
     
     res.json = function(body: any) {
-      // Check if response contains agent output
-      if (body && typeof body === 'object') {
-        let responseText = '';
-        
-        // Extract text from common response patterns
-        if (body.agentFeedback) {
-          responseText = JSON.stringify(body.agentFeedback);
-        } else if (body.analysis) {
-          responseText = JSON.stringify(body.analysis);
-        } else {
-          responseText = JSON.stringify(body);
-        }
-
-        const violations = guardrailValidator.validateTemporal(agentType, responseText);
-        
-        if (violations.length > 0) {
+      // Only check bodies that contain agent output
+      if (!body || typeof body !== 'object' || body.error) {
+        return originalJson.call(this, body);
+      }
+
+      let responseText = '';
+
+      // Extract text from common response patterns, scoped to this agent where possible
+      if (body.agentFeedback) {
+        responseText = JSON.stringify(body.agentFeedback[agentType] ?? body.agentFeedback);
+      } else if (body.analysis) {
+        responseText = JSON.stringify(body.analysis);
+      } else {
+        responseText = JSON.stringify(body);
+      }
+
+      // Routes set res.locals.guardrailRules to the session's exercise rules
+      const ruleSet = Array.isArray(res.locals?.guardrailRules)
+        ? guardrailValidator.compileRules(res.locals.guardrailRules)
+        : undefined;
+
+      guardrailValidator.validate(agentType, responseText, ruleSet)
+        .then(violations => {
+          if (violations.length === 0) {
+            return originalJson.call(this, body);
+          }
+
           guardrailValidator.logViolations(violations, req.sessionId);
-          
+          const errors = guardrailValidator.getErrors(violations);
+
           // In development, log warnings but allow response
-          if (process.env.NODE_ENV === 'development') {
-            logger.warn('Guardrail violations detected in development mode', {
-              violations: guardrailValidator.getViolationMessages(violations)
-            });
-          } else {
-            // In production, block response with violations
-            return originalJson.call(this, {
-              error: 'GUARDRAIL_VIOLATION',
-              message: 'Agent response violated temporal constraints',
+          if (process.env.NODE_ENV === 'development' || errors.length === 0) {
+            logger.warn('Guardrail violations detected, allowing response', {
               violations: guardrailValidator.getViolationMessages(violations)
             });
+            return originalJson.call(this, body);
           }
-        }
-      }
-      
-      return originalJson.call(this, body);
+
+          // Otherwise block responses with error-severity violations
+          return originalJson.call(this, {
+            error: 'GUARDRAIL_VIOLATION',
+            message: 'Agent response violated temporal constraints',
+            violations: guardrailValidator.getViolationMessages(errors)
+          });
+        })
+        .catch(error => {
+          logger.error('Guardrail validation failed, allowing response', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return originalJson.call(this, body);
+        });
+
+      return this;
     };
     
     next();
   };
-};
\ No newline at end of file
+};
+/**
+ * Build the case-insensitive regex for a regex or phrase_list rule
+ */
+function compilePattern(rule: GuardrailRuleDefinition): RegExp | null {
+  try {
+    if (rule.ruleType === 'regex' && rule.pattern) {
+      return new RegExp(rule.pattern, 'gi');
+    }
+
+    const phrases = (rule.phrases ?? []).map(phrase => phrase.trim()).filter(Boolean);
+    if (rule.ruleType === 'phrase_list' && phrases.length > 0) {
+      const escaped = phrases.map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      // \b does not treat å, ä and ö as word characters; Unicode letter lookarounds do
+      return new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Pull prose out of a JSON agent response so identifiers and enums are not classified
+ */
+function extractProse(responseText: string): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    return responseText;
+  }
+
+  const parts: string[] = [];
+  const visit = (value: unknown, key?: string) => {
+    if (typeof value === 'string') {
+      if (!key || !NON_PROSE_FIELDS.has(key)) parts.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    }
+  };
+  visit(parsed);
+
+  return parts.join('\n');
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { sessionManager, SessionState } from '../services/sessionManager';
+import { requireSessionAccess } from './sessionAccess';
+
+const RESUME_TOKEN = 'resume-token-of-the-student';
+
+const session = (metadata: Partial<SessionState['metadata']> = {}) => ({
+  id: 'session-1',
+  metadata: {
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+    resumeTokenHash: createHash('sha256').update(RESUME_TOKEN).digest('hex'),
+    ...metadata
+  }
+}) as SessionState;
+
+async function run(headers: Record<string, string>, student?: { id: string }) {
+  const req = {
+    params: { id: 'session-1' },
+    path: '/session-1/input',
+    get: (name: string) => headers[name]
+  } as unknown as Request;
+  const res = {
+    locals: { student },
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    }
+  };
+  const next = vi.fn();
+
+  await requireSessionAccess()(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('requireSessionAccess', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets the student with the resume token through', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session());
+
+    const { res, next } = await run({ 'X-Resume-Token': RESUME_TOKEN });
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals).toHaveProperty('session.id', 'session-1');
+  });
+
+  it('lets the enrolled student who started the session through by student key', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session({ studentId: 'student-1' }));
+
+    const { next } = await run({}, { id: 'student-1' });
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['without credentials', {}, undefined],
+    ['with a wrong resume token', { 'X-Resume-Token': 'guessed' }, undefined],
+    ['with another student key', {}, { id: 'student-2' }]
+  ])('rejects callers %s', async (_label, headers: Record<string, string>, student) => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session({ studentId: 'student-1' }));
+
+    const { res, next } = await run(headers, student);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toMatchObject({ error: 'SESSION_ACCESS_FORBIDDEN' });
+  });
+
+  it('returns 404 for unknown sessions', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(null);
+
+    const { res, next } = await run({ 'X-Resume-Token': RESUME_TOKEN });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(404);
+  });
+});
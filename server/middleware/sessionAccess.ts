@@ -0,0 +1,55 @@
+/**
+ * Session Access Middleware
+ * Only the student who started a session may use it: requests to a session must
+ * carry its resume token (X-Resume-Token) or, for enrolled students, their student
+ * key (resolved into res.locals.student). The loaded session is stored in
+ * res.locals.session for the route handler.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { sessionManager } from '../services/sessionManager';
+import { RESUME_TOKEN_HEADER } from '../../src/types/sessionResume';
+
+export const requireSessionAccess = (options: { includeClosed?: boolean } = {}) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  res.locals.session = undefined;
+
+  try {
+    const session = await sessionManager.getSession(req.params.id, options);
+    if (!session) {
+      return res.status(404).json({
+        error: 'SESSION_NOT_FOUND',
+        message: 'Training session not found or expired'
+      });
+    }
+
+    const allowed = sessionManager.canResume(session, {
+      resumeToken: req.get(RESUME_TOKEN_HEADER),
+      studentId: res.locals.student?.id
+    });
+    if (!allowed) {
+      logger.warn('Session access denied', { sessionId: session.id, path: req.path });
+      return res.status(403).json({
+        error: 'SESSION_ACCESS_FORBIDDEN',
+        message: 'Only the student who started this session can use it'
+      });
+    }
+
+    res.locals.session = session;
+  } catch (error) {
+    logger.error('Session access check failed', {
+      sessionId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: 'SESSION_RETRIEVAL_FAILED',
+      message: 'Failed to retrieve session'
+    });
+  }
+
+  next();
+};
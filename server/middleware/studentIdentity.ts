@@ -0,0 +1,46 @@
+/**
+ * Student Identity Middleware
+ * Enrolled students send their student key in X-Student-Key. The student is
+ * stored in res.locals.student; requests without the header stay anonymous,
+ * while an unknown key is rejected so sessions are never silently detached
+ * from the student who believes they own them.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { studentIdentity } from '../services/studentIdentity';
+import { STUDENT_KEY_HEADER } from '../../src/types/students';
+
+export const resolveStudent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const studentKey = req.get(STUDENT_KEY_HEADER)?.trim();
+  res.locals.student = undefined;
+
+  if (!studentKey) {
+    return next();
+  }
+
+  try {
+    const student = await studentIdentity.authenticate(studentKey);
+    if (!student) {
+      return res.status(401).json({
+        error: 'STUDENT_KEY_INVALID',
+        message: 'The student key is not recognised; join your class again or check the key'
+      });
+    }
+    res.locals.student = student;
+  } catch (error) {
+    logger.error('Failed to resolve student key', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(503).json({
+      error: 'STUDENT_LOOKUP_FAILED',
+      message: 'Could not verify the student key, please try again'
+    });
+  }
+
+  next();
+};
@@ -4,37 +4,51 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../config/logger';
+import { getLLMProvider } from '../providers';
 
-export const validateApiKey = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
+/**
+ * Why the server cannot call the LLM provider, or null when it is configured.
+ * Also checked for WebSocket upgrades, which bypass the Express middleware.
+ */
+export function apiKeyConfigurationError(): string | null {
   // Skip validation in development mode
   if (process.env.NODE_ENV === 'development' && !process.env.REQUIRE_API_KEY) {
-    return next();
+    return null;
+  }
+
+  // Local and stub providers run without an OpenAI key
+  if (!getLLMProvider().requiresApiKey) {
+    return null;
   }
 
   // Check if OpenAI API key is configured
   if (!process.env.OPENAI_API_KEY) {
     logger.error('OpenAI API key not configured');
-    
-    return res.status(500).json({
-      error: 'API_CONFIGURATION_ERROR',
-      message: 'OpenAI API key not configured. Please contact administrator.'
-    });
+    return 'OpenAI API key not configured. Please contact administrator.';
   }
 
   // Validate API key length (OpenAI keys start with 'sk-' and are ~51 chars)
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey.startsWith('sk-') || apiKey.length < 40) {
     logger.error('Invalid OpenAI API key format');
-    
+    return 'Invalid API key configuration. Please contact administrator.';
+  }
+
+  return null;
+}
+
+export const validateApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const configurationError = apiKeyConfigurationError();
+  if (configurationError) {
     return res.status(500).json({
       error: 'API_CONFIGURATION_ERROR',
-      message: 'Invalid API key configuration. Please contact administrator.'
+      message: configurationError
     });
   }
 
   next();
-};
\ No newline at end of file
+};
@@ -8,6 +8,7 @@ interface ExerciseConfig {
   caseBackground?: string;
   meta?: {
     instructionContent?: string;
+    protocolContent?: string;
   };
   [key: string]: any;
 }
@@ -0,0 +1,55 @@
+/**
+ * LLM Provider Registry - Selects the provider backing all agents
+ *
+ * LLM_PROVIDER=openai (default) | local | stub
+ */
+
+import { logger } from '../config/logger';
+import { LLMProvider } from './types';
+import { LocalProvider, OpenAIProvider } from './openaiProvider';
+import { StubProvider } from './stubProvider';
+
+export type ProviderName = 'openai' | 'local' | 'stub';
+
+let activeProvider: LLMProvider | null = null;
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'local':
+      return new LocalProvider();
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Get the configured provider, creating it on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+    activeProvider = createProvider(name);
+    logger.info('LLM provider initialized', {
+      provider: activeProvider.name,
+      defaultModel: activeProvider.defaultModel
+    });
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (e.g. a StubProvider in tests)
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  activeProvider = provider;
+}
+
+export type { LLMProvider, LLMCompletion, LLMMessage, StructuredCompletionRequest, TextStreamRequest } from './types';
+export { ModelRejectedError } from './types';
+export { OpenAIProvider, LocalProvider } from './openaiProvider';
+export { StubProvider } from './stubProvider';
@@ -0,0 +1,168 @@
+/**
+ * OpenAI Providers - Hosted OpenAI and OpenAI-compatible local endpoints
+ */
+
+import OpenAI from 'openai';
+import { LLMCompletion, LLMProvider, ModelRejectedError, StructuredCompletionRequest, TextStreamRequest } from './types';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly requiresApiKey: boolean = true;
+  readonly defaultModel: string;
+  protected client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string; defaultModel?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: options.baseURL
+    });
+    this.defaultModel = options.defaultModel || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+
+  /**
+   * Call chat completions with strict structured output
+   */
+  async completeJSON(request: StructuredCompletionRequest): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel;
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: request.schemaName,
+          schema: request.schema as Record<string, unknown>,
+          strict: true
+        }
+      }
+    }).catch(error => this.rethrow(error, model));
+
+    return this.toCompletion(completion, model);
+  }
+
+  /**
+   * Stream plain-text chat completion tokens
+   */
+  async streamText(request: TextStreamRequest, onToken: (delta: string) => void): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel;
+
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true }
+    }).catch(error => this.rethrow(error, model));
+
+    let content = '';
+    let usage: LLMCompletion['usage'];
+    let resolvedModel = model;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens
+        };
+      }
+      resolvedModel = chunk.model || resolvedModel;
+    }
+
+    if (!content) {
+      throw new Error(`No response content from ${this.name} provider`);
+    }
+
+    return { content, model: resolvedModel, usage };
+  }
+
+  /**
+   * Surface model rejections as ModelRejectedError so callers can fall back
+   */
+  protected rethrow(error: unknown, model: string): never {
+    if (error instanceof OpenAI.APIError) {
+      const code = typeof error.code === 'string' ? error.code : '';
+      const modelRejected = error.status === 404
+        || code === 'model_not_found'
+        || (error.status === 400 && /model/i.test(error.message) && /(does not exist|not supported|invalid)/i.test(error.message));
+
+      if (modelRejected) {
+        throw new ModelRejectedError(model, error.message);
+      }
+    }
+
+    throw error;
+  }
+
+  protected toCompletion(completion: OpenAI.Chat.Completions.ChatCompletion, model: string): LLMCompletion {
+    const content = completion.choices[0]?.message?.content;
+
+    if (!content) {
+      throw new Error(`No response content from ${this.name} provider`);
+    }
+
+    return {
+      content,
+      model: completion.model || model,
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens
+          }
+        : undefined
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible local endpoint (e.g. Ollama, vLLM, LM Studio).
+ * Many local servers do not support strict json_schema, so by default the
+ * schema is sent as an instruction and JSON mode is requested instead.
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name: string = 'local';
+  readonly requiresApiKey: boolean = false;
+  private readonly useStrictSchema: boolean;
+
+  constructor() {
+    super({
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1'
+    });
+    this.useStrictSchema = process.env.LOCAL_LLM_JSON_MODE === 'json_schema';
+  }
+
+  async completeJSON(request: StructuredCompletionRequest): Promise<LLMCompletion> {
+    if (this.useStrictSchema) {
+      return super.completeJSON(request);
+    }
+
+    const model = request.model || this.defaultModel;
+    const messages = [
+      ...request.messages,
+      {
+        role: 'system' as const,
+        content: `Svara ENDAST med ett JSON-objekt som följer detta JSON-schema:\n${JSON.stringify(request.schema)}`
+      }
+    ];
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: "json_object" }
+    }).catch(error => this.rethrow(error, model));
+
+    return this.toCompletion(completion, model);
+  }
+}
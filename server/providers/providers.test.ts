@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Ajv from 'ajv';
+import { AGENT_SCHEMAS } from '../schemas/agentSchemas';
+import { AgentType } from '../config/agents';
+import { LLMMessage } from './types';
+import { StubProvider } from './stubProvider';
+
+const SYSTEM_PROMPT = 'Du är en agent.\n\nRUBRIC-FÄLT\n- Empathy\n- Active Listening\n\nSlut.';
+
+const request = (agentType: AgentType, messages: LLMMessage[] = [
+  { role: 'system', content: SYSTEM_PROMPT },
+  { role: 'user', content: 'Jag förstår att du är orolig för ditt barn.' }
+]) => ({
+  agentType,
+  messages,
+  temperature: 0.5,
+  maxTokens: 500,
+  schemaName: `${agentType}_response`,
+  schema: AGENT_SCHEMAS[agentType]
+});
+
+describe('provider selection', () => {
+  const original = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.env.LLM_PROVIDER = original;
+  });
+
+  it('uses the provider named by LLM_PROVIDER', async () => {
+    process.env.LLM_PROVIDER = 'STUB';
+    const { getLLMProvider } = await import('./index');
+
+    const provider = getLLMProvider();
+    expect(provider.name).toBe('stub');
+    expect(provider.requiresApiKey).toBe(false);
+    expect(getLLMProvider()).toBe(provider);
+  });
+
+  it('selects the OpenAI-compatible local endpoint', async () => {
+    process.env.LLM_PROVIDER = 'local';
+    const { getLLMProvider } = await import('./index');
+
+    expect(getLLMProvider().name).toBe('local');
+  });
+
+  it('rejects unknown providers', async () => {
+    process.env.LLM_PROVIDER = 'unknown';
+    const { getLLMProvider } = await import('./index');
+
+    expect(() => getLLMProvider()).toThrow('Unknown LLM provider: unknown');
+  });
+
+  it('lets tests replace the active provider', async () => {
+    process.env.LLM_PROVIDER = 'local';
+    const { getLLMProvider, setLLMProvider } = await import('./index');
+    const stub = new StubProvider();
+
+    setLLMProvider(stub);
+    expect(getLLMProvider()).toBe(stub);
+  });
+});
+
+describe('StubProvider', () => {
+  const provider = new StubProvider();
+  const ajv = new Ajv({ strict: false });
+
+  it.each(['navigator', 'analyst', 'reviewer', 'roleplay'] as AgentType[])(
+    'returns schema-valid %s JSON',
+    async agentType => {
+      const completion = await provider.completeJSON(request(agentType));
+      const validate = ajv.compile(AGENT_SCHEMAS[agentType]);
+
+      expect(validate(JSON.parse(completion.content))).toBe(true);
+      expect(completion.model).toBe('stub');
+    }
+  );
+
+  it('is deterministic for the same conversation', async () => {
+    const first = await provider.completeJSON(request('analyst'));
+    const second = await provider.completeJSON(request('analyst'));
+
+    expect(second.content).toBe(first.content);
+  });
+
+  it('scores the rubric fields of the rendered protocol', async () => {
+    const completion = await provider.completeJSON(request('analyst'));
+    const fields = JSON.parse(completion.content).rubric.map((entry: { field: string }) => entry.field);
+
+    expect(fields).toEqual(['Empathy', 'Active Listening']);
+  });
+
+  it('falls back to the default rubric without a protocol', async () => {
+    const completion = await provider.completeJSON(request('reviewer', [
+      { role: 'user', content: 'Hur mår ni idag?' }
+    ]));
+
+    expect(JSON.parse(completion.content).rubric_summary).toHaveLength(4);
+  });
+
+  it('streams roleplay text token by token', async () => {
+    const tokens: string[] = [];
+    const completion = await provider.streamText(request('roleplay'), token => tokens.push(token));
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(completion.content);
+    expect(completion.content.startsWith('{')).toBe(false);
+  });
+});
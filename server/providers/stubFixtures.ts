@@ -0,0 +1,58 @@
+/**
+ * Stub Fixtures - Canned, schema-valid agent outputs for the offline stub provider
+ * Texts must pass the temporal guardrails for their agent type.
+ */
+
+import { NavigatorResponse, ReviewerResponse } from '../schemas/agentSchemas';
+
+export const NAVIGATOR_FIXTURES: NavigatorResponse[] = [
+  {
+    type: 'feedforward',
+    next_focus: 'Utforska förälderns oro med en öppen fråga',
+    micro_objective: 'Ställ en öppen fråga om vad som oroar föräldern mest',
+    guardrails: ['Lyssna innan du föreslår lösningar', 'Bekräfta känslor med egna ord'],
+    user_prompt: 'Börja med att bjuda in föräldern att berätta med egna ord vad som oroar hen mest.'
+  },
+  {
+    type: 'feedforward',
+    next_focus: 'Sammanfatta det föräldern berättar',
+    micro_objective: 'Gör en kort parafras av förälderns huvudsakliga oro',
+    guardrails: ['Håll sammanfattningen kort', 'Undvik att värdera det som sägs'],
+    user_prompt: 'Sikta på att spegla förälderns viktigaste poäng innan du går vidare till frågor om stöd.'
+  },
+  {
+    type: 'feedforward',
+    next_focus: 'Validera förälderns känslor',
+    micro_objective: 'Sätt ord på den känsla föräldern uttrycker',
+    guardrails: ['Använd ett lugnt tempo', 'Ge utrymme för pauser'],
+    user_prompt: 'Försök att namnge känslan du uppfattar hos föräldern och kontrollera om du har förstått rätt.'
+  }
+];
+
+export const ANALYST_FEEDBACK_FIXTURES: string[] = [
+  'Du visade intresse för förälderns situation genom att ställa en fråga. Det gav föräldern utrymme att beskriva oron med egna ord.',
+  'Din formulering bekräftade förälderns känslor. Föräldern fick då möjlighet att känna sig hörd i samtalet.',
+  'Du sammanfattade det föräldern berättat. Sammanfattningen skapade en gemensam bild av situationen.'
+];
+
+export const REVIEWER_FIXTURE: Omit<ReviewerResponse, 'rubric_summary' | 'exemplar_quotes'> = {
+  type: 'holistic_feedback',
+  strengths: [
+    'Genomgående visade samtalet ett respektfullt bemötande',
+    'Ett återkommande mönster var öppna frågor som bjöd in föräldern'
+  ],
+  growth_areas: [
+    'Sammanfattningar av förälderns oro förekom sparsamt över samtalet',
+    'Känslor bekräftades ibland innan de utforskats fullt ut'
+  ],
+  summary: 'Över hela interaktionen präglades samtalet av ett lyssnande förhållningssätt och ett lugnt tempo. Den sammantagna bilden visar en god grund att bygga vidare på.'
+};
+
+export const ROLEPLAY_FIXTURES: string[] = [
+  'Jag vet inte riktigt var jag ska börja. Jag är bara så orolig för hur mitt barn har det i skolan.',
+  'Det känns som att ingen lyssnar på oss. Vi har försökt prata med lärarna flera gånger.',
+  'Ja, precis så känns det. Hemma är hen tyst och vill inte berätta något om skoldagen.',
+  'Jag vill bara veta vad som händer och hur vi kan hjälpa till hemma.'
+];
+
+export const DEFAULT_RUBRIC_FIELDS = ['Active Listening', 'Empathy', 'Professionalism', 'Problem Resolution'];
@@ -0,0 +1,134 @@
+/**
+ * Stub Provider - Deterministic, offline provider for development and tests
+ * Returns schema-valid fixtures chosen from a hash of the conversation.
+ */
+
+import { AgentResponse } from '../schemas/agentSchemas';
+import { LLMCompletion, LLMMessage, LLMProvider, StructuredCompletionRequest, TextStreamRequest } from './types';
+import {
+  ANALYST_FEEDBACK_FIXTURES,
+  DEFAULT_RUBRIC_FIELDS,
+  NAVIGATOR_FIXTURES,
+  REVIEWER_FIXTURE,
+  ROLEPLAY_FIXTURES
+} from './stubFixtures';
+
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly requiresApiKey = false;
+  readonly defaultModel = 'stub';
+
+  async completeJSON(request: StructuredCompletionRequest): Promise<LLMCompletion> {
+    const response = this.buildResponse(request);
+    const content = JSON.stringify(response);
+
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      usage: {
+        promptTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+
+  /**
+   * Stream the roleplay fixture (or the agent's JSON fixture) word by word
+   */
+  async streamText(request: TextStreamRequest, onToken: (delta: string) => void): Promise<LLMCompletion> {
+    const completion = await this.completeJSON({
+      ...request,
+      schemaName: `${request.agentType}_response`,
+      schema: {}
+    });
+    const parsed = JSON.parse(completion.content) as AgentResponse;
+    const content = parsed.type === 'roleplay' ? parsed.content : completion.content;
+
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      onToken(token);
+      // Yield between tokens so consumers observe a real stream
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return { ...completion, content };
+  }
+
+  private buildResponse(request: StructuredCompletionRequest): AgentResponse {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const seed = hash(`${request.agentType}:${request.messages.length}:${lastUserMessage}`);
+
+    switch (request.agentType) {
+      case 'navigator':
+        return pick(NAVIGATOR_FIXTURES, seed);
+
+      case 'analyst': {
+        const fields = extractRubricFields(request.messages);
+        return {
+          type: 'iterative_feedback',
+          segment_id: `seg_stub${seed.toString(36)}`,
+          rubric: fields.map((field, index) => ({ field, score: (seed + index) % 2 === 0 ? 2 : 3 })),
+          evidence_quotes: [toQuote(lastUserMessage, 'Studentens senaste replik')],
+          past_only_feedback: pick(ANALYST_FEEDBACK_FIXTURES, seed)
+        };
+      }
+
+      case 'reviewer': {
+        const fields = extractRubricFields(request.messages);
+        return {
+          ...REVIEWER_FIXTURE,
+          rubric_summary: fields.map((field, index) => ({ field, score: (seed + index) % 3 === 0 ? 3 : 2 })),
+          exemplar_quotes: lastUserMessage.length >= 10 ? [toQuote(lastUserMessage, '')] : []
+        };
+      }
+
+      case 'roleplay':
+        return {
+          type: 'roleplay',
+          content: pick(ROLEPLAY_FIXTURES, seed)
+        };
+    }
+  }
+}
+
+/**
+ * Read rubric field names from the rendered protocol context so stub scores
+ * use the same field names as real agents would
+ */
+function extractRubricFields(messages: LLMMessage[]): string[] {
+  const systemPrompt = messages.find(m => m.role === 'system')?.content ?? '';
+  const section = systemPrompt.split('RUBRIC-FÄLT')[1];
+
+  if (!section) {
+    return DEFAULT_RUBRIC_FIELDS;
+  }
+
+  const fields: string[] = [];
+  for (const line of section.split('\n').slice(1)) {
+    const match = line.match(/^- (.+)$/);
+    if (!match) break;
+    fields.push(match[1].trim());
+  }
+
+  return fields.length > 0 ? fields.slice(0, 8) : DEFAULT_RUBRIC_FIELDS;
+}
+
+function toQuote(text: string, fallback: string): string {
+  const trimmed = text.trim().slice(0, 200);
+  return trimmed.length >= 10 ? trimmed : fallback;
+}
+
+function pick<T>(items: T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+function hash(value: string): number {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return result;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,69 @@
+/**
+ * LLM Provider Types - Common interface for model backends used by agents
+ */
+
+import { AgentType } from '../config/agents';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface StructuredCompletionRequest {
+  agentType: AgentType;
+  /** Model to use; providers fall back to their default model when omitted */
+  model?: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  schemaName: string;
+  schema: object;
+}
+
+export interface TextStreamRequest {
+  agentType: AgentType;
+  /** Model to use; providers fall back to their default model when omitted */
+  model?: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMCompletion {
+  /** Raw JSON string (or full text for streamed completions) returned by the model */
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  /** Whether the provider needs OPENAI_API_KEY to be configured */
+  readonly requiresApiKey: boolean;
+
+  readonly defaultModel: string;
+
+  /**
+   * Generate a completion that conforms to the given JSON schema
+   */
+  completeJSON(request: StructuredCompletionRequest): Promise<LLMCompletion>;
+
+  /**
+   * Stream a plain-text completion, calling onToken for each delta
+   */
+  streamText(request: TextStreamRequest, onToken: (delta: string) => void): Promise<LLMCompletion>;
+}
+
+/**
+ * Thrown when the backend rejects the requested model (unknown, retired or not permitted)
+ */
+export class ModelRejectedError extends Error {
+  constructor(public readonly model: string, message: string) {
+    super(`Model "${model}" was rejected: ${message}`);
+    this.name = 'ModelRejectedError';
+  }
+}
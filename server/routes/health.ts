@@ -6,6 +6,8 @@ import express from 'express';
 import { sessionManager } from '../services/sessionManager';
 import { logger } from '../config/logger';
 import { checkSupabaseConnection } from '../services/supabaseClient';
+import { getLLMProvider } from '../providers';
+import { guardrailMetrics } from '../services/guardrailMetrics';
 
 const router = express.Router();
 
@@ -21,7 +23,7 @@ router.get('/', async (req, res) => {
       timestamp: new Date().toISOString(),
       services: {
         server: 'ok',
-        openai: process.env.OPENAI_API_KEY ? 'ok' : 'error',
+        llm: !getLLMProvider().requiresApiKey || process.env.OPENAI_API_KEY ? 'ok' : 'error',
         supabase: 'ok',
         sessions: 'ok'
       }
@@ -87,9 +89,10 @@ router.get('/detailed', async (req, res) => {
       memory: process.memoryUsage(),
       services: {
         server: 'ok',
-        openai: {
-          status: process.env.OPENAI_API_KEY ? 'ok' : 'error',
-          model: process.env.OPENAI_MODEL || 'gpt-4o-mini'
+        llm: {
+          status: !getLLMProvider().requiresApiKey || process.env.OPENAI_API_KEY ? 'ok' : 'error',
+          provider: getLLMProvider().name,
+          model: getLLMProvider().defaultModel
         },
         supabase: {
           status: supabaseHealthy ? 'ok' : 'error',
@@ -159,4 +162,16 @@ router.get('/sessions', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/health/guardrails
+ * Guardrail recovery stats: targeted repairs vs full regenerations
+ */
+router.get('/guardrails', (req, res) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    guardrails: guardrailMetrics.getSnapshot()
+  });
+});
+
 export { router as healthRoutes };
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * Model Routes - Inspect and refresh the agent to model mapping (teachers only)
+ */
+
+import express from 'express';
+import { logger } from '../config/logger';
+import { modelResolver } from '../services/modelResolver';
+import { responseProjection } from '../services/responseProjection';
+
+const router = express.Router();
+
+const requireTeacher: express.RequestHandler = (req, res, next) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole) || !res.locals.callerId) {
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'Model settings are only available to teachers'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * GET /api/models
+ * Show which model each agent currently uses
+ */
+router.get('/', requireTeacher, async (req, res) => {
+  try {
+    const resolutions = await modelResolver.getResolutions();
+    res.json({ agents: resolutions });
+  } catch (error) {
+    logger.error('Failed to resolve agent models', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'MODEL_RESOLUTION_FAILED',
+      message: 'Failed to resolve agent models'
+    });
+  }
+});
+
+/**
+ * POST /api/models/invalidate
+ * Reload model_configurations on the next agent call
+ */
+router.post('/invalidate', requireTeacher, (req, res) => {
+  modelResolver.invalidate();
+  res.json({ success: true });
+});
+
+export { router as modelRoutes };
@@ -0,0 +1,102 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { resourceAccess } from '../services/resourceAccess';
+import { protocolParser } from '../services/protocolParser';
+import { ParsedProtocol } from '../../src/types/protocolParsing';
+import { protocolRoutes } from './protocols';
+
+const DOCUMENT_ID = '3f1c2a9e-8a51-4c1b-9a3e-1f0c2b7d4e55';
+
+const protocol = {
+  id: DOCUMENT_ID,
+  name: 'Föräldrasamtal',
+  version: '1.0',
+  type: 'base',
+  status: 'draft',
+  sourceDocumentId: DOCUMENT_ID,
+  updatedAt: new Date().toISOString(),
+  structured: null,
+  validationErrors: []
+} as unknown as ParsedProtocol;
+
+describe('protocol review routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    // Stands in for resolveCallerRole: a signed-in teacher
+    app.use((req, res, next) => {
+      res.locals.callerRole = 'teacher';
+      res.locals.callerId = 'teacher-1';
+      next();
+    });
+    app.use('/api/protocols', protocolRoutes);
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/protocols`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const post = (path: string, body: unknown = {}) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  it("lists only protocols whose document the teacher can access", async () => {
+    const other = { ...protocol, id: 'other', sourceDocumentId: 'other' };
+    const stored = { ...protocol, id: 'stored', sourceDocumentId: null };
+    vi.spyOn(protocolParser, 'list').mockResolvedValue([protocol, other, stored]);
+    vi.spyOn(resourceAccess, 'visibleIds').mockResolvedValue(new Set([DOCUMENT_ID]));
+
+    const response = await fetch(baseUrl);
+    const { protocols } = await response.json() as { protocols: ParsedProtocol[] };
+
+    expect(protocols.map(entry => entry.id)).toEqual([DOCUMENT_ID, 'stored']);
+  });
+
+  it('lets colleagues with view access read but not publish a protocol', async () => {
+    vi.spyOn(resourceAccess, 'permission').mockResolvedValue('view');
+    vi.spyOn(protocolParser, 'get').mockResolvedValue(protocol);
+    const publish = vi.spyOn(protocolParser, 'publish');
+
+    expect((await fetch(`${baseUrl}/${DOCUMENT_ID}`)).status).toBe(200);
+
+    const response = await post(`/${DOCUMENT_ID}/publish`);
+    expect(response.status).toBe(403);
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('does not parse documents the teacher cannot see', async () => {
+    vi.spyOn(resourceAccess, 'permission').mockResolvedValue(null);
+    const parseDocument = vi.spyOn(protocolParser, 'parseDocument');
+
+    const response = await post('/parse', { documentId: DOCUMENT_ID });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ error: 'DOCUMENT_NOT_FOUND' });
+    expect(parseDocument).not.toHaveBeenCalled();
+  });
+
+  it('passes the confirmation to replace a published protocol to the parser', async () => {
+    vi.spyOn(resourceAccess, 'permission').mockResolvedValue('edit');
+    const parseDocument = vi.spyOn(protocolParser, 'parseDocument').mockResolvedValue(protocol);
+
+    const response = await post('/parse', { documentId: DOCUMENT_ID, replacePublished: true });
+
+    expect(response.status).toBe(201);
+    expect(parseDocument).toHaveBeenCalledWith(DOCUMENT_ID, undefined, { replacePublished: true });
+  });
+});
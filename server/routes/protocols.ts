@@ -0,0 +1,253 @@
+/**
+ * Protocol Routes - Protocol stack checks and review of protocols parsed from uploaded documents
+ */
+
+import express from 'express';
+import { logger } from '../config/logger';
+import { protocolStackValidator } from '../services/protocolStackValidator';
+import { protocolParser, ProtocolParseError } from '../services/protocolParser';
+import { responseProjection } from '../services/responseProjection';
+import { resourceAccess } from '../services/resourceAccess';
+import { ProtocolTemplateType } from '../../src/types/protocolParsing';
+
+const router = express.Router();
+
+const PROTOCOL_TYPES: ProtocolTemplateType[] = ['base', 'content', 'process'];
+
+const STATUS_BY_PARSE_ERROR: Record<string, number> = {
+  DOCUMENT_NOT_FOUND: 404,
+  PROTOCOL_NOT_FOUND: 404,
+  NOT_A_PROTOCOL_DOCUMENT: 400,
+  INVALID_PROTOCOL: 400,
+  EMPTY_DOCUMENT: 422,
+  PROTOCOL_INVALID: 422,
+  PROTOCOL_PUBLISHED: 409
+};
+
+// Drafts and publishing are teacher tools; students only meet published protocols through sessions
+const requireTeacher: express.RequestHandler = (req, res, next) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole) || !res.locals.callerId) {
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'Protocol review is only available to teachers'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * Parsed protocols belong to their source document, so reading one needs access to the
+ * document and changing one needs edit access. Sends 404/403 and returns false otherwise.
+ */
+async function checkDocumentAccess(res: express.Response, documentId: string, edit: boolean): Promise<boolean> {
+  const permission = await resourceAccess.permission(res.locals.callerId, 'document', documentId);
+
+  if (!permission) {
+    res.status(404).json({
+      error: 'DOCUMENT_NOT_FOUND',
+      message: 'Document not found'
+    });
+    return false;
+  }
+
+  if (edit && permission !== 'edit') {
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'You do not have permission to change this protocol'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+function sendParseError(res: express.Response, error: unknown, fallback: { code: string; message: string; log: string }) {
+  if (error instanceof ProtocolParseError) {
+    return res.status(STATUS_BY_PARSE_ERROR[error.code] ?? 500).json({
+      error: error.code,
+      message: error.message,
+      ...(error.validationErrors.length > 0 ? { validationErrors: error.validationErrors } : {})
+    });
+  }
+
+  logger.error(fallback.log, {
+    error: error instanceof Error ? error.message : String(error)
+  });
+
+  return res.status(500).json({
+    error: fallback.code,
+    message: fallback.message
+  });
+}
+
+/**
+ * GET /api/protocols
+ * Protocols parsed from documents the teacher can access, or stored in the protocols
+ * table without a document, drafts included
+ */
+router.get('/', requireTeacher, async (req, res) => {
+  try {
+    const protocols = await protocolParser.list();
+    const documentIds = protocols.flatMap(protocol => protocol.sourceDocumentId ? [protocol.sourceDocumentId] : []);
+    const visible = await resourceAccess.visibleIds(res.locals.callerId, 'document', documentIds);
+
+    res.json({
+      protocols: protocols.filter(protocol => !protocol.sourceDocumentId || visible.has(protocol.sourceDocumentId))
+    });
+
+  } catch (error) {
+    sendParseError(res, error, {
+      code: 'PROTOCOL_LOOKUP_FAILED',
+      message: 'Failed to list protocols',
+      log: 'Protocol listing failed'
+    });
+  }
+});
+
+/**
+ * POST /api/protocols/parse
+ * Parse a library protocol document ({ documentId, type?, replacePublished? }) into a draft
+ * template; a published protocol is only replaced with replacePublished
+ */
+router.post('/parse', requireTeacher, async (req, res) => {
+  try {
+    const { documentId, type, replacePublished } = req.body ?? {};
+
+    if (typeof documentId !== 'string' || !documentId) {
+      return res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'documentId is required'
+      });
+    }
+
+    if (type !== undefined && !PROTOCOL_TYPES.includes(type)) {
+      return res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: `type must be one of: ${PROTOCOL_TYPES.join(', ')}`
+      });
+    }
+
+    if (!await checkDocumentAccess(res, documentId, true)) {
+      return;
+    }
+
+    const protocol = await protocolParser.parseDocument(documentId, type, { replacePublished: replacePublished === true });
+    res.status(201).json({ protocol });
+
+  } catch (error) {
+    sendParseError(res, error, {
+      code: 'PROTOCOL_PARSE_FAILED',
+      message: 'Failed to parse protocol document',
+      log: 'Protocol parsing failed'
+    });
+  }
+});
+
+/**
+ * POST /api/protocols/stack/validate
+ * Check a protocol stack ({ stack: [{ protocolId, weight }] }) before an exercise is created
+ */
+router.post('/stack/validate', async (req, res) => {
+  try {
+    const { stack } = req.body ?? {};
+
+    if (!Array.isArray(stack)) {
+      return res.status(400).json({
+        error: 'INVALID_STACK',
+        message: 'stack must be an array of protocol IDs or { protocolId, weight } entries'
+      });
+    }
+
+    const validation = await protocolStackValidator.validate(protocolStackValidator.normalize(stack));
+    res.json(validation);
+
+  } catch (error) {
+    logger.error('Protocol stack validation failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'STACK_VALIDATION_FAILED',
+      message: 'Failed to validate protocol stack'
+    });
+  }
+});
+
+/**
+ * GET /api/protocols/:id
+ * Structured template and validation errors of a protocol
+ */
+router.get('/:id', requireTeacher, async (req, res) => {
+  try {
+    const protocol = await protocolParser.get(req.params.id);
+
+    if (!protocol) {
+      return res.status(404).json({
+        error: 'PROTOCOL_NOT_FOUND',
+        message: 'Protocol not found'
+      });
+    }
+
+    if (protocol.sourceDocumentId && !await checkDocumentAccess(res, protocol.sourceDocumentId, false)) {
+      return;
+    }
+
+    res.json({ protocol });
+
+  } catch (error) {
+    sendParseError(res, error, {
+      code: 'PROTOCOL_LOOKUP_FAILED',
+      message: 'Failed to load protocol',
+      log: 'Protocol lookup failed'
+    });
+  }
+});
+
+/**
+ * PUT /api/protocols/:id
+ * Save a teacher's corrections ({ structured }); the protocol is re-validated and kept as a draft
+ */
+router.put('/:id', requireTeacher, async (req, res) => {
+  try {
+    const existing = await protocolParser.get(req.params.id);
+    if (existing?.sourceDocumentId && !await checkDocumentAccess(res, existing.sourceDocumentId, true)) {
+      return;
+    }
+
+    const protocol = await protocolParser.update(req.params.id, req.body?.structured);
+    res.json({ protocol });
+
+  } catch (error) {
+    sendParseError(res, error, {
+      code: 'PROTOCOL_SAVE_FAILED',
+      message: 'Failed to save protocol',
+      log: 'Protocol update failed'
+    });
+  }
+});
+
+/**
+ * POST /api/protocols/:id/publish
+ * Publish a draft that passes validation so sessions resolve it
+ */
+router.post('/:id/publish', requireTeacher, async (req, res) => {
+  try {
+    const existing = await protocolParser.get(req.params.id);
+    if (existing?.sourceDocumentId && !await checkDocumentAccess(res, existing.sourceDocumentId, true)) {
+      return;
+    }
+
+    const protocol = await protocolParser.publish(req.params.id);
+    res.json({ protocol });
+
+  } catch (error) {
+    sendParseError(res, error, {
+      code: 'PROTOCOL_SAVE_FAILED',
+      message: 'Failed to publish protocol',
+      log: 'Protocol publishing failed'
+    });
+  }
+});
+
+export { router as protocolRoutes };
@@ -0,0 +1,96 @@
+/**
+ * Retention Routes - Session retention policy and lifecycle housekeeping (teachers only)
+ */
+
+import express from 'express';
+import { sessionRetention, RetentionPolicyError } from '../services/sessionRetention';
+import { sessionManager } from '../services/sessionManager';
+import { responseProjection } from '../services/responseProjection';
+import { logger } from '../config/logger';
+
+const router = express.Router();
+
+const requireTeacher: express.RequestHandler = (req, res, next) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole)) {
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'The retention policy is only available to teachers'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * GET /api/retention
+ * The session retention policy
+ */
+router.get('/', requireTeacher, async (req, res) => {
+  try {
+    const policy = await sessionRetention.getPolicy();
+    res.json({ policy });
+
+  } catch (error) {
+    logger.error('Retention policy lookup failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'POLICY_LOOKUP_FAILED',
+      message: 'Failed to load the retention policy'
+    });
+  }
+});
+
+/**
+ * PUT /api/retention
+ * Change the policy ({ archiveAfterDays, retentionDays, action })
+ */
+router.put('/', requireTeacher, async (req, res) => {
+  const { archiveAfterDays, retentionDays, action } = req.body ?? {};
+
+  try {
+    const policy = await sessionRetention.updatePolicy({ archiveAfterDays, retentionDays, action });
+    res.json({ policy });
+
+  } catch (error) {
+    if (error instanceof RetentionPolicyError) {
+      return res.status(400).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Retention policy update failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'POLICY_UPDATE_FAILED',
+      message: 'Failed to store the retention policy'
+    });
+  }
+});
+
+/**
+ * POST /api/retention/apply
+ * Run the lifecycle housekeeping now instead of waiting for the next scheduled run
+ */
+router.post('/apply', requireTeacher, async (req, res) => {
+  try {
+    const result = await sessionManager.applyRetention();
+    res.json({ result });
+
+  } catch (error) {
+    logger.error('Applying session retention failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'RETENTION_FAILED',
+      message: 'Failed to apply the retention policy'
+    });
+  }
+});
+
+export { router as retentionRoutes };
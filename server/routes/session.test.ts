@@ -0,0 +1,150 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { sessionManager, SessionState } from '../services/sessionManager';
+import { turnProcessor, AgentFeedback } from '../services/turnProcessor';
+import { bbicCoverageTracker } from '../services/bbicCoverageTracker';
+import { feedbackValidation } from '../services/feedbackValidation';
+import { resourceAccess } from '../services/resourceAccess';
+import { sessionRoutes } from './session';
+
+const RESUME_TOKEN = 'resume-token-of-the-student';
+
+// A scored Analyst response and a failed Navigator whose raw output carries scores
+const FEEDBACK = {
+  analyst: {
+    rubric: [{ field: 'Empathy', hiddenScore: 3 }],
+    overallScore: 3,
+    past_only_feedback: 'Du ställde en öppen fråga om hur barnet hade det.'
+  },
+  navigator: {
+    error: 'Navigator failed: response did not match the schema',
+    raw: JSON.stringify({ rubric: [{ field: 'Empathy', hiddenScore: 3 }], overallScore: 3 })
+  }
+} as unknown as AgentFeedback;
+
+const SCORES = /hiddenScore|overallScore|"score"/;
+
+interface ResponseBody {
+  agentFeedback: {
+    analyst: { assessed_areas?: string[]; overallScore?: number };
+    navigator: { error: string; raw?: string };
+  };
+  latestFeedback?: unknown;
+}
+
+const session = {
+  id: 'session-1',
+  mode: 'exercise',
+  config: { id: 'exercise-1', toggles: {}, guardrailRules: [] },
+  protocols: ['basis-v1'],
+  conversationHistory: [],
+  latestFeedback: FEEDBACK,
+  metadata: {
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+    resumeTokenHash: createHash('sha256').update(RESUME_TOKEN).digest('hex')
+  }
+} as unknown as SessionState;
+
+describe('session routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    // Stands in for resolveCallerRole: X-Test-Role and X-Test-User select the caller
+    app.use((req, res, next) => {
+      res.locals.callerRole = req.get('X-Test-Role') ?? 'student';
+      res.locals.callerId = req.get('X-Test-User');
+      next();
+    });
+    app.use('/api/session', sessionRoutes);
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/session`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const request = (path: string, init: RequestInit = {}, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'X-Resume-Token': RESUME_TOKEN, ...headers }
+    });
+
+  const mockTurn = () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session);
+    vi.spyOn(bbicCoverageTracker, 'current').mockResolvedValue(undefined);
+    vi.spyOn(turnProcessor, 'processTurn').mockResolvedValue({
+      session: { id: session.id, messageCount: 2, lastActivity: new Date() },
+      aiResponse: 'Det har varit jobbigt.',
+      agentFeedback: FEEDBACK
+    });
+  };
+
+  it('keeps scores out of the student input response, including failed agent output', async () => {
+    mockTurn();
+
+    const response = await request('/session-1/input', {
+      method: 'POST',
+      body: JSON.stringify({ content: 'Hur har det varit?' })
+    });
+    const body = await response.json() as ResponseBody;
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(body)).not.toMatch(SCORES);
+    expect(body.agentFeedback.navigator).toEqual({ error: 'Navigator failed: response did not match the schema' });
+    expect(body.agentFeedback.analyst.assessed_areas).toEqual(['Empathy']);
+  });
+
+  it('keeps scores out of the latest feedback returned on resume', async () => {
+    mockTurn();
+
+    const response = await request('/session-1');
+    const body = await response.json() as ResponseBody;
+
+    expect(response.status).toBe(200);
+    expect(body.latestFeedback).toBeDefined();
+    expect(JSON.stringify(body)).not.toMatch(SCORES);
+  });
+
+  it('gives teachers the scores and the raw output of failed agents', async () => {
+    mockTurn();
+
+    const response = await request('/session-1/input', {
+      method: 'POST',
+      body: JSON.stringify({ content: 'Hur har det varit?' })
+    }, { 'X-Test-Role': 'teacher' });
+    const body = await response.json() as ResponseBody;
+
+    expect(body.agentFeedback.navigator.raw).toMatch(/hiddenScore/);
+    expect(body.agentFeedback.analyst.overallScore).toBe(3);
+  });
+
+  it('only shows feedback validation logs to teachers who can see the session exercise', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session);
+    vi.spyOn(feedbackValidation, 'list').mockResolvedValue([]);
+    const permission = vi.spyOn(resourceAccess, 'permission').mockResolvedValue(null);
+    const teacher = { 'X-Test-Role': 'teacher', 'X-Test-User': 'teacher-2' };
+
+    const hidden = await request('/session-1/feedback-validation', {}, teacher);
+    expect(hidden.status).toBe(404);
+    expect(permission).toHaveBeenCalledWith('teacher-2', 'exercise', 'exercise-1');
+    expect(feedbackValidation.list).not.toHaveBeenCalled();
+
+    permission.mockResolvedValue('view');
+    const visible = await request('/session-1/feedback-validation', {}, teacher);
+    expect(visible.status).toBe(200);
+  });
+});
@@ -3,16 +3,126 @@
  */
 
 import express from 'express';
-import { sessionManager, SessionState } from '../services/sessionManager';
-import { createAgent } from '../agents/baseAgent';
-import { AnalystAgent } from '../agents/analystAgent';
+import { sessionManager, SessionState, SessionProgressionError, ConversationMessage } from '../services/sessionManager';
+import { turnProcessor, TurnProcessingError } from '../services/turnProcessor';
 import { NavigatorAgent } from '../agents/navigatorAgent';
-import { RoleplayAgent } from '../agents/roleplayAgent';
+import { ReviewerAgent } from '../agents/reviewerAgent';
+import { caseLoader, DEFAULT_CASE_PERSONA } from '../services/caseLoader';
+import { emotionalStateMachine } from '../services/emotionalStateMachine';
+import { bbicCoverageTracker } from '../services/bbicCoverageTracker';
+import { processIndicatorDetector } from '../services/processIndicatorDetector';
+import { responseProjection } from '../services/responseProjection';
+import { feedbackValidation } from '../services/feedbackValidation';
+import { AccessCodeError } from '../services/accessCodes';
+import { resourceAccess } from '../services/resourceAccess';
 import { logger } from '../config/logger';
 import { validateAgentResponse } from '../middleware/guardrails';
+import { requireSessionAccess } from '../middleware/sessionAccess';
 
 const router = express.Router();
 
+const STATUS_BY_PROGRESSION_ERROR: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  NOT_A_LESSON: 400,
+  LESSON_COMPLETE: 409,
+  EXERCISE_NOT_FOUND: 404,
+  INVALID_EXERCISE_INDEX: 400,
+  EMPTY_TRANSCRIPT: 400
+};
+
+const STATUS_BY_ACCESS_CODE_ERROR: Record<string, number> = {
+  CODE_NOT_FOUND: 404,
+  CODE_REVOKED: 410,
+  CODE_EXPIRED: 410,
+  CODE_NOT_YET_VALID: 403,
+  CODE_USAGE_LIMIT_REACHED: 403,
+  CODE_WRONG_CLASS: 403,
+  CODE_CLASS_ONLY: 403,
+  CODE_CLAIM_CONFLICT: 409
+};
+
+/**
+ * Fresh Navigator briefing for the session's current exercise (feedforward only)
+ */
+async function generateInitialGuidance(session: SessionState) {
+  if (!session.config.toggles.feedforward) {
+    return null;
+  }
+
+  try {
+    const navigatorAgent = new NavigatorAgent();
+    const context = {
+      sessionId: session.id,
+      protocols: session.protocols,
+      guardrailRules: session.config.guardrailRules,
+      conversationHistory: sessionManager.getExerciseHistory(session),
+      exerciseConfig: caseLoader.toExerciseContext(session.config.persona ?? DEFAULT_CASE_PERSONA, session.config.focusHint)
+    };
+
+    const navigatorResponse = await navigatorAgent.generateInitialGuidance(context);
+    return { navigator: navigatorResponse };
+
+  } catch (error) {
+    logger.error('Failed to generate initial Navigator guidance', {
+      sessionId: session.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    // Continue without initial guidance rather than failing the request
+    return null;
+  }
+}
+
+/**
+ * Exercise config as sent to the client: the persona loses its hidden facts
+ */
+function publicConfig(session: SessionState) {
+  const { persona, ...config } = session.config;
+  return {
+    ...config,
+    persona: caseLoader.publicPersona(persona ?? DEFAULT_CASE_PERSONA)
+  };
+}
+
+/**
+ * Client-facing lesson progress, or undefined for single-exercise sessions
+ */
+function lessonProgress(session: SessionState) {
+  if (!session.lesson) {
+    return undefined;
+  }
+
+  return {
+    lessonId: session.lesson.lessonId,
+    title: session.lesson.title,
+    currentExerciseIndex: session.currentExerciseIndex,
+    totalExercises: session.lesson.exerciseOrder.length,
+    isLastExercise: session.currentExerciseIndex >= session.lesson.exerciseOrder.length - 1,
+    exercises: session.lesson.segments.map((segment, index) => ({
+      index,
+      exerciseId: segment.exerciseId,
+      title: segment.title,
+      startedAt: segment.startedAt,
+      completedAt: segment.completedAt
+    }))
+  };
+}
+
+/**
+ * Conversation message as sent to a resuming student; internal metadata such as
+ * the character's emotional state stays on the server
+ */
+function publicMessage(message: ConversationMessage) {
+  const type = message.metadata?.type;
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+    ...(type === 'session_start' || type === 'exercise_start' ? { type } : {}),
+    ...(type === 'exercise_start' ? { exerciseIndex: message.metadata?.exerciseIndex } : {})
+  };
+}
+
 /**
  * POST /api/session
  * Start a new training session
@@ -32,50 +142,38 @@ router.post('/', async (req, res) => {
     const session = await sessionManager.createSession({
       mode: lessonCode ? 'lesson' : 'exercise',
       exerciseCode,
-      lessonCode
+      lessonCode,
+      student: res.locals.student
     });
 
-    // Generate initial Navigator guidance if feedforward is enabled
-    let initialGuidance = null;
-    
-    if (session.config.toggles.feedforward) {
-      try {
-        const navigatorAgent = createAgent('navigator');
-        const context = {
-          sessionId: session.id,
-          protocols: session.protocols,
-          conversationHistory: session.conversationHistory,
-          exerciseConfig: {
-            focusHint: session.config.focusHint,
-            caseRole: 'Concerned Parent',
-            caseBackground: 'A parent worried about their child\'s academic progress'
-          }
-        };
-
-        const navigatorResponse = await navigatorAgent.generateInitialGuidance(context);
-        initialGuidance = { navigator: navigatorResponse };
-
-      } catch (error) {
-        logger.error('Failed to generate initial Navigator guidance', {
-          sessionId: session.id,
-          error: error instanceof Error ? error.message : String(error)
-        });
-        // Continue without initial guidance rather than failing session creation
-      }
+    const initialGuidance = await generateInitialGuidance(session);
+    if (initialGuidance) {
+      await sessionManager.updateSession(session.id, { latestFeedback: initialGuidance });
     }
 
     res.json({
       session: {
         id: session.id,
         mode: session.mode,
-        config: session.config,
+        config: publicConfig(session),
         protocols: session.protocols,
-        startedAt: session.metadata.startedAt
+        startedAt: session.metadata.startedAt,
+        resumeToken: session.metadata.resumeToken,
+        welcomeMessage: session.conversationHistory[0]?.content,
+        lesson: lessonProgress(session),
+        coverage: await bbicCoverageTracker.current(session)
       },
       initialGuidance
     });
 
   } catch (error) {
+    if (error instanceof AccessCodeError) {
+      return res.status(STATUS_BY_ACCESS_CODE_ERROR[error.code] ?? 400).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
     logger.error('Session creation failed', {
       error: error instanceof Error ? error.message : String(error),
       body: req.body
@@ -92,9 +190,9 @@ router.post('/', async (req, res) => {
  * POST /api/session/:id/input
  * Send student input and get agent feedback
  */
-router.post('/:id/input', validateAgentResponse('analyst'), async (req, res) => {
+router.post('/:id/input', requireSessionAccess(), validateAgentResponse('analyst'), async (req, res) => {
   try {
-    const { id: sessionId } = req.params;
+    const session: SessionState = res.locals.session;
     const { content, timestamp } = req.body;
 
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
@@ -104,216 +202,298 @@ router.post('/:id/input', validateAgentResponse('analyst'), async (req, res) =>
       });
     }
 
-    // Get session
-    const session = await sessionManager.getSession(sessionId);
-    if (!session) {
-      return res.status(404).json({
-        error: 'SESSION_NOT_FOUND',
-        message: 'Training session not found or expired'
+    const result = await turnProcessor.processTurn(session, content, { timestamp });
+    res.locals.guardrailRules = session.config.guardrailRules ?? [];
+
+    // In development mode, expose full agent feedback for debugging
+    // In production, only include validated/successful agent outputs
+    // Students never receive rubric scores, whatever the environment
+    const agentFeedback = turnProcessor.publicFeedback(result.agentFeedback);
+    const responsePayload = {
+      session: result.session,
+      aiResponse: result.aiResponse,
+      coverage: result.coverage,
+      ...(agentFeedback ? { agentFeedback: responseProjection.project(agentFeedback, res.locals.callerRole) } : {})
+    };
+
+    res.json(responsePayload);
+
+  } catch (error) {
+    if (error instanceof TurnProcessingError) {
+      return res.status(500).json({
+        error: error.code,
+        message: error.message
       });
     }
 
-    // Add user message to session
-    const userMessage = await sessionManager.addMessage(sessionId, {
-      role: 'user',
-      content: content.trim(),
-      metadata: { inputTimestamp: timestamp }
+    logger.error('Session input processing failed', {
+      sessionId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
     });
 
-    if (!userMessage) {
-      return res.status(500).json({
-        error: 'MESSAGE_STORAGE_FAILED',
-        message: 'Failed to store user message'
+    res.status(500).json({
+      error: 'INPUT_PROCESSING_FAILED',
+      message: 'Failed to process session input'
+    });
+  }
+});
+
+/**
+ * POST /api/session/:id/advance
+ * Move a lesson session to its next exercise
+ */
+router.post('/:id/advance', requireSessionAccess(), async (req, res) => {
+  try {
+    const session = await sessionManager.advanceExercise(req.params.id);
+    const initialGuidance = await generateInitialGuidance(session);
+    // The previous exercise's feedback no longer applies
+    await sessionManager.updateSession(session.id, { latestFeedback: initialGuidance ?? {} });
+
+    res.json({
+      session: {
+        id: session.id,
+        mode: session.mode,
+        config: publicConfig(session),
+        protocols: session.protocols,
+        welcomeMessage: session.conversationHistory[session.conversationHistory.length - 1]?.content,
+        lesson: lessonProgress(session),
+        coverage: await bbicCoverageTracker.current(session)
+      },
+      initialGuidance
+    });
+
+  } catch (error) {
+    if (error instanceof SessionProgressionError) {
+      return res.status(STATUS_BY_PROGRESSION_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
       });
     }
 
-    // Prepare agent context
-    logger.info('Session input toggles', {
-      sessionId,
-      toggles: session.config.toggles
+    logger.error('Lesson advance failed', {
+      sessionId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
     });
 
-    const agentContext = {
-      sessionId,
-      protocols: session.protocols,
-      conversationHistory: session.conversationHistory,
-      exerciseConfig: {
-        focusHint: session.config.focusHint,
-        caseRole: 'Concerned Parent',
-        caseBackground: 'A parent concerned about their child\'s progress and well-being'
-      }
-    };
+    res.status(500).json({
+      error: 'LESSON_ADVANCE_FAILED',
+      message: 'Failed to advance to the next exercise'
+    });
+  }
+});
 
-    // Generate agent responses in parallel
-    const agentPromises: Array<Promise<any>> = [];
-    const agentFeedback: any = {};
-
-    // Analyst feedback (if enabled)
-    if (session.config.toggles.iterative) {
-      logger.info('Invoking AnalystAgent for iterative feedback', { sessionId });
-      agentPromises.push(
-        createAgent('analyst')
-          .generateResponse(agentContext, content)
-          .then(response => {
-            logger.info('AnalystAgent produced response (pre-middleware)', {
-              sessionId,
-              hasRubric: Array.isArray((response as any)?.rubric),
-              responseType: (response as any)?.type
-            });
-            agentFeedback.analyst = response;
-          })
-          .catch(error => {
-            const raw = (error as any)?.rawResponse ? JSON.stringify((error as any).rawResponse) : undefined;
-            logger.error('Analyst agent failed', {
-              sessionId,
-              error: error instanceof Error ? error.message : String(error),
-              raw
-            });
-            agentFeedback.analyst = {
-              error: `Analyst failed: ${error instanceof Error ? error.message : String(error)}`,
-              raw
-            };
-          })
-      );
-    } else {
-      logger.info('Skipping AnalystAgent: iterative toggle disabled', { sessionId });
-    }
+/**
+ * Reviewer feedback for one lesson exercise, or the whole session/lesson when
+ * exerciseIndex is omitted; the output is stored with the session
+ */
+async function reviewSession(session: SessionState, exerciseIndex?: number) {
+  const reviewsExercise = typeof exerciseIndex === 'number';
+  const segment = reviewsExercise ? session.lesson?.segments[exerciseIndex] : undefined;
 
-    // Navigator guidance (if enabled)
-    if (session.config.toggles.feedforward) {
-      logger.info('Invoking NavigatorAgent for feedforward guidance', { sessionId });
-      agentPromises.push(
-        createAgent('navigator')
-          .generateMidConversationGuidance(agentContext, {
-            turnCount: session.conversationHistory.filter(m => m.role === 'user').length,
-            lastAnalystScores: agentFeedback.analyst?.rubric
-          })
-          .then(response => {
-            logger.info('NavigatorAgent produced response (pre-middleware)', {
-              sessionId,
-              responseType: (response as any)?.type
-            });
-            agentFeedback.navigator = response;
-          })
-          .catch(error => {
-            const raw = (error as any)?.rawResponse ? JSON.stringify((error as any).rawResponse) : undefined;
-            logger.error('Navigator agent failed', {
-              sessionId,
-              error: error instanceof Error ? error.message : String(error),
-              raw
-            });
-            agentFeedback.navigator = {
-              error: `Navigator failed: ${error instanceof Error ? error.message : String(error)}`,
-              raw
-            };
-          })
-      );
-    } else {
-      logger.info('Skipping NavigatorAgent: feedforward toggle disabled', { sessionId });
-    }
+  if (reviewsExercise && !segment) {
+    throw new SessionProgressionError('INVALID_EXERCISE_INDEX', 'exerciseIndex does not refer to a started exercise in this lesson');
+  }
 
+  const history = reviewsExercise
+    ? sessionManager.getExerciseHistory(session, exerciseIndex)
+    : session.conversationHistory;
 
-    // Wait for all agent responses
-    await Promise.all(agentPromises);
+  if (!history.some(message => message.role === 'user')) {
+    throw new SessionProgressionError('EMPTY_TRANSCRIPT', 'There is no student input to review yet');
+  }
+
+  // Exercise reviews use that exercise's focus and persona; lesson reviews span all of them
+  const persona = segment?.persona ?? session.config.persona ?? DEFAULT_CASE_PERSONA;
+  const exerciseContext = segment || !session.lesson
+    ? caseLoader.toExerciseContext(persona, segment?.focusHint ?? session.config.focusHint)
+    : {
+        focusHint: `Hela lektionen "${session.lesson.title}": ${session.lesson.segments.map(s => s.title).join(', ')}`,
+        caseRole: session.lesson.segments.map(s => s.persona ? caseLoader.describe(s.persona) : s.title).join('; '),
+        caseBackground: `Lektion med ${session.lesson.segments.length} övningar i följd`
+      };
+
+  // The character's emotional trajectory lets the Reviewer relate the student's moves to their effect
+  const emotionalTrajectory = (session.emotional?.trajectory ?? [])
+    .filter(step => !segment || step.exerciseIndex === exerciseIndex);
+  const trajectorySummary = emotionalStateMachine.summarizeTrajectory(emotionalTrajectory);
+
+  // Process indicators tagged turn by turn, aggregated for the holistic review
+  const indicatorSummary = processIndicatorDetector.summarize(
+    (session.processIndicators ?? []).filter(match => !segment || match.exerciseIndex === exerciseIndex)
+  );
+
+  const review = await new ReviewerAgent().generateSessionSummary({
+    sessionId: session.id,
+    protocols: session.protocols,
+    guardrailRules: session.config.guardrailRules,
+    // Each exercise keeps its own stack weights; a whole-lesson review has no single stack
+    protocolWeights: segment ? segment.protocolWeights : session.lesson ? undefined : session.config.protocolWeights,
+    conversationHistory: [
+      ...history,
+      ...(trajectorySummary
+        ? [{ role: 'system' as const, content: `KARAKTÄRENS KÄNSLOMÄSSIGA UTVECKLING:\n${trajectorySummary}` }]
+        : []),
+      ...(indicatorSummary
+        ? [{ role: 'system' as const, content: `PROCESSINDIKATORER UNDER SAMTALET:\n${indicatorSummary}\nVäg in mönstren i helhetsbedömningen och citera studentens ord.` }]
+        : [])
+    ],
+    exerciseConfig: exerciseContext
+  });
+
+  // Teachers grade from the stored review later, so it keeps the rubric scores
+  if (!await sessionManager.recordReview(session.id, review, segment ? exerciseIndex : undefined)) {
+    logger.warn('Failed to store session review', { sessionId: session.id, exerciseIndex });
+  }
 
-    // Log complete agent feedback for debugging
-    logger.debug('Complete agent feedback', {
-      sessionId,
-      agentFeedback: JSON.stringify(agentFeedback, null, 2),
-      feedbackKeys: Object.keys(agentFeedback),
-      hasErrors: Object.values(agentFeedback).some(f => f && typeof f === 'object' && 'error' in f)
+  return { segment, review, emotionalTrajectory };
+}
+
+/**
+ * POST /api/session/:id/review
+ * Reviewer feedback for one exercise (body.exerciseIndex) or the whole session/lesson
+ * A whole-session review closes the session as reviewed
+ */
+// Ended sessions can still be reviewed
+router.post('/:id/review', requireSessionAccess({ includeClosed: true }), async (req, res) => {
+  try {
+    const session: SessionState = res.locals.session;
+    const { exerciseIndex } = req.body ?? {};
+
+    const { segment, review, emotionalTrajectory } = await reviewSession(
+      session,
+      typeof exerciseIndex === 'number' ? exerciseIndex : undefined
+    );
+
+    res.json({
+      scope: segment ? 'exercise' : session.lesson ? 'lesson' : 'session',
+      ...(segment ? { exercise: { index: exerciseIndex, exerciseId: segment.exerciseId, title: segment.title } } : {}),
+      review: { reviewer: responseProjection.project(review, res.locals.callerRole) },
+      emotionalTrajectory
     });
 
-    // Generate AI roleplay response using RoleplayAgent
-    const roleplayAgent = new RoleplayAgent();
-    const roleplayResponse = await roleplayAgent.generateResponse(agentContext, content);
-    const aiResponse = roleplayResponse.content;
-    
-    // Add AI response to session
-    if (aiResponse) {
-      await sessionManager.addMessage(sessionId, {
-        role: 'assistant',
-        content: aiResponse,
-        metadata: { generated: true }
+  } catch (error) {
+    if (error instanceof SessionProgressionError) {
+      return res.status(STATUS_BY_PROGRESSION_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
       });
     }
 
-    // Update session state
-    const updatedSession = await sessionManager.getSession(sessionId);
+    logger.error('Session review failed', {
+      sessionId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
 
-    // Prepare response payload
-    const responsePayload: any = {
-      session: {
-        id: updatedSession!.id,
-        messageCount: updatedSession!.conversationHistory.length,
-        lastActivity: updatedSession!.metadata.lastActivityAt
-      },
-      aiResponse
-    };
+    res.status(500).json({
+      error: 'SESSION_REVIEW_FAILED',
+      message: 'Failed to review session'
+    });
+  }
+});
 
-    // In development mode, expose full agent feedback for debugging
-    // In production, only include validated/successful agent outputs
-    if (process.env.NODE_ENV !== 'production') {
-      responsePayload.agentFeedback = agentFeedback;
-      logger.debug('Development mode: exposing full agent feedback', {
-        sessionId,
-        feedbackKeys: Object.keys(agentFeedback),
-        hasErrors: Object.values(agentFeedback).some(f => f && typeof f === 'object' && 'error' in f)
-      });
-    } else {
-      // Production: only include successful agent responses
-      const cleanFeedback: any = {};
-      Object.entries(agentFeedback).forEach(([agentType, feedback]) => {
-        if (feedback && typeof feedback === 'object' && !('error' in feedback)) {
-          cleanFeedback[agentType] = feedback;
-        }
-      });
-      if (Object.keys(cleanFeedback).length > 0) {
-        responsePayload.agentFeedback = cleanFeedback;
-      }
-    }
+/**
+ * POST /api/session/:id/end
+ * End the session with a whole-session review; the session and review are kept
+ */
+router.post('/:id/end', requireSessionAccess({ includeClosed: true }), async (req, res) => {
+  try {
+    const session: SessionState = res.locals.session;
 
-    res.json(responsePayload);
+    const { review } = await reviewSession(session);
+
+    res.json({
+      success: true,
+      finalFeedback: responseProjection.project(review, res.locals.callerRole),
+      exerciseTitle: session.lesson?.title ?? session.config.title
+    });
 
   } catch (error) {
-    logger.error('Session input processing failed', {
+    if (error instanceof SessionProgressionError) {
+      return res.status(STATUS_BY_PROGRESSION_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Session end failed', {
       sessionId: req.params.id,
       error: error instanceof Error ? error.message : String(error)
     });
 
     res.status(500).json({
-      error: 'INPUT_PROCESSING_FAILED',
-      message: 'Failed to process session input'
+      error: 'SESSION_END_FAILED',
+      message: 'Failed to end and review session'
     });
   }
 });
 
 /**
- * GET /api/session/:id
- * Get session state
+ * GET /api/session/:id/feedback-validation
+ * Protocol validationRules results for the session's agent feedback (teachers who can
+ * see the session's lesson or exercise)
  */
-router.get('/:id', async (req, res) => {
+router.get('/:id/feedback-validation', async (req, res) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole) || !res.locals.callerId) {
+    return res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'Feedback validation logs are only available to teachers'
+    });
+  }
+
   try {
-    const { id: sessionId } = req.params;
-    
-    const session = await sessionManager.getSession(sessionId);
-    if (!session) {
+    const session = await sessionManager.getSession(req.params.id, { includeClosed: true });
+    const permission = session && (session.lesson
+      ? await resourceAccess.permission(res.locals.callerId, 'lesson', session.lesson.lessonId)
+      : await resourceAccess.permission(res.locals.callerId, 'exercise', session.config.id));
+
+    if (!permission) {
       return res.status(404).json({
         error: 'SESSION_NOT_FOUND',
-        message: 'Session not found or expired'
+        message: 'Training session not found'
       });
     }
 
+    const logs = await feedbackValidation.list(req.params.id);
+    res.json({ sessionId: req.params.id, logs });
+
+  } catch (error) {
+    logger.error('Feedback validation lookup failed', {
+      sessionId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'VALIDATION_LOOKUP_FAILED',
+      message: 'Failed to load feedback validation logs'
+    });
+  }
+});
+
+/**
+ * GET /api/session/:id
+ * Session state with its conversation and latest agent feedback, for resuming after
+ * a reload
+ */
+router.get('/:id', requireSessionAccess(), async (req, res) => {
+  try {
+    const session: SessionState = res.locals.session;
+
+    const latestFeedback = session.latestFeedback ? turnProcessor.publicFeedback(session.latestFeedback) : undefined;
+
     res.json({
       session: {
         id: session.id,
         mode: session.mode,
-        config: session.config,
+        config: publicConfig(session),
         protocols: session.protocols,
         messageCount: session.conversationHistory.length,
         startedAt: session.metadata.startedAt,
-        lastActivity: session.metadata.lastActivityAt
-      }
+        lastActivity: session.metadata.lastActivityAt,
+        lesson: lessonProgress(session),
+        coverage: await bbicCoverageTracker.current(session),
+        conversation: session.conversationHistory.map(publicMessage)
+      },
+      ...(latestFeedback ? { latestFeedback: responseProjection.project(latestFeedback, res.locals.callerRole) } : {})
     });
 
   } catch (error) {
@@ -331,9 +511,9 @@ router.get('/:id', async (req, res) => {
 
 /**
  * DELETE /api/session/:id
- * End session
+ * End session without a review; it is kept as ended, not deleted
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireSessionAccess(), async (req, res) => {
   try {
     const { id: sessionId } = req.params;
     
@@ -364,6 +544,4 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-// Mock function removed - now using RoleplayAgent with real OpenAI calls
-
 export { router as sessionRoutes };
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { resourceAccess } from '../services/resourceAccess';
+import { studentIdentity } from '../services/studentIdentity';
+import { studentRoutes } from './students';
+
+describe('class results route', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    // Stands in for resolveCallerRole: a signed-in teacher
+    app.use((req, res, next) => {
+      res.locals.callerRole = 'teacher';
+      res.locals.callerId = 'teacher-1';
+      next();
+    });
+    app.use('/api/students', studentRoutes);
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/students`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the results of a class the teacher can see', async () => {
+    const permission = vi.spyOn(resourceAccess, 'permission').mockResolvedValue('view');
+    vi.spyOn(studentIdentity, 'classResults').mockResolvedValue([]);
+
+    const response = await fetch(`${baseUrl}?classId=class-1`);
+
+    expect(response.status).toBe(200);
+    expect(permission).toHaveBeenCalledWith('teacher-1', 'class', 'class-1');
+  });
+
+  it("hides another teacher's unshared class", async () => {
+    vi.spyOn(resourceAccess, 'permission').mockResolvedValue(null);
+    const classResults = vi.spyOn(studentIdentity, 'classResults');
+
+    const response = await fetch(`${baseUrl}?classId=class-2`);
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ error: 'CLASS_NOT_FOUND' });
+    expect(classResults).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Student Routes - Pseudonymous enrollment, own session history and per-student results
+ */
+
+import express from 'express';
+import { studentIdentity, StudentIdentityError } from '../services/studentIdentity';
+import { responseProjection } from '../services/responseProjection';
+import { resourceAccess } from '../services/resourceAccess';
+import { logger } from '../config/logger';
+
+const router = express.Router();
+
+const STATUS_BY_IDENTITY_ERROR: Record<string, number> = {
+  INVALID_PSEUDONYM: 400,
+  CLASS_NOT_FOUND: 404,
+  PSEUDONYM_TAKEN: 409
+};
+
+const requireStudent: express.RequestHandler = (req, res, next) => {
+  if (!res.locals.student) {
+    res.status(401).json({
+      error: 'STUDENT_KEY_REQUIRED',
+      message: 'Send your student key in the X-Student-Key header'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * POST /api/students/enroll
+ * Join a class ({ joinToken, pseudonym }); returns the student and their student key
+ */
+router.post('/enroll', async (req, res) => {
+  const { joinToken, pseudonym } = req.body ?? {};
+
+  if (typeof joinToken !== 'string' || !joinToken.trim() || typeof pseudonym !== 'string') {
+    return res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: 'joinToken and pseudonym are required'
+    });
+  }
+
+  try {
+    const enrollment = await studentIdentity.enroll(joinToken, pseudonym);
+    res.status(201).json(enrollment);
+
+  } catch (error) {
+    if (error instanceof StudentIdentityError) {
+      return res.status(STATUS_BY_IDENTITY_ERROR[error.code] ?? 400).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Student enrollment failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'ENROLLMENT_FAILED',
+      message: 'Failed to join the class'
+    });
+  }
+});
+
+/**
+ * GET /api/students/me
+ * The student identified by the X-Student-Key header
+ */
+router.get('/me', requireStudent, (req, res) => {
+  res.json({ student: res.locals.student });
+});
+
+/**
+ * GET /api/students/me/sessions
+ * The student's own sessions, newest first
+ */
+router.get('/me/sessions', requireStudent, async (req, res) => {
+  try {
+    const sessions = await studentIdentity.history(res.locals.student.id);
+    res.json({ sessions });
+
+  } catch (error) {
+    logger.error('Student history lookup failed', {
+      studentId: res.locals.student.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'HISTORY_LOOKUP_FAILED',
+      message: 'Failed to load your sessions'
+    });
+  }
+});
+
+/**
+ * GET /api/students?classId=
+ * Sessions per student of a class the teacher owns, was shared or that has no owner
+ */
+router.get('/', async (req, res) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole) || !res.locals.callerId) {
+    return res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'Student results are only available to teachers'
+    });
+  }
+
+  const { classId } = req.query;
+  if (typeof classId !== 'string' || !classId) {
+    return res.status(400).json({
+      error: 'MISSING_CLASS_ID',
+      message: 'classId is required'
+    });
+  }
+
+  try {
+    if (!await resourceAccess.permission(res.locals.callerId, 'class', classId)) {
+      return res.status(404).json({
+        error: 'CLASS_NOT_FOUND',
+        message: 'Class not found'
+      });
+    }
+
+    const students = await studentIdentity.classResults(classId);
+    res.json({ classId, students });
+
+  } catch (error) {
+    logger.error('Class results lookup failed', {
+      classId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'RESULTS_LOOKUP_FAILED',
+      message: 'Failed to load student results'
+    });
+  }
+});
+
+export { router as studentRoutes };
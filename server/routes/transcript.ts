@@ -3,52 +3,178 @@
  */
 
 import express from 'express';
-import { createAgent } from '../agents/baseAgent';
+import { ReviewerAgent } from '../agents/reviewerAgent';
+import { AnalystAgent } from '../agents/analystAgent';
 import { logger } from '../config/logger';
 import { validateAgentResponse } from '../middleware/guardrails';
+import { transcriptImporter, TranscriptImportError } from '../services/transcriptImporter';
+import { reviewJobQueue, ReviewJobError } from '../services/reviewJobQueue';
+import { responseProjection } from '../services/responseProjection';
+import { TranscriptFormat, TranscriptSegmentFeedback, TranscriptTurn } from '../../src/types/transcript';
 
 const router = express.Router();
 
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['srt', 'vtt', 'docx', 'text'];
+
+const STATUS_BY_IMPORT_ERROR: Record<string, number> = {
+  DOCX_EXTRACTION_FAILED: 422
+};
+
+const STATUS_BY_JOB_ERROR: Record<string, number> = {
+  INVALID_BATCH_INPUT: 400,
+  BATCH_TOO_LARGE: 400,
+  INVALID_JOB_ITEM: 400,
+  JOB_NOT_FOUND: 404,
+  NO_FAILED_ITEMS: 409
+};
+
+// Review jobs carry rubric scores and belong to the teacher who queued them
+const requireTeacher: express.RequestHandler = (req, res, next) => {
+  if (!responseProjection.canSeeScores(res.locals.callerRole) || !res.locals.callerId) {
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: 'Review jobs are only available to teachers'
+    });
+    return;
+  }
+  next();
+};
+
+// Per-turn analysis makes one Analyst call per student turn
+const MAX_ANALYZED_SEGMENTS = 30;
+const SEGMENT_ANALYSIS_CONCURRENCY = 3;
+
+/**
+ * Run tasks with at most `limit` in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * POST /api/transcript/import
+ * Parse an SRT/VTT/DOCX file or pasted text into speaker turns
+ */
+router.post('/import', async (req, res) => {
+  try {
+    const { content, fileBase64, fileName, format } = req.body ?? {};
+
+    if (typeof content !== 'string' && typeof fileBase64 !== 'string') {
+      return res.status(400).json({
+        error: 'MISSING_TRANSCRIPT',
+        message: 'Either content or fileBase64 is required'
+      });
+    }
+
+    if (format !== undefined && !TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: 'UNSUPPORTED_FORMAT',
+        message: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`
+      });
+    }
+
+    const transcript = await transcriptImporter.import({
+      content: typeof content === 'string' ? content : undefined,
+      fileBase64: typeof fileBase64 === 'string' ? fileBase64 : undefined,
+      fileName: typeof fileName === 'string' ? fileName : undefined,
+      format
+    });
+
+    res.json({ transcript });
+
+  } catch (error) {
+    if (error instanceof TranscriptImportError) {
+      return res.status(STATUS_BY_IMPORT_ERROR[error.code] ?? 400).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Transcript import failed', {
+      error: error instanceof Error ? error.message : String(error),
+      fileName: req.body?.fileName
+    });
+
+    res.status(500).json({
+      error: 'TRANSCRIPT_IMPORT_FAILED',
+      message: 'Failed to import transcript'
+    });
+  }
+});
+
 /**
  * POST /api/transcript/review
  * Analyze conversation transcript with Reviewer agent
  */
 router.post('/review', validateAgentResponse('reviewer'), async (req, res) => {
   try {
-    const { transcript, protocolIds = ['basis-v1'], exerciseConfig } = req.body;
+    const { transcript, turns: providedTurns, format, studentSpeaker, protocolIds = ['basis-v1'], exerciseConfig } = req.body;
 
-    // Validate input
-    if (!transcript || typeof transcript !== 'string' || transcript.trim().length === 0) {
+    // Validate input: imported turns, or raw text parsed here
+    if (providedTurns === undefined && (!transcript || typeof transcript !== 'string' || transcript.trim().length === 0)) {
       return res.status(400).json({
         error: 'INVALID_TRANSCRIPT',
-        message: 'Transcript is required and must be a non-empty string'
+        message: 'Either turns or a non-empty transcript string is required'
       });
     }
 
-    if (transcript.length > 50000) {
+    if (format !== undefined && (format === 'docx' || !TRANSCRIPT_FORMATS.includes(format))) {
       return res.status(400).json({
-        error: 'TRANSCRIPT_TOO_LARGE',
-        message: 'Transcript exceeds maximum length of 50,000 characters'
+        error: 'UNSUPPORTED_FORMAT',
+        message: 'format must be one of: srt, vtt, text (import .docx files first)'
       });
     }
 
-    // Create Reviewer agent
-    const reviewerAgent = createAgent('reviewer');
+    let turns: TranscriptTurn[];
+    let durationMs: number | undefined;
+    try {
+      if (providedTurns !== undefined) {
+        turns = transcriptImporter.normalizeTurns(providedTurns);
+        durationMs = turns[turns.length - 1].endMs;
+      } else {
+        const parsed = transcriptImporter.parse(transcript, format);
+        turns = parsed.turns;
+        durationMs = parsed.durationMs;
+      }
+
+      // The student's confirmation of who the practitioner is overrides label-based roles
+      if (typeof studentSpeaker === 'string' && studentSpeaker.trim()) {
+        turns = transcriptImporter.assignStudentSpeaker(turns, studentSpeaker.trim());
+      }
+    } catch (error) {
+      if (error instanceof TranscriptImportError) {
+        return res.status(400).json({
+          error: error.code,
+          message: error.message
+        });
+      }
+      throw error;
+    }
 
     // Analyze transcript
     const startTime = Date.now();
-    const analysis = await reviewerAgent.analyzeTranscript(
-      protocolIds,
-      transcript,
-      exerciseConfig
-    );
+    const analysis = await new ReviewerAgent().analyzeTurns(protocolIds, turns, exerciseConfig);
     const analysisTime = Date.now() - startTime;
 
-    // Calculate transcript metadata
-    const wordCount = transcript.split(/\s+/).filter(word => word.length > 0).length;
-    const estimatedDuration = Math.ceil(wordCount / 150); // Assuming 150 words per minute speaking rate
+    // Calculate transcript metadata; recorded timestamps win over the speaking-rate estimate
+    const wordCount = turns.reduce((sum, turn) => sum + turn.content.split(/\s+/).filter(word => word.length > 0).length, 0);
+    const estimatedDuration = durationMs !== undefined
+      ? Math.ceil(durationMs / 60000)
+      : Math.ceil(wordCount / 150); // Assuming 150 words per minute speaking rate
 
     logger.info('Transcript analysis completed', {
+      turnCount: turns.length,
       wordCount,
       estimatedDuration,
       analysisTime,
@@ -58,11 +184,13 @@ router.post('/review', validateAgentResponse('reviewer'), async (req, res) => {
 
     res.json({
       analysis: {
-        reviewer: analysis
+        reviewer: responseProjection.project(analysis, res.locals.callerRole)
       },
       metadata: {
         wordCount,
         estimatedDuration,
+        turnCount: turns.length,
+        speakers: [...new Set(turns.map(turn => turn.speaker))],
         analysisTimestamp: new Date(),
         analysisTime,
         protocolsUsed: protocolIds
@@ -72,7 +200,8 @@ router.post('/review', validateAgentResponse('reviewer'), async (req, res) => {
   } catch (error) {
     logger.error('Transcript analysis failed', {
       error: error instanceof Error ? error.message : String(error),
-      transcriptLength: req.body.transcript?.length || 0
+      transcriptLength: req.body.transcript?.length || 0,
+      turnCount: Array.isArray(req.body.turns) ? req.body.turns.length : undefined
     });
 
     // Determine error type for better user feedback
@@ -106,9 +235,101 @@ router.post('/review', validateAgentResponse('reviewer'), async (req, res) => {
   }
 });
 
+/**
+ * POST /api/transcript/analyze-turns
+ * Retrospective Analyst feedback per student turn of an imported transcript
+ */
+router.post('/analyze-turns', async (req, res) => {
+  try {
+    const { turns: providedTurns, studentSpeaker, segmentIds, protocolIds = ['basis-v1'], exerciseConfig } = req.body ?? {};
+
+    let turns: TranscriptTurn[];
+    try {
+      turns = transcriptImporter.normalizeTurns(providedTurns);
+      if (typeof studentSpeaker === 'string' && studentSpeaker.trim()) {
+        turns = transcriptImporter.assignStudentSpeaker(turns, studentSpeaker.trim());
+      }
+    } catch (error) {
+      if (error instanceof TranscriptImportError) {
+        return res.status(400).json({
+          error: error.code,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    const requested = Array.isArray(segmentIds) ? new Set(segmentIds.filter(id => typeof id === 'string')) : null;
+    const studentTurns = turns.filter(turn => turn.role === 'student' && (!requested || requested.has(turn.segmentId)));
+
+    if (studentTurns.length === 0) {
+      return res.status(400).json({
+        error: 'NO_STUDENT_TURNS',
+        message: 'No student turns to analyze; confirm which speaker is the practitioner (studentSpeaker)'
+      });
+    }
+
+    if (studentTurns.length > MAX_ANALYZED_SEGMENTS) {
+      return res.status(400).json({
+        error: 'TOO_MANY_SEGMENTS',
+        message: `At most ${MAX_ANALYZED_SEGMENTS} turns can be analyzed per request; select them with segmentIds`
+      });
+    }
+
+    const analystAgent = new AnalystAgent();
+    const startTime = Date.now();
+
+    const segments = await mapWithConcurrency(studentTurns, SEGMENT_ANALYSIS_CONCURRENCY, async (turn): Promise<TranscriptSegmentFeedback> => {
+      try {
+        const feedback = await analystAgent.analyzeTranscriptTurn(protocolIds, turns, turn.index, exerciseConfig);
+        return { segmentId: turn.segmentId, turnIndex: turn.index, speaker: turn.speaker, feedback };
+      } catch (error) {
+        logger.warn('Transcript turn analysis failed', {
+          segmentId: turn.segmentId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return {
+          segmentId: turn.segmentId,
+          turnIndex: turn.index,
+          speaker: turn.speaker,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    const successCount = segments.filter(segment => segment.feedback).length;
+    logger.info('Transcript turn analysis completed', {
+      segmentCount: segments.length,
+      successCount,
+      analysisTime: Date.now() - startTime
+    });
+
+    res.json({
+      segments: responseProjection.project(segments, res.locals.callerRole),
+      summary: {
+        total: segments.length,
+        successful: successCount,
+        failed: segments.length - successCount,
+        analysisTime: Date.now() - startTime
+      }
+    });
+
+  } catch (error) {
+    logger.error('Transcript turn analysis failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'TURN_ANALYSIS_FAILED',
+      message: 'Failed to analyze transcript turns'
+    });
+  }
+});
+
 /**
  * POST /api/transcript/batch-review
  * Analyze multiple transcripts (for research/batch processing)
+ * Synchronous and limited to 10 transcripts; larger batches go through /jobs
  */
 router.post('/batch-review', async (req, res) => {
   try {
@@ -128,7 +349,7 @@ router.post('/batch-review', async (req, res) => {
       });
     }
 
-    const reviewerAgent = createAgent('reviewer');
+    const reviewerAgent = new ReviewerAgent();
     const results = [];
     const startTime = Date.now();
 
@@ -177,7 +398,7 @@ router.post('/batch-review', async (req, res) => {
     });
 
     res.json({
-      results,
+      results: responseProjection.project(results, res.locals.callerRole),
       summary: {
         total: transcripts.length,
         successful: successCount,
@@ -199,4 +420,188 @@ router.post('/batch-review', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/transcript/jobs
+ * Queue a batch of transcripts for background Reviewer feedback
+ */
+router.post('/jobs', requireTeacher, async (req, res) => {
+  try {
+    const { items, protocolIds, exerciseConfig } = req.body ?? {};
+    const job = await reviewJobQueue.createJob({ items, protocolIds, exerciseConfig }, res.locals.callerId);
+
+    res.status(202).json({ job });
+
+  } catch (error) {
+    if (error instanceof ReviewJobError) {
+      return res.status(STATUS_BY_JOB_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Review job creation failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_CREATION_FAILED',
+      message: 'Failed to create review job'
+    });
+  }
+});
+
+/**
+ * GET /api/transcript/jobs
+ * Most recent review jobs
+ */
+router.get('/jobs', requireTeacher, async (req, res) => {
+  try {
+    const jobs = await reviewJobQueue.listJobs(res.locals.callerId);
+    res.json({ jobs });
+
+  } catch (error) {
+    logger.error('Review job listing failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_LOOKUP_FAILED',
+      message: 'Failed to list review jobs'
+    });
+  }
+});
+
+/**
+ * GET /api/transcript/jobs/:id
+ * Job status with per-item progress
+ */
+router.get('/jobs/:id', requireTeacher, async (req, res) => {
+  try {
+    const job = await reviewJobQueue.getJob(req.params.id, res.locals.callerId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'JOB_NOT_FOUND',
+        message: 'Review job not found'
+      });
+    }
+
+    res.json({ job });
+
+  } catch (error) {
+    logger.error('Review job lookup failed', {
+      jobId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_LOOKUP_FAILED',
+      message: 'Failed to load review job'
+    });
+  }
+});
+
+/**
+ * GET /api/transcript/jobs/:id/results
+ * Reviewer output for every completed item of a job
+ */
+router.get('/jobs/:id/results', requireTeacher, async (req, res) => {
+  try {
+    const job = await reviewJobQueue.getResults(req.params.id, res.locals.callerId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'JOB_NOT_FOUND',
+        message: 'Review job not found'
+      });
+    }
+
+    res.json({ job: responseProjection.project(job, res.locals.callerRole) });
+
+  } catch (error) {
+    logger.error('Review job results lookup failed', {
+      jobId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_LOOKUP_FAILED',
+      message: 'Failed to load review job results'
+    });
+  }
+});
+
+/**
+ * GET /api/transcript/jobs/:id/items/:itemId
+ * One item with its Reviewer output and transcript turns
+ */
+router.get('/jobs/:id/items/:itemId', requireTeacher, async (req, res) => {
+  try {
+    const item = await reviewJobQueue.getItem(req.params.id, req.params.itemId, res.locals.callerId);
+
+    if (!item) {
+      return res.status(404).json({
+        error: 'JOB_ITEM_NOT_FOUND',
+        message: 'Review job item not found'
+      });
+    }
+
+    res.json({ item: responseProjection.project(item, res.locals.callerRole) });
+
+  } catch (error) {
+    if (error instanceof ReviewJobError) {
+      return res.status(STATUS_BY_JOB_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Review job item lookup failed', {
+      jobId: req.params.id,
+      itemId: req.params.itemId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_LOOKUP_FAILED',
+      message: 'Failed to load review job item'
+    });
+  }
+});
+
+/**
+ * POST /api/transcript/jobs/:id/retry
+ * Queue failed items again (all of them, or those listed in itemIds)
+ */
+router.post('/jobs/:id/retry', requireTeacher, async (req, res) => {
+  try {
+    const { itemIds } = req.body ?? {};
+    const job = await reviewJobQueue.retry(
+      req.params.id,
+      res.locals.callerId,
+      Array.isArray(itemIds) ? itemIds.filter((id: unknown): id is string => typeof id === 'string') : undefined
+    );
+
+    res.status(202).json({ job });
+
+  } catch (error) {
+    if (error instanceof ReviewJobError) {
+      return res.status(STATUS_BY_JOB_ERROR[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message
+      });
+    }
+
+    logger.error('Review job retry failed', {
+      jobId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    res.status(500).json({
+      error: 'JOB_RETRY_FAILED',
+      message: 'Failed to retry review job items'
+    });
+  }
+});
+
 export { router as transcriptRoutes };
\ No newline at end of file
@@ -172,11 +172,30 @@ export const REVIEWER_SCHEMA = {
   additionalProperties: false
 } as const;
 
+export const ROLEPLAY_SCHEMA = {
+  type: "object",
+  properties: {
+    type: {
+      type: "string",
+      const: "roleplay"
+    },
+    content: {
+      type: "string",
+      description: "The character's reply to the student, in character",
+      minLength: 1,
+      maxLength: 1000
+    }
+  },
+  required: ["type", "content"],
+  additionalProperties: false
+} as const;
+
 // Schema registry for validation
 export const AGENT_SCHEMAS = {
   navigator: NAVIGATOR_SCHEMA,
   analyst: ANALYST_SCHEMA, 
-  reviewer: REVIEWER_SCHEMA
+  reviewer: REVIEWER_SCHEMA,
+  roleplay: ROLEPLAY_SCHEMA
 } as const;
 
 // TypeScript types derived from schemas
@@ -211,4 +230,14 @@ export type ReviewerResponse = {
   summary: string;
 };
 
-export type AgentResponse = NavigatorResponse | AnalystResponse | ReviewerResponse;
\ No newline at end of file
+export type RoleplayResponse = {
+  type: "roleplay";
+  content: string;
+  metadata?: {
+    role: string;
+    scenario: string;
+    emotional_state?: string;
+  };
+};
+
+export type AgentResponse = NavigatorResponse | AnalystResponse | ReviewerResponse | RoleplayResponse;
\ No newline at end of file
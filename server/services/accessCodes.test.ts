@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { accessCodes } from './accessCodes';
+
+const CLASS_CODE = {
+  id: 'EX-CLASS01',
+  type: 'exercise',
+  target_id: 'exercise-1',
+  class_id: 'class-1',
+  replaced_by: null,
+  starts_at: null,
+  expires_at: null,
+  max_sessions: null,
+  session_count: 0,
+  revoked_at: null
+};
+
+const mockCode = () =>
+  vi.spyOn(accessCodes as unknown as { load: () => Promise<typeof CLASS_CODE> }, 'load').mockResolvedValue(CLASS_CODE);
+
+describe('accessCodes.claim', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rejects class-scoped codes without an enrolled student', async () => {
+    mockCode();
+
+    await expect(accessCodes.claim('EX-CLASS01', 'exercise')).rejects.toMatchObject({ code: 'CODE_CLASS_ONLY' });
+  });
+
+  it('rejects class-scoped codes for students of another class', async () => {
+    mockCode();
+
+    await expect(accessCodes.claim('EX-CLASS01', 'exercise', 'class-2')).rejects.toMatchObject({ code: 'CODE_WRONG_CLASS' });
+  });
+
+  it('checks a code of the student class without claiming it', async () => {
+    mockCode();
+
+    await expect(accessCodes.check('EX-CLASS01', 'exercise', 'class-1')).resolves.toEqual({
+      targetId: 'exercise-1',
+      classId: 'class-1'
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Access Codes - Lifecycle checks when a session is started with a code
+ * Resolves an exercise or lesson code to its target, rejects codes that are
+ * unknown, revoked, outside their validity window or used up, and counts the
+ * session against the code's limit.
+ */
+
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import {
+  AccessCodeErrorCode,
+  AccessCodeLimits,
+  AccessCodeStatus,
+  AccessCodeType,
+  accessCodeStatus
+} from '../../src/types/accessCodes';
+
+export class AccessCodeError extends Error {
+  constructor(public readonly code: AccessCodeErrorCode, message: string) {
+    super(message);
+    this.name = 'AccessCodeError';
+  }
+}
+
+export interface ClaimedAccessCode {
+  targetId: string;
+  classId: string | null;
+}
+
+interface CodeRow extends AccessCodeLimits {
+  id: string;
+  type: string;
+  target_id: string;
+  class_id: string | null;
+  replaced_by: string | null;
+}
+
+// Concurrent starts with the same code retry the usage count update this many times
+const MAX_CLAIM_ATTEMPTS = 5;
+
+const REJECTIONS: Record<Exclude<AccessCodeStatus, 'active'>, AccessCodeErrorCode> = {
+  revoked: 'CODE_REVOKED',
+  scheduled: 'CODE_NOT_YET_VALID',
+  expired: 'CODE_EXPIRED',
+  exhausted: 'CODE_USAGE_LIMIT_REACHED'
+};
+
+class AccessCodes {
+  /**
+   * Validate a code without counting a session against it, so its target can be
+   * resolved before the session is claimed
+   */
+  async check(codeId: string, type: AccessCodeType, studentClassId?: string): Promise<ClaimedAccessCode> {
+    const code = await this.load(codeId, type);
+    this.assertUsable(code, studentClassId);
+    return { targetId: code.target_id, classId: code.class_id };
+  }
+
+  /**
+   * Validate a code and count one session against it
+   * Enrolled students pass their class; class-scoped codes only accept students of that class.
+   */
+  async claim(codeId: string, type: AccessCodeType, studentClassId?: string): Promise<ClaimedAccessCode> {
+    for (let attempt = 1; attempt <= MAX_CLAIM_ATTEMPTS; attempt++) {
+      const code = await this.load(codeId, type);
+      this.assertUsable(code, studentClassId);
+
+      // Only succeeds if no other session claimed the code since it was read
+      const { data: updated, error } = await supabase
+        .from('codes')
+        .update({ session_count: code.session_count + 1 })
+        .eq('id', code.id)
+        .eq('session_count', code.session_count)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to update access code usage: ${error.message}`);
+      }
+
+      if (updated && updated.length > 0) {
+        logger.info('Access code claimed', {
+          codeId,
+          targetId: code.target_id,
+          sessionCount: code.session_count + 1,
+          maxSessions: code.max_sessions
+        });
+        return { targetId: code.target_id, classId: code.class_id };
+      }
+
+      logger.warn('Access code claim conflicted, retrying', { codeId, attempt });
+    }
+
+    throw new AccessCodeError('CODE_CLAIM_CONFLICT', 'The code is being used by many students at once, please try again');
+  }
+
+  private assertUsable(code: CodeRow, studentClassId?: string): void {
+    const status = accessCodeStatus(code);
+
+    if (status !== 'active') {
+      logger.info('Access code rejected', { codeId: code.id, status });
+      throw new AccessCodeError(REJECTIONS[status], this.describe(status, code));
+    }
+
+    if (code.class_id && !studentClassId) {
+      throw new AccessCodeError('CODE_CLASS_ONLY', 'This code is for a class: join the class with your student key first');
+    }
+    if (code.class_id && code.class_id !== studentClassId) {
+      throw new AccessCodeError('CODE_WRONG_CLASS', 'This code belongs to another class');
+    }
+  }
+
+  private async load(codeId: string, type: AccessCodeType): Promise<CodeRow> {
+    const { data, error } = await supabase
+      .from('codes')
+      .select('id, type, target_id, starts_at, expires_at, max_sessions, session_count, revoked_at, class_id, replaced_by')
+      .eq('id', codeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up access code: ${error.message}`);
+    }
+
+    if (!data || data.type !== type || !data.target_id) {
+      throw new AccessCodeError('CODE_NOT_FOUND', `Unknown ${type} code ${codeId}`);
+    }
+
+    return data as CodeRow;
+  }
+
+  private describe(status: Exclude<AccessCodeStatus, 'active'>, code: CodeRow): string {
+    switch (status) {
+      case 'revoked':
+        return code.replaced_by
+          ? 'This code has been replaced by a new one, ask your teacher for it'
+          : 'This code has been revoked';
+      case 'scheduled':
+        return `This code is valid from ${code.starts_at}`;
+      case 'expired':
+        return `This code expired at ${code.expires_at}`;
+      case 'exhausted':
+        return `This code has reached its limit of ${code.max_sessions} sessions`;
+    }
+  }
+}
+
+export const accessCodes = new AccessCodes();
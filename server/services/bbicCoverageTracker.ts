@@ -0,0 +1,235 @@
+/**
+ * BBIC Coverage Tracker - Live checklist coverage for content protocols
+ * Each student turn is classified against the frame, content and avslut boxes of
+ * the BBIC protocols in use. Box status only improves (not_covered -> partial ->
+ * covered) and is kept on the session for the checklist panel and the Navigator.
+ */
+
+import { logger } from '../config/logger';
+import { getLLMProvider } from '../providers';
+import { protocolRegistry, ResolvedProtocol } from './protocolRegistry';
+import type { SessionState } from './sessionManager';
+import {
+  BBICBox,
+  BBICBoxCoverage,
+  BBICCoverage,
+  BBICProtocolTemplate,
+  BBICValidator
+} from '../../src/types/bbicTemplate';
+
+type ContentProtocol = Extract<ResolvedProtocol, { kind: 'content' }>;
+
+type BoxStatus = BBICBox['status'];
+
+const STATUS_RANK: Record<BoxStatus, number> = {
+  not_covered: 0,
+  partial: 1,
+  covered: 2
+};
+
+const CLASSIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    boxes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          status: { type: 'string', enum: ['covered', 'partial'] }
+        },
+        required: ['id', 'status'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['boxes'],
+  additionalProperties: false
+};
+
+// Heuristic fallback: distinct keyword stems shared by the turn and a box description
+const COVERED_STEM_MATCHES = 3;
+const PARTIAL_STEM_MATCHES = 2;
+const STEM_LENGTH = 6;
+const MIN_WORD_LENGTH = 5;
+const STOP_WORDS = new Set([
+  'också', 'något', 'några', 'detta', 'dessa', 'vilket', 'vilken', 'under', 'efter', 'mellan',
+  'kommer', 'skulle', 'kunna', 'eller', 'andra', 'samma', 'sedan', 'barnet', 'barnets',
+  'about', 'their', 'there', 'which', 'would', 'could', 'should'
+]);
+
+class BBICCoverageTracker {
+  /**
+   * Coverage for the session's current exercise, starting empty when nothing is tracked yet
+   * Returns undefined when no BBIC protocol is in use.
+   */
+  async current(session: SessionState): Promise<BBICCoverage[] | undefined> {
+    const protocols = await this.contentProtocols(session.protocols);
+    if (protocols.length === 0) {
+      return undefined;
+    }
+
+    return protocols.map(protocol => this.forProtocol(session, protocol));
+  }
+
+  /**
+   * Classify one student turn and return the updated coverage (not persisted)
+   */
+  async track(session: SessionState, text: string, turn: number): Promise<BBICCoverage[] | undefined> {
+    const protocols = await this.contentProtocols(session.protocols);
+    if (protocols.length === 0) {
+      return undefined;
+    }
+
+    return Promise.all(protocols.map(async protocol => {
+      const coverage = this.forProtocol(session, protocol);
+      const open = this.allBoxes(protocol.template).filter(box =>
+        coverage.boxes.find(entry => entry.boxId === box.id)?.status !== 'covered'
+      );
+      if (open.length === 0) {
+        return coverage;
+      }
+
+      const detected = await this.classify(session.id, text, open);
+      const boxes = coverage.boxes.map(entry => {
+        const status = detected.get(entry.boxId);
+        return status && STATUS_RANK[status] > STATUS_RANK[entry.status]
+          ? { ...entry, status, turn }
+          : entry;
+      });
+
+      return this.withCompletion({ ...coverage, boxes }, protocol.template);
+    }));
+  }
+
+  /**
+   * Required boxes not yet covered, for the Navigator's feedforward
+   */
+  uncoveredRequired(coverage: BBICCoverage[] | undefined): BBICBoxCoverage[] {
+    return (coverage ?? []).flatMap(entry => entry.boxes.filter(box => box.required && box.status !== 'covered'));
+  }
+
+  private async contentProtocols(protocolIds: string[]): Promise<ContentProtocol[]> {
+    const protocols = await protocolRegistry.resolve(protocolIds);
+    return protocols.filter((protocol): protocol is ContentProtocol => protocol.kind === 'content');
+  }
+
+  private forProtocol(session: SessionState, protocol: ContentProtocol): BBICCoverage {
+    const stored = session.bbicCoverage?.find(entry =>
+      entry.protocolId === protocol.id && entry.exerciseIndex === session.currentExerciseIndex
+    );
+    if (stored) {
+      return stored;
+    }
+
+    const required = new Set(protocol.template.completionCriteria.requiredBoxes);
+    return this.withCompletion({
+      protocolId: protocol.id,
+      protocolName: protocol.name,
+      exerciseIndex: session.currentExerciseIndex,
+      boxes: this.allBoxes(protocol.template).map(box => ({
+        boxId: box.id,
+        label: box.label,
+        type: box.type,
+        required: required.has(box.id),
+        status: 'not_covered' as const
+      })),
+      minimumCoverage: protocol.template.completionCriteria.minimumCoverage,
+      completion: 0,
+      criteriaMet: false
+    }, protocol.template);
+  }
+
+  private withCompletion(coverage: BBICCoverage, template: BBICProtocolTemplate): BBICCoverage {
+    const byId = new Map(coverage.boxes.map(entry => [entry.boxId, entry.status]));
+    const { completionPercentage } = BBICValidator.calculateCompletion(
+      this.allBoxes(template).map(box => ({ ...box, status: byId.get(box.id) ?? 'not_covered' }))
+    );
+
+    return {
+      ...coverage,
+      completion: completionPercentage,
+      criteriaMet: completionPercentage >= coverage.minimumCoverage
+        && coverage.boxes.every(box => !box.required || box.status === 'covered')
+    };
+  }
+
+  private allBoxes(template: BBICProtocolTemplate): BBICBox[] {
+    return [...template.checklist.frame, ...template.checklist.content, ...template.checklist.avslut];
+  }
+
+  /**
+   * Boxes the turn addresses, using the LLM provider and falling back to keyword matching
+   */
+  private async classify(sessionId: string, text: string, boxes: BBICBox[]): Promise<Map<string, BoxStatus>> {
+    const provider = getLLMProvider();
+
+    // The stub provider only knows agent fixtures
+    if (provider.name === 'stub') {
+      return this.classifyByKeywords(text, boxes);
+    }
+
+    try {
+      const completion = await provider.completeJSON({
+        agentType: 'analyst',
+        messages: [
+          {
+            role: 'system',
+            content: `Avgör vilka moment i samtalschecklistan som studentens replik genomför.
+- covered: momentet genomförs tydligt i repliken
+- partial: momentet påbörjas eller berörs men genomförs inte fullt ut
+Ta bara med moment som repliken faktiskt berör. Svara med JSON enligt schema.
+
+MOMENT:
+${boxes.map(box => `${box.id}: ${box.label}${box.context ? ` (${box.context})` : ''}${box.successIndicators?.length ? `\n  Tecken: ${box.successIndicators.join('; ')}` : ''}`).join('\n')}`
+          },
+          { role: 'user', content: text }
+        ],
+        temperature: 0,
+        maxTokens: 50 + boxes.length * 20,
+        schemaName: 'bbic_coverage',
+        schema: CLASSIFICATION_SCHEMA
+      });
+
+      const parsed = JSON.parse(completion.content) as { boxes: Array<{ id: string; status: BoxStatus }> };
+      const known = new Set(boxes.map(box => box.id));
+      return new Map(parsed.boxes
+        .filter(entry => known.has(entry.id) && (entry.status === 'covered' || entry.status === 'partial'))
+        .map(entry => [entry.id, entry.status]));
+    } catch (error) {
+      logger.warn('BBIC coverage classification failed, using keyword matching', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return this.classifyByKeywords(text, boxes);
+    }
+  }
+
+  private classifyByKeywords(text: string, boxes: BBICBox[]): Map<string, BoxStatus> {
+    const turnStems = this.stems(text);
+    const detected = new Map<string, BoxStatus>();
+
+    for (const box of boxes) {
+      const description = [box.label, box.context ?? '', box.exampleScript, ...(box.successIndicators ?? [])].join(' ');
+      const matches = [...this.stems(description)].filter(stem => turnStems.has(stem)).length;
+
+      if (matches >= COVERED_STEM_MATCHES) {
+        detected.set(box.id, 'covered');
+      } else if (matches >= PARTIAL_STEM_MATCHES) {
+        detected.set(box.id, 'partial');
+      }
+    }
+
+    return detected;
+  }
+
+  private stems(text: string): Set<string> {
+    return new Set(
+      (text.toLowerCase().match(/[a-zåäöéü]+/g) ?? [])
+        .filter(word => word.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(word))
+        .map(word => word.slice(0, STEM_LENGTH))
+    );
+  }
+}
+
+export const bbicCoverageTracker = new BBICCoverageTracker();
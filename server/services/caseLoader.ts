@@ -0,0 +1,283 @@
+/**
+ * Case Loader - Builds the roleplay persona for an exercise
+ * Combines the exercise's cases row with its linked case document and falls
+ * back to the default concerned-parent persona when neither is available.
+ */
+
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import { DEFAULT_EMOTIONAL_PROFILE, EMOTIONAL_STATES } from './emotionalStateMachine';
+import {
+  CasePersona,
+  EmotionalProfile,
+  EmotionalRule,
+  EmotionalSignal,
+  EmotionalState,
+  PublicCasePersona
+} from '../../src/types/basis';
+
+export const DEFAULT_CASE_PERSONA: CasePersona = {
+  caseId: 'concerned-parent-case',
+  role: 'Concerned Parent',
+  background: 'A parent is worried about their child\'s academic progress and emotional well-being. They want to understand what support is available and how they can help at home.',
+  hiddenFacts: []
+};
+
+type PersonaField = 'name' | 'role' | 'background' | 'goals' | 'hiddenFacts' | 'initialState' | 'trustThreshold';
+
+// Labelled sections recognised in case texts, e.g. "Bakgrund: ..." or "Hidden facts:"
+const FIELD_LABELS: Array<[PersonaField, RegExp]> = [
+  ['name', /^(namn|name)\s*:\s*/i],
+  ['role', /^(roll|role|karaktär|character)\s*:\s*/i],
+  ['background', /^(bakgrund|background|situation)\s*:\s*/i],
+  ['goals', /^(mål|goals?|syfte)\s*:\s*/i],
+  ['hiddenFacts', /^(dolda fakta|hemliga? (?:fakta|information|uppgifter)|hidden facts|secrets?)\s*:\s*/i],
+  ['initialState', /^(känsloläge|sinnesstämning|emotional state|mood)\s*:\s*/i],
+  ['trustThreshold', /^(förtroendetröskel|trust threshold)\s*:\s*/i]
+];
+
+// Words teachers use for the character's starting state in case texts
+const STATE_WORDS: Array<[EmotionalState, RegExp]> = [
+  ['defensive', /(?:^|\s)(defensiv|defensive|misstänksam|arg|angry|hostile)/i],
+  ['anxious', /(?:^|\s)(orolig|ängslig|anxious|worried|nervös|nervous)/i],
+  ['calming', /(?:^|\s)(lugn|calm|samarbetsvillig)/i],
+  ['trusting', /(?:^|\s)(tillitsfull|förtroendefull|trusting|öppen|open)/i]
+];
+
+const EMOTIONAL_SIGNALS: EmotionalSignal[] = ['empathy', 'open_question', 'reflection', 'judgement', 'dismissal', 'pressure'];
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Unlabelled case documents are used as background; keep the prompt within budget
+const MAX_BACKGROUND_LENGTH = 3000;
+
+class CaseLoader {
+  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private cache = new Map<string, { persona: CasePersona; loadedAt: number }>();
+
+  /**
+   * Load the persona for an exercise from its case row and linked case document
+   * Structured case fields win over parsed text; missing fields fall back to the default persona.
+   */
+  async loadPersona(exerciseId: string, caseId?: string | null): Promise<CasePersona> {
+    const cacheKey = `${exerciseId}:${caseId ?? ''}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL) {
+      return cached.persona;
+    }
+
+    const [caseFields, documentFields] = await Promise.all([
+      caseId ? this.loadCaseRow(caseId) : Promise.resolve(null),
+      this.loadCaseDocument(exerciseId)
+    ]);
+
+    if (!caseFields && !documentFields) {
+      logger.info('No case data for exercise, using default persona', { exerciseId, caseId });
+      return { ...DEFAULT_CASE_PERSONA, caseId: caseId || DEFAULT_CASE_PERSONA.caseId };
+    }
+
+    const merged = { ...documentFields, ...caseFields };
+    const persona: CasePersona = {
+      caseId: caseId || `exercise:${exerciseId}`,
+      name: merged.name,
+      role: merged.role || DEFAULT_CASE_PERSONA.role,
+      background: merged.background || DEFAULT_CASE_PERSONA.background,
+      goals: merged.goals,
+      emotionalProfile: merged.emotionalProfile,
+      hiddenFacts: [...new Set([...(caseFields?.hiddenFacts ?? []), ...(documentFields?.hiddenFacts ?? [])])]
+    };
+
+    logger.info('Case persona loaded', {
+      exerciseId,
+      caseId: persona.caseId,
+      hasName: !!persona.name,
+      role: persona.role,
+      hiddenFactCount: persona.hiddenFacts.length,
+      initialEmotionalState: persona.emotionalProfile?.initialState
+    });
+
+    this.cache.set(cacheKey, { persona, loadedAt: Date.now() });
+    return persona;
+  }
+
+  /**
+   * Persona without hidden facts, safe to send to the client
+   */
+  publicPersona(persona: CasePersona): PublicCasePersona {
+    const { hiddenFacts, emotionalProfile, ...visible } = persona;
+    return visible;
+  }
+
+  /**
+   * Short display label, e.g. "Anna Berg (Concerned Parent)"
+   */
+  describe(persona: CasePersona | PublicCasePersona): string {
+    return persona.name ? `${persona.name} (${persona.role})` : persona.role;
+  }
+
+  /**
+   * Case fields for the agent exercise context; hidden facts are left out
+   * because only the roleplay character may know them.
+   */
+  toExerciseContext(persona: CasePersona | PublicCasePersona, focusHint: string) {
+    return {
+      focusHint,
+      caseRole: this.describe(persona),
+      caseBackground: persona.goals
+        ? `${persona.background}\nMål: ${persona.goals}`
+        : persona.background
+    };
+  }
+
+  private async loadCaseRow(caseId: string): Promise<Partial<CasePersona> | null> {
+    const { data, error } = await supabase
+      .from('cases')
+      .select('id, title, raw_text, structured_json')
+      .eq('id', caseId)
+      .maybeSingle();
+
+    if (error || !data) {
+      logger.warn('Case not found or query error', { caseId, error: error?.message });
+      return null;
+    }
+
+    const parsed = data.raw_text ? this.parseCaseText(data.raw_text) : {};
+    const structured = (data.structured_json ?? {}) as Record<string, unknown>;
+    const hiddenFacts = structured.hidden_facts ?? structured.hiddenFacts;
+
+    return this.compact({
+      name: this.asText(structured.name) ?? parsed.name,
+      role: this.asText(structured.role) ?? parsed.role,
+      background: this.asText(structured.background) ?? parsed.background,
+      goals: this.asText(structured.goals) ?? parsed.goals,
+      emotionalProfile: this.parseEmotionalProfile(structured.emotional_profile ?? structured.emotionalProfile)
+        ?? parsed.emotionalProfile,
+      hiddenFacts: Array.isArray(hiddenFacts)
+        ? hiddenFacts.filter((fact): fact is string => typeof fact === 'string' && fact.trim().length > 0)
+        : parsed.hiddenFacts
+    });
+  }
+
+  private async loadCaseDocument(exerciseId: string): Promise<Partial<CasePersona> | null> {
+    const { data: links, error } = await supabase
+      .from('exercise_documents')
+      .select('document_id, documents!inner(document_type, content)')
+      .eq('exercise_id', exerciseId)
+      .eq('documents.document_type', 'case');
+
+    if (error) {
+      logger.warn('Failed to load case document for exercise', { exerciseId, error: error.message });
+      return null;
+    }
+
+    const content = (links ?? [])
+      .map(link => (link.documents as { content?: string | null } | null)?.content)
+      .find((text): text is string => !!text && text.trim().length > 0);
+
+    return content ? this.parseCaseText(content) : null;
+  }
+
+  /**
+   * Parse labelled sections from case text; unlabelled text becomes the background
+   */
+  private parseCaseText(text: string): Partial<CasePersona> {
+    const sections: Partial<Record<PersonaField, string[]>> = {};
+    const unlabelled: string[] = [];
+    let current: PersonaField | null = null;
+
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      const label = FIELD_LABELS.find(([, pattern]) => pattern.test(trimmed));
+
+      // Hidden facts are a list; the first non-item line after it ends the section
+      if (current === 'hiddenFacts' && trimmed && !label && sections.hiddenFacts!.length > 0 && !LIST_ITEM_PATTERN.test(trimmed)) {
+        current = null;
+      }
+
+      if (label) {
+        current = label[0];
+        const rest = trimmed.replace(label[1], '');
+        sections[current] = rest ? [rest] : [];
+      } else if (current && trimmed) {
+        sections[current]!.push(trimmed);
+      } else if (!trimmed) {
+        // A blank line ends single-line fields but not the background or hidden facts
+        if (current === 'name' || current === 'role') current = null;
+      } else {
+        unlabelled.push(trimmed);
+      }
+    }
+
+    const join = (field: PersonaField) => sections[field]?.join(' ').trim() || undefined;
+    const initialState = join('initialState');
+    const stateMatch = initialState ? STATE_WORDS.find(([, pattern]) => pattern.test(initialState)) : undefined;
+    const trustThreshold = parseInt(join('trustThreshold') ?? '', 10);
+    const emotionalProfile = stateMatch || !Number.isNaN(trustThreshold)
+      ? {
+          ...DEFAULT_EMOTIONAL_PROFILE,
+          ...(stateMatch ? { initialState: stateMatch[0] } : {}),
+          ...(trustThreshold >= 0 ? { trustThreshold } : {})
+        }
+      : undefined;
+    const background = join('background') ?? (unlabelled.length > 0 ? unlabelled.join('\n') : undefined);
+
+    return this.compact({
+      name: join('name'),
+      role: join('role'),
+      background: background?.slice(0, MAX_BACKGROUND_LENGTH),
+      goals: join('goals'),
+      emotionalProfile,
+      hiddenFacts: (sections.hiddenFacts ?? [])
+        .map(item => item.replace(LIST_ITEM_PATTERN, '').trim())
+        .filter(Boolean)
+    });
+  }
+
+  /**
+   * Emotional profile from structured_json.emotional_profile; invalid values fall back to the defaults
+   */
+  private parseEmotionalProfile(value: unknown): EmotionalProfile | undefined {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const isState = (state: unknown): state is EmotionalState => EMOTIONAL_STATES.includes(state as EmotionalState);
+    const initialState = raw.initial_state ?? raw.initialState;
+    const trustThreshold = Number(raw.trust_threshold ?? raw.trustThreshold);
+    const gateHiddenFacts = raw.gate_hidden_facts ?? raw.gateHiddenFacts;
+
+    const rules = Array.isArray(raw.rules)
+      ? raw.rules
+          .filter((rule): rule is Record<string, unknown> => !!rule && typeof rule === 'object')
+          .filter(rule => EMOTIONAL_SIGNALS.includes(rule.signal as EmotionalSignal))
+          .map((rule): EmotionalRule => ({
+            signal: rule.signal as EmotionalSignal,
+            from: Array.isArray(rule.from) ? rule.from.filter(isState) : undefined,
+            shift: typeof rule.shift === 'number' ? rule.shift : undefined,
+            to: isState(rule.to) ? rule.to : undefined
+          }))
+      : undefined;
+
+    return {
+      initialState: isState(initialState) ? initialState : DEFAULT_EMOTIONAL_PROFILE.initialState,
+      trustThreshold: Number.isInteger(trustThreshold) && trustThreshold >= 0
+        ? trustThreshold
+        : DEFAULT_EMOTIONAL_PROFILE.trustThreshold,
+      gateHiddenFacts: typeof gateHiddenFacts === 'boolean' ? gateHiddenFacts : DEFAULT_EMOTIONAL_PROFILE.gateHiddenFacts,
+      ...(rules && rules.length > 0 ? { rules } : {})
+    };
+  }
+
+  private asText(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  private compact(fields: Partial<CasePersona>): Partial<CasePersona> {
+    return Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+    ) as Partial<CasePersona>;
+  }
+}
+
+export const caseLoader = new CaseLoader();
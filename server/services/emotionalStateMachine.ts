@@ -0,0 +1,199 @@
+/**
+ * Emotional State Machine - Tracks the roleplay character's emotional state
+ * Each student message is scanned for conversational signals (empathy, open
+ * questions, judgement, ...) and the case's rules move the character between
+ * defensive, anxious, calming and trusting. The resulting trajectory is kept
+ * on the session for the roleplay prompt and the Reviewer.
+ */
+
+import {
+  CasePersona,
+  EmotionalProfile,
+  EmotionalRule,
+  EmotionalSignal,
+  EmotionalState,
+  EmotionalTransition
+} from '../../src/types/basis';
+
+export interface EmotionalTrack {
+  state: EmotionalState;
+  /** Consecutive empathic turns without a negative signal */
+  empathyStreak: number;
+  trajectory: EmotionalTransition[];
+}
+
+export const EMOTIONAL_STATES: EmotionalState[] = ['defensive', 'anxious', 'calming', 'trusting'];
+
+export const DEFAULT_EMOTIONAL_PROFILE: EmotionalProfile = {
+  initialState: 'anxious',
+  trustThreshold: 2,
+  gateHiddenFacts: true
+};
+
+const DEFAULT_RULES: EmotionalRule[] = [
+  { signal: 'judgement', shift: -2 },
+  { signal: 'dismissal', shift: -1 },
+  { signal: 'pressure', shift: -1 },
+  { signal: 'empathy', shift: 1 },
+  { signal: 'reflection', shift: 1 },
+  // Questions only help once the character has started to relax
+  { signal: 'open_question', from: ['calming', 'trusting'], shift: 1 }
+];
+
+const NEGATIVE_SIGNALS: EmotionalSignal[] = ['judgement', 'dismissal', 'pressure'];
+const EMPATHIC_SIGNALS: EmotionalSignal[] = ['empathy', 'reflection'];
+
+// Swedish and English phrasings; kept deliberately conservative to avoid false positives
+const SIGNAL_PATTERNS: Record<EmotionalSignal, RegExp> = {
+  empathy: /\b(jag förstår|förstår att|det låter (?:svårt|tungt|jobbigt|påfrestande)|det är (?:förståeligt|begripligt|naturligt)|jag hör att|tråkigt att höra|i understand|that sounds (?:hard|difficult|tough|stressful)|i hear (?:you|that)|that must be)\b/i,
+  reflection: /\b(om jag förstår dig rätt|du (?:säger|menar|känner|upplever) att|så du (?:känner|upplever|menar)|det du beskriver|it sounds like you|so you(?:'re| are) saying|what i hear is|you feel)\b/i,
+  open_question: /\b(hur|vad|vilka|vilken|på vilket sätt|how|what|in what way)\b[^.!?]*\?|\b(berätta (?:mer|gärna)|kan du berätta|tell me (?:more|about))\b/i,
+  judgement: /\b(du borde|ni borde|ditt fel|ert fel|det är fel av (?:dig|er)|you should have|your fault|you need to accept)\b/i,
+  dismissal: /\b(det är inget att oroa sig för|oroa (?:dig|er) inte|inte så farligt|det löser sig|lugna ner (?:dig|er)|don'?t worry|calm down|not a big deal|not that bad)\b/i,
+  pressure: /\b(du måste|ni måste|vi har inte tid|svara (?:bara )?på frågan|jag behöver ett svar nu|you have to|you must|just answer)\b/i
+};
+
+const STATE_LABELS: Record<EmotionalState, string> = {
+  defensive: 'defensiv',
+  anxious: 'orolig',
+  calming: 'lugnare',
+  trusting: 'tillitsfull'
+};
+
+const SIGNAL_LABELS: Record<EmotionalSignal, string> = {
+  empathy: 'empati',
+  open_question: 'öppen fråga',
+  reflection: 'reflektion',
+  judgement: 'skuldbeläggande',
+  dismissal: 'avfärdande',
+  pressure: 'press'
+};
+
+const STATE_GUIDANCE: Record<EmotionalState, string> = {
+  defensive: 'Du är defensiv och misstänksam. Svara kort, ifrågasätt gärna studentens avsikter och dela inga personliga detaljer.',
+  anxious: 'Du är orolig och spänd. Du pratar om din oro men håller tillbaka och behöver känna dig lyssnad på innan du öppnar dig.',
+  calming: 'Du har börjat lugna dig. Du är mer samarbetsvillig och delar mer, men är fortfarande försiktig med det känsligaste.',
+  trusting: 'Du känner förtroende för studenten. Du är öppen och kan dela även det du tidigare hållit inne med.'
+};
+
+class EmotionalStateMachine {
+  /**
+   * The case's emotional profile with defaults filled in
+   */
+  profileFor(persona: CasePersona | undefined): EmotionalProfile {
+    return { ...DEFAULT_EMOTIONAL_PROFILE, ...persona?.emotionalProfile };
+  }
+
+  /**
+   * Fresh track for the start of an exercise, keeping any earlier trajectory
+   */
+  initialTrack(profile: EmotionalProfile, trajectory: EmotionalTransition[] = []): EmotionalTrack {
+    return { state: profile.initialState, empathyStreak: 0, trajectory };
+  }
+
+  /**
+   * Signals present in a student message
+   */
+  detectSignals(text: string): EmotionalSignal[] {
+    return (Object.keys(SIGNAL_PATTERNS) as EmotionalSignal[]).filter(signal => SIGNAL_PATTERNS[signal].test(text));
+  }
+
+  /**
+   * Apply one student message to the track
+   * Any negative signal wins over positive ones (the most negative applies);
+   * otherwise the largest positive shift applies. Becoming trusting also
+   * requires trustThreshold consecutive empathic turns.
+   */
+  advance(
+    track: EmotionalTrack,
+    text: string,
+    profile: EmotionalProfile,
+    position: { exerciseIndex: number; turn: number }
+  ): { track: EmotionalTrack; transition: EmotionalTransition } {
+    const signals = this.detectSignals(text);
+    const rules = profile.rules ?? DEFAULT_RULES;
+    const currentIndex = EMOTIONAL_STATES.indexOf(track.state);
+
+    const candidates = rules
+      .filter(rule => signals.includes(rule.signal) && (!rule.from || rule.from.includes(track.state)))
+      .map(rule => rule.to ? EMOTIONAL_STATES.indexOf(rule.to) : this.clamp(currentIndex + (rule.shift ?? 0)));
+
+    const worse = candidates.filter(index => index < currentIndex);
+    let nextIndex = worse.length > 0
+      ? Math.min(...worse)
+      : Math.max(currentIndex, ...candidates);
+
+    const hasNegative = signals.some(signal => NEGATIVE_SIGNALS.includes(signal));
+    const empathyStreak = hasNegative
+      ? 0
+      : track.empathyStreak + (signals.some(signal => EMPATHIC_SIGNALS.includes(signal)) ? 1 : 0);
+
+    const trustingIndex = EMOTIONAL_STATES.indexOf('trusting');
+    if (nextIndex === trustingIndex && currentIndex < trustingIndex && empathyStreak < profile.trustThreshold) {
+      nextIndex = trustingIndex - 1;
+    }
+
+    const transition: EmotionalTransition = {
+      exerciseIndex: position.exerciseIndex,
+      turn: position.turn,
+      from: track.state,
+      to: EMOTIONAL_STATES[nextIndex],
+      signals,
+      at: new Date().toISOString()
+    };
+
+    return {
+      track: {
+        state: transition.to,
+        empathyStreak,
+        trajectory: [...track.trajectory, transition]
+      },
+      transition
+    };
+  }
+
+  /**
+   * Behaviour guidance for the roleplay prompt
+   */
+  describeForPrompt(state: EmotionalState): string {
+    return STATE_GUIDANCE[state];
+  }
+
+  mayRevealHiddenFacts(state: EmotionalState, profile: EmotionalProfile): boolean {
+    return !profile.gateHiddenFacts || state === 'trusting';
+  }
+
+  /**
+   * Readable trajectory for the Reviewer; turns without a change or signal are skipped
+   */
+  summarizeTrajectory(trajectory: EmotionalTransition[]): string {
+    if (trajectory.length === 0) {
+      return '';
+    }
+
+    const lines = trajectory
+      .filter(step => step.from !== step.to || step.signals.length > 0)
+      .map(step => {
+        const change = step.from === step.to
+          ? `förblev ${STATE_LABELS[step.to]}`
+          : `${STATE_LABELS[step.from]} → ${STATE_LABELS[step.to]}`;
+        const signals = step.signals.length > 0
+          ? ` (${step.signals.map(signal => SIGNAL_LABELS[signal]).join(', ')})`
+          : '';
+        return `- Övning ${step.exerciseIndex + 1}, tur ${step.turn}: ${change}${signals}`;
+      });
+
+    const first = trajectory[0];
+    const last = trajectory[trajectory.length - 1];
+    return [
+      `Karaktären började ${STATE_LABELS[first.from]} och slutade ${STATE_LABELS[last.to]}.`,
+      ...lines
+    ].join('\n');
+  }
+
+  private clamp(index: number): number {
+    return Math.max(0, Math.min(EMOTIONAL_STATES.length - 1, index));
+  }
+}
+
+export const emotionalStateMachine = new EmotionalStateMachine();
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { feedbackValidation } from './feedbackValidation';
+import { ResolvedProtocol } from './protocolRegistry';
+import { AgentResponse } from '../schemas/agentSchemas';
+import { EXAMPLE_BBIC_PROTOCOL } from '../../src/types/bbicTemplate';
+import { EXAMPLE_PROTOCOL } from '../../src/types/protocolTemplate';
+
+const PROTOCOLS: ResolvedProtocol[] = [
+  { id: 'bbic', name: 'BBIC', version: '1', kind: 'content', template: EXAMPLE_BBIC_PROTOCOL },
+  { id: 'base', name: 'Base', version: '1', kind: 'base', template: EXAMPLE_PROTOCOL }
+];
+
+const analyst = (feedback: string) => ({ past_only_feedback: feedback }) as unknown as AgentResponse;
+
+describe('feedbackValidation', () => {
+  it('matches forbidden terms on whole words only', () => {
+    const violations = feedbackValidation.validate(
+      'analyst',
+      analyst('Du berättade om helgen och förälderns brasklapp, och frågade hur felicia mådde i skolan.'),
+      PROTOCOLS
+    );
+
+    expect(violations).toEqual([]);
+  });
+
+  it('reports forbidden terms as errors', () => {
+    const violations = feedbackValidation.validate(
+      'analyst',
+      analyst('Du ställde en bra fråga om hur barnet hade det i skolan under veckan.'),
+      PROTOCOLS
+    );
+
+    expect(violations.map(violation => [violation.severity, violation.matches])).toEqual([
+      ['error', ['bra']],
+      ['error', ['bra']]
+    ]);
+  });
+
+  it('does not require forward-looking phrasing in retrospective feedback', () => {
+    const violations = feedbackValidation.validate(
+      'reviewer',
+      { summary: 'Du inledde samtalet lugnt och lyssnade på förälderns oro innan du förklarade.' } as unknown as AgentResponse,
+      PROTOCOLS
+    );
+
+    expect(violations).toEqual([]);
+  });
+
+  it('reports length limits as warnings', () => {
+    const violations = feedbackValidation.validate('analyst', analyst('Du frågade.'), PROTOCOLS);
+
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.every(violation => violation.severity === 'warning')).toBe(true);
+    expect(feedbackValidation.toIssues(violations).map(issue => issue.rule)).toContain('length');
+  });
+});
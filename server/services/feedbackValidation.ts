@@ -0,0 +1,216 @@
+/**
+ * Feedback Validation - Protocol validationRules for student-facing agent text
+ * Checks Analyst past_only_feedback and Reviewer summary against the forbidden terms,
+ * required patterns and length limits of the protocols in use. Forbidden terms are
+ * errors and join the guardrail repair/regeneration loop in BaseAgent; length and
+ * required-pattern hits are warnings. Each generation's outcome is stored in
+ * feedback_validation_logs for teachers.
+ */
+
+import { AgentType } from '../config/agents';
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import { ResolvedProtocol } from './protocolRegistry';
+import { GuardrailViolation } from '../middleware/guardrails';
+import { AgentResponse } from '../schemas/agentSchemas';
+import { ProtocolValidator } from '../../src/types/protocolTemplate';
+import { BBICValidator } from '../../src/types/bbicTemplate';
+import { ProcessProtocolValidator } from '../../src/types/processProtocolTemplate';
+
+export type FeedbackValidationRule = 'forbidden_term' | 'required_pattern' | 'length';
+
+export type FeedbackValidationOutcome = 'passed' | 'repaired' | 'regenerated' | 'failed';
+
+export interface FeedbackValidationIssue {
+  protocolId: string;
+  field: string;
+  rule: FeedbackValidationRule;
+  message: string;
+  matches: string[];
+}
+
+export interface FeedbackValidationLog {
+  id: string;
+  sessionId: string;
+  agentType: AgentType;
+  protocolIds: string[];
+  outcome: FeedbackValidationOutcome;
+  attempts: number;
+  violations: FeedbackValidationIssue[];
+  createdAt: string;
+}
+
+interface FeedbackValidationRow {
+  id: string;
+  session_id: string;
+  agent_type: AgentType;
+  protocol_ids: string[];
+  outcome: FeedbackValidationOutcome;
+  attempts: number;
+  violations: FeedbackValidationIssue[];
+  created_at: string;
+}
+
+// Student-facing prose checked per agent. Both fields look back on the conversation, so the
+// protocols' forward-looking requiredPatterns ("Nästa gång", "Prova att") are not checked
+const VALIDATED_FIELDS: Partial<Record<AgentType, string>> = {
+  analyst: 'past_only_feedback',
+  reviewer: 'summary'
+};
+
+type TemplateProtocol = Extract<ResolvedProtocol, { kind: 'base' | 'content' | 'process' }>;
+
+const FORBIDDEN_TERM_PATTERN = /^Forbidden term detected: "(.*)"$/;
+
+class FeedbackValidation {
+  /**
+   * Protocols in use whose validationRules apply to this agent's output
+   */
+  applicableProtocols(agentType: AgentType, protocols: ResolvedProtocol[]): TemplateProtocol[] {
+    if (!VALIDATED_FIELDS[agentType]) {
+      return [];
+    }
+
+    return protocols.filter((protocol): protocol is TemplateProtocol =>
+      (protocol.kind === 'base' || protocol.kind === 'content' || protocol.kind === 'process')
+      && !!protocol.template.validationRules
+    );
+  }
+
+  /**
+   * Validate the agent's student-facing text, returned as guardrail violations
+   */
+  validate(agentType: AgentType, response: AgentResponse, protocols: ResolvedProtocol[]): GuardrailViolation[] {
+    const field = VALIDATED_FIELDS[agentType];
+    const text = field ? (response as Record<string, unknown>)[field] : undefined;
+    if (!field || typeof text !== 'string') {
+      return [];
+    }
+
+    return this.applicableProtocols(agentType, protocols).flatMap(protocol =>
+      this.runValidator(protocol, text).map(message => this.toViolation(agentType, protocol.id, field, message))
+    );
+  }
+
+  /**
+   * Issue details of protocol violations, for logs and repair prompts
+   */
+  toIssues(violations: GuardrailViolation[]): FeedbackValidationIssue[] {
+    return violations
+      .filter(violation => violation.violationType === 'protocol_validation')
+      .map(violation => ({
+        protocolId: violation.protocolId ?? '',
+        field: violation.field ?? '',
+        rule: this.ruleOf(violation.pattern),
+        message: violation.pattern,
+        matches: violation.matches
+      }));
+  }
+
+  /**
+   * Store the outcome of one agent generation; failures are logged, never thrown
+   */
+  async record(entry: {
+    sessionId: string;
+    agentType: AgentType;
+    protocolIds: string[];
+    outcome: FeedbackValidationOutcome;
+    attempts: number;
+    violations: FeedbackValidationIssue[];
+  }): Promise<void> {
+    if (entry.violations.length > 0) {
+      logger.warn('Protocol feedback validation', {
+        sessionId: entry.sessionId,
+        agentType: entry.agentType,
+        outcome: entry.outcome,
+        attempts: entry.attempts,
+        violations: entry.violations.map(violation => `${violation.protocolId}/${violation.field}: ${violation.message}`)
+      });
+    }
+
+    try {
+      const { error } = await supabase
+        .from('feedback_validation_logs')
+        .insert({
+          session_id: entry.sessionId,
+          agent_type: entry.agentType,
+          protocol_ids: entry.protocolIds,
+          outcome: entry.outcome,
+          attempts: entry.attempts,
+          violations: entry.violations
+        });
+
+      if (error) {
+        logger.warn('Failed to store feedback validation log', { sessionId: entry.sessionId, error: error.message });
+      }
+    } catch (error) {
+      logger.warn('Failed to store feedback validation log', {
+        sessionId: entry.sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Validation logs for a session, newest first
+   */
+  async list(sessionId: string): Promise<FeedbackValidationLog[]> {
+    const { data, error } = await supabase
+      .from('feedback_validation_logs')
+      .select('id, session_id, agent_type, protocol_ids, outcome, attempts, violations, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load feedback validation logs: ${error.message}`);
+    }
+
+    return ((data ?? []) as unknown as FeedbackValidationRow[]).map(row => ({
+      id: row.id,
+      sessionId: row.session_id,
+      agentType: row.agent_type,
+      protocolIds: row.protocol_ids,
+      outcome: row.outcome,
+      attempts: row.attempts,
+      violations: row.violations ?? [],
+      createdAt: row.created_at
+    }));
+  }
+
+  private runValidator(protocol: TemplateProtocol, text: string): string[] {
+    const rules = { ...protocol.template.validationRules, requiredPatterns: [] };
+
+    switch (protocol.kind) {
+      case 'base':
+        return ProtocolValidator.validateStudentFeedback(text, rules).violations;
+      case 'content':
+        return BBICValidator.validateBBICFeedback(text, rules).violations;
+      case 'process':
+        return ProcessProtocolValidator.validateProcessFeedback(text, rules).violations;
+    }
+  }
+
+  private toViolation(agentType: AgentType, protocolId: string, field: string, message: string): GuardrailViolation {
+    const forbiddenTerm = message.match(FORBIDDEN_TERM_PATTERN)?.[1];
+
+    return {
+      agentType,
+      violationType: 'protocol_validation',
+      pattern: message,
+      matches: forbiddenTerm ? [forbiddenTerm] : [],
+      // Only forbidden terms are worth a repair; length is a style guideline
+      severity: forbiddenTerm ? 'error' : 'warning',
+      ruleId: `${protocolId}.${this.ruleOf(message)}`,
+      protocolId,
+      field
+    };
+  }
+
+  private ruleOf(message: string): FeedbackValidationRule {
+    if (FORBIDDEN_TERM_PATTERN.test(message)) return 'forbidden_term';
+    if (message.startsWith('Feedback too')) return 'length';
+    return 'required_pattern';
+  }
+}
+
+export const feedbackValidation = new FeedbackValidation();
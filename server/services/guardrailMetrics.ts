@@ -0,0 +1,107 @@
+/**
+ * Guardrail Metrics - In-process counters for guardrail recovery strategies
+ * Compares targeted repairs with full regenerations by success rate, latency and tokens.
+ */
+
+import { AgentType } from '../config/agents';
+
+export type RecoveryKind = 'repair' | 'regeneration';
+
+export interface RecoveryAttempt {
+  agentType: AgentType;
+  kind: RecoveryKind;
+  success: boolean;
+  latencyMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface RecoveryStats {
+  attempts: number;
+  successes: number;
+  successRate: number;
+  avgLatencyMs: number;
+  avgTokens: number;
+  totalTokens: number;
+}
+
+interface RecoveryTotals {
+  attempts: number;
+  successes: number;
+  latencyMs: number;
+  tokens: number;
+}
+
+class GuardrailMetrics {
+  private totals = new Map<string, RecoveryTotals>();
+  private since = new Date();
+
+  /**
+   * Record the outcome of one repair or regeneration attempt
+   */
+  record(attempt: RecoveryAttempt): void {
+    const key = `${attempt.agentType}:${attempt.kind}`;
+    const totals = this.totals.get(key) ?? { attempts: 0, successes: 0, latencyMs: 0, tokens: 0 };
+
+    totals.attempts++;
+    if (attempt.success) totals.successes++;
+    totals.latencyMs += attempt.latencyMs;
+    totals.tokens += (attempt.promptTokens ?? 0) + (attempt.completionTokens ?? 0);
+
+    this.totals.set(key, totals);
+  }
+
+  /**
+   * Aggregated stats per agent and recovery kind, plus overall totals per kind
+   */
+  getSnapshot(): {
+    since: string;
+    overall: Record<RecoveryKind, RecoveryStats>;
+    agents: Partial<Record<AgentType, Record<RecoveryKind, RecoveryStats>>>;
+  } {
+    const empty = (): RecoveryTotals => ({ attempts: 0, successes: 0, latencyMs: 0, tokens: 0 });
+    const overall: Record<RecoveryKind, RecoveryTotals> = { repair: empty(), regeneration: empty() };
+    const agents: Partial<Record<AgentType, Record<RecoveryKind, RecoveryStats>>> = {};
+
+    for (const [key, totals] of this.totals) {
+      const [agentType, kind] = key.split(':') as [AgentType, RecoveryKind];
+      const agentStats = agents[agentType] ?? { repair: toStats(empty()), regeneration: toStats(empty()) };
+      agentStats[kind] = toStats(totals);
+      agents[agentType] = agentStats;
+
+      overall[kind].attempts += totals.attempts;
+      overall[kind].successes += totals.successes;
+      overall[kind].latencyMs += totals.latencyMs;
+      overall[kind].tokens += totals.tokens;
+    }
+
+    return {
+      since: this.since.toISOString(),
+      overall: { repair: toStats(overall.repair), regeneration: toStats(overall.regeneration) },
+      agents
+    };
+  }
+
+  /**
+   * Reset all counters
+   */
+  reset(): void {
+    this.totals.clear();
+    this.since = new Date();
+  }
+}
+
+function toStats(totals: RecoveryTotals): RecoveryStats {
+  const average = (value: number) => totals.attempts > 0 ? Math.round(value / totals.attempts) : 0;
+
+  return {
+    attempts: totals.attempts,
+    successes: totals.successes,
+    successRate: totals.attempts > 0 ? Math.round((totals.successes / totals.attempts) * 100) / 100 : 0,
+    avgLatencyMs: average(totals.latencyMs),
+    avgTokens: average(totals.tokens),
+    totalTokens: totals.tokens
+  };
+}
+
+export const guardrailMetrics = new GuardrailMetrics();
@@ -0,0 +1,143 @@
+/**
+ * Model Resolver - Maps agent types to models via model_configurations tiers
+ * Teachers set model_name per tier in the Teacher "model-settings" tab.
+ */
+
+import { logger } from '../config/logger';
+import { AgentType, AGENT_CONFIGS, ModelTier } from '../config/agents';
+import { getLLMProvider } from '../providers';
+import { supabase } from './supabaseClient';
+
+export interface AgentModelResolution {
+  agentType: AgentType;
+  tier: ModelTier;
+  configuredModel: string | null;
+  effectiveModel: string;
+  rejected: boolean;
+}
+
+class ModelResolver {
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+  private tierModels = new Map<string, string>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private rejectedModels = new Set<string>();
+
+  /**
+   * Resolve the model for an agent, or undefined to use the provider default
+   */
+  async resolveModel(agentType: AgentType): Promise<string | undefined> {
+    // Tiers hold hosted OpenAI model names; local and stub providers use their own models
+    if (getLLMProvider().name !== 'openai') {
+      return undefined;
+    }
+
+    await this.ensureLoaded();
+
+    const tier = AGENT_CONFIGS[agentType].modelTier;
+    const model = this.tierModels.get(tier);
+
+    if (!model || this.rejectedModels.has(model)) {
+      return undefined;
+    }
+
+    return model;
+  }
+
+  /**
+   * Remember that the backend rejected a model so later calls skip it until invalidation
+   */
+  markRejected(model: string): void {
+    if (!this.rejectedModels.has(model)) {
+      this.rejectedModels.add(model);
+      logger.warn('Configured model rejected by provider, falling back to default model', {
+        model,
+        fallbackModel: getLLMProvider().defaultModel
+      });
+    }
+  }
+
+  /**
+   * Drop cached tier configuration and rejected models, e.g. after a teacher changes settings
+   */
+  invalidate(): void {
+    this.tierModels.clear();
+    this.loadedAt = 0;
+    this.rejectedModels.clear();
+    logger.info('Model configuration cache invalidated');
+  }
+
+  /**
+   * Current agent to model mapping (for diagnostics)
+   */
+  async getResolutions(): Promise<AgentModelResolution[]> {
+    await this.ensureLoaded();
+    const provider = getLLMProvider();
+
+    return (Object.keys(AGENT_CONFIGS) as AgentType[]).map(agentType => {
+      const tier = AGENT_CONFIGS[agentType].modelTier;
+      const configuredModel = this.tierModels.get(tier) ?? null;
+      const rejected = !!configuredModel && this.rejectedModels.has(configuredModel);
+      const useConfigured = provider.name === 'openai' && !!configuredModel && !rejected;
+
+      return {
+        agentType,
+        tier,
+        configuredModel,
+        effectiveModel: useConfigured && configuredModel ? configuredModel : provider.defaultModel,
+        rejected
+      };
+    });
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.CACHE_TTL) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    await this.loading;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('model_configurations')
+        .select('tier, model_name');
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const nextModels = new Map<string, string>();
+      for (const row of data ?? []) {
+        if (row.tier && row.model_name) {
+          nextModels.set(row.tier, row.model_name);
+        }
+      }
+
+      const changed = Array.from(nextModels.entries()).some(([tier, model]) => this.tierModels.get(tier) !== model);
+      if (changed) {
+        // A teacher picked new models; give previously rejected ones another chance
+        this.rejectedModels.clear();
+      }
+
+      this.tierModels = nextModels;
+      logger.debug('Model configurations loaded', { tiers: Object.fromEntries(nextModels) });
+    } catch (error) {
+      // Keep serving the previous configuration (or provider defaults) on lookup failure
+      logger.warn('Failed to load model configurations, using cached or default models', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    this.loadedAt = Date.now();
+  }
+}
+
+export const modelResolver = new ModelResolver();
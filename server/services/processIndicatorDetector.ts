@@ -0,0 +1,266 @@
+/**
+ * Process Indicator Detector - Per-turn process protocol observations
+ * Tags each student turn with the positive and concerning processIndicators of the
+ * process protocols in use, each with the span of the student's words that shows it.
+ * The Analyst cites the current turn's matches; the Reviewer gets the session aggregate.
+ */
+
+import { logger } from '../config/logger';
+import { getLLMProvider } from '../providers';
+import { protocolRegistry, ResolvedProtocol } from './protocolRegistry';
+import type { SessionState } from './sessionManager';
+import { ProcessIndicatorMatch } from '../../src/types/processProtocolTemplate';
+
+type ProcessProtocol = Extract<ResolvedProtocol, { kind: 'process' }>;
+
+type Polarity = ProcessIndicatorMatch['polarity'];
+
+/** One indicator the turn can be tagged with; `key` identifies it in the classifier prompt */
+interface IndicatorCandidate {
+  key: string;
+  protocol: ProcessProtocol;
+  categoryId: string;
+  categoryLabel: string;
+  polarity: Polarity;
+  indicator: string;
+}
+
+const DETECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    matches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string' },
+          evidence: { type: 'string' }
+        },
+        required: ['key', 'evidence'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['matches'],
+  additionalProperties: false
+};
+
+const POLARITY_LABELS: Record<Polarity, string> = {
+  positive: 'positiv',
+  concerning: 'oroande'
+};
+
+// Heuristic fallback: a sentence sharing this many keyword stems with an indicator shows it
+const SENTENCE_STEM_MATCHES = 2;
+const STEM_LENGTH = 6;
+const MIN_WORD_LENGTH = 5;
+const MAX_EXAMPLES_PER_INDICATOR = 2;
+
+class ProcessIndicatorDetector {
+  /**
+   * Indicators shown in one student turn (not persisted)
+   * Returns an empty list when no process protocol is in use.
+   */
+  async detect(session: SessionState, text: string, turn: number): Promise<ProcessIndicatorMatch[]> {
+    const protocols = await this.processProtocols(session.protocols);
+    if (protocols.length === 0) {
+      return [];
+    }
+
+    const candidates = protocols.flatMap(protocol => this.candidates(protocol));
+    const detected = await this.classify(session.id, text, candidates);
+
+    return detected.map(({ candidate, evidence }) => ({
+      protocolId: candidate.protocol.id,
+      categoryId: candidate.categoryId,
+      categoryLabel: candidate.categoryLabel,
+      processType: candidate.protocol.template.processType,
+      polarity: candidate.polarity,
+      indicator: candidate.indicator,
+      evidence,
+      exerciseIndex: session.currentExerciseIndex,
+      turn
+    }));
+  }
+
+  /**
+   * Prompt section for the Analyst: what this turn showed, with the student's words
+   */
+  describeTurn(matches: ProcessIndicatorMatch[]): string {
+    if (matches.length === 0) {
+      return '';
+    }
+
+    return [
+      'PROCESSINDIKATORER I STUDENTENS SENASTE REPLIK:',
+      ...matches.map(match =>
+        `- ${match.categoryLabel} (${POLARITY_LABELS[match.polarity]}): ${match.indicator} – "${match.evidence.text}"`
+      ),
+      'Hänvisa till dessa observationer i past_only_feedback och citera studentens ord. Beskriv vad studenten gjorde, utan poäng eller betyg.'
+    ].join('\n');
+  }
+
+  /**
+   * Prompt section for the Reviewer: indicators aggregated per category over the session
+   */
+  summarize(matches: ProcessIndicatorMatch[]): string {
+    if (matches.length === 0) {
+      return '';
+    }
+
+    const byCategory = new Map<string, ProcessIndicatorMatch[]>();
+    for (const match of matches) {
+      const key = `${match.protocolId}/${match.categoryId}`;
+      byCategory.set(key, [...(byCategory.get(key) ?? []), match]);
+    }
+
+    const sections = [...byCategory.values()].map(categoryMatches => {
+      const positive = categoryMatches.filter(match => match.polarity === 'positive').length;
+      const concerning = categoryMatches.length - positive;
+
+      const byIndicator = new Map<string, ProcessIndicatorMatch[]>();
+      for (const match of categoryMatches) {
+        byIndicator.set(match.indicator, [...(byIndicator.get(match.indicator) ?? []), match]);
+      }
+
+      const indicators = [...byIndicator.entries()].map(([indicator, indicatorMatches]) => {
+        const examples = indicatorMatches
+          .slice(0, MAX_EXAMPLES_PER_INDICATOR)
+          .map(match => `övning ${match.exerciseIndex + 1}, tur ${match.turn}: "${match.evidence.text}"`)
+          .join('; ');
+        return `  - ${indicator} (${POLARITY_LABELS[indicatorMatches[0].polarity]}, ${indicatorMatches.length} ggr) – ${examples}`;
+      });
+
+      return [
+        `${categoryMatches[0].categoryLabel}: ${positive} positiva, ${concerning} oroande observationer`,
+        ...indicators
+      ].join('\n');
+    });
+
+    return sections.join('\n');
+  }
+
+  private async processProtocols(protocolIds: string[]): Promise<ProcessProtocol[]> {
+    const protocols = await protocolRegistry.resolve(protocolIds);
+    return protocols.filter((protocol): protocol is ProcessProtocol => protocol.kind === 'process');
+  }
+
+  private candidates(protocol: ProcessProtocol): IndicatorCandidate[] {
+    return protocol.template.categories.flatMap(category =>
+      (['positive', 'concerning'] as const).flatMap(polarity =>
+        category.processIndicators[polarity].map((indicator, index) => ({
+          key: `${protocol.id}:${category.id}:${polarity}:${index}`,
+          protocol,
+          categoryId: category.id,
+          categoryLabel: category.label,
+          polarity,
+          indicator
+        }))
+      )
+    );
+  }
+
+  /**
+   * Indicators the turn shows, using the LLM provider and falling back to keyword matching
+   */
+  private async classify(
+    sessionId: string,
+    text: string,
+    candidates: IndicatorCandidate[]
+  ): Promise<Array<{ candidate: IndicatorCandidate; evidence: ProcessIndicatorMatch['evidence'] }>> {
+    const provider = getLLMProvider();
+
+    // The stub provider only knows agent fixtures
+    if (provider.name === 'stub') {
+      return this.classifyByKeywords(text, candidates);
+    }
+
+    try {
+      const completion = await provider.completeJSON({
+        agentType: 'analyst',
+        messages: [
+          {
+            role: 'system',
+            content: `Avgör vilka processindikatorer studentens replik visar.
+Ta bara med indikatorer som syns i själva repliken, och ange som evidence den exakta delen av repliken (ordagrant citat) som visar indikatorn.
+Svara med JSON enligt schema.
+
+INDIKATORER:
+${candidates.map(candidate => `${candidate.key}: [${candidate.categoryLabel}, ${POLARITY_LABELS[candidate.polarity]}] ${candidate.indicator}`).join('\n')}`
+          },
+          { role: 'user', content: text }
+        ],
+        temperature: 0,
+        maxTokens: 400,
+        schemaName: 'process_indicators',
+        schema: DETECTION_SCHEMA
+      });
+
+      const parsed = JSON.parse(completion.content) as { matches: Array<{ key: string; evidence: string }> };
+      const byKey = new Map(candidates.map(candidate => [candidate.key, candidate]));
+
+      // Evidence must be the student's own words; paraphrased spans are dropped
+      return parsed.matches.flatMap(({ key, evidence }) => {
+        const candidate = byKey.get(key);
+        const span = candidate ? this.locate(text, evidence) : undefined;
+        return candidate && span ? [{ candidate, evidence: span }] : [];
+      });
+    } catch (error) {
+      logger.warn('Process indicator detection failed, using keyword matching', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return this.classifyByKeywords(text, candidates);
+    }
+  }
+
+  private classifyByKeywords(
+    text: string,
+    candidates: IndicatorCandidate[]
+  ): Array<{ candidate: IndicatorCandidate; evidence: ProcessIndicatorMatch['evidence'] }> {
+    const sentences = [...text.matchAll(/[^.!?\n]+[.!?]*/g)]
+      .map(match => ({ text: match[0].trim(), start: match.index + (match[0].length - match[0].trimStart().length) }))
+      .filter(sentence => sentence.text.length > 0)
+      .map(sentence => ({ ...sentence, stems: this.stems(sentence.text) }));
+
+    return candidates.flatMap(candidate => {
+      // Indicators quoting a phrasing, e.g. "Kommenterar på samtalets process: 'Jag märker att...'"
+      for (const [, phrase] of candidate.indicator.matchAll(/'([^']+)'/g)) {
+        const span = this.locate(text, phrase.replace(/\.+$/, ''));
+        if (span) {
+          return [{ candidate, evidence: span }];
+        }
+      }
+
+      const indicatorStems = this.stems(candidate.indicator);
+      const sentence = sentences.find(entry =>
+        [...indicatorStems].filter(stem => entry.stems.has(stem)).length >= SENTENCE_STEM_MATCHES
+      );
+      return sentence
+        ? [{ candidate, evidence: { text: sentence.text, start: sentence.start, end: sentence.start + sentence.text.length } }]
+        : [];
+    });
+  }
+
+  private locate(text: string, quote: string): ProcessIndicatorMatch['evidence'] | undefined {
+    const trimmed = quote.trim().replace(/^["'”“„]+|["'”“„]+$/g, '');
+    if (trimmed.length === 0) {
+      return undefined;
+    }
+
+    const start = text.toLowerCase().indexOf(trimmed.toLowerCase());
+    return start === -1
+      ? undefined
+      : { text: text.slice(start, start + trimmed.length), start, end: start + trimmed.length };
+  }
+
+  private stems(text: string): Set<string> {
+    return new Set(
+      (text.toLowerCase().match(/[a-zåäöéü]+/g) ?? [])
+        .filter(word => word.length >= MIN_WORD_LENGTH)
+        .map(word => word.slice(0, STEM_LENGTH))
+    );
+  }
+}
+
+export const processIndicatorDetector = new ProcessIndicatorDetector();
@@ -0,0 +1,760 @@
+/**
+ * Protocol Parser - Structured templates from uploaded protocol documents
+ * Turns the text of a library protocol document into a base, BBIC content or
+ * process template, checks it with the template's validator and saves it as a
+ * draft in the protocols table under the document's id. Teachers correct the
+ * draft and publish it; only published protocols are resolved for sessions.
+ */
+
+import { logger } from '../config/logger';
+import { getLLMProvider } from '../providers';
+import { supabase } from './supabaseClient';
+import { protocolRegistry, isBaseTemplate, isBBICTemplate, isProcessTemplate } from './protocolRegistry';
+import { BasisProtocolTemplate, DEFAULT_VALIDATION_RULES, ProtocolValidator } from '../../src/types/protocolTemplate';
+import {
+  BBICBox,
+  BBICProtocolTemplate,
+  BBICValidator,
+  DEFAULT_BBIC_FEEDBACK_RULES,
+  DEFAULT_BBIC_VALIDATION_RULES
+} from '../../src/types/bbicTemplate';
+import {
+  DEFAULT_PROCESS_VALIDATION_RULES,
+  ProcessProtocolTemplate,
+  ProcessProtocolValidator
+} from '../../src/types/processProtocolTemplate';
+import {
+  ParsedProtocol,
+  ProtocolStatus,
+  ProtocolSummary,
+  ProtocolTemplateType,
+  StructuredProtocolTemplate
+} from '../../src/types/protocolParsing';
+
+export class ProtocolParseError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly validationErrors: string[] = []
+  ) {
+    super(message);
+    this.name = 'ProtocolParseError';
+  }
+}
+
+type ProcessType = ProcessProtocolTemplate['processType'];
+
+type BoxSection = BBICBox['type'];
+
+interface OutlineCategory {
+  label: string;
+  definition: string;
+  deficits: string[];
+  excess: string[];
+  feedback: string;
+  positiveIndicators: string[];
+  concerningIndicators: string[];
+}
+
+interface OutlineBox {
+  id: string;
+  label: string;
+  section: BoxSection;
+  context: string;
+  feedback: string;
+  exampleScript: string;
+  successIndicators: string[];
+  required: boolean;
+}
+
+/** What the document says, before template defaults are filled in */
+interface ProtocolOutline {
+  type: ProtocolTemplateType;
+  name: string;
+  version: string;
+  description: string;
+  processType: ProcessType;
+  compatibleProtocols: string[];
+  categories: OutlineCategory[];
+  boxes: OutlineBox[];
+  /** 0-1; 0 when the document does not say */
+  minimumCoverage: number;
+}
+
+interface ProtocolRow {
+  id: string;
+  name: string;
+  version: string | null;
+  type: ProtocolTemplateType;
+  status: ProtocolStatus;
+  raw_text: string;
+  structured_json: StructuredProtocolTemplate | null;
+  source_document_id: string | null;
+  validation_errors: string[] | null;
+  updated_at: string | null;
+}
+
+const PROTOCOL_TYPES: ProtocolTemplateType[] = ['base', 'content', 'process'];
+
+const PROCESS_TYPES: ProcessType[] = [
+  'metacognitive', 'emotional_regulation', 'timing_flow', 'self_monitoring', 'adaptive_flexibility', 'other'
+];
+
+const STRING_LIST = { type: 'array', items: { type: 'string' } };
+
+const OUTLINE_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: PROTOCOL_TYPES },
+    name: { type: 'string' },
+    version: { type: 'string' },
+    description: { type: 'string' },
+    processType: { type: 'string', enum: PROCESS_TYPES },
+    compatibleProtocols: STRING_LIST,
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          definition: { type: 'string' },
+          deficits: STRING_LIST,
+          excess: STRING_LIST,
+          feedback: { type: 'string' },
+          positiveIndicators: STRING_LIST,
+          concerningIndicators: STRING_LIST
+        },
+        required: ['label', 'definition', 'deficits', 'excess', 'feedback', 'positiveIndicators', 'concerningIndicators'],
+        additionalProperties: false
+      }
+    },
+    boxes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          section: { type: 'string', enum: ['frame', 'content', 'avslut'] },
+          context: { type: 'string' },
+          feedback: { type: 'string' },
+          exampleScript: { type: 'string' },
+          successIndicators: STRING_LIST,
+          required: { type: 'boolean' }
+        },
+        required: ['id', 'label', 'section', 'context', 'feedback', 'exampleScript', 'successIndicators', 'required'],
+        additionalProperties: false
+      }
+    },
+    minimumCoverage: { type: 'number' }
+  },
+  required: [
+    'type', 'name', 'version', 'description', 'processType', 'compatibleProtocols', 'categories', 'boxes', 'minimumCoverage'
+  ],
+  additionalProperties: false
+};
+
+type ProtocolField = 'name' | 'version' | 'type' | 'description' | 'processType' | 'compatibleProtocols' | 'requiredBoxes' | 'minimumCoverage';
+type CategoryField = 'definition' | 'deficits' | 'excess' | 'positiveIndicators' | 'concerningIndicators' | 'feedback';
+type BoxField = 'context' | 'exampleScript' | 'successIndicators' | 'feedback';
+
+// Labelled sections recognised in protocol documents, e.g. "Typ: process" or "Återkoppling: ..."
+const PROTOCOL_LABELS: Array<[ProtocolField, RegExp]> = [
+  ['name', /^(protokollnamn|protokoll|namn|protocol|name)\s*:\s*/i],
+  ['version', /^(version)\s*:\s*/i],
+  ['type', /^(protokolltyp|typ|type)\s*:\s*/i],
+  ['description', /^(beskrivning|syfte|description|purpose)\s*:\s*/i],
+  ['processType', /^(processtyp|process type)\s*:\s*/i],
+  ['compatibleProtocols', /^(kompatibla protokoll|compatible protocols)\s*:\s*/i],
+  ['requiredBoxes', /^(obligatoriska moment|required boxes)\s*:\s*/i],
+  ['minimumCoverage', /^(minsta täckning|täckningskrav|minimum coverage)\s*:\s*/i]
+];
+
+const CATEGORY_LABELS: Array<[CategoryField, RegExp]> = [
+  ['definition', /^(definition)\s*:\s*/i],
+  ['deficits', /^(vanliga brister|brister|deficits)\s*:\s*/i],
+  ['excess', /^(tecken på överdrift|överdrift|excess)\s*:\s*/i],
+  ['positiveIndicators', /^(positiva indikatorer|positive indicators)\s*:\s*/i],
+  ['concerningIndicators', /^(varningstecken|oroande indikatorer|concerning indicators)\s*:\s*/i],
+  ['feedback', /^(återkoppling|feedback)\s*:\s*/i]
+];
+
+const BOX_LABELS: Array<[BoxField, RegExp]> = [
+  ['context', /^(sammanhang|kontext|context)\s*:\s*/i],
+  ['exampleScript', /^(exempelreplik|exempelfras|example script)\s*:\s*/i],
+  ['successIndicators', /^(tecken på genomfört moment|framgångsindikatorer|success indicators)\s*:\s*/i],
+  ['feedback', /^(återkoppling|feedback)\s*:\s*/i]
+];
+
+// "Kategori: Parafrasering" and "Moment R1 (ram): Inledande hälsning" start a new category or checklist box
+const CATEGORY_HEADER = /^(processkategori|kategori|category)\s*:\s*/i;
+const BOX_HEADER = /^(?:moment|box)\s+([a-zåäö]+\d+)\s*(?:\(([^)]*)\))?\s*:\s*/i;
+
+const LIST_FIELDS = new Set<string>([
+  'compatibleProtocols', 'requiredBoxes', 'deficits', 'excess', 'positiveIndicators', 'concerningIndicators', 'successIndicators'
+]);
+
+// Protocol-level labels that may follow the last category or box
+const TRAILING_PROTOCOL_FIELDS = new Set<ProtocolField>(['compatibleProtocols', 'requiredBoxes', 'minimumCoverage']);
+
+// These fields end with their line (or the next blank line); text fields continue until the next label
+const SINGLE_LINE_FIELDS = new Set<string>(['name', 'version', 'type', 'processType', 'minimumCoverage']);
+
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Words teachers use for the template type and process type
+const TYPE_WORDS: Array<[ProtocolTemplateType, RegExp]> = [
+  ['content', /innehåll|bbic|checklist|content/i],
+  ['process', /process/i],
+  ['base', /bas|grund|base/i]
+];
+
+const PROCESS_TYPE_WORDS: Array<[ProcessType, RegExp]> = [
+  ['metacognitive', /metakogn|metacogn/i],
+  ['emotional_regulation', /känsl|emotion/i],
+  ['timing_flow', /timing|tempo|flöde|flow/i],
+  ['self_monitoring', /självmonitor|self.?monitor/i],
+  ['adaptive_flexibility', /flexib|adaptiv/i]
+];
+
+const SECTION_WORDS: Array<[BoxSection, RegExp]> = [
+  ['frame', /ram|frame|inledning/i],
+  ['avslut', /avslut|closing/i],
+  ['content', /innehåll|content/i]
+];
+
+// Scale anchors for parsed templates; documents rarely define their own
+const DEFAULT_SCALE: BasisProtocolTemplate['scale'] = {
+  range: [0, 4],
+  anchors: {
+    0: 'Betydande brister – stort utvecklingsbehov',
+    1: 'Vissa brister – fokuserad utveckling behövs',
+    2: 'Tillräcklig – motsvarar grundläggande förväntningar',
+    3: 'Stark – över förväntan, säker tillämpning',
+    4: 'Exceptionell – föredömlig tillämpning'
+  }
+};
+
+const DEFAULT_MINIMUM_COVERAGE = 0.7;
+
+// Protocol documents can be long; keep the parsing prompt within budget
+const MAX_DOCUMENT_LENGTH = 20000;
+
+// The uploader stores this text when mammoth could not read the file
+const EXTRACTION_FAILED_CONTENT = 'Content extraction failed';
+
+const PROTOCOL_COLUMNS = 'id, name, version, type, status, raw_text, structured_json, source_document_id, validation_errors, updated_at';
+
+class ProtocolParser {
+  /**
+   * Parse a library protocol document into a draft, replacing any earlier parse of it
+   * Replacing a published protocol takes it out of sessions until it is published again,
+   * so it needs replacePublished.
+   */
+  async parseDocument(
+    documentId: string,
+    requestedType?: ProtocolTemplateType,
+    options: { replacePublished?: boolean } = {}
+  ): Promise<ParsedProtocol> {
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, file_name, document_type, content')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load protocol document', { documentId, error });
+      throw new ProtocolParseError('PROTOCOL_LOOKUP_FAILED', 'Failed to load protocol document');
+    }
+    if (!document) {
+      throw new ProtocolParseError('DOCUMENT_NOT_FOUND', 'Document not found');
+    }
+    if (document.document_type !== 'protocol') {
+      throw new ProtocolParseError('NOT_A_PROTOCOL_DOCUMENT', 'Only protocol documents can be parsed into protocols');
+    }
+
+    const text = (document.content ?? '').trim();
+    if (!text || text === EXTRACTION_FAILED_CONTENT) {
+      throw new ProtocolParseError('EMPTY_DOCUMENT', 'The document has no extracted text to parse');
+    }
+
+    const existing = await this.fetchRow(documentId);
+    if (existing?.status === 'published' && !options.replacePublished) {
+      throw new ProtocolParseError(
+        'PROTOCOL_PUBLISHED',
+        'The protocol is published; parsing the document again turns it back into a draft'
+      );
+    }
+
+    const outline = await this.outline(text, requestedType);
+    const type = requestedType ?? outline.type;
+    const structured = this.toTemplate(documentId, type, {
+      ...outline,
+      name: outline.name || document.file_name.replace(/\.docx$/i, '')
+    });
+    const validationErrors = this.validate(type, structured);
+
+    const { data: row, error: saveError } = await supabase
+      .from('protocols')
+      .upsert({
+        id: documentId,
+        name: structured.name,
+        version: structured.version,
+        type,
+        status: 'draft',
+        raw_text: text,
+        structured_json: structured,
+        source_document_id: documentId,
+        validation_errors: validationErrors,
+        updated_at: new Date().toISOString()
+      })
+      .select(PROTOCOL_COLUMNS)
+      .single();
+
+    if (saveError || !row) {
+      logger.error('Failed to save parsed protocol', { documentId, error: saveError });
+      throw new ProtocolParseError('PROTOCOL_SAVE_FAILED', 'Failed to save parsed protocol');
+    }
+
+    protocolRegistry.invalidate(documentId);
+    logger.info('Protocol document parsed', { documentId, type, validationErrors: validationErrors.length });
+
+    return this.toParsed(row as ProtocolRow);
+  }
+
+  /**
+   * Protocols in the protocols table, drafts included, most recently updated first
+   */
+  async list(): Promise<ProtocolSummary[]> {
+    const { data, error } = await supabase
+      .from('protocols')
+      .select('id, name, version, type, status, source_document_id, updated_at')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list protocols', { error });
+      throw new ProtocolParseError('PROTOCOL_LOOKUP_FAILED', 'Failed to list protocols');
+    }
+
+    return ((data ?? []) as ProtocolRow[]).map(row => this.toSummary(row));
+  }
+
+  async get(protocolId: string): Promise<ParsedProtocol | null> {
+    const row = await this.fetchRow(protocolId);
+    return row ? this.toParsed(row) : null;
+  }
+
+  /**
+   * Save a teacher's corrections; the protocol stays (or goes back to) draft until published
+   */
+  async update(protocolId: string, structured: unknown): Promise<ParsedProtocol> {
+    const row = await this.fetchRow(protocolId);
+    if (!row) {
+      throw new ProtocolParseError('PROTOCOL_NOT_FOUND', 'Protocol not found');
+    }
+    if (!structured || typeof structured !== 'object' || Array.isArray(structured)) {
+      throw new ProtocolParseError('INVALID_PROTOCOL', 'structured must be a protocol template object');
+    }
+
+    // The template id always follows the row, so exercises keep resolving the same protocol
+    const template = { ...(structured as StructuredProtocolTemplate), id: protocolId };
+    const validationErrors = this.validate(row.type, template);
+
+    const { data: updated, error } = await supabase
+      .from('protocols')
+      .update({
+        name: typeof template.name === 'string' && template.name.trim() ? template.name : row.name,
+        version: typeof template.version === 'string' && template.version.trim() ? template.version : row.version,
+        status: 'draft',
+        structured_json: template,
+        validation_errors: validationErrors,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', protocolId)
+      .select(PROTOCOL_COLUMNS)
+      .single();
+
+    if (error || !updated) {
+      logger.error('Failed to update protocol', { protocolId, error });
+      throw new ProtocolParseError('PROTOCOL_SAVE_FAILED', 'Failed to save protocol');
+    }
+
+    protocolRegistry.invalidate(protocolId);
+    return this.toParsed(updated as ProtocolRow);
+  }
+
+  /**
+   * Publish a draft so sessions use it; the template must pass its validator
+   */
+  async publish(protocolId: string): Promise<ParsedProtocol> {
+    const row = await this.fetchRow(protocolId);
+    if (!row) {
+      throw new ProtocolParseError('PROTOCOL_NOT_FOUND', 'Protocol not found');
+    }
+
+    // Re-validated here; stored errors may predate a validator change
+    const validationErrors = this.validate(row.type, row.structured_json);
+    if (validationErrors.length > 0) {
+      throw new ProtocolParseError('PROTOCOL_INVALID', 'The protocol does not pass validation and cannot be published', validationErrors);
+    }
+
+    const { data: published, error } = await supabase
+      .from('protocols')
+      .update({ status: 'published', validation_errors: [], updated_at: new Date().toISOString() })
+      .eq('id', protocolId)
+      .select(PROTOCOL_COLUMNS)
+      .single();
+
+    if (error || !published) {
+      logger.error('Failed to publish protocol', { protocolId, error });
+      throw new ProtocolParseError('PROTOCOL_SAVE_FAILED', 'Failed to publish protocol');
+    }
+
+    protocolRegistry.invalidate(protocolId);
+    logger.info('Protocol published', { protocolId, type: row.type });
+
+    return this.toParsed(published as ProtocolRow);
+  }
+
+  /**
+   * Validator errors for a structured template of the given type
+   */
+  validate(type: ProtocolTemplateType, structured: unknown): string[] {
+    if (!structured || typeof structured !== 'object') {
+      return ['Protocol has no structured template'];
+    }
+
+    const value = structured as Record<string, unknown>;
+    const matchesType = type === 'content'
+      ? isBBICTemplate(value)
+      : type === 'process' ? isProcessTemplate(value) : isBaseTemplate(value);
+    if (!matchesType) {
+      return [`Structured template does not match the ${type} protocol template`];
+    }
+
+    // Hand-edited templates can lack nested fields the validators read
+    try {
+      const result = type === 'content'
+        ? BBICValidator.validateBBICProtocol(value as unknown as BBICProtocolTemplate)
+        : type === 'process'
+          ? ProcessProtocolValidator.validateProcessProtocol(value as unknown as ProcessProtocolTemplate)
+          : ProtocolValidator.validateProtocol(value as unknown as BasisProtocolTemplate);
+      return result.errors;
+    } catch (error) {
+      return [`Structured template is incomplete: ${error instanceof Error ? error.message : String(error)}`];
+    }
+  }
+
+  /**
+   * What the document says, using the LLM provider and falling back to labelled sections
+   */
+  private async outline(text: string, requestedType?: ProtocolTemplateType): Promise<ProtocolOutline> {
+    const provider = getLLMProvider();
+
+    // The stub provider only knows agent fixtures
+    if (provider.name === 'stub') {
+      return this.outlineFromLabels(text, requestedType);
+    }
+
+    try {
+      const completion = await provider.completeJSON({
+        agentType: 'reviewer',
+        messages: [
+          {
+            role: 'system',
+            content: `Tolka protokolldokumentet och svara med JSON enligt schema.
+Protokolltyper: base (bedömningskategorier), content (BBIC-checklista med moment i ram, innehåll och avslut), process (processkategorier med positiva indikatorer och varningstecken).
+${requestedType ? `Dokumentet ska tolkas som typ ${requestedType}.` : 'Avgör typen utifrån dokumentets innehåll.'}
+Återge dokumentets formuleringar ordagrant och hitta inte på innehåll som saknas; lämna tomma strängar och listor för det dokumentet inte anger.
+Kategorier gäller base och process, moment (boxes) gäller content. Ange minimumCoverage som andel 0-1, eller 0 om dokumentet inte anger någon.`
+          },
+          { role: 'user', content: text.slice(0, MAX_DOCUMENT_LENGTH) }
+        ],
+        temperature: 0,
+        maxTokens: 4000,
+        schemaName: 'protocol_outline',
+        schema: OUTLINE_SCHEMA
+      });
+
+      return JSON.parse(completion.content) as ProtocolOutline;
+    } catch (error) {
+      logger.warn('Protocol parsing failed, using labelled sections', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return this.outlineFromLabels(text, requestedType);
+    }
+  }
+
+  /**
+   * Parse labelled sections; unlabelled text before the first category or box becomes the description
+   */
+  private outlineFromLabels(text: string, requestedType?: ProtocolTemplateType): ProtocolOutline {
+    const fields: Partial<Record<ProtocolField, string[]>> = {};
+    const categories: Array<{ label: string; fields: Partial<Record<CategoryField, string[]>> }> = [];
+    const boxes: Array<{ id: string; label: string; section?: string; fields: Partial<Record<BoxField, string[]>> }> = [];
+    const unlabelled: string[] = [];
+    let target: Record<string, string[] | undefined> = fields;
+    let labels: Array<[string, RegExp]> = PROTOCOL_LABELS;
+    let current: string | null = null;
+
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      const boxHeader = trimmed.match(BOX_HEADER);
+
+      if (CATEGORY_HEADER.test(trimmed)) {
+        const category = { label: trimmed.replace(CATEGORY_HEADER, ''), fields: {} };
+        categories.push(category);
+        [target, labels, current] = [category.fields, CATEGORY_LABELS, null];
+        continue;
+      }
+      if (boxHeader) {
+        const box = { id: boxHeader[1].toUpperCase(), label: trimmed.replace(BOX_HEADER, ''), section: boxHeader[2], fields: {} };
+        boxes.push(box);
+        [target, labels, current] = [box.fields, BOX_LABELS, null];
+        continue;
+      }
+
+      let label = labels.find(([, pattern]) => pattern.test(trimmed));
+
+      // Checklist-wide labels such as "Obligatoriska moment:" may follow the last box
+      const trailing = !label && target !== fields
+        ? PROTOCOL_LABELS.find(([field, pattern]) => TRAILING_PROTOCOL_FIELDS.has(field) && pattern.test(trimmed))
+        : undefined;
+      if (trailing) {
+        [target, labels, label] = [fields, PROTOCOL_LABELS, trailing];
+      }
+
+      // A list ends at the first line that is not a list item
+      if (current && LIST_FIELDS.has(current) && trimmed && !label && target[current]!.length > 0 && !LIST_ITEM_PATTERN.test(trimmed)) {
+        current = null;
+      }
+
+      if (label) {
+        const rest = trimmed.replace(label[1], '');
+        target[label[0]] = rest ? [rest] : [];
+        // A single-line field given on the label line is complete
+        current = rest && SINGLE_LINE_FIELDS.has(label[0]) ? null : label[0];
+      } else if (current && trimmed) {
+        target[current]!.push(trimmed);
+      } else if (!trimmed) {
+        if (current && SINGLE_LINE_FIELDS.has(current)) current = null;
+      } else if (target === fields) {
+        unlabelled.push(trimmed);
+      }
+    }
+
+    const join = (values?: string[]) => values?.join(' ').trim() ?? '';
+    const list = (values?: string[]) => (values ?? [])
+      .flatMap(value => LIST_ITEM_PATTERN.test(value) ? [value] : value.split(';'))
+      .map(value => value.replace(LIST_ITEM_PATTERN, '').trim())
+      .filter(Boolean);
+    const ids = (values?: string[]) => list(values).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+    const typeText = join(fields.type);
+    const processTypeText = join(fields.processType);
+    const requiredBoxes = ids(fields.requiredBoxes).map(id => id.toUpperCase());
+    const parsedCategories = categories.map(({ label, fields: category }) => ({
+      label,
+      definition: join(category.definition),
+      deficits: list(category.deficits),
+      excess: list(category.excess),
+      feedback: join(category.feedback),
+      positiveIndicators: list(category.positiveIndicators),
+      concerningIndicators: list(category.concerningIndicators)
+    }));
+
+    const type = requestedType
+      ?? TYPE_WORDS.find(([, pattern]) => pattern.test(typeText))?.[0]
+      ?? (boxes.length > 0
+        ? 'content'
+        : processTypeText || parsedCategories.some(category => category.positiveIndicators.length + category.concerningIndicators.length > 0)
+          ? 'process'
+          : 'base');
+
+    const coverage = parseFloat(join(fields.minimumCoverage).replace(',', '.'));
+
+    return {
+      type,
+      name: join(fields.name),
+      version: join(fields.version),
+      description: join(fields.description) || unlabelled.join(' '),
+      processType: PROCESS_TYPE_WORDS.find(([, pattern]) => pattern.test(processTypeText))?.[0] ?? 'other',
+      compatibleProtocols: ids(fields.compatibleProtocols),
+      categories: parsedCategories,
+      boxes: boxes.map(box => ({
+        id: box.id,
+        label: box.label,
+        section: SECTION_WORDS.find(([, pattern]) => pattern.test(box.section ?? ''))?.[0] ?? this.sectionForBoxId(box.id),
+        context: join(box.fields.context),
+        feedback: join(box.fields.feedback),
+        exampleScript: join(box.fields.exampleScript),
+        successIndicators: list(box.fields.successIndicators),
+        required: requiredBoxes.includes(box.id)
+      })),
+      minimumCoverage: Number.isNaN(coverage) ? 0 : coverage
+    };
+  }
+
+  /**
+   * BBIC box ids: R-series frame the meeting, AVS closes it, the rest is content
+   */
+  private sectionForBoxId(id: string): BoxSection {
+    if (/^AVS/i.test(id)) return 'avslut';
+    if (/^R\d/i.test(id)) return 'frame';
+    return 'content';
+  }
+
+  /**
+   * Fill in template defaults around what the document says
+   */
+  private toTemplate(id: string, type: ProtocolTemplateType, outline: ProtocolOutline): StructuredProtocolTemplate {
+    const now = new Date().toISOString();
+    const metadata = {
+      createdAt: now,
+      lastModified: now,
+      createdBy: 'Protocol document parser',
+      tags: [],
+      targetAudience: '',
+      estimatedDuration: ''
+    };
+    const common = {
+      id,
+      name: outline.name.trim(),
+      version: outline.version.trim() || '1.0',
+      description: outline.description.trim()
+    };
+    const categoryIds = this.uniqueIds(outline.categories.map(category => category.label));
+    const categories = outline.categories.map((category, index) => ({
+      id: categoryIds[index],
+      label: category.label.trim(),
+      definition: category.definition.trim(),
+      notes: { deficits: category.deficits, excess: category.excess },
+      hiddenScore: 0,
+      feedback: category.feedback.trim(),
+      exampleFeedback: { emerging: [], developing: [], proficient: [], advanced: [] }
+    }));
+    const overall = { strengths: [], areasForImprovement: [], nextSteps: [] };
+
+    if (type === 'content') {
+      const boxes: BBICBox[] = outline.boxes.map(box => ({
+        id: box.id.trim().toUpperCase(),
+        label: box.label.trim(),
+        type: box.section,
+        status: 'not_covered',
+        feedback: box.feedback.trim(),
+        exampleScript: box.exampleScript.trim(),
+        ...(box.context.trim() ? { context: box.context.trim() } : {}),
+        ...(box.successIndicators.length > 0 ? { successIndicators: box.successIndicators } : {})
+      }));
+      const required = outline.boxes.filter(box => box.required).map(box => box.id.trim().toUpperCase());
+      const coverage = outline.minimumCoverage > 1 ? outline.minimumCoverage / 100 : outline.minimumCoverage;
+
+      const template: BBICProtocolTemplate = {
+        ...common,
+        checklist: {
+          frame: boxes.filter(box => box.type === 'frame'),
+          content: boxes.filter(box => box.type === 'content'),
+          avslut: boxes.filter(box => box.type === 'avslut')
+        },
+        feedbackRules: DEFAULT_BBIC_FEEDBACK_RULES,
+        completionCriteria: {
+          requiredBoxes: required,
+          optionalBoxes: boxes.map(box => box.id).filter(boxId => !required.includes(boxId)),
+          minimumCoverage: coverage > 0 && coverage <= 1 ? coverage : DEFAULT_MINIMUM_COVERAGE
+        },
+        validationRules: DEFAULT_BBIC_VALIDATION_RULES,
+        metadata: { ...metadata, difficultyLevel: 'intermediate' }
+      };
+      return template;
+    }
+
+    if (type === 'process') {
+      const template: ProcessProtocolTemplate = {
+        ...common,
+        processType: outline.processType,
+        scale: DEFAULT_SCALE,
+        categories: categories.map((category, index) => ({
+          ...category,
+          processIndicators: {
+            positive: outline.categories[index].positiveIndicators,
+            concerning: outline.categories[index].concerningIndicators
+          }
+        })),
+        overall,
+        baseProtocolCompatibility: { compatibleProtocols: outline.compatibleProtocols, expectedCorrelations: [] },
+        validationRules: DEFAULT_PROCESS_VALIDATION_RULES,
+        researchMetadata: { theoreticalFramework: '', supportingResearch: [], validatedCorrelations: [] },
+        metadata: { ...metadata, difficultyLevel: 'intermediate' }
+      };
+      return template;
+    }
+
+    const template: BasisProtocolTemplate = {
+      ...common,
+      scale: DEFAULT_SCALE,
+      categories,
+      overall,
+      validationRules: DEFAULT_VALIDATION_RULES,
+      metadata
+    };
+    return template;
+  }
+
+  /**
+   * Category ids from labels, e.g. "Öppna frågor" -> "oppna-fragor"
+   */
+  private uniqueIds(labels: string[]): string[] {
+    const seen = new Set<string>();
+    return labels.map((label, index) => {
+      const base = label
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || `category-${index + 1}`;
+      let id = base;
+      for (let suffix = 2; seen.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+      }
+      seen.add(id);
+      return id;
+    });
+  }
+
+  private async fetchRow(protocolId: string): Promise<ProtocolRow | null> {
+    const { data, error } = await supabase
+      .from('protocols')
+      .select(PROTOCOL_COLUMNS)
+      .eq('id', protocolId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load protocol', { protocolId, error });
+      throw new ProtocolParseError('PROTOCOL_LOOKUP_FAILED', 'Failed to load protocol');
+    }
+
+    return data as ProtocolRow | null;
+  }
+
+  private toSummary(row: ProtocolRow): ProtocolSummary {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version || '1.0',
+      type: row.type,
+      status: row.status,
+      sourceDocumentId: row.source_document_id,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private toParsed(row: ProtocolRow): ParsedProtocol {
+    return {
+      ...this.toSummary(row),
+      structured: row.structured_json,
+      validationErrors: row.validation_errors ?? []
+    };
+  }
+}
+
+export const protocolParser = new ProtocolParser();
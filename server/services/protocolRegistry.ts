@@ -0,0 +1,358 @@
+/**
+ * Protocol Registry - Resolves protocol IDs to structured protocol definitions
+ * Loads teacher-uploaded protocols from Supabase and renders them for agent prompts
+ */
+
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import { DEFAULT_BASIS_PROTOCOL, Protocol } from '../../src/types/basis';
+import { BasisProtocolTemplate, EXAMPLE_PROTOCOL } from '../../src/types/protocolTemplate';
+import { BBICProtocolTemplate, BBICBox, EXAMPLE_BBIC_PROTOCOL } from '../../src/types/bbicTemplate';
+import { ProcessProtocolTemplate, EXAMPLE_PROCESS_PROTOCOL } from '../../src/types/processProtocolTemplate';
+
+export type ResolvedProtocol =
+  | { id: string; name: string; version: string; kind: 'rubric'; definition: Protocol }
+  | { id: string; name: string; version: string; kind: 'base'; template: BasisProtocolTemplate }
+  | { id: string; name: string; version: string; kind: 'content'; template: BBICProtocolTemplate }
+  | { id: string; name: string; version: string; kind: 'process'; template: ProcessProtocolTemplate }
+  | { id: string; name: string; version: string; kind: 'unstructured'; rawText: string };
+
+const BUILT_IN_PROTOCOLS: Record<string, ResolvedProtocol> = {
+  [DEFAULT_BASIS_PROTOCOL.id]: {
+    id: DEFAULT_BASIS_PROTOCOL.id,
+    name: DEFAULT_BASIS_PROTOCOL.name,
+    version: DEFAULT_BASIS_PROTOCOL.version,
+    kind: 'rubric',
+    definition: DEFAULT_BASIS_PROTOCOL
+  },
+  [EXAMPLE_PROTOCOL.id]: {
+    id: EXAMPLE_PROTOCOL.id,
+    name: EXAMPLE_PROTOCOL.name,
+    version: EXAMPLE_PROTOCOL.version,
+    kind: 'base',
+    template: EXAMPLE_PROTOCOL
+  },
+  [EXAMPLE_BBIC_PROTOCOL.id]: {
+    id: EXAMPLE_BBIC_PROTOCOL.id,
+    name: EXAMPLE_BBIC_PROTOCOL.name,
+    version: EXAMPLE_BBIC_PROTOCOL.version,
+    kind: 'content',
+    template: EXAMPLE_BBIC_PROTOCOL
+  },
+  [EXAMPLE_PROCESS_PROTOCOL.id]: {
+    id: EXAMPLE_PROCESS_PROTOCOL.id,
+    name: EXAMPLE_PROCESS_PROTOCOL.name,
+    version: EXAMPLE_PROCESS_PROTOCOL.version,
+    kind: 'process',
+    template: EXAMPLE_PROCESS_PROTOCOL
+  }
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Unstructured protocol documents can be long; keep the prompt within budget
+const MAX_RAW_TEXT_LENGTH = 4000;
+
+class ProtocolRegistry {
+  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private cache = new Map<string, { protocol: ResolvedProtocol | null; loadedAt: number }>();
+
+  /**
+   * Resolve protocol IDs to protocol definitions, skipping unknown IDs
+   */
+  async resolve(protocolIds: string[]): Promise<ResolvedProtocol[]> {
+    const uniqueIds = Array.from(new Set(protocolIds.filter(Boolean)));
+    const resolved = await Promise.all(uniqueIds.map(id => this.get(id)));
+    const protocols = resolved.filter((protocol): protocol is ResolvedProtocol => protocol !== null);
+
+    if (protocols.length < uniqueIds.length) {
+      logger.warn('Some protocols could not be resolved', {
+        requested: uniqueIds,
+        resolved: protocols.map(p => p.id)
+      });
+    }
+
+    return protocols;
+  }
+
+  /**
+   * Get a single protocol definition by ID
+   */
+  async get(protocolId: string): Promise<ResolvedProtocol | null> {
+    if (BUILT_IN_PROTOCOLS[protocolId]) {
+      return BUILT_IN_PROTOCOLS[protocolId];
+    }
+
+    const cached = this.cache.get(protocolId);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL) {
+      return cached.protocol;
+    }
+
+    const protocol = await this.load(protocolId);
+    this.cache.set(protocolId, { protocol, loadedAt: Date.now() });
+    return protocol;
+  }
+
+  /**
+   * Drop cached definitions, e.g. after a teacher edits a protocol
+   */
+  invalidate(protocolId?: string): void {
+    if (protocolId) {
+      this.cache.delete(protocolId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Render protocol definitions as prompt context
+   */
+  renderForPrompt(protocols: ResolvedProtocol[]): string {
+    const effective = protocols.length > 0 ? protocols : [BUILT_IN_PROTOCOLS[DEFAULT_BASIS_PROTOCOL.id]];
+    const sections = effective.map(protocol => this.renderProtocol(protocol));
+    const rubricFields = this.getRubricFields(effective);
+
+    const fieldInstruction = rubricFields.length > 0
+      ? `RUBRIC-FÄLT (använd EXAKT dessa fältnamn i dina rubric-bedömningar):
+${rubricFields.map(field => `- ${field}`).join('\n')}`
+      : 'Inga poängsatta rubric-fält definieras av aktiva protokoll. Lämna rubric tom om schemat tillåter det.';
+
+    return `Aktiva protokoll: ${effective.map(p => `${p.name} (${p.id})`).join(', ')}
+
+${sections.join('\n\n')}
+
+${fieldInstruction}`;
+  }
+
+  /**
+   * Field names agents must use when scoring
+   */
+  getRubricFields(protocols: ResolvedProtocol[]): string[] {
+    const fields: string[] = [];
+
+    for (const protocol of protocols) {
+      switch (protocol.kind) {
+        case 'rubric':
+          fields.push(...protocol.definition.fields.map(field => field.name));
+          break;
+        case 'base':
+        case 'process':
+          fields.push(...protocol.template.categories.map(category => category.label));
+          break;
+        default:
+          break;
+      }
+    }
+
+    return Array.from(new Set(fields));
+  }
+
+  private renderProtocol(protocol: ResolvedProtocol): string {
+    switch (protocol.kind) {
+      case 'rubric':
+        return this.renderRubric(protocol.definition);
+      case 'base':
+        return this.renderBaseTemplate(protocol.template);
+      case 'content':
+        return this.renderBBICTemplate(protocol.template);
+      case 'process':
+        return this.renderProcessTemplate(protocol.template);
+      case 'unstructured':
+        return `PROTOKOLL: ${protocol.name}
+${protocol.rawText}`;
+    }
+  }
+
+  private renderRubric(definition: Protocol): string {
+    const fields = definition.fields.map(field =>
+      `- ${field.name} (${field.minScore}-${field.maxScore}): ${field.description}
+  Kriterier: ${field.criteria.join('; ')}`
+    );
+
+    return `PROTOKOLL: ${definition.name} v${definition.version}
+${fields.join('\n')}`;
+  }
+
+  private renderBaseTemplate(template: BasisProtocolTemplate): string {
+    const categories = template.categories.map(category => {
+      const lines = [`- ${category.label}: ${category.definition}`];
+      if (category.notes?.deficits?.length) {
+        lines.push(`  Vanliga brister: ${category.notes.deficits.join('; ')}`);
+      }
+      if (category.notes?.excess?.length) {
+        lines.push(`  Tecken på överdrift: ${category.notes.excess.join('; ')}`);
+      }
+      return lines.join('\n');
+    });
+
+    return `PROTOKOLL: ${template.name} v${template.version} (basprotokoll)
+${template.description}
+
+SKALA (${template.scale.range[0]}-${template.scale.range[1]}):
+${this.renderAnchors(template.scale.anchors)}
+
+KATEGORIER:
+${categories.join('\n')}`;
+  }
+
+  private renderBBICTemplate(template: BBICProtocolTemplate): string {
+    const renderBoxes = (boxes: BBICBox[]) => boxes.map(box => {
+      const lines = [`- ${box.id} ${box.label}${box.context ? `: ${box.context}` : ''}`];
+      if (box.successIndicators?.length) {
+        lines.push(`  Tecken på genomfört moment: ${box.successIndicators.join('; ')}`);
+      }
+      return lines.join('\n');
+    }).join('\n');
+
+    const required = template.completionCriteria.requiredBoxes;
+
+    return `PROTOKOLL: ${template.name} v${template.version} (innehållsprotokoll, checklista)
+${template.description}
+
+RAMMOMENT:
+${renderBoxes(template.checklist.frame)}
+
+INNEHÅLLSMOMENT:
+${renderBoxes(template.checklist.content)}
+
+AVSLUT:
+${renderBoxes(template.checklist.avslut)}
+
+Obligatoriska moment: ${required.length > 0 ? required.join(', ') : 'inga'}
+Checklistans moment bedöms inte med rubric-poäng.`;
+  }
+
+  private renderProcessTemplate(template: ProcessProtocolTemplate): string {
+    const categories = template.categories.map(category => {
+      const lines = [`- ${category.label}: ${category.definition}`];
+      if (category.processIndicators?.positive?.length) {
+        lines.push(`  Positiva indikatorer: ${category.processIndicators.positive.join('; ')}`);
+      }
+      if (category.processIndicators?.concerning?.length) {
+        lines.push(`  Varningstecken: ${category.processIndicators.concerning.join('; ')}`);
+      }
+      return lines.join('\n');
+    });
+
+    return `PROTOKOLL: ${template.name} v${template.version} (processprotokoll, ${template.processType})
+${template.description}
+
+SKALA (${template.scale.range[0]}-${template.scale.range[1]}):
+${this.renderAnchors(template.scale.anchors)}
+
+PROCESSKATEGORIER:
+${categories.join('\n')}`;
+  }
+
+  private renderAnchors(anchors: Record<number, string>): string {
+    return Object.entries(anchors)
+      .map(([score, anchor]) => `- ${score}: ${anchor}`)
+      .join('\n');
+  }
+
+  /**
+   * Load a published protocol from the protocols table, falling back to protocol documents
+   * Drafts parsed from a document are skipped, so the document's raw text is used until publishing.
+   */
+  private async load(protocolId: string): Promise<ResolvedProtocol | null> {
+    if (!UUID_PATTERN.test(protocolId)) {
+      logger.warn('Unknown protocol ID', { protocolId });
+      return null;
+    }
+
+    try {
+      const { data: row, error } = await supabase
+        .from('protocols')
+        .select('id, name, version, type, raw_text, structured_json')
+        .eq('id', protocolId)
+        .eq('status', 'published')
+        .maybeSingle();
+
+      if (error) {
+        logger.warn('Failed to load protocol from Supabase', { protocolId, error: error.message });
+      }
+
+      if (row) {
+        return this.fromProtocolRow(row);
+      }
+
+      const { data: document, error: documentError } = await supabase
+        .from('documents')
+        .select('id, file_name, content')
+        .eq('id', protocolId)
+        .eq('document_type', 'protocol')
+        .maybeSingle();
+
+      if (documentError) {
+        logger.warn('Failed to load protocol document from Supabase', { protocolId, error: documentError.message });
+      }
+
+      if (document?.content) {
+        return {
+          id: document.id,
+          name: document.file_name,
+          version: '1.0',
+          kind: 'unstructured',
+          rawText: document.content.slice(0, MAX_RAW_TEXT_LENGTH)
+        };
+      }
+    } catch (error) {
+      logger.error('Protocol lookup failed', {
+        protocolId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return null;
+  }
+
+  private fromProtocolRow(row: {
+    id: string;
+    name: string;
+    version: string | null;
+    type: 'base' | 'content' | 'process';
+    raw_text: string;
+    structured_json: unknown;
+  }): ResolvedProtocol {
+    const base = { id: row.id, name: row.name, version: row.version || '1.0' };
+    const structured = row.structured_json as Record<string, unknown> | null;
+
+    if (structured && typeof structured === 'object') {
+      if (row.type === 'content' && isBBICTemplate(structured)) {
+        return { ...base, kind: 'content', template: structured };
+      }
+      if (row.type === 'process' && isProcessTemplate(structured)) {
+        return { ...base, kind: 'process', template: structured };
+      }
+      if (row.type === 'base' && isBaseTemplate(structured)) {
+        return { ...base, kind: 'base', template: structured };
+      }
+
+      logger.warn('Protocol structured_json does not match its template type, using raw text', {
+        protocolId: row.id,
+        type: row.type
+      });
+    }
+
+    return { ...base, kind: 'unstructured', rawText: row.raw_text.slice(0, MAX_RAW_TEXT_LENGTH) };
+  }
+}
+
+export function isBaseTemplate(value: Record<string, unknown>): value is BasisProtocolTemplate & Record<string, unknown> {
+  return Array.isArray(value.categories) && typeof value.scale === 'object' && value.scale !== null;
+}
+
+export function isProcessTemplate(value: Record<string, unknown>): value is ProcessProtocolTemplate & Record<string, unknown> {
+  return isBaseTemplate(value) && typeof value.processType === 'string';
+}
+
+export function isBBICTemplate(value: Record<string, unknown>): value is BBICProtocolTemplate & Record<string, unknown> {
+  const checklist = value.checklist as Record<string, unknown> | undefined;
+  return !!checklist
+    && Array.isArray(checklist.frame)
+    && Array.isArray(checklist.content)
+    && Array.isArray(checklist.avslut)
+    && typeof value.completionCriteria === 'object';
+}
+
+export const protocolRegistry = new ProtocolRegistry();
@@ -0,0 +1,260 @@
+/**
+ * Protocol Stack Validator - Compatibility checks for an exercise's protocol stack
+ * Reports overlapping rubric categories, feedback rules that cannot all be met and
+ * protocol combinations the agents do not support, and turns stack weights into
+ * the shares the Reviewer applies.
+ */
+
+import { protocolRegistry, ResolvedProtocol } from './protocolRegistry';
+import { ProcessProtocolValidator } from '../../src/types/processProtocolTemplate';
+import { ProtocolValidator } from '../../src/types/protocolTemplate';
+import {
+  DEFAULT_PROTOCOL_WEIGHT,
+  ProtocolStackEntry,
+  ProtocolStackIssue,
+  ProtocolStackValidation
+} from '../../src/types/protocolStack';
+
+type ScoredProtocol = Extract<ResolvedProtocol, { kind: 'rubric' | 'base' | 'process' }>;
+
+type RuledProtocol = Extract<ResolvedProtocol, { kind: 'base' | 'content' | 'process' }>;
+
+class ProtocolStackValidator {
+  /**
+   * Stack entries from a request body or the exercises.protocol_stack column
+   * Plain protocol IDs get the default weight.
+   */
+  normalize(input: unknown): ProtocolStackEntry[] {
+    if (!Array.isArray(input)) {
+      return [];
+    }
+
+    return input.flatMap((entry): ProtocolStackEntry[] => {
+      if (typeof entry === 'string') {
+        return entry ? [{ protocolId: entry, weight: DEFAULT_PROTOCOL_WEIGHT }] : [];
+      }
+      if (entry && typeof entry === 'object' && typeof (entry as ProtocolStackEntry).protocolId === 'string') {
+        const { protocolId, weight } = entry as { protocolId: string; weight?: unknown };
+        return [{ protocolId, weight: weight === undefined ? DEFAULT_PROTOCOL_WEIGHT : Number(weight) }];
+      }
+      return [];
+    });
+  }
+
+  async validate(stack: ProtocolStackEntry[]): Promise<ProtocolStackValidation> {
+    const issues: ProtocolStackIssue[] = [];
+
+    if (stack.length === 0) {
+      issues.push({
+        type: 'unsupported_combination',
+        severity: 'error',
+        protocolIds: [],
+        message: 'The protocol stack must contain at least one protocol'
+      });
+    }
+
+    for (const entry of stack) {
+      if (!Number.isFinite(entry.weight) || entry.weight <= 0) {
+        issues.push({
+          type: 'invalid_weight',
+          severity: 'error',
+          protocolIds: [entry.protocolId],
+          message: `Weight for ${entry.protocolId} must be a positive number`
+        });
+      }
+    }
+
+    const ids = stack.map(entry => entry.protocolId);
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    for (const id of new Set(duplicates)) {
+      issues.push({
+        type: 'duplicate_protocol',
+        severity: 'error',
+        protocolIds: [id],
+        message: `${id} appears more than once in the stack`
+      });
+    }
+
+    const protocols = await protocolRegistry.resolve(ids);
+    const resolvedIds = new Set(protocols.map(protocol => protocol.id));
+    for (const id of new Set(ids.filter(id => !resolvedIds.has(id)))) {
+      issues.push({
+        type: 'unknown_protocol',
+        severity: 'error',
+        protocolIds: [id],
+        message: `Protocol ${id} was not found`
+      });
+    }
+
+    issues.push(
+      ...this.checkCombination(protocols),
+      ...this.checkCategoryOverlap(protocols),
+      ...this.checkFeedbackRules(protocols)
+    );
+
+    return {
+      valid: !issues.some(issue => issue.severity === 'error'),
+      stack,
+      issues
+    };
+  }
+
+  /**
+   * Normalized weight shares by protocol ID, summing to 1
+   */
+  weights(stack: ProtocolStackEntry[]): Record<string, number> {
+    const total = stack.reduce((sum, entry) => sum + entry.weight, 0);
+    return Object.fromEntries(stack.map(entry => [entry.protocolId, total > 0 ? entry.weight / total : 0]));
+  }
+
+  /**
+   * Weight section for the Reviewer prompt
+   */
+  async describeWeights(weights: Record<string, number>): Promise<string> {
+    const protocols = await protocolRegistry.resolve(Object.keys(weights));
+    if (protocols.length < 2) {
+      return '';
+    }
+
+    return [
+      'PROTOKOLLVIKTER (läraren har viktat protokollen för denna övning):',
+      ...protocols.map(protocol => `- ${protocol.name} (${protocol.id}): ${Math.round((weights[protocol.id] ?? 0) * 100)} %`),
+      'Låt styrkor, utvecklingsområden och sammanfattning spegla vikterna: protokoll med högre vikt ska få större utrymme i helhetsbedömningen.'
+    ].join('\n');
+  }
+
+  private checkCombination(protocols: ResolvedProtocol[]): ProtocolStackIssue[] {
+    const issues: ProtocolStackIssue[] = [];
+    const content = protocols.filter(protocol => protocol.kind === 'content');
+    const process = protocols.filter((protocol): protocol is Extract<ResolvedProtocol, { kind: 'process' }> =>
+      protocol.kind === 'process'
+    );
+    const bases = protocols.filter(protocol => protocol.kind === 'rubric' || protocol.kind === 'base');
+
+    // Coverage is tracked per checklist; two checklists would compete for the same turns
+    if (content.length > 1) {
+      issues.push({
+        type: 'unsupported_combination',
+        severity: 'error',
+        protocolIds: content.map(protocol => protocol.id),
+        message: 'Only one BBIC content protocol can be used per exercise'
+      });
+    }
+
+    const processTypes = new Map<string, string[]>();
+    for (const protocol of process) {
+      processTypes.set(protocol.template.processType, [...(processTypes.get(protocol.template.processType) ?? []), protocol.id]);
+    }
+    for (const [processType, protocolIds] of processTypes) {
+      if (protocolIds.length > 1) {
+        issues.push({
+          type: 'unsupported_combination',
+          severity: 'warning',
+          protocolIds,
+          message: `Several process protocols assess the same process type (${processType})`
+        });
+      }
+    }
+
+    if (process.length > 0 && bases.length === 0) {
+      issues.push({
+        type: 'unsupported_combination',
+        severity: 'warning',
+        protocolIds: process.map(protocol => protocol.id),
+        message: 'Process protocols are meant to be combined with a base protocol'
+      });
+    }
+
+    for (const protocol of process) {
+      const compatible = bases.some(base => ProcessProtocolValidator.analyzeCompatibility(protocol.template, base.id).isCompatible);
+      if (bases.length > 0 && !compatible) {
+        issues.push({
+          type: 'unsupported_combination',
+          severity: 'warning',
+          protocolIds: [protocol.id, ...bases.map(base => base.id)],
+          message: `${protocol.name} does not list any of the stack's base protocols as compatible`
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Scored categories with the same name merge into one rubric field
+   */
+  private checkCategoryOverlap(protocols: ResolvedProtocol[]): ProtocolStackIssue[] {
+    const owners = new Map<string, { label: string; protocolIds: string[] }>();
+
+    for (const protocol of protocols.filter((entry): entry is ScoredProtocol =>
+      entry.kind === 'rubric' || entry.kind === 'base' || entry.kind === 'process'
+    )) {
+      const labels = protocol.kind === 'rubric'
+        ? protocol.definition.fields.map(field => field.name)
+        : protocol.template.categories.map(category => category.label);
+
+      for (const label of new Set(labels)) {
+        const key = label.trim().toLowerCase();
+        const owner = owners.get(key) ?? { label, protocolIds: [] };
+        owners.set(key, { ...owner, protocolIds: [...owner.protocolIds, protocol.id] });
+      }
+    }
+
+    return [...owners.values()]
+      .filter(owner => owner.protocolIds.length > 1)
+      .map(owner => ({
+        type: 'overlapping_categories' as const,
+        severity: 'warning' as const,
+        protocolIds: owner.protocolIds,
+        message: `Category "${owner.label}" is defined by several protocols and will be scored as one field`
+      }));
+  }
+
+  /**
+   * Every validated feedback text is checked against all protocols' rules, so they must be satisfiable together
+   */
+  private checkFeedbackRules(protocols: ResolvedProtocol[]): ProtocolStackIssue[] {
+    const issues: ProtocolStackIssue[] = [];
+    const ruled = protocols.filter((protocol): protocol is RuledProtocol =>
+      (protocol.kind === 'base' || protocol.kind === 'content' || protocol.kind === 'process')
+      && !!protocol.template.validationRules
+    );
+
+    for (const a of ruled) {
+      for (const b of ruled) {
+        if (a === b) {
+          continue;
+        }
+
+        const conflicts = b.template.validationRules.requiredPatterns.filter(pattern =>
+          a.template.validationRules.forbiddenTerms.some(term => ProtocolValidator.containsTerm(pattern, term))
+        );
+        if (conflicts.length > 0) {
+          issues.push({
+            type: 'conflicting_feedback_rules',
+            severity: 'error',
+            protocolIds: [b.id, a.id],
+            message: `${b.name} requires phrasings that ${a.name} forbids: ${conflicts.map(pattern => `"${pattern}"`).join(', ')}`
+          });
+        }
+      }
+    }
+
+    if (ruled.length > 1) {
+      const minLength = Math.max(...ruled.map(protocol => protocol.template.validationRules.feedbackLimits.minLength));
+      const maxLength = Math.min(...ruled.map(protocol => protocol.template.validationRules.feedbackLimits.maxLength));
+      if (minLength > maxLength) {
+        issues.push({
+          type: 'conflicting_feedback_rules',
+          severity: 'error',
+          protocolIds: ruled.map(protocol => protocol.id),
+          message: `Feedback length limits do not overlap (at least ${minLength} but at most ${maxLength} characters)`
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+export const protocolStackValidator = new ProtocolStackValidator();
@@ -0,0 +1,88 @@
+/**
+ * Resource Access - Teacher ownership and sharing for Express routes
+ * Mirrors supabase/functions/_shared/ownership.ts: the server uses the service role,
+ * which bypasses row-level security, so routes apply the same rules here. A teacher
+ * reaches resources they own, resources a colleague shared with them, and resources
+ * without an owner (created before ownership).
+ */
+
+import { supabase } from './supabaseClient';
+import { ResourceType, SharePermission } from '../../src/types/ownership';
+
+const RESOURCE_TABLES: Record<ResourceType, string> = {
+  exercise: 'exercises',
+  lesson: 'lessons',
+  document: 'documents',
+  class: 'classes'
+};
+
+class ResourceAccess {
+  /**
+   * The teacher's permission on a resource; owned and unowned resources can be edited.
+   * Null when the resource does not exist or is not visible to the teacher.
+   */
+  async permission(teacherId: string, resourceType: ResourceType, resourceId: string): Promise<SharePermission | null> {
+    const { data: resource, error } = await supabase
+      .from(RESOURCE_TABLES[resourceType])
+      .select('id, owner_id')
+      .eq('id', resourceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load ${resourceType} ${resourceId}: ${error.message}`);
+    }
+    if (!resource) {
+      return null;
+    }
+    if (!resource.owner_id || resource.owner_id === teacherId) {
+      return 'edit';
+    }
+
+    const { data: share, error: shareError } = await supabase
+      .from('resource_shares')
+      .select('permission')
+      .eq('resource_type', resourceType)
+      .eq('resource_id', resourceId)
+      .eq('grantee_id', teacherId)
+      .maybeSingle();
+
+    if (shareError) {
+      throw new Error(`Failed to check access to ${resourceType} ${resourceId}: ${shareError.message}`);
+    }
+
+    return (share?.permission as SharePermission | undefined) ?? null;
+  }
+
+  /**
+   * The subset of these resources the teacher can see
+   */
+  async visibleIds(teacherId: string, resourceType: ResourceType, resourceIds: string[]): Promise<Set<string>> {
+    if (resourceIds.length === 0) {
+      return new Set();
+    }
+
+    const [{ data: resources, error }, { data: shares, error: shareError }] = await Promise.all([
+      supabase
+        .from(RESOURCE_TABLES[resourceType])
+        .select('id, owner_id')
+        .in('id', resourceIds),
+      supabase
+        .from('resource_shares')
+        .select('resource_id')
+        .eq('resource_type', resourceType)
+        .eq('grantee_id', teacherId)
+        .in('resource_id', resourceIds)
+    ]);
+
+    if (error || shareError) {
+      throw new Error(`Failed to check access to ${resourceType}s: ${(error ?? shareError)!.message}`);
+    }
+
+    const shared = new Set((shares ?? []).map(share => share.resource_id as string));
+    return new Set((resources ?? [])
+      .filter(resource => !resource.owner_id || resource.owner_id === teacherId || shared.has(resource.id))
+      .map(resource => resource.id as string));
+  }
+}
+
+export const resourceAccess = new ResourceAccess();
@@ -0,0 +1,80 @@
+/**
+ * Response Projection - hiddenScore confidentiality at the API boundary
+ * Agent output carries internal 0-4 rubric scores (see src/types/protocolTemplate.ts).
+ * Teachers and researchers receive them as-is; students get a qualitative view:
+ * every score key and the raw output of failed agents is dropped, and rubrics
+ * are reduced to the areas assessed.
+ */
+
+import { CallerRole } from '../../src/types/basis';
+
+// Keys that hold numeric assessments anywhere in an agent payload
+const SCORE_KEYS = new Set(['hiddenScore', 'score', 'scores', 'overallScore', 'maxScore']);
+
+// Rubric containers: Analyst `rubric` is dropped, Reviewer `rubric_summary` is kept as an empty list
+const RUBRIC_KEYS = new Set(['rubric', 'rubric_summary']);
+
+// Unvalidated agent output attached to failures; it can hold scores in any shape
+const RAW_KEYS = new Set(['raw']);
+
+class ResponseProjection {
+  /**
+   * Whether the caller may see rubric scores
+   */
+  canSeeScores(role: CallerRole): boolean {
+    return role === 'teacher' || role === 'research';
+  }
+
+  /**
+   * Project a response body for the caller; callers without a role get the student view
+   */
+  project<T>(payload: T, role: CallerRole = 'student'): T {
+    return this.canSeeScores(role) ? payload : this.studentView(payload) as T;
+  }
+
+  private studentView(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.studentView(item));
+    }
+
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+
+    const projected: Record<string, unknown> = {};
+    let assessedAreas: string[] | undefined;
+
+    for (const [key, entry] of Object.entries(value)) {
+      if (SCORE_KEYS.has(key) || RAW_KEYS.has(key)) continue;
+
+      if (RUBRIC_KEYS.has(key)) {
+        assessedAreas = [...(assessedAreas ?? []), ...this.rubricFields(entry)];
+        if (key === 'rubric_summary') projected.rubric_summary = [];
+        continue;
+      }
+
+      projected[key] = this.studentView(entry);
+    }
+
+    if (assessedAreas && assessedAreas.length > 0) {
+      projected.assessed_areas = [...new Set(assessedAreas)];
+    }
+
+    return projected;
+  }
+
+  /**
+   * Field names of a rubric in either shape: [{ field, score }] or { field: score }
+   */
+  private rubricFields(rubric: unknown): string[] {
+    if (Array.isArray(rubric)) {
+      return rubric
+        .map(entry => (entry && typeof entry === 'object' ? (entry as { field?: unknown }).field : undefined))
+        .filter((field): field is string => typeof field === 'string');
+    }
+
+    return rubric && typeof rubric === 'object' ? Object.keys(rubric) : [];
+  }
+}
+
+export const responseProjection = new ResponseProjection();
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { reviewJobQueue } from './reviewJobQueue';
+import { CreateReviewJobRequest } from '../../src/types/reviewJobs';
+
+const createJob = (items: unknown[]) =>
+  reviewJobQueue.createJob({ items } as CreateReviewJobRequest, 'teacher-1');
+
+describe('reviewJobQueue.createJob', () => {
+  it.each([
+    ['a null item', [null]],
+    ['an item without turns or transcript', [{ label: 'Tom' }]],
+    ['a whitespace-only transcript', [{ transcript: '   \n ' }]],
+    ['turns without content', [{ turns: [{ speaker: 'Lärare', content: '  ' }] }]]
+  ])('rejects %s as an invalid item', async (_label, items) => {
+    await expect(createJob(items)).rejects.toMatchObject({ code: 'INVALID_JOB_ITEM' });
+  });
+});
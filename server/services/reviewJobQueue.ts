@@ -0,0 +1,565 @@
+/**
+ * Review Job Queue - Asynchronous batch transcript reviews
+ * Jobs and their items are persisted in Supabase; items are reviewed in the
+ * background with bounded concurrency and can be retried when they fail.
+ * Items still queued or running when the server stopped are resumed on start.
+ * Jobs belong to the teacher who queued them and are only visible to them; jobs
+ * queued before ownership was recorded have no owner and are not listed.
+ */
+
+import { logger } from '../config/logger';
+import { ReviewerAgent, TranscriptExerciseConfig } from '../agents/reviewerAgent';
+import { supabase } from './supabaseClient';
+import { transcriptImporter, TranscriptImportError } from './transcriptImporter';
+import { ReviewerResponse } from '../../src/types/basis';
+import { TranscriptTurn } from '../../src/types/transcript';
+import {
+  CreateReviewJobRequest,
+  ReviewJob,
+  ReviewJobItem,
+  ReviewJobItemDetail,
+  ReviewJobItemInput,
+  ReviewJobItemResult,
+  ReviewJobItemStatus,
+  ReviewJobStatus,
+  ReviewJobWithItems
+} from '../../src/types/reviewJobs';
+
+export const MAX_JOB_ITEMS = 200;
+
+// .docx files are imported into turns first, as with POST /api/transcript/review
+const ITEM_FORMATS: string[] = ['srt', 'vtt', 'text'];
+
+// Item columns for status responses; results and transcripts are only read when needed
+const ITEM_COLUMNS = 'id, job_id, item_index, label, status, attempts, error_code, error_message, started_at, completed_at, created_at';
+
+const REVIEW_JOB_CONCURRENCY = Math.max(1, Number(process.env.REVIEW_JOB_CONCURRENCY) || 3);
+
+export class ReviewJobError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'ReviewJobError';
+  }
+}
+
+interface JobRow {
+  id: string;
+  owner_id: string | null;
+  status: ReviewJobStatus;
+  protocol_ids: string[];
+  exercise_config: TranscriptExerciseConfig | null;
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+interface ItemRow {
+  id: string;
+  job_id: string;
+  item_index: number;
+  label: string;
+  status: ReviewJobItemStatus;
+  attempts: number;
+  error_code: string | null;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  transcript?: string | null;
+  format?: ReviewJobItemInput['format'] | null;
+  turns?: TranscriptTurn[] | null;
+  student_speaker?: string | null;
+  result?: ReviewerResponse | null;
+  metadata?: ReviewJobItemResult['metadata'] | null;
+}
+
+interface QueuedItem {
+  jobId: string;
+  itemId: string;
+}
+
+class ReviewJobQueue {
+  private pending: QueuedItem[] = [];
+  private active = 0;
+  private reviewer = new ReviewerAgent();
+
+  /**
+   * Validate and persist a job, then start reviewing its items in the background
+   */
+  async createJob(request: CreateReviewJobRequest, ownerId: string): Promise<ReviewJobWithItems> {
+    const { items, protocolIds = ['basis-v1'], exerciseConfig } = request;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ReviewJobError('INVALID_BATCH_INPUT', 'items must be a non-empty array');
+    }
+
+    if (items.length > MAX_JOB_ITEMS) {
+      throw new ReviewJobError('BATCH_TOO_LARGE', `Maximum ${MAX_JOB_ITEMS} transcripts per review job`);
+    }
+
+    // Parse every item up front so a malformed transcript rejects the job instead of failing later
+    const rows = items.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new ReviewJobError('INVALID_JOB_ITEM', `Item ${index + 1}: must be an object with a transcript or turns`);
+      }
+
+      if (item.format !== undefined && !ITEM_FORMATS.includes(item.format)) {
+        throw new ReviewJobError('INVALID_JOB_ITEM', `Item ${index + 1}: format must be one of: ${ITEM_FORMATS.join(', ')}`);
+      }
+
+      try {
+        this.resolveTurns(item);
+      } catch (error) {
+        if (error instanceof TranscriptImportError) {
+          throw new ReviewJobError('INVALID_JOB_ITEM', `Item ${index + 1}: ${error.message}`);
+        }
+        throw error;
+      }
+
+      return {
+        item_index: index,
+        label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : `Transcript ${index + 1}`,
+        transcript: typeof item.transcript === 'string' ? item.transcript : null,
+        format: item.format ?? null,
+        turns: item.turns ?? null,
+        student_speaker: typeof item.studentSpeaker === 'string' ? item.studentSpeaker : null
+      };
+    });
+
+    const { data: job, error: jobError } = await supabase
+      .from('transcript_review_jobs')
+      .insert({
+        owner_id: ownerId,
+        protocol_ids: protocolIds,
+        exercise_config: exerciseConfig ?? null,
+        total_items: rows.length
+      })
+      .select()
+      .single();
+
+    if (jobError || !job) {
+      logger.error('Failed to create review job', { error: jobError });
+      throw new ReviewJobError('JOB_CREATION_FAILED', 'Failed to create review job');
+    }
+
+    const { data: itemRows, error: itemsError } = await supabase
+      .from('transcript_review_job_items')
+      .insert(rows.map(row => ({ ...row, job_id: job.id })))
+      .select(ITEM_COLUMNS);
+
+    if (itemsError || !itemRows) {
+      logger.error('Failed to create review job items', { jobId: job.id, error: itemsError });
+      await supabase.from('transcript_review_jobs').delete().eq('id', job.id);
+      throw new ReviewJobError('JOB_CREATION_FAILED', 'Failed to create review job');
+    }
+
+    logger.info('Review job created', { jobId: job.id, ownerId, itemCount: itemRows.length, protocolIds });
+
+    const created = (itemRows as ItemRow[]).sort((a, b) => a.item_index - b.item_index);
+    this.enqueue(created.map(row => ({ jobId: job.id, itemId: row.id })));
+
+    return { ...this.toJob(job), items: created.map(row => this.toItem(row)) };
+  }
+
+  /**
+   * The owner's most recent jobs, newest first
+   */
+  async listJobs(ownerId: string, limit = 20): Promise<ReviewJob[]> {
+    const { data, error } = await supabase
+      .from('transcript_review_jobs')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to list review jobs', { error });
+      throw new ReviewJobError('JOB_LOOKUP_FAILED', 'Failed to list review jobs');
+    }
+
+    return ((data ?? []) as JobRow[]).map(row => this.toJob(row));
+  }
+
+  /**
+   * Job status with per-item progress, without the review results
+   */
+  async getJob(jobId: string, ownerId: string): Promise<ReviewJobWithItems | null> {
+    const job = await this.fetchJob(jobId, ownerId);
+    if (!job) return null;
+
+    const items = await this.fetchItems(jobId, ITEM_COLUMNS);
+    return { ...this.toJob(job), items: items.map(row => this.toItem(row)) };
+  }
+
+  /**
+   * Job with the Reviewer output of every completed item
+   */
+  async getResults(jobId: string, ownerId: string): Promise<(ReviewJob & { items: ReviewJobItemResult[] }) | null> {
+    const job = await this.fetchJob(jobId, ownerId);
+    if (!job) return null;
+
+    const items = await this.fetchItems(jobId, `${ITEM_COLUMNS}, result, metadata`);
+    return {
+      ...this.toJob(job),
+      items: items.map(row => ({
+        ...this.toItem(row),
+        review: row.result ?? undefined,
+        metadata: row.metadata ?? undefined
+      }))
+    };
+  }
+
+  /**
+   * One item with its result and parsed transcript turns
+   */
+  async getItem(jobId: string, itemId: string, ownerId: string): Promise<ReviewJobItemDetail | null> {
+    if (!await this.fetchJob(jobId, ownerId)) return null;
+
+    const { data, error } = await supabase
+      .from('transcript_review_job_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load review job item', { jobId, itemId, error });
+      throw new ReviewJobError('JOB_LOOKUP_FAILED', 'Failed to load review job item');
+    }
+
+    const item = data as ItemRow | null;
+    if (!item) return null;
+
+    let turns: TranscriptTurn[];
+    try {
+      ({ turns } = this.resolveTurns({
+        transcript: item.transcript ?? undefined,
+        format: item.format ?? undefined,
+        turns: item.turns ?? undefined,
+        studentSpeaker: item.student_speaker ?? undefined
+      }));
+    } catch (error) {
+      if (error instanceof TranscriptImportError) {
+        throw new ReviewJobError('INVALID_JOB_ITEM', error.message);
+      }
+      throw error;
+    }
+
+    return {
+      ...this.toItem(item),
+      review: item.result ?? undefined,
+      metadata: item.metadata ?? undefined,
+      turns
+    };
+  }
+
+  /**
+   * Queue failed items again; all failed items unless itemIds narrows them down
+   */
+  async retry(jobId: string, ownerId: string, itemIds?: string[]): Promise<ReviewJobWithItems> {
+    const job = await this.fetchJob(jobId, ownerId);
+    if (!job) {
+      throw new ReviewJobError('JOB_NOT_FOUND', 'Review job not found');
+    }
+
+    let query = supabase
+      .from('transcript_review_job_items')
+      .update({ status: 'queued', error_code: null, error_message: null, started_at: null, completed_at: null })
+      .eq('job_id', jobId)
+      .eq('status', 'failed');
+
+    if (itemIds && itemIds.length > 0) {
+      query = query.in('id', itemIds);
+    }
+
+    const { data: retried, error } = await query.select('id, item_index');
+
+    if (error) {
+      logger.error('Failed to retry review job items', { jobId, error });
+      throw new ReviewJobError('JOB_RETRY_FAILED', 'Failed to retry review job items');
+    }
+
+    if (!retried || retried.length === 0) {
+      throw new ReviewJobError('NO_FAILED_ITEMS', 'No failed items to retry');
+    }
+
+    await this.refreshJob(jobId);
+
+    logger.info('Review job items requeued', { jobId, itemCount: retried.length });
+
+    this.enqueue((retried as ItemRow[])
+      .sort((a, b) => a.item_index - b.item_index)
+      .map(row => ({ jobId, itemId: row.id })));
+
+    return (await this.getJob(jobId, ownerId))!;
+  }
+
+  /**
+   * Requeue items that were queued or mid-review when the server stopped
+   */
+  async resumePending(): Promise<void> {
+    const { data, error } = await supabase
+      .from('transcript_review_job_items')
+      .update({ status: 'queued', started_at: null })
+      .in('status', ['queued', 'running'])
+      .select('id, job_id, item_index, created_at');
+
+    if (error) {
+      logger.warn('Failed to resume pending review job items', { error });
+      return;
+    }
+
+    if (!data || data.length === 0) return;
+
+    logger.info('Resuming review job items', { itemCount: data.length });
+    this.enqueue((data as ItemRow[])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.item_index - b.item_index)
+      .map(row => ({ jobId: row.job_id, itemId: row.id })));
+  }
+
+  private enqueue(items: QueuedItem[]): void {
+    this.pending.push(...items);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < REVIEW_JOB_CONCURRENCY && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.active++;
+      this.processItem(next)
+        .catch(error => {
+          logger.error('Review job item crashed', {
+            ...next,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        })
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async processItem({ jobId, itemId }: QueuedItem): Promise<void> {
+    const { data, error } = await supabase
+      .from('transcript_review_job_items')
+      .select('*')
+      .eq('id', itemId)
+      .single();
+    const item = data as ItemRow | null;
+
+    // Already picked up or retried in the meantime
+    if (error || !item || item.status !== 'queued') return;
+
+    const job = await this.fetchJob(jobId);
+    if (!job) return;
+
+    // Only the worker that moves the item out of queued reviews it
+    const startedAt = new Date();
+    const { data: claimed, error: claimError } = await supabase
+      .from('transcript_review_job_items')
+      .update({ status: 'running', attempts: item.attempts + 1, started_at: startedAt.toISOString() })
+      .eq('id', itemId)
+      .eq('status', 'queued')
+      .select('id');
+
+    if (claimError) {
+      logger.error('Failed to start review job item', { jobId, itemId, error: claimError });
+      return;
+    }
+    if (!claimed || claimed.length === 0) return;
+
+    if (job.status === 'queued') {
+      await supabase
+        .from('transcript_review_jobs')
+        .update({ status: 'running', started_at: startedAt.toISOString() })
+        .eq('id', jobId);
+    }
+
+    try {
+      const { turns, durationMs } = this.resolveTurns({
+        transcript: item.transcript ?? undefined,
+        format: item.format ?? undefined,
+        turns: item.turns ?? undefined,
+        studentSpeaker: item.student_speaker ?? undefined
+      });
+
+      const exerciseConfig: TranscriptExerciseConfig | undefined = job.exercise_config ?? undefined;
+      const review = await this.reviewer.analyzeTurns(job.protocol_ids, turns, exerciseConfig);
+
+      const wordCount = turns.reduce((sum, turn) => sum + turn.content.split(/\s+/).filter(word => word.length > 0).length, 0);
+      const analysisTime = Date.now() - startedAt.getTime();
+
+      await supabase
+        .from('transcript_review_job_items')
+        .update({
+          status: 'completed',
+          result: review,
+          metadata: {
+            turnCount: turns.length,
+            wordCount,
+            estimatedDuration: durationMs !== undefined ? Math.ceil(durationMs / 60000) : Math.ceil(wordCount / 150),
+            analysisTime
+          },
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', itemId);
+
+      logger.info('Review job item completed', { jobId, itemId, analysisTime });
+
+    } catch (error) {
+      const errorCode = error instanceof TranscriptImportError ? error.code : 'ANALYSIS_FAILED';
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.warn('Review job item failed', { jobId, itemId, errorCode, error: errorMessage });
+
+      await supabase
+        .from('transcript_review_job_items')
+        .update({
+          status: 'failed',
+          error_code: errorCode,
+          error_message: errorMessage,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', itemId);
+    }
+
+    await this.refreshJob(jobId);
+  }
+
+  /**
+   * Recount item statuses; the job is done once nothing is queued or running
+   */
+  private async refreshJob(jobId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('transcript_review_job_items')
+      .select('status')
+      .eq('job_id', jobId);
+
+    if (error || !data) {
+      logger.error('Failed to refresh review job', { jobId, error });
+      return;
+    }
+
+    const count = (status: ReviewJobItemStatus) => (data as Pick<ItemRow, 'status'>[]).filter(row => row.status === status).length;
+    const completed = count('completed');
+    const failed = count('failed');
+    const done = completed + failed === data.length;
+
+    const status: ReviewJobStatus = !done ? 'running' : completed > 0 ? 'completed' : 'failed';
+
+    await supabase
+      .from('transcript_review_jobs')
+      .update({
+        status,
+        completed_items: completed,
+        failed_items: failed,
+        finished_at: done ? new Date().toISOString() : null
+      })
+      .eq('id', jobId);
+
+    if (done) {
+      logger.info('Review job finished', { jobId, completed, failed });
+    }
+  }
+
+  /**
+   * Turns for an item, parsed the same way as POST /api/transcript/review
+   */
+  private resolveTurns(item: CreateReviewJobRequest['items'][number]): { turns: TranscriptTurn[]; durationMs?: number } {
+    let turns: TranscriptTurn[];
+    let durationMs: number | undefined;
+
+    if (item.turns !== undefined) {
+      turns = transcriptImporter.normalizeTurns(item.turns);
+      durationMs = turns[turns.length - 1]?.endMs;
+    } else if (typeof item.transcript === 'string' && item.transcript.trim()) {
+      const parsed = transcriptImporter.parse(item.transcript, item.format);
+      turns = parsed.turns;
+      durationMs = parsed.durationMs;
+    } else {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'Either turns or a non-empty transcript string is required');
+    }
+
+    if (turns.length === 0) {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'The transcript has no conversation turns');
+    }
+
+    if (typeof item.studentSpeaker === 'string' && item.studentSpeaker.trim()) {
+      turns = transcriptImporter.assignStudentSpeaker(turns, item.studentSpeaker.trim());
+    }
+
+    return { turns, durationMs };
+  }
+
+  /**
+   * Load a job; with an ownerId, only when that teacher queued it
+   */
+  private async fetchJob(jobId: string, ownerId?: string): Promise<JobRow | null> {
+    let query = supabase
+      .from('transcript_review_jobs')
+      .select('*')
+      .eq('id', jobId);
+
+    if (ownerId) {
+      query = query.eq('owner_id', ownerId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load review job', { jobId, error });
+      throw new ReviewJobError('JOB_LOOKUP_FAILED', 'Failed to load review job');
+    }
+
+    return data;
+  }
+
+  private async fetchItems(jobId: string, columns: string): Promise<ItemRow[]> {
+    const { data, error } = await supabase
+      .from('transcript_review_job_items')
+      .select(columns)
+      .eq('job_id', jobId)
+      .order('item_index', { ascending: true });
+
+    if (error) {
+      logger.error('Failed to load review job items', { jobId, error });
+      throw new ReviewJobError('JOB_LOOKUP_FAILED', 'Failed to load review job items');
+    }
+
+    return (data ?? []) as unknown as ItemRow[];
+  }
+
+  private toJob(row: JobRow): ReviewJob {
+    return {
+      id: row.id,
+      status: row.status,
+      protocolIds: row.protocol_ids,
+      totalItems: row.total_items,
+      completedItems: row.completed_items,
+      failedItems: row.failed_items,
+      createdAt: row.created_at,
+      startedAt: row.started_at ?? undefined,
+      finishedAt: row.finished_at ?? undefined
+    };
+  }
+
+  private toItem(row: ItemRow): ReviewJobItem {
+    return {
+      id: row.id,
+      index: row.item_index,
+      label: row.label,
+      status: row.status,
+      attempts: row.attempts,
+      errorCode: row.error_code ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined
+    };
+  }
+}
+
+export const reviewJobQueue = new ReviewJobQueue();
@@ -1,11 +1,28 @@
 /**
  * Session Manager - Supabase-backed session state management
- * Replaces in-memory storage with persistent Supabase database
+ * Replaces in-memory storage with persistent Supabase database. Sessions are
+ * never deleted here: ending, reviewing and expiring change their lifecycle
+ * status, and sessionRetention archives, purges or anonymizes them later.
  */
 
 import { nanoid } from 'nanoid';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import { logger } from '../config/logger';
 import { supabase } from './supabaseClient';
+import { caseLoader, DEFAULT_CASE_PERSONA } from './caseLoader';
+import { emotionalStateMachine, EmotionalTrack } from './emotionalStateMachine';
+import { GuardrailRuleDefinition } from '../../src/types/guardrailRules';
+import { CasePersona, PublicCasePersona } from '../../src/types/basis';
+import { BBICCoverage } from '../../src/types/bbicTemplate';
+import { ProcessIndicatorMatch } from '../../src/types/processProtocolTemplate';
+import { protocolStackValidator } from './protocolStackValidator';
+import { accessCodes } from './accessCodes';
+import { DEMO_ACCESS_CODES } from '../../src/types/accessCodes';
+import { StudentProfile } from '../../src/types/students';
+import { AgentFeedback } from './turnProcessor';
+import { sessionRetention } from './sessionRetention';
+import { ReviewerResponse } from '../schemas/agentSchemas';
+import { RetentionRunResult, SessionStatus } from '../../src/types/sessionLifecycle';
 
 export interface ConversationMessage {
   id: string;
@@ -27,6 +44,52 @@ export interface ExerciseConfig {
   };
   focusHint: string;
   protocols: string[];
+  /** Normalized weight per protocol from the exercise's protocol stack; used by the Reviewer */
+  protocolWeights?: Record<string, number>;
+  /** Exercise guardrail rules, merged with the built-in defaults at validation time */
+  guardrailRules?: GuardrailRuleDefinition[];
+  /** Roleplay persona from the exercise's case; hidden facts must not reach the client */
+  persona?: CasePersona;
+}
+
+/**
+ * One exercise within a lesson session; its sub-transcript is
+ * conversationHistory[startMessageIndex, endMessageIndex)
+ */
+export interface ExerciseSegment {
+  exerciseId: string;
+  title: string;
+  focusHint?: string;
+  persona?: PublicCasePersona;
+  protocolWeights?: Record<string, number>;
+  startMessageIndex: number;
+  endMessageIndex?: number;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface LessonProgress {
+  lessonId: string;
+  title: string;
+  exerciseOrder: string[];
+  segments: ExerciseSegment[];
+}
+
+/**
+ * Reviewer output for one exercise of a session, kept with the session
+ */
+export interface ExerciseReview {
+  exerciseIndex: number;
+  exerciseId: string;
+  review: ReviewerResponse;
+  reviewedAt: string;
+}
+
+export class SessionProgressionError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'SessionProgressionError';
+  }
 }
 
 export interface SessionState {
@@ -34,115 +97,119 @@ export interface SessionState {
   exerciseId?: string;
   lessonId?: string;
   mode: 'exercise' | 'lesson' | 'transcript';
+  status: SessionStatus;
   currentExerciseIndex: number;
   conversationHistory: ConversationMessage[];
   protocols: string[]; // Active protocol IDs
   config: ExerciseConfig;
+  /** Present for lesson sessions; tracks progress through exerciseOrder */
+  lesson?: LessonProgress;
+  /** Roleplay character's emotional state and its trajectory across all exercises */
+  emotional?: EmotionalTrack;
+  /** BBIC checklist coverage per content protocol and exercise */
+  bbicCoverage?: BBICCoverage[];
+  /** Process protocol indicators tagged on student turns, across all exercises */
+  processIndicators?: ProcessIndicatorMatch[];
+  /** Agent feedback of the last turn, or the Navigator briefing; shown again on resume */
+  latestFeedback?: AgentFeedback;
+  /** Reviewer output per lesson exercise; the whole-session review is stored in sessions.review */
+  exerciseReviews?: ExerciseReview[];
   metadata: {
     startedAt: Date;
     lastActivityAt: Date;
+    /** When the session was ended, reviewed or expired */
+    endedAt?: Date;
     studentId?: string;
     exerciseCode?: string;
     lessonCode?: string;
+    /** Class the access code is scoped to */
+    classId?: string;
+    /** SHA-256 of the resume token handed to the student who started the session */
+    resumeTokenHash?: string;
+    /** The resume token itself; only set on the session returned by createSession */
+    resumeToken?: string;
   };
 }
 
+// Configuration for the demo codes and when a code's exercise can no longer be loaded
+const DEMO_EXERCISE_CONFIG: ExerciseConfig = {
+  id: 'demo-001',
+  title: 'Confidentiality Discussion Training',
+  caseId: 'concerned-parent-case',
+  toggles: {
+    feedforward: true,
+    iterative: true,
+    mode: 'text',
+    skipRoleplayForGlobalFeedback: false
+  },
+  focusHint: 'Practice maintaining professional boundaries while showing empathy',
+  protocols: ['basis-v1'],
+  persona: DEFAULT_CASE_PERSONA
+};
+
 class SessionManager {
   private readonly SESSION_TIMEOUT = 2 * 60 * 60 * 1000; // 2 hours
 
   constructor() {
-    // Cleanup expired sessions every 30 minutes
+    // Expire, archive and purge or anonymize sessions every 30 minutes
     setInterval(() => {
-      this.cleanupExpiredSessions();
+      this.applyRetention().catch(error => {
+        logger.error('Failed to apply session retention', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
     }, 30 * 60 * 1000);
   }
 
   /**
    * Create a new training session
+   * Codes other than the demo codes must pass the access code checks; an
+   * AccessCodeError is thrown for unknown, revoked, expired or used-up codes.
+   * Sessions of enrolled students are stored with their student id. The returned
+   * session carries a fresh resume token; only its hash is stored.
    */
   async createSession(config: {
     mode: 'exercise' | 'lesson';
     exerciseCode?: string;
     lessonCode?: string;
+    student?: StudentProfile;
   }): Promise<SessionState> {
     const sessionId = nanoid(12);
 
     const providedExerciseCode = config.exerciseCode?.trim();
     const displayExerciseCode = providedExerciseCode || undefined;
     let resolvedExerciseId: string | null = null;
-
-    // Define demo exercise configuration for fallback
-    const demoExerciseConfig: ExerciseConfig = {
-      id: 'demo-001',
-      title: 'Confidentiality Discussion Training',
-      caseId: 'concerned-parent-case',
-      toggles: {
-        feedforward: true,
-        iterative: true,
-        mode: 'text',
-        skipRoleplayForGlobalFeedback: false
-      },
-      focusHint: 'Practice maintaining professional boundaries while showing empathy',
-      protocols: ['basis-v1']
-    };
-
-    let exerciseConfig: ExerciseConfig = demoExerciseConfig;
-
-    if (providedExerciseCode) {
-      try {
-        logger.info('Attempting to resolve exercise from Supabase', { exerciseCode: providedExerciseCode });
-
-        let targetExerciseId = providedExerciseCode;
-        const { data: codeRecord, error: codeLookupError } = await supabase
-          .from('codes')
-          .select('exercise_id')
-          .eq('type', 'exercise')
-          .eq('id', providedExerciseCode)
-          .maybeSingle();
-
-        if (codeLookupError) {
-          logger.warn('Failed to lookup exercise code mapping, will attempt direct exercise lookup', {
-            exerciseCode: providedExerciseCode,
-            error: codeLookupError.message
-          });
-        }
-
-        if (codeRecord?.exercise_id) {
-          targetExerciseId = codeRecord.exercise_id;
-          logger.info('Resolved exercise join code to internal exercise id', {
-            exerciseCode: providedExerciseCode,
-            exerciseId: targetExerciseId
-          });
-        }
-
-        const { data: exercise, error } = await supabase
-          .from('exercises')
-          .select('*')
-          .eq('id', targetExerciseId)
-          .maybeSingle();
-
-        if (error || !exercise) {
-          logger.warn('Exercise not found or query error, falling back to demo configuration', {
-            exerciseCode: providedExerciseCode,
-            targetExerciseId,
-            error: error?.message
-          });
-        } else {
-          resolvedExerciseId = exercise.id;
-          exerciseConfig = {
-            id: exercise.id,
-            title: exercise.title,
-            caseId: exercise.case_id,
-            toggles: exercise.toggles as any,
-            focusHint: exercise.focus_hint || '',
-            protocols: exercise.protocols as string[]
-          };
-        }
-      } catch (err) {
-        logger.warn('Failed to fetch exercise, falling back to demo configuration', {
-          exerciseCode: providedExerciseCode,
-          error: err instanceof Error ? err.message : String(err)
+    let exerciseConfig: ExerciseConfig = DEMO_EXERCISE_CONFIG;
+    let lesson: LessonProgress | undefined;
+    let classId: string | null = null;
+
+    // Codes are checked first and only claimed once their target resolves, so demo
+    // fallbacks do not count against the code's session limit
+    if (config.mode === 'lesson' && config.lessonCode && !DEMO_ACCESS_CODES.includes(config.lessonCode.trim())) {
+      const lessonCode = config.lessonCode.trim();
+      const target = await accessCodes.check(lessonCode, 'lesson', config.student?.classId);
+      classId = target.classId;
+      lesson = await this.resolveLesson(target.targetId);
+      const firstExercise = lesson ? await this.loadExerciseConfig(lesson.exerciseOrder[0]) : null;
+
+      if (lesson && firstExercise) {
+        await accessCodes.claim(lessonCode, 'lesson', config.student?.classId);
+        resolvedExerciseId = firstExercise.id;
+        exerciseConfig = firstExercise;
+      } else {
+        logger.warn('Lesson could not be resolved or has no exercises, falling back to demo configuration', {
+          lessonCode: config.lessonCode
         });
+        lesson = undefined;
+      }
+    } else if (config.mode === 'exercise' && providedExerciseCode && !DEMO_ACCESS_CODES.includes(providedExerciseCode)) {
+      const target = await accessCodes.check(providedExerciseCode, 'exercise', config.student?.classId);
+      classId = target.classId;
+      const exercise = await this.loadExerciseConfig(target.targetId);
+      if (exercise) {
+        await accessCodes.claim(providedExerciseCode, 'exercise', config.student?.classId);
+        resolvedExerciseId = exercise.id;
+        exerciseConfig = exercise;
       }
     }
 
@@ -150,19 +217,39 @@ class SessionManager {
     const initialMessage: ConversationMessage = {
       id: nanoid(8),
       role: 'system',
-      content: `Welcome to your BASIS training session. You will be practicing conversation techniques with a concerned parent role. The scenario: A parent is worried about their child's academic progress and wants to discuss intervention strategies.`,
+      content: this.buildWelcomeMessage(exerciseConfig.persona ?? DEFAULT_CASE_PERSONA),
       timestamp: new Date(),
       metadata: { type: 'session_start' }
     };
 
+    if (lesson) {
+      lesson.segments = [{
+        exerciseId: exerciseConfig.id,
+        title: exerciseConfig.title,
+        focusHint: exerciseConfig.focusHint,
+        persona: caseLoader.publicPersona(exerciseConfig.persona ?? DEFAULT_CASE_PERSONA),
+        protocolWeights: exerciseConfig.protocolWeights,
+        startMessageIndex: 0,
+        startedAt: initialMessage.timestamp.toISOString()
+      }];
+    }
+
+    const emotional = emotionalStateMachine.initialTrack(emotionalStateMachine.profileFor(exerciseConfig.persona));
+    const resumeToken = randomBytes(24).toString('base64url');
+
     const sessionState = {
       conversationHistory: [initialMessage],
       currentExerciseIndex: 0,
       protocols: exerciseConfig.protocols,
       config: exerciseConfig,
+      lesson,
+      emotional,
       metadata: {
         exerciseCode: displayExerciseCode ?? resolvedExerciseId ?? null,
-        lessonCode: config.lessonCode ?? null
+        lessonCode: config.lessonCode ?? null,
+        classId,
+        studentId: config.student?.id ?? null,
+        resumeTokenHash: this.hashResumeToken(resumeToken)
       }
     };
 
@@ -171,7 +258,8 @@ class SessionManager {
       id: 'DB_GENERATED_UUID',
       mode: config.mode,
       exercise_id: resolvedExerciseId,
-      lesson_id: config.lessonCode,
+      lesson_id: lesson?.lessonId ?? config.lessonCode,
+      student_id: config.student?.id ?? null,
       state: sessionState,
       started_at: new Date().toISOString(),
       last_activity_at: new Date().toISOString()
@@ -181,7 +269,8 @@ class SessionManager {
     const insertPayload = {
       mode: config.mode,
       exercise_id: resolvedExerciseId,
-      lesson_id: config.lessonCode,
+      lesson_id: payloadForLog.lesson_id,
+      student_id: payloadForLog.student_id,
       state: sessionState,
       started_at: payloadForLog.started_at,
       last_activity_at: payloadForLog.last_activity_at
@@ -208,17 +297,24 @@ class SessionManager {
     const session: SessionState = {
       id: dbSession.id,
       exerciseId: resolvedExerciseId ?? undefined,
-      lessonId: config.lessonCode,
+      lessonId: payloadForLog.lesson_id,
       mode: config.mode,
+      status: 'active',
       currentExerciseIndex: sessionState.currentExerciseIndex,
       conversationHistory: sessionState.conversationHistory,
       protocols: sessionState.protocols,
       config: exerciseConfig,
+      lesson,
+      emotional,
       metadata: {
         startedAt: new Date(dbSession.started_at),
         lastActivityAt: new Date(dbSession.last_activity_at),
         exerciseCode: displayExerciseCode ?? resolvedExerciseId ?? undefined,
-        lessonCode: config.lessonCode
+        lessonCode: config.lessonCode,
+        classId: classId ?? undefined,
+        studentId: config.student?.id,
+        resumeTokenHash: sessionState.metadata.resumeTokenHash,
+        resumeToken
       }
     };
     
@@ -227,16 +323,157 @@ class SessionManager {
       mode: config.mode,
       exerciseCode: displayExerciseCode ?? null,
       exerciseId: resolvedExerciseId,
-      lessonCode: config.lessonCode
+      lessonCode: config.lessonCode,
+      lessonExercises: lesson?.exerciseOrder.length,
+      studentId: config.student?.id
     });
 
     return session;
   }
 
+  /**
+   * Load a single exercise configuration by internal id
+   */
+  private async loadExerciseConfig(exerciseId: string | undefined): Promise<ExerciseConfig | null> {
+    if (!exerciseId) {
+      return null;
+    }
+
+    const { data: exercise, error } = await supabase
+      .from('exercises')
+      .select('*')
+      .eq('id', exerciseId)
+      .maybeSingle();
+
+    if (error || !exercise) {
+      logger.warn('Exercise not found or query error, falling back to demo configuration', {
+        exerciseId,
+        error: error?.message
+      });
+      return null;
+    }
+
+    // A composed protocol stack takes precedence over linked protocol documents
+    const protocolStack = protocolStackValidator.normalize(exercise.protocol_stack);
+
+    return {
+      id: exercise.id,
+      title: exercise.title,
+      caseId: exercise.case_id,
+      toggles: (exercise.toggles as any) ?? DEMO_EXERCISE_CONFIG.toggles,
+      focusHint: exercise.focus_hint || '',
+      protocols: protocolStack.length > 0
+        ? protocolStack.map(entry => entry.protocolId)
+        : await this.resolveExerciseProtocols(exercise.id, exercise.protocols),
+      protocolWeights: protocolStack.length > 1 ? protocolStackValidator.weights(protocolStack) : undefined,
+      guardrailRules: await this.loadGuardrailRules(exercise.id),
+      persona: await caseLoader.loadPersona(exercise.id, exercise.case_id)
+    };
+  }
+
+  /**
+   * Opening system message describing who the student is about to talk to
+   */
+  private buildWelcomeMessage(persona: CasePersona): string {
+    // First sentence or two of the background is enough as a scenario teaser
+    const scenario = persona.background.split(/(?<=[.!?])\s+/).slice(0, 2).join(' ');
+    return `Welcome to your BASIS training session. You will be practicing conversation techniques with ${caseLoader.describe(persona)}. The scenario: ${scenario}`;
+  }
+
+  /**
+   * Load a lesson and its exercise sequence by internal id
+   */
+  private async resolveLesson(lessonId: string): Promise<LessonProgress | undefined> {
+    const { data: lesson, error } = await supabase
+      .from('lessons')
+      .select('id, title, exercise_order')
+      .eq('id', lessonId)
+      .maybeSingle();
+
+    if (error || !lesson) {
+      logger.warn('Lesson not found or query error', { lessonId, error: error?.message });
+      return undefined;
+    }
+
+    let exerciseOrder = Array.isArray(lesson.exercise_order) ? lesson.exercise_order as string[] : [];
+
+    // Lessons created before exercise_order was stored: use the exercises linked to the lesson
+    if (exerciseOrder.length === 0) {
+      const { data: linkedExercises } = await supabase
+        .from('exercises')
+        .select('id')
+        .eq('lesson_id', lesson.id)
+        .order('created_at', { ascending: true });
+
+      exerciseOrder = (linkedExercises ?? []).map(exercise => exercise.id as string);
+    }
+
+    logger.info('Resolved lesson', { lessonId: lesson.id, exerciseCount: exerciseOrder.length });
+
+    return {
+      lessonId: lesson.id,
+      title: lesson.title,
+      exerciseOrder,
+      segments: []
+    };
+  }
+
+  /**
+   * Resolve protocol IDs for an exercise, falling back to linked protocol documents
+   */
+  private async resolveExerciseProtocols(exerciseId: string, storedProtocols: unknown): Promise<string[]> {
+    if (Array.isArray(storedProtocols) && storedProtocols.length > 0) {
+      return storedProtocols as string[];
+    }
+
+    const { data: links, error } = await supabase
+      .from('exercise_documents')
+      .select('document_id, documents!inner(document_type)')
+      .eq('exercise_id', exerciseId)
+      .eq('documents.document_type', 'protocol');
+
+    if (error) {
+      logger.warn('Failed to load protocol documents for exercise', { exerciseId, error: error.message });
+    }
+
+    const documentIds = (links ?? []).map(link => link.document_id as string);
+    return documentIds.length > 0 ? documentIds : ['basis-v1'];
+  }
+
+  /**
+   * Load the teacher-defined guardrail rules attached to an exercise
+   */
+  private async loadGuardrailRules(exerciseId: string): Promise<GuardrailRuleDefinition[]> {
+    const { data, error } = await supabase
+      .from('guardrail_rules')
+      .select('id, agent_type, rule_type, pattern, phrases, target_rule_id, severity, description, enabled')
+      .eq('exercise_id', exerciseId)
+      .eq('enabled', true);
+
+    if (error) {
+      logger.warn('Failed to load guardrail rules for exercise, using defaults', { exerciseId, error: error.message });
+      return [];
+    }
+
+    return (data ?? []).map(row => ({
+      id: row.id,
+      agentType: row.agent_type,
+      ruleType: row.rule_type,
+      pattern: row.pattern,
+      phrases: row.phrases,
+      targetRuleId: row.target_rule_id,
+      severity: row.severity,
+      description: row.description,
+      enabled: row.enabled
+    }));
+  }
+
   /**
    * Get session by ID
+   * Only active sessions are returned unless includeClosed is set (for reviews of
+   * ended sessions); an active session past the inactivity timeout is marked expired.
    */
-  async getSession(sessionId: string): Promise<SessionState | null> {
+  async getSession(sessionId: string, options: { includeClosed?: boolean } = {}): Promise<SessionState | null> {
     const { data: dbSession, error } = await supabase
       .from('sessions')
       .select('*')
@@ -247,13 +484,21 @@ class SessionManager {
       return null;
     }
 
+    let status = (dbSession.status ?? 'active') as SessionStatus;
+    let endedAt = dbSession.ended_at ? new Date(dbSession.ended_at) : undefined;
+
     // Check if session has expired
     const now = new Date();
     const timeSinceLastActivity = now.getTime() - new Date(dbSession.last_activity_at).getTime();
     
-    if (timeSinceLastActivity > this.SESSION_TIMEOUT) {
-      await this.endSession(sessionId);
-      logger.info('Session expired and removed', { sessionId });
+    if (status === 'active' && timeSinceLastActivity > this.SESSION_TIMEOUT) {
+      await this.setStatus(sessionId, 'expired', { ended_at: now.toISOString() });
+      logger.info('Session expired', { sessionId });
+      status = 'expired';
+      endedAt = now;
+    }
+
+    if (status !== 'active' && !options.includeClosed) {
       return null;
     }
 
@@ -265,6 +510,7 @@ class SessionManager {
       exerciseId: dbSession.exercise_id,
       lessonId: dbSession.lesson_id,
       mode: dbSession.mode as 'exercise' | 'lesson' | 'transcript',
+      status,
       currentExerciseIndex: state.currentExerciseIndex || 0,
       conversationHistory: state.conversationHistory || [],
       protocols: state.protocols || ['basis-v1'],
@@ -274,13 +520,24 @@ class SessionManager {
         caseId: 'concerned-parent-case',
         toggles: { feedforward: true, iterative: true, mode: 'text' },
         focusHint: '',
-        protocols: ['basis-v1']
+        protocols: ['basis-v1'],
+        persona: DEFAULT_CASE_PERSONA
       },
+      lesson: state.lesson,
+      emotional: state.emotional,
+      bbicCoverage: state.bbicCoverage,
+      processIndicators: state.processIndicators,
+      latestFeedback: state.latestFeedback,
+      exerciseReviews: state.exerciseReviews,
       metadata: {
         startedAt: new Date(dbSession.started_at),
         lastActivityAt: new Date(dbSession.last_activity_at),
+        endedAt,
         exerciseCode: storedMetadata.exerciseCode ?? dbSession.exercise_id,
-        lessonCode: storedMetadata.lessonCode ?? dbSession.lesson_id
+        lessonCode: storedMetadata.lessonCode ?? dbSession.lesson_id,
+        classId: storedMetadata.classId ?? undefined,
+        studentId: dbSession.student_id ?? undefined,
+        resumeTokenHash: storedMetadata.resumeTokenHash ?? undefined
       }
     };
 
@@ -304,30 +561,8 @@ class SessionManager {
     };
 
     session.conversationHistory.push(newMessage);
-    session.metadata.lastActivityAt = new Date();
-
-    // Update session state in database
-    const updatedState = {
-      conversationHistory: session.conversationHistory,
-      currentExerciseIndex: session.currentExerciseIndex,
-      protocols: session.protocols,
-      config: session.config,
-      metadata: {
-        exerciseCode: session.metadata.exerciseCode,
-        lessonCode: session.metadata.lessonCode
-      }
-    };
-
-    const { error } = await supabase
-      .from('sessions')
-      .update({
-        state: updatedState,
-        last_activity_at: new Date().toISOString()
-      })
-      .eq('id', sessionId);
 
-    if (error) {
-      logger.error('Failed to update session state', { sessionId, error });
+    if (!await this.persistState(session)) {
       return null;
     }
 
@@ -344,7 +579,7 @@ class SessionManager {
   /**
    * Update session metadata
    */
-  async updateSession(sessionId: string, updates: Partial<Pick<SessionState, 'currentExerciseIndex' | 'protocols'>>): Promise<boolean> {
+  async updateSession(sessionId: string, updates: Partial<Pick<SessionState, 'currentExerciseIndex' | 'protocols' | 'emotional' | 'bbicCoverage' | 'processIndicators' | 'latestFeedback'>>): Promise<boolean> {
     const session = await this.getSession(sessionId);
     
     if (!session) {
@@ -352,30 +587,160 @@ class SessionManager {
     }
 
     Object.assign(session, updates);
+
+    return this.persistState(session);
+  }
+
+  /**
+   * Move a lesson session to the next exercise in its exerciseOrder
+   * Closes the current exercise segment and starts a new one with the next
+   * exercise's configuration; throws LESSON_COMPLETE after the last exercise.
+   */
+  async advanceExercise(sessionId: string): Promise<SessionState> {
+    const session = await this.getSession(sessionId);
+
+    if (!session) {
+      throw new SessionProgressionError('SESSION_NOT_FOUND', 'Training session not found or expired');
+    }
+
+    if (session.mode !== 'lesson' || !session.lesson) {
+      throw new SessionProgressionError('NOT_A_LESSON', 'Only lesson sessions can advance to another exercise');
+    }
+
+    const lesson = session.lesson;
+    const nextIndex = session.currentExerciseIndex + 1;
+
+    if (nextIndex >= lesson.exerciseOrder.length) {
+      throw new SessionProgressionError('LESSON_COMPLETE', 'All exercises in this lesson have been completed');
+    }
+
+    const nextConfig = await this.loadExerciseConfig(lesson.exerciseOrder[nextIndex]);
+    if (!nextConfig) {
+      throw new SessionProgressionError('EXERCISE_NOT_FOUND', 'The next exercise in this lesson could not be loaded');
+    }
+
+    const now = new Date();
+    const currentSegment = lesson.segments[session.currentExerciseIndex];
+    if (currentSegment) {
+      currentSegment.endMessageIndex = session.conversationHistory.length;
+      currentSegment.completedAt = now.toISOString();
+    }
+
+    lesson.segments[nextIndex] = {
+      exerciseId: nextConfig.id,
+      title: nextConfig.title,
+      focusHint: nextConfig.focusHint,
+      persona: caseLoader.publicPersona(nextConfig.persona ?? DEFAULT_CASE_PERSONA),
+      protocolWeights: nextConfig.protocolWeights,
+      startMessageIndex: session.conversationHistory.length,
+      startedAt: now.toISOString()
+    };
+
+    session.conversationHistory.push({
+      id: nanoid(8),
+      role: 'system',
+      content: `Övning ${nextIndex + 1} av ${lesson.exerciseOrder.length}: ${nextConfig.title}. Du samtalar nu med ${caseLoader.describe(nextConfig.persona ?? DEFAULT_CASE_PERSONA)}.`,
+      timestamp: now,
+      metadata: { type: 'exercise_start', exerciseIndex: nextIndex, exerciseId: nextConfig.id }
+    });
+
+    session.currentExerciseIndex = nextIndex;
+    session.exerciseId = nextConfig.id;
+    session.config = nextConfig;
+    session.protocols = nextConfig.protocols;
+    // The next case starts from its own initial state; the trajectory spans the whole lesson
+    session.emotional = emotionalStateMachine.initialTrack(
+      emotionalStateMachine.profileFor(nextConfig.persona),
+      session.emotional?.trajectory
+    );
+
+    if (!await this.persistState(session, { exercise_id: nextConfig.id })) {
+      throw new SessionProgressionError('SESSION_UPDATE_FAILED', 'Failed to store lesson progress');
+    }
+
+    logger.info('Lesson session advanced', {
+      sessionId,
+      lessonId: lesson.lessonId,
+      exerciseIndex: nextIndex,
+      exerciseId: nextConfig.id
+    });
+
+    return session;
+  }
+
+  /**
+   * Messages belonging to one exercise of a session (the current one by default)
+   * Exercise sessions have a single segment covering the whole conversation.
+   */
+  getExerciseHistory(session: SessionState, exerciseIndex = session.currentExerciseIndex): ConversationMessage[] {
+    const segment = session.lesson?.segments[exerciseIndex];
+    if (!segment) {
+      return session.conversationHistory;
+    }
+
+    return session.conversationHistory.slice(segment.startMessageIndex, segment.endMessageIndex);
+  }
+
+  /**
+   * Whether the caller may resume the session: the student who started it, by
+   * resume token or (for enrolled students) by student key. Sessions without a
+   * stored token can only be resumed by their enrolled student.
+   */
+  canResume(session: SessionState, credentials: { resumeToken?: string; studentId?: string }): boolean {
+    if (session.metadata.studentId && credentials.studentId === session.metadata.studentId) {
+      return true;
+    }
+
+    if (!session.metadata.resumeTokenHash || !credentials.resumeToken) {
+      return false;
+    }
+
+    const expected = Buffer.from(session.metadata.resumeTokenHash, 'hex');
+    const provided = Buffer.from(this.hashResumeToken(credentials.resumeToken.trim()), 'hex');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private hashResumeToken(resumeToken: string): string {
+    return createHash('sha256').update(resumeToken).digest('hex');
+  }
+
+  /**
+   * Serialize the session into the sessions.state column and bump last activity
+   */
+  private async persistState(session: SessionState, columns: Record<string, unknown> = {}): Promise<boolean> {
     session.metadata.lastActivityAt = new Date();
 
-    // Update session state in database
     const updatedState = {
       conversationHistory: session.conversationHistory,
       currentExerciseIndex: session.currentExerciseIndex,
       protocols: session.protocols,
       config: session.config,
+      lesson: session.lesson,
+      emotional: session.emotional,
+      bbicCoverage: session.bbicCoverage,
+      processIndicators: session.processIndicators,
+      latestFeedback: session.latestFeedback,
+      exerciseReviews: session.exerciseReviews,
       metadata: {
         exerciseCode: session.metadata.exerciseCode,
-        lessonCode: session.metadata.lessonCode
+        lessonCode: session.metadata.lessonCode,
+        classId: session.metadata.classId ?? null,
+        studentId: session.metadata.studentId ?? null,
+        resumeTokenHash: session.metadata.resumeTokenHash ?? null
       }
     };
 
     const { error } = await supabase
       .from('sessions')
       .update({
+        ...columns,
         state: updatedState,
-        last_activity_at: new Date().toISOString()
+        last_activity_at: session.metadata.lastActivityAt.toISOString()
       })
-      .eq('id', sessionId);
+      .eq('id', session.id);
 
     if (error) {
-      logger.error('Failed to update session metadata', { sessionId, error });
+      logger.error('Failed to update session state', { sessionId: session.id, error });
       return false;
     }
 
@@ -383,7 +748,7 @@ class SessionManager {
   }
 
   /**
-   * End session and clean up
+   * End an active session; it is kept, with its transcript, as ended
    */
   async endSession(sessionId: string): Promise<boolean> {
     const session = await this.getSession(sessionId);
@@ -392,14 +757,7 @@ class SessionManager {
       return false;
     }
 
-    // Mark session as ended in database (we could add an 'ended_at' field or delete it)
-    const { error } = await supabase
-      .from('sessions')
-      .delete()
-      .eq('id', sessionId);
-
-    if (error) {
-      logger.error('Failed to delete session', { sessionId, error });
+    if (!await this.setStatus(sessionId, 'ended', { ended_at: new Date().toISOString() })) {
       return false;
     }
     
@@ -412,13 +770,63 @@ class SessionManager {
     return true;
   }
 
+  /**
+   * Keep Reviewer output with the session. A whole-session (or whole-lesson) review
+   * closes the session as reviewed; exercise reviews are kept per lesson exercise.
+   */
+  async recordReview(sessionId: string, review: ReviewerResponse, exerciseIndex?: number): Promise<boolean> {
+    const session = await this.getSession(sessionId, { includeClosed: true });
+
+    if (!session) {
+      return false;
+    }
+
+    const now = new Date();
+
+    if (exerciseIndex !== undefined) {
+      session.exerciseReviews = [
+        ...(session.exerciseReviews ?? []).filter(entry => entry.exerciseIndex !== exerciseIndex),
+        {
+          exerciseIndex,
+          exerciseId: session.lesson?.segments[exerciseIndex]?.exerciseId ?? session.config.id,
+          review,
+          reviewedAt: now.toISOString()
+        }
+      ];
+      return this.persistState(session);
+    }
+
+    // Archived sessions stay archived when a teacher reviews them again. Only columns
+    // are written, so a concurrent exercise review's state update is not lost.
+    return this.setStatus(sessionId, session.status === 'archived' ? 'archived' : 'reviewed', {
+      review,
+      reviewed_at: now.toISOString(),
+      ended_at: (session.metadata.endedAt ?? now).toISOString()
+    });
+  }
+
+  private async setStatus(sessionId: string, status: SessionStatus, columns: Record<string, unknown> = {}): Promise<boolean> {
+    const { error } = await supabase
+      .from('sessions')
+      .update({ ...columns, status })
+      .eq('id', sessionId);
+
+    if (error) {
+      logger.error('Failed to update session status', { sessionId, status, error });
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Get all active sessions (for monitoring)
    */
   async getActiveSessions(): Promise<{ count: number; sessions: Array<{ id: string; mode: string; startedAt: Date; messageCount: number }> }> {
     const { data: dbSessions, error } = await supabase
       .from('sessions')
-      .select('id, mode, started_at, state');
+      .select('id, mode, started_at, state')
+      .eq('status', 'active');
 
     if (error) {
       logger.error('Failed to get active sessions', { error });
@@ -439,24 +847,10 @@ class SessionManager {
   }
 
   /**
-   * Clean up expired sessions
+   * Expire inactive sessions and apply the retention policy to closed ones
    */
-  private async cleanupExpiredSessions(): Promise<void> {
-    const cutoffTime = new Date(Date.now() - this.SESSION_TIMEOUT);
-    
-    const { error, count } = await supabase
-      .from('sessions')
-      .delete()
-      .lt('last_activity_at', cutoffTime.toISOString());
-
-    if (error) {
-      logger.error('Failed to cleanup expired sessions', { error });
-      return;
-    }
-
-    if (count && count > 0) {
-      logger.info(`Cleaned up ${count} expired sessions`);
-    }
+  async applyRetention(): Promise<RetentionRunResult> {
+    return sessionRetention.apply(this.SESSION_TIMEOUT);
   }
 }
 
@@ -0,0 +1,198 @@
+/**
+ * Session Retention - Lifecycle housekeeping for stored sessions
+ * Sessions are kept after they end. Inactive sessions are marked expired, closed
+ * sessions are archived after the policy's archive period, and archived sessions
+ * are purged or anonymized once the retention period has passed.
+ */
+
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionAction,
+  RetentionRunResult,
+  SessionRetentionPolicy,
+  SessionRetentionPolicyUpdate,
+  SessionStatus,
+  validateRetentionPolicy
+} from '../../src/types/sessionLifecycle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_COLUMNS = 'archive_after_days, retention_days, retention_action, updated_at';
+
+/** Statuses of sessions that are over but not yet archived */
+const CLOSED_STATUSES: SessionStatus[] = ['ended', 'reviewed', 'expired'];
+
+export class RetentionPolicyError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'RetentionPolicyError';
+  }
+}
+
+interface PolicyRow {
+  archive_after_days: number;
+  retention_days: number | null;
+  retention_action: string;
+  updated_at: string;
+}
+
+class SessionRetention {
+  /**
+   * The department's policy; the defaults apply until a teacher saves one
+   */
+  async getPolicy(): Promise<SessionRetentionPolicy> {
+    const { data, error } = await supabase
+      .from('session_retention_policy')
+      .select(POLICY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load retention policy: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : DEFAULT_RETENTION_POLICY;
+  }
+
+  async updatePolicy(update: SessionRetentionPolicyUpdate): Promise<SessionRetentionPolicy> {
+    const errors = validateRetentionPolicy(update);
+    if (errors.length > 0) {
+      throw new RetentionPolicyError('INVALID_POLICY', errors.join('; '));
+    }
+
+    const { data, error } = await supabase
+      .from('session_retention_policy')
+      .upsert({
+        id: true,
+        archive_after_days: update.archiveAfterDays,
+        retention_days: update.retentionDays,
+        retention_action: update.action
+      })
+      .select(POLICY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to store retention policy: ${error?.message}`);
+    }
+
+    logger.info('Session retention policy updated', { ...update });
+    return this.fromRow(data);
+  }
+
+  /**
+   * Expire sessions inactive for longer than inactiveAfterMs, then archive, purge
+   * or anonymize according to the policy
+   */
+  async apply(inactiveAfterMs: number): Promise<RetentionRunResult> {
+    const policy = await this.getPolicy();
+    const now = new Date();
+
+    const { data: expired, error: expireError } = await supabase
+      .from('sessions')
+      .update({ status: 'expired', ended_at: now.toISOString() })
+      .eq('status', 'active')
+      .lt('last_activity_at', new Date(now.getTime() - inactiveAfterMs).toISOString())
+      .select('id');
+
+    if (expireError) {
+      throw new Error(`Failed to expire sessions: ${expireError.message}`);
+    }
+
+    const { data: archived, error: archiveError } = await supabase
+      .from('sessions')
+      .update({ status: 'archived', archived_at: now.toISOString() })
+      .in('status', CLOSED_STATUSES)
+      .lt('ended_at', new Date(now.getTime() - policy.archiveAfterDays * DAY_MS).toISOString())
+      .select('id');
+
+    if (archiveError) {
+      throw new Error(`Failed to archive sessions: ${archiveError.message}`);
+    }
+
+    const result: RetentionRunResult = {
+      expired: expired?.length ?? 0,
+      archived: archived?.length ?? 0,
+      purged: 0,
+      anonymized: 0
+    };
+
+    if (policy.retentionDays !== null) {
+      const cutoff = new Date(now.getTime() - policy.retentionDays * DAY_MS);
+      if (policy.action === 'purge') {
+        result.purged = await this.purge(cutoff);
+      } else {
+        result.anonymized = await this.anonymize(cutoff, now);
+      }
+    }
+
+    if (Object.values(result).some(count => count > 0)) {
+      logger.info('Session retention applied', { ...result, action: policy.action });
+    }
+
+    return result;
+  }
+
+  private async purge(archivedBefore: Date): Promise<number> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('status', 'archived')
+      .lt('archived_at', archivedBefore.toISOString())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to purge archived sessions: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Detach archived sessions from their student; transcripts and reviews stay for research
+   */
+  private async anonymize(archivedBefore: Date, now: Date): Promise<number> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, state')
+      .eq('status', 'archived')
+      .is('anonymized_at', null)
+      .lt('archived_at', archivedBefore.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to load archived sessions: ${error.message}`);
+    }
+
+    let anonymized = 0;
+    for (const row of data ?? []) {
+      const state = (row.state ?? {}) as { metadata?: Record<string, unknown> };
+      const { error: updateError } = await supabase
+        .from('sessions')
+        .update({
+          student_id: null,
+          anonymized_at: now.toISOString(),
+          state: { ...state, metadata: { ...state.metadata, studentId: null, resumeTokenHash: null } }
+        })
+        .eq('id', row.id);
+
+      if (updateError) {
+        logger.warn('Failed to anonymize session', { sessionId: row.id, error: updateError.message });
+        continue;
+      }
+      anonymized++;
+    }
+
+    return anonymized;
+  }
+
+  private fromRow(row: PolicyRow): SessionRetentionPolicy {
+    return {
+      archiveAfterDays: row.archive_after_days,
+      retentionDays: row.retention_days,
+      action: row.retention_action as RetentionAction,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const sessionRetention = new SessionRetention();
@@ -0,0 +1,107 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { sessionManager, SessionState } from './sessionManager';
+import { sessionSocketServer } from './sessionSocket';
+import { turnProcessor, AgentFeedbackEntry } from './turnProcessor';
+
+const RESUME_TOKEN = 'resume-token-of-the-student';
+
+const session = {
+  id: 'session-1',
+  metadata: {
+    startedAt: new Date(),
+    lastActivityAt: new Date(),
+    resumeTokenHash: createHash('sha256').update(RESUME_TOKEN).digest('hex')
+  }
+} as SessionState;
+
+describe('session WebSocket upgrade', () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer();
+    sessionSocketServer.attach(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Resolves with the first message, or the HTTP status the upgrade was refused with
+  const connect = (query: string) => new Promise<{ type?: string; status?: number }>((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws/session/session-1${query}`);
+    ws.on('message', data => {
+      resolve(JSON.parse(data.toString()));
+      ws.close();
+    });
+    ws.on('unexpected-response', (_req, res) => resolve({ status: res.statusCode }));
+    ws.on('error', reject);
+  });
+
+  it('accepts the student with the resume token', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session);
+
+    await expect(connect(`?resumeToken=${RESUME_TOKEN}`)).resolves.toMatchObject({ type: 'connected' });
+  });
+
+  it('refuses connections without the resume token', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session);
+
+    await expect(connect('')).resolves.toEqual({ status: 403 });
+    await expect(connect('?resumeToken=guessed')).resolves.toEqual({ status: 403 });
+  });
+
+  it('refuses unknown sessions', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(null);
+
+    await expect(connect(`?resumeToken=${RESUME_TOKEN}`)).resolves.toEqual({ status: 404 });
+  });
+
+  it('sends feedback without scores, including the raw output of failed agents', async () => {
+    vi.spyOn(sessionManager, 'getSession').mockResolvedValue(session);
+    vi.spyOn(turnProcessor, 'processTurn').mockImplementation(async (_session, _content, options) => {
+      options?.events?.onAgentFeedback?.('analyst', {
+        rubric: [{ field: 'Empathy', hiddenScore: 3 }],
+        overallScore: 3,
+        past_only_feedback: 'Du ställde en öppen fråga.'
+      } as unknown as AgentFeedbackEntry);
+      options?.events?.onAgentFeedback?.('navigator', {
+        error: 'Navigator failed: response did not match the schema',
+        raw: JSON.stringify({ rubric: [{ field: 'Empathy', hiddenScore: 3 }] })
+      });
+      return { session: { id: session.id, messageCount: 2, lastActivity: new Date() }, aiResponse: '', agentFeedback: {} };
+    });
+
+    const messages = await new Promise<{ type: string; payload: unknown }[]>((resolve, reject) => {
+      const received: { type: string; payload: unknown }[] = [];
+      const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws/session/session-1?resumeToken=${RESUME_TOKEN}`);
+      ws.on('message', data => {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'connected') {
+          ws.send(JSON.stringify({ type: 'input', payload: { content: 'Hur har det varit?' } }));
+          return;
+        }
+        received.push(message);
+        if (message.type === 'turn_complete') {
+          ws.close();
+          resolve(received);
+        }
+      });
+      ws.on('error', reject);
+    });
+
+    const feedback = messages.filter(message => message.type.endsWith('_feedback'));
+    expect(feedback.map(message => message.type)).toEqual(['analyst_feedback', 'navigator_feedback']);
+    expect(JSON.stringify(feedback)).not.toMatch(/hiddenScore|overallScore|"score"/);
+  });
+});
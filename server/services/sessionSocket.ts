@@ -0,0 +1,204 @@
+/**
+ * Session Socket - Streams roleplay replies and agent feedback over WebSocket
+ *
+ * Clients connect to /api/ws/session/:id?resumeToken=… (or ?studentKey=… for the
+ * enrolled student who started the session; see BasisWebSocket in src/lib/api.ts)
+ * and exchange { type, payload } messages:
+ *   client → server: input { content, timestamp }, ping
+ *   server → client: connected, roleplay_token { delta }, roleplay_complete { content },
+ *                    analyst_feedback, navigator_feedback, turn_complete, error, pong
+ */
+
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { logger } from '../config/logger';
+import { sessionManager } from './sessionManager';
+import { studentIdentity } from './studentIdentity';
+import { apiKeyConfigurationError } from '../middleware/validateApiKey';
+import { SOCKET_RESUME_TOKEN_PARAM, SOCKET_STUDENT_KEY_PARAM } from '../../src/types/sessionResume';
+import { isAgentFailure, turnProcessor, TurnProcessingError } from './turnProcessor';
+import { responseProjection } from './responseProjection';
+
+const SESSION_SOCKET_PATH = /^\/api\/ws\/session\/([A-Za-z0-9_-]+)\/?$/;
+
+interface SocketMessage {
+  type: string;
+  payload?: unknown;
+}
+
+class SessionSocketServer {
+  private wss = new WebSocketServer({ noServer: true });
+
+  /**
+   * Handle WebSocket upgrades for session paths on the HTTP server
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+    server.on('close', () => this.wss.close());
+    logger.info('Session WebSocket endpoint ready', { path: '/api/ws/session/:id' });
+  }
+
+  /**
+   * Upgrades bypass the Express middleware, so the same checks run here: the provider
+   * must be configured and the caller must be the student who started the session
+   */
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = url.pathname.match(SESSION_SOCKET_PATH);
+
+    if (!match) {
+      socket.destroy();
+      return;
+    }
+
+    const sessionId = match[1];
+
+    if (apiKeyConfigurationError()) {
+      this.reject(socket, 500, 'Internal Server Error');
+      return;
+    }
+
+    const session = await sessionManager.getSession(sessionId).catch(() => null);
+
+    if (!session) {
+      logger.warn('WebSocket rejected: session not found', { sessionId });
+      this.reject(socket, 404, 'Not Found');
+      return;
+    }
+
+    const studentKey = url.searchParams.get(SOCKET_STUDENT_KEY_PARAM)?.trim();
+    const student = studentKey ? await studentIdentity.authenticate(studentKey).catch(() => null) : null;
+    const allowed = sessionManager.canResume(session, {
+      resumeToken: url.searchParams.get(SOCKET_RESUME_TOKEN_PARAM) ?? undefined,
+      studentId: student?.id
+    });
+
+    if (!allowed) {
+      logger.warn('WebSocket rejected: not the session\'s student', { sessionId });
+      this.reject(socket, 403, 'Forbidden');
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws, sessionId));
+  }
+
+  private reject(socket: Duplex, status: number, reason: string): void {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  }
+
+  private handleConnection(ws: WebSocket, sessionId: string): void {
+    let turnInProgress = false;
+
+    logger.info('Session WebSocket connected', { sessionId });
+    this.send(ws, 'connected', { sessionId });
+
+    ws.on('message', async data => {
+      const message = this.parse(data.toString());
+
+      if (!message) {
+        this.send(ws, 'error', { error: 'INVALID_MESSAGE', message: 'Messages must be JSON { type, payload }' });
+        return;
+      }
+
+      if (message.type === 'ping') {
+        this.send(ws, 'pong', { timestamp: new Date().toISOString() });
+        return;
+      }
+
+      if (message.type !== 'input') {
+        this.send(ws, 'error', { error: 'UNKNOWN_MESSAGE_TYPE', message: `Unsupported message type: ${message.type}` });
+        return;
+      }
+
+      if (turnInProgress) {
+        this.send(ws, 'error', { error: 'TURN_IN_PROGRESS', message: 'Wait for the current turn to complete' });
+        return;
+      }
+
+      turnInProgress = true;
+      try {
+        await this.handleInput(ws, sessionId, message.payload);
+      } finally {
+        turnInProgress = false;
+      }
+    });
+
+    ws.on('close', () => {
+      logger.info('Session WebSocket disconnected', { sessionId });
+    });
+
+    ws.on('error', error => {
+      logger.error('Session WebSocket error', {
+        sessionId,
+        error: error.message
+      });
+    });
+  }
+
+  /**
+   * Run a student turn, pushing each result to the client as soon as it is ready
+   */
+  private async handleInput(ws: WebSocket, sessionId: string, payload: unknown): Promise<void> {
+    const { content, timestamp } = (payload ?? {}) as { content?: unknown; timestamp?: string };
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      this.send(ws, 'error', { error: 'INVALID_INPUT', message: 'Content is required and must be a non-empty string' });
+      return;
+    }
+
+    try {
+      const session = await sessionManager.getSession(sessionId);
+      if (!session) {
+        this.send(ws, 'error', { error: 'SESSION_NOT_FOUND', message: 'Training session not found or expired' });
+        return;
+      }
+
+      const result = await turnProcessor.processTurn(session, content, {
+        timestamp,
+        events: {
+          onRoleplayToken: delta => this.send(ws, 'roleplay_token', { delta }),
+          onRoleplayComplete: aiResponse => this.send(ws, 'roleplay_complete', { content: aiResponse }),
+          onAgentFeedback: (agentType, feedback) => {
+            // Failed agents are only surfaced outside production, as on the HTTP endpoint
+            if (isAgentFailure(feedback) && process.env.NODE_ENV === 'production') {
+              return;
+            }
+            // Only the session's student can connect, so the socket always gets the student view
+            this.send(ws, `${agentType}_feedback`, responseProjection.project(feedback));
+          },
+          onCoverage: coverage => this.send(ws, 'coverage_update', { coverage })
+        }
+      });
+
+      this.send(ws, 'turn_complete', { session: result.session });
+    } catch (error) {
+      logger.error('Session WebSocket input processing failed', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      this.send(ws, 'error', error instanceof TurnProcessingError
+        ? { error: error.code, message: error.message }
+        : { error: 'INPUT_PROCESSING_FAILED', message: 'Failed to process session input' });
+    }
+  }
+
+  private parse(raw: string): SocketMessage | null {
+    try {
+      const message = JSON.parse(raw);
+      return message && typeof message.type === 'string' ? message : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private send(ws: WebSocket, type: string, payload: unknown): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type, payload }));
+    }
+  }
+}
+
+export const sessionSocketServer = new SessionSocketServer();
@@ -0,0 +1,250 @@
+/**
+ * Student Identity - Pseudonymous enrollment and student keys
+ * Students join a class with its join token and a pseudonym and get a secret
+ * student key. Only the key's SHA-256 hash is stored; a request carrying the
+ * key is attributed to the student, which ties sessions to them across devices.
+ */
+
+import { createHash, randomInt } from 'crypto';
+import { logger } from '../config/logger';
+import { supabase } from './supabaseClient';
+import {
+  StudentProfile,
+  StudentEnrollment,
+  StudentResults,
+  StudentSessionResult,
+  StudentSessionReview,
+  StudentSessionSummary
+} from '../../src/types/students';
+import { ReviewerResponse } from '../../src/types/basis';
+
+export class StudentIdentityError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'StudentIdentityError';
+  }
+}
+
+interface SessionRow {
+  id: string;
+  mode: StudentSessionSummary['mode'];
+  status: StudentSessionSummary['status'] | null;
+  student_id: string | null;
+  started_at: string;
+  last_activity_at: string;
+  review?: ReviewerResponse | null;
+  reviewed_at?: string | null;
+  state: {
+    config?: { title?: string };
+    lesson?: { title?: string; segments?: Array<{ title?: string }> };
+    conversationHistory?: Array<{ role: string }>;
+    metadata?: { exerciseCode?: string | null; lessonCode?: string | null };
+    exerciseReviews?: Array<{ exerciseIndex: number; review: ReviewerResponse; reviewedAt: string }>;
+  } | null;
+}
+
+// Unambiguous characters, so keys can be copied by hand between devices
+const KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const KEY_GROUPS = 3;
+const KEY_GROUP_LENGTH = 4;
+
+const KEY_CACHE_TTL = 5 * 60 * 1000;
+
+const SESSION_COLUMNS = 'id, mode, status, student_id, started_at, last_activity_at, state';
+
+// Teachers also get the stored whole-session review
+const RESULT_COLUMNS = `${SESSION_COLUMNS}, review, reviewed_at`;
+
+class StudentIdentity {
+  private keyCache = new Map<string, { student: StudentProfile; expiresAt: number }>();
+
+  /**
+   * Join a class with its join token; pseudonyms are unique per class
+   */
+  async enroll(joinToken: string, pseudonym: string): Promise<StudentEnrollment> {
+    const name = pseudonym.trim();
+    if (name.length < 2 || name.length > 40) {
+      throw new StudentIdentityError('INVALID_PSEUDONYM', 'The pseudonym must be 2-40 characters');
+    }
+
+    const { data: classGroup, error: classError } = await supabase
+      .from('classes')
+      .select('id, name')
+      .eq('join_token', joinToken.trim().toUpperCase())
+      .maybeSingle();
+
+    if (classError) {
+      throw new Error(`Failed to look up class: ${classError.message}`);
+    }
+    if (!classGroup) {
+      throw new StudentIdentityError('CLASS_NOT_FOUND', 'No class has this join token');
+    }
+
+    const studentKey = this.generateKey();
+    const { data: student, error } = await supabase
+      .from('students')
+      .insert({ class_id: classGroup.id, pseudonym: name, key_hash: this.hash(studentKey) })
+      .select('id')
+      .single();
+
+    if (error || !student) {
+      // Unique (class_id, lower(pseudonym)) index
+      if (error?.code === '23505') {
+        throw new StudentIdentityError('PSEUDONYM_TAKEN', 'Someone in the class already uses this pseudonym');
+      }
+      throw new Error(`Failed to enroll student: ${error?.message}`);
+    }
+
+    logger.info('Student enrolled', { studentId: student.id, classId: classGroup.id });
+
+    return {
+      student: { id: student.id, pseudonym: name, classId: classGroup.id, className: classGroup.name },
+      studentKey
+    };
+  }
+
+  /**
+   * Student for a student key, or null when no student has it
+   */
+  async authenticate(studentKey: string): Promise<StudentProfile | null> {
+    const keyHash = this.hash(studentKey.trim().toUpperCase());
+    const cached = this.keyCache.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.student;
+    }
+
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, pseudonym, class_id, classes(name)')
+      .eq('key_hash', keyHash)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up student: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const student: StudentProfile = {
+      id: data.id,
+      pseudonym: data.pseudonym,
+      classId: data.class_id,
+      className: (data.classes as { name?: string } | null)?.name ?? ''
+    };
+    this.keyCache.set(keyHash, { student, expiresAt: Date.now() + KEY_CACHE_TTL });
+
+    await supabase
+      .from('students')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', student.id);
+
+    return student;
+  }
+
+  /**
+   * The student's own sessions, newest first
+   */
+  async history(studentId: string): Promise<StudentSessionSummary[]> {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select(SESSION_COLUMNS)
+      .eq('student_id', studentId)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load session history: ${error.message}`);
+    }
+
+    return ((data ?? []) as SessionRow[]).map(row => this.summarize(row));
+  }
+
+  /**
+   * Sessions per student of a class with their stored reviews, for teachers
+   */
+  async classResults(classId: string): Promise<StudentResults[]> {
+    const { data: students, error } = await supabase
+      .from('students')
+      .select('id, pseudonym, created_at, last_seen_at')
+      .eq('class_id', classId)
+      .order('pseudonym', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load students: ${error.message}`);
+    }
+    if (!students || students.length === 0) {
+      return [];
+    }
+
+    const { data: sessions, error: sessionError } = await supabase
+      .from('sessions')
+      .select(RESULT_COLUMNS)
+      .in('student_id', students.map(student => student.id))
+      .order('started_at', { ascending: false });
+
+    if (sessionError) {
+      throw new Error(`Failed to load student sessions: ${sessionError.message}`);
+    }
+
+    const rows = (sessions ?? []) as SessionRow[];
+    return students.map(student => ({
+      studentId: student.id,
+      pseudonym: student.pseudonym,
+      joinedAt: student.created_at,
+      lastSeenAt: student.last_seen_at,
+      sessions: rows.filter(row => row.student_id === student.id).map(row => this.withReviews(row))
+    }));
+  }
+
+  private summarize(row: SessionRow): StudentSessionSummary {
+    const state = row.state ?? {};
+    return {
+      sessionId: row.id,
+      mode: row.mode,
+      status: row.status ?? 'active',
+      title: state.lesson?.title ?? state.config?.title ?? 'Untitled session',
+      exerciseCode: state.metadata?.exerciseCode ?? null,
+      lessonCode: state.metadata?.lessonCode ?? null,
+      startedAt: row.started_at,
+      lastActivityAt: row.last_activity_at,
+      studentTurns: (state.conversationHistory ?? []).filter(message => message.role === 'user').length
+    };
+  }
+
+  private withReviews(row: SessionRow): StudentSessionResult {
+    const summary = this.summarize(row);
+    const state = row.state ?? {};
+    const reviews: StudentSessionReview[] = [...(state.exerciseReviews ?? [])]
+      .sort((a, b) => a.exerciseIndex - b.exerciseIndex)
+      .map(entry => ({
+        exerciseIndex: entry.exerciseIndex,
+        title: state.lesson?.segments?.[entry.exerciseIndex]?.title ?? `Exercise ${entry.exerciseIndex + 1}`,
+        review: entry.review,
+        reviewedAt: entry.reviewedAt
+      }));
+
+    if (row.review) {
+      reviews.push({
+        exerciseIndex: null,
+        title: summary.title,
+        review: row.review,
+        reviewedAt: row.reviewed_at ?? row.last_activity_at
+      });
+    }
+
+    return { ...summary, reviews };
+  }
+
+  private generateKey(): string {
+    const groups = Array.from({ length: KEY_GROUPS }, () =>
+      Array.from({ length: KEY_GROUP_LENGTH }, () => KEY_ALPHABET[randomInt(KEY_ALPHABET.length)]).join('')
+    );
+    return `STU-${groups.join('-')}`;
+  }
+
+  private hash(studentKey: string): string {
+    return createHash('sha256').update(studentKey).digest('hex');
+  }
+}
+
+export const studentIdentity = new StudentIdentity();
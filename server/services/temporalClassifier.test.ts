@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { HeuristicTemporalClassifier } from './temporalClassifier';
+import { getSemanticGuardrailConfig } from '../config/guardrails';
+
+const classify = async (sentence: string) => (await new HeuristicTemporalClassifier().classify([sentence]))[0];
+
+describe('HeuristicTemporalClassifier', () => {
+  it('does not read forward-looking "när du" guidance as retrospective', async () => {
+    const result = await classify('När du möter föräldern, håll ett lugnt tempo.');
+
+    expect(result.direction).not.toBe('retrospective');
+  });
+
+  it('reads "när du" followed by a past-tense verb as retrospective', async () => {
+    const result = await classify('När du frågade om oron fick föräldern utrymme att berätta.');
+
+    expect(result.direction).toBe('retrospective');
+    expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('reads next-time advice as prospective', async () => {
+    const result = await classify('Nästa gång kan du försöka att sammanfatta oftare.');
+
+    expect(result.direction).toBe('prospective');
+  });
+});
+
+describe('semantic guardrail config', () => {
+  it('reports classifier-only hits as warnings by default', () => {
+    expect(getSemanticGuardrailConfig().semanticOnlySeverity).toBe('warning');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Temporal Classifier - Semantic tier for temporal direction guardrails
+ * Labels each sentence of an agent response as retrospective, prospective or neutral,
+ * catching paraphrases the regex patterns miss.
+ */
+
+import { logger } from '../config/logger';
+import { AgentType } from '../config/agents';
+import { ClassifierName, getSemanticGuardrailConfig, TemporalDirection } from '../config/guardrails';
+import { getLLMProvider } from '../providers';
+
+export interface SentenceClassification {
+  sentence: string;
+  direction: TemporalDirection;
+  /** 0-1 confidence in the direction label */
+  confidence: number;
+}
+
+export interface TemporalClassifier {
+  readonly name: string;
+  classify(sentences: string[], agentType: AgentType): Promise<SentenceClassification[]>;
+}
+
+interface LexiconCue {
+  pattern: RegExp;
+  weight: number;
+}
+
+// "När du …" and "when you …" only look back when a past-tense verb follows;
+// "När du möter föräldern, …" is forward-looking guidance
+const RETROSPECTIVE_CUES: LexiconCue[] = [
+  { pattern: /\b(du|ni) (gjorde|sa|sade|frågade|visade|bekräftade|lyssnade|använde|ställde|valde|beskrev|sammanfattade|nämnde|lät|gav|tog)\b/gi, weight: 2 },
+  { pattern: /\b(i (din|ditt|dina) (förra|senaste|tidigare)|det du sa)\b/gi, weight: 2 },
+  { pattern: /\bnär (du|ni) (gjorde|sa|sade|lät|gav|tog|fick|var|hade|kunde|ville|skulle|[a-zåäö]{2,}(ade|de|te))(?![a-zåäö])/gi, weight: 2 },
+  { pattern: /\b(tidigare|nyss|nyligen|precis|förut|redan)\b/gi, weight: 1 },
+  { pattern: /\b[a-zåäö]{3,}(ade|de|te)\b/gi, weight: 0.5 },
+  { pattern: /\byou (said|did|asked|showed|used|mentioned|acknowledged|chose)\b/gi, weight: 2 },
+  { pattern: /\b(earlier|previously|just now|in your last)\b/gi, weight: 1 },
+  { pattern: /\bwhen you (said|did|asked|showed|used|mentioned|chose|were|had|[a-z]{2,}ed)\b/gi, weight: 1 },
+  { pattern: /\b[a-z]{3,}ed\b/gi, weight: 0.5 }
+];
+
+const PROSPECTIVE_CUES: LexiconCue[] = [
+  { pattern: /\b(nästa gång|framöver|i framtiden|fortsättningsvis|från och med nu|kommande)\b/gi, weight: 2 },
+  { pattern: /\b(försök att|prova att|bör du|du bör|du kan nu|kom ihåg att|tänk på att|fokusera på)\b/gi, weight: 1.5 },
+  { pattern: /\b(kommer att|ska du|planera|förbered)\b/gi, weight: 1.5 },
+  { pattern: /\bnästa\b/gi, weight: 1 },
+  { pattern: /\b(next time|going forward|from now on|in the future|you should|try to)\b/gi, weight: 2 },
+  { pattern: /\b(will|plan to|prepare)\b/gi, weight: 1 }
+];
+
+/**
+ * Weighted lexicon classifier - fast, offline and deterministic
+ */
+export class HeuristicTemporalClassifier implements TemporalClassifier {
+  readonly name = 'heuristic';
+
+  async classify(sentences: string[]): Promise<SentenceClassification[]> {
+    return sentences.map(sentence => this.classifySentence(sentence));
+  }
+
+  private classifySentence(sentence: string): SentenceClassification {
+    const retrospective = score(sentence, RETROSPECTIVE_CUES);
+    const prospective = score(sentence, PROSPECTIVE_CUES);
+    const total = retrospective + prospective;
+
+    if (total === 0 || retrospective === prospective) {
+      return { sentence, direction: 'neutral', confidence: 0 };
+    }
+
+    const dominant = Math.max(retrospective, prospective);
+    // Agreement between cues times evidence strength (two strong cues saturate)
+    const confidence = (dominant / total) * Math.min(1, dominant / 2);
+
+    return {
+      sentence,
+      direction: retrospective > prospective ? 'retrospective' : 'prospective',
+      confidence: Math.round(confidence * 100) / 100
+    };
+  }
+}
+
+const CLASSIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    sentences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          direction: { type: 'string', enum: ['retrospective', 'prospective', 'neutral'] },
+          confidence: { type: 'number' }
+        },
+        required: ['index', 'direction', 'confidence'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['sentences'],
+  additionalProperties: false
+};
+
+/**
+ * Classifier backed by the configured LLM provider; falls back to the heuristic on failure
+ */
+export class LLMTemporalClassifier implements TemporalClassifier {
+  readonly name = 'llm';
+  private fallback = new HeuristicTemporalClassifier();
+
+  async classify(sentences: string[], agentType: AgentType): Promise<SentenceClassification[]> {
+    const provider = getLLMProvider();
+
+    // The stub provider only knows agent fixtures
+    if (provider.name === 'stub' || sentences.length === 0) {
+      return this.fallback.classify(sentences);
+    }
+
+    try {
+      const completion = await provider.completeJSON({
+        agentType,
+        messages: [
+          {
+            role: 'system',
+            content: `Klassificera den tidsmässiga riktningen i varje mening.
+- retrospective: beskriver eller bedömer något som redan har hänt i samtalet
+- prospective: uppmanar till, planerar eller förutser något som ska hända
+- neutral: ingen tydlig tidsriktning
+Ange confidence mellan 0 och 1. Svara med JSON enligt schema.`
+          },
+          {
+            role: 'user',
+            content: sentences.map((sentence, index) => `${index}: ${sentence}`).join('\n')
+          }
+        ],
+        temperature: 0,
+        maxTokens: 50 + sentences.length * 30,
+        schemaName: 'temporal_classification',
+        schema: CLASSIFICATION_SCHEMA
+      });
+
+      const parsed = JSON.parse(completion.content) as {
+        sentences: Array<{ index: number; direction: TemporalDirection; confidence: number }>;
+      };
+      const byIndex = new Map(parsed.sentences.map(s => [s.index, s]));
+
+      return sentences.map((sentence, index) => {
+        const result = byIndex.get(index);
+        return result
+          ? { sentence, direction: result.direction, confidence: Math.max(0, Math.min(1, result.confidence)) }
+          : { sentence, direction: 'neutral' as const, confidence: 0 };
+      });
+    } catch (error) {
+      logger.warn('LLM temporal classification failed, using heuristic classifier', {
+        agentType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return this.fallback.classify(sentences);
+    }
+  }
+}
+
+let activeClassifier: { name: ClassifierName; classifier: TemporalClassifier | null } | null = null;
+
+/**
+ * Get the configured classifier, or null when the semantic tier is disabled
+ */
+export function getTemporalClassifier(): TemporalClassifier | null {
+  const name = getSemanticGuardrailConfig().classifier;
+
+  if (!activeClassifier || activeClassifier.name !== name) {
+    activeClassifier = {
+      name,
+      classifier: name === 'none'
+        ? null
+        : name === 'llm' ? new LLMTemporalClassifier() : new HeuristicTemporalClassifier()
+    };
+  }
+
+  return activeClassifier.classifier;
+}
+
+/**
+ * Replace the active classifier (e.g. a fixed classifier in tests)
+ */
+export function setTemporalClassifier(classifier: TemporalClassifier | null): void {
+  activeClassifier = { name: getSemanticGuardrailConfig().classifier, classifier };
+}
+
+/**
+ * Split free text into sentences for classification
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function score(sentence: string, cues: LexiconCue[]): number {
+  return cues.reduce((total, cue) => total + (sentence.match(cue.pattern)?.length ?? 0) * cue.weight, 0);
+}
@@ -0,0 +1,430 @@
+/**
+ * Transcript Importer - Normalizes recorded conversations into speaker turns
+ * Parses SRT/WebVTT captions, .docx transcripts (text extracted with mammoth,
+ * as in the document-uploader function) and "Name: utterance" text.
+ */
+
+import mammoth from 'mammoth';
+import { logger } from '../config/logger';
+import {
+  ParsedTranscript,
+  TranscriptFormat,
+  TranscriptImportRequest,
+  TranscriptSpeaker,
+  TranscriptSpeakerRole,
+  TranscriptTurn
+} from '../../src/types/transcript';
+
+export const MAX_TRANSCRIPT_LENGTH = 50000;
+const MAX_DOCX_BYTES = 5 * 1024 * 1024;
+
+export const UNKNOWN_SPEAKER = 'Okänd';
+
+// Speaker labels that tell which side of the conversation someone is on
+const STUDENT_LABELS = /^(student(en)?|trainee|you|du|jag|elev(en)?|praktikant(en)?|handläggare(n)?|socionom(en)?|practitioner|interviewer|intervjuare(n)?)$/i;
+const COUNTERPART_LABELS = /^(parent|client|role|förälder(n)?|klient(en)?|vårdnadshavare(n)?|mamma(n)?|pappa(n)?|patient(en)?|brukare(n)?|rollperson(en)?)$/i;
+
+const CUE_TIMING = /^((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VOICE_TAG = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/i;
+const MARKUP_TAG = /<\/?[^>]+>/g;
+
+// "Anna: ..." or "[00:01:02] Anna: ..." - at most four words before the colon
+const SPEAKER_LINE = /^(?:[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:[.,]\d{1,3})?[\])]?\s*[-–]?\s*)?([\p{L}][\p{L}\p{M}.'-]*(?:\s[\p{L}\p{M}.'-]+){0,3})\s*:(?!\/\/)\s*(.*)$/u;
+const SEGMENT_ID_PATTERN = /^seg_[a-zA-Z0-9_-]+$/;
+
+const LEADING_TIMESTAMP = /^[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:[.,]\d{1,3})?[\])]?\s*[-–]?\s*/;
+
+export class TranscriptImportError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+interface Cue {
+  speaker?: string;
+  text: string;
+  startMs?: number;
+  endMs?: number;
+}
+
+class TranscriptImporter {
+  /**
+   * Parse an uploaded file or pasted content into normalized speaker turns
+   */
+  async import(request: TranscriptImportRequest): Promise<ParsedTranscript> {
+    const format = request.format ?? this.detectFormat(request.fileName, request.content);
+
+    let text: string;
+    if (format === 'docx') {
+      text = await this.extractDocx(request.fileBase64);
+    } else if (request.content !== undefined) {
+      text = request.content;
+    } else if (request.fileBase64) {
+      text = Buffer.from(request.fileBase64, 'base64').toString('utf8');
+    } else {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'Either content or fileBase64 is required');
+    }
+
+    return this.parse(text, format);
+  }
+
+  /**
+   * Parse transcript text in a known format
+   */
+  parse(text: string, format: TranscriptFormat = 'text'): ParsedTranscript {
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+    if (normalized.trim().length === 0) {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'The transcript is empty');
+    }
+
+    if (normalized.length > MAX_TRANSCRIPT_LENGTH * 4) {
+      throw new TranscriptImportError('TRANSCRIPT_TOO_LARGE', 'The transcript file is too large to import');
+    }
+
+    const warnings: string[] = [];
+    const cues = format === 'srt' || format === 'vtt'
+      ? this.parseCaptions(normalized, format, warnings)
+      : this.parseSpeakerText(normalized);
+
+    const turns = this.mergeCues(cues);
+
+    if (turns.length === 0) {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'No conversation turns were found in the transcript');
+    }
+
+    const contentLength = turns.reduce((sum, turn) => sum + turn.content.length, 0);
+    if (contentLength > MAX_TRANSCRIPT_LENGTH) {
+      throw new TranscriptImportError(
+        'TRANSCRIPT_TOO_LARGE',
+        `Transcript exceeds maximum length of ${MAX_TRANSCRIPT_LENGTH.toLocaleString('en-US')} characters`
+      );
+    }
+
+    // Only captions are timed throughout; a stray timestamp in text says little about the length
+    const isCaptions = format === 'srt' || format === 'vtt';
+    const lastTimed = isCaptions ? [...turns].reverse().find(turn => turn.endMs !== undefined) : undefined;
+
+    const speakers = this.summarizeSpeakers(turns);
+    const detection = this.detectStudentSpeaker(turns, speakers);
+
+    const parsed: ParsedTranscript = {
+      format,
+      turns,
+      speakers,
+      speakerDetection: detection.method,
+      suggestedStudentSpeaker: detection.speaker,
+      durationMs: lastTimed?.endMs,
+      warnings
+    };
+
+    logger.info('Transcript imported', {
+      format,
+      turnCount: turns.length,
+      speakerCount: parsed.speakers.length,
+      speakerDetection: detection.method,
+      warningCount: warnings.length
+    });
+
+    return parsed;
+  }
+
+  /**
+   * Validate client-supplied turns (e.g. from an earlier import) before review
+   */
+  normalizeTurns(input: unknown): TranscriptTurn[] {
+    if (!Array.isArray(input)) {
+      throw new TranscriptImportError('INVALID_TURNS', 'turns must be an array');
+    }
+
+    const turns = input
+      .filter((turn): turn is Record<string, unknown> => !!turn && typeof turn === 'object')
+      .filter(turn => typeof turn.content === 'string' && turn.content.trim().length > 0)
+      .map((turn, index): TranscriptTurn => {
+        const speaker = typeof turn.speaker === 'string' && turn.speaker.trim() ? turn.speaker.trim() : UNKNOWN_SPEAKER;
+        return {
+          index,
+          segmentId: typeof turn.segmentId === 'string' && SEGMENT_ID_PATTERN.test(turn.segmentId)
+            ? turn.segmentId
+            : this.segmentIdFor(index),
+          speaker,
+          role: turn.role === 'student' || turn.role === 'counterpart' || turn.role === 'unknown'
+            ? turn.role
+            : this.roleForSpeaker(speaker),
+          content: (turn.content as string).trim(),
+          startMs: typeof turn.startMs === 'number' ? turn.startMs : undefined,
+          endMs: typeof turn.endMs === 'number' ? turn.endMs : undefined
+        };
+      });
+
+    if (turns.length === 0) {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'turns must contain at least one non-empty turn');
+    }
+
+    if (turns.reduce((sum, turn) => sum + turn.content.length, 0) > MAX_TRANSCRIPT_LENGTH) {
+      throw new TranscriptImportError(
+        'TRANSCRIPT_TOO_LARGE',
+        `Transcript exceeds maximum length of ${MAX_TRANSCRIPT_LENGTH.toLocaleString('en-US')} characters`
+      );
+    }
+
+    return turns;
+  }
+
+  /**
+   * Apply the student's confirmation of which speaker is the practitioner:
+   * that speaker becomes the student, every other named speaker the counterpart
+   */
+  assignStudentSpeaker(turns: TranscriptTurn[], studentSpeaker: string): TranscriptTurn[] {
+    if (!turns.some(turn => turn.speaker === studentSpeaker)) {
+      throw new TranscriptImportError('UNKNOWN_SPEAKER', `Speaker "${studentSpeaker}" does not occur in the transcript`);
+    }
+
+    return turns.map(turn => ({
+      ...turn,
+      role: turn.speaker === studentSpeaker
+        ? 'student'
+        : turn.speaker === UNKNOWN_SPEAKER ? 'unknown' : 'counterpart'
+    }));
+  }
+
+  /**
+   * Turns as conversation history for an agent; each turn keeps its speaker label
+   * and timestamp so quotes can be attributed even when a speaker's role is unknown
+   */
+  toConversationHistory(turns: TranscriptTurn[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+    return turns.map(turn => ({
+      role: turn.role === 'counterpart' ? 'assistant' : 'user',
+      content: this.formatTurn(turn)
+    }));
+  }
+
+  /**
+   * "[mm:ss] Speaker: text" lines, as shown to the Reviewer
+   */
+  formatTurn(turn: TranscriptTurn): string {
+    const time = turn.startMs !== undefined ? `[${this.formatTimestamp(turn.startMs)}] ` : '';
+    return `${time}${turn.speaker}: ${turn.content}`;
+  }
+
+  formatTimestamp(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  }
+
+  roleForSpeaker(speaker: string): TranscriptSpeakerRole {
+    if (STUDENT_LABELS.test(speaker)) return 'student';
+    if (COUNTERPART_LABELS.test(speaker)) return 'counterpart';
+    return 'unknown';
+  }
+
+  private detectFormat(fileName?: string, content?: string): TranscriptFormat {
+    const extension = fileName?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+    switch (extension) {
+      case 'srt':
+        return 'srt';
+      case 'vtt':
+        return 'vtt';
+      case 'docx':
+        return 'docx';
+      case 'txt':
+      case 'md':
+      case undefined:
+        break;
+      default:
+        throw new TranscriptImportError('UNSUPPORTED_FORMAT', `Unsupported transcript file type: .${extension}`);
+    }
+
+    const head = content?.replace(/^\uFEFF/, '').trimStart() ?? '';
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (/^\d+\s*\r?\n\s*(?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->/.test(head)) return 'srt';
+    return 'text';
+  }
+
+  private async extractDocx(fileBase64?: string): Promise<string> {
+    if (!fileBase64) {
+      throw new TranscriptImportError('EMPTY_TRANSCRIPT', 'fileBase64 is required for .docx transcripts');
+    }
+
+    const buffer = Buffer.from(fileBase64, 'base64');
+    if (buffer.length > MAX_DOCX_BYTES) {
+      throw new TranscriptImportError('TRANSCRIPT_TOO_LARGE', 'The .docx file exceeds the 5 MB limit');
+    }
+
+    try {
+      const result = await mammoth.extractRawText({ buffer });
+      return result.value;
+    } catch (error) {
+      logger.warn('Failed to extract text from DOCX transcript', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new TranscriptImportError('DOCX_EXTRACTION_FAILED', 'Could not read text from the .docx file');
+    }
+  }
+
+  /**
+   * SRT and WebVTT cues: optional identifier, timing line, then text lines
+   */
+  private parseCaptions(text: string, format: 'srt' | 'vtt', warnings: string[]): Cue[] {
+    const cues: Cue[] = [];
+
+    for (const block of text.split(/\n\s*\n/)) {
+      const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+      if (lines.length === 0) continue;
+
+      // WebVTT header and metadata blocks
+      if (format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+      const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+      if (timingIndex === -1 || timingIndex > 1) {
+        warnings.push(`Skipped block without cue timing: "${lines[0].slice(0, 60)}"`);
+        continue;
+      }
+
+      const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+      let speaker: string | undefined;
+      const textLines = lines.slice(timingIndex + 1).map(line => {
+        const voice = line.match(VOICE_TAG);
+        if (voice) speaker = voice[1].trim();
+        return line.replace(MARKUP_TAG, '').trim();
+      }).filter(Boolean);
+
+      let cueText = textLines.join(' ');
+      if (!speaker) {
+        const labelled = cueText.match(/^-?\s*([\p{L}][\p{L}\p{M}.'-]*(?:\s[\p{L}\p{M}.'-]+){0,3})\s*:\s+(.+)$/u);
+        if (labelled) {
+          speaker = labelled[1];
+          cueText = labelled[2];
+        }
+      }
+
+      if (cueText) {
+        cues.push({ speaker, text: cueText, startMs: this.parseTimestamp(start), endMs: this.parseTimestamp(end) });
+      }
+    }
+
+    return cues;
+  }
+
+  /**
+   * "Name: utterance" lines; unlabelled lines continue the previous speaker's turn
+   */
+  private parseSpeakerText(text: string): Cue[] {
+    const cues: Cue[] = [];
+
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      const labelled = trimmed.match(SPEAKER_LINE);
+      if (labelled && labelled[3].trim()) {
+        cues.push({
+          speaker: labelled[2].trim(),
+          text: labelled[3].trim(),
+          startMs: labelled[1] ? this.parseTimestamp(labelled[1]) : undefined
+        });
+        continue;
+      }
+
+      const timestamp = trimmed.match(LEADING_TIMESTAMP);
+      const content = trimmed.replace(LEADING_TIMESTAMP, '').trim();
+      if (!content) continue;
+
+      const previous = cues[cues.length - 1];
+      if (previous && !timestamp) {
+        previous.text += ` ${content}`;
+      } else {
+        cues.push({ speaker: previous?.speaker, text: content, startMs: timestamp ? this.parseTimestamp(timestamp[1]) : undefined });
+      }
+    }
+
+    return cues;
+  }
+
+  /**
+   * Merge consecutive cues by the same (known) speaker into turns
+   */
+  private mergeCues(cues: Cue[]): TranscriptTurn[] {
+    const turns: TranscriptTurn[] = [];
+
+    for (const cue of cues) {
+      const previous = turns[turns.length - 1];
+      if (previous && cue.speaker && previous.speaker === cue.speaker) {
+        previous.content += ` ${cue.text}`;
+        previous.endMs = cue.endMs ?? previous.endMs;
+        continue;
+      }
+
+      const speaker = cue.speaker ?? UNKNOWN_SPEAKER;
+      turns.push({
+        index: turns.length,
+        segmentId: this.segmentIdFor(turns.length),
+        speaker,
+        role: this.roleForSpeaker(speaker),
+        content: cue.text,
+        startMs: cue.startMs,
+        endMs: cue.endMs
+      });
+    }
+
+    return turns;
+  }
+
+  private segmentIdFor(index: number): string {
+    return `seg_turn_${String(index + 1).padStart(3, '0')}`;
+  }
+
+  private summarizeSpeakers(turns: TranscriptTurn[]): TranscriptSpeaker[] {
+    const speakers = new Map<string, TranscriptSpeaker>();
+    for (const turn of turns) {
+      const entry = speakers.get(turn.speaker) ?? { name: turn.speaker, role: turn.role, turnCount: 0, questionCount: 0 };
+      entry.turnCount += 1;
+      entry.questionCount += (turn.content.match(/\?/g) ?? []).length;
+      speakers.set(turn.speaker, entry);
+    }
+    return [...speakers.values()];
+  }
+
+  /**
+   * Suggest the practitioner: a speaker labelled as the student, otherwise the
+   * named speaker who asks the most questions (opening the conversation breaks ties)
+   */
+  private detectStudentSpeaker(
+    turns: TranscriptTurn[],
+    speakers: TranscriptSpeaker[]
+  ): { method: ParsedTranscript['speakerDetection']; speaker?: string } {
+    const labelled = speakers.find(speaker => speaker.role === 'student');
+    if (labelled) {
+      return { method: 'labels', speaker: labelled.name };
+    }
+
+    const named = speakers.filter(speaker => speaker.name !== UNKNOWN_SPEAKER);
+    if (named.length < 2) {
+      return { method: 'none' };
+    }
+
+    const opener = turns.find(turn => turn.speaker !== UNKNOWN_SPEAKER)?.speaker;
+    const score = (speaker: TranscriptSpeaker) =>
+      speaker.questionCount / speaker.turnCount + (speaker.name === opener ? 0.25 : 0);
+    const [best] = [...named].sort((a, b) => score(b) - score(a));
+
+    return { method: 'heuristic', speaker: best.name };
+  }
+
+  /**
+   * "01:02:03,450", "02:03.450" or "02:03" to milliseconds
+   */
+  private parseTimestamp(value: string): number {
+    const [clock, fraction = '0'] = value.split(/[.,]/);
+    const parts = clock.split(':').map(Number);
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    return seconds * 1000 + Number(fraction.padEnd(3, '0').slice(0, 3));
+  }
+}
+
+export const transcriptImporter = new TranscriptImporter();
@@ -0,0 +1,315 @@
+/**
+ * Turn Processor - Runs one student turn through the roleplay and feedback agents
+ * Shared by the HTTP input endpoint and the session WebSocket, which streams
+ * each result to the client as soon as it is ready.
+ */
+
+import { logger } from '../config/logger';
+import { AgentContext } from '../agents/baseAgent';
+import { AnalystAgent } from '../agents/analystAgent';
+import { NavigatorAgent } from '../agents/navigatorAgent';
+import { RoleplayAgent } from '../agents/roleplayAgent';
+import { AgentResponse } from '../schemas/agentSchemas';
+import { sessionManager, SessionState } from './sessionManager';
+import { caseLoader, DEFAULT_CASE_PERSONA } from './caseLoader';
+import { emotionalStateMachine } from './emotionalStateMachine';
+import { bbicCoverageTracker } from './bbicCoverageTracker';
+import { processIndicatorDetector } from './processIndicatorDetector';
+import { BBICCoverage } from '../../src/types/bbicTemplate';
+
+export type FeedbackAgentType = 'analyst' | 'navigator';
+
+export interface AgentFailure {
+  error: string;
+  raw?: string;
+}
+
+export type AgentFeedbackEntry = AgentResponse | AgentFailure;
+
+export type AgentFeedback = Partial<Record<FeedbackAgentType, AgentFeedbackEntry>>;
+
+export interface TurnEvents {
+  /** Called for each roleplay token; when set, the reply is streamed instead of generated in one call */
+  onRoleplayToken?: (delta: string) => void;
+  onRoleplayComplete?: (content: string) => void;
+  onAgentFeedback?: (agentType: FeedbackAgentType, feedback: AgentFeedbackEntry) => void;
+  onCoverage?: (coverage: BBICCoverage[]) => void;
+}
+
+export interface TurnResult {
+  session: {
+    id: string;
+    messageCount: number;
+    lastActivity: Date;
+  };
+  aiResponse: string;
+  agentFeedback: AgentFeedback;
+  /** BBIC checklist coverage after this turn, when a content protocol is in use */
+  coverage?: BBICCoverage[];
+}
+
+export class TurnProcessingError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'TurnProcessingError';
+  }
+}
+
+class TurnProcessor {
+  /**
+   * Store the student message, then run roleplay and feedback agents concurrently
+   */
+  async processTurn(
+    session: SessionState,
+    content: string,
+    options: { timestamp?: string; events?: TurnEvents } = {}
+  ): Promise<TurnResult> {
+    const sessionId = session.id;
+    const events = options.events ?? {};
+
+    const userMessage = await sessionManager.addMessage(sessionId, {
+      role: 'user',
+      content: content.trim(),
+      metadata: { inputTimestamp: options.timestamp }
+    });
+
+    if (!userMessage) {
+      throw new TurnProcessingError('MESSAGE_STORAGE_FAILED', 'Failed to store user message');
+    }
+
+    logger.info('Session input toggles', {
+      sessionId,
+      toggles: session.config.toggles
+    });
+
+    const persona = session.config.persona ?? DEFAULT_CASE_PERSONA;
+
+    // Lesson sessions only show the agents the current exercise's sub-transcript
+    const exerciseHistory = sessionManager.getExerciseHistory(session);
+
+    const agentContext: AgentContext = {
+      sessionId,
+      protocols: session.protocols,
+      guardrailRules: session.config.guardrailRules,
+      conversationHistory: exerciseHistory,
+      exerciseConfig: caseLoader.toExerciseContext(persona, session.config.focusHint)
+    };
+
+    const turn = exerciseHistory.filter(m => m.role === 'user').length + 1;
+
+    // Move the character's emotional state on what the student just said
+    const emotionalProfile = emotionalStateMachine.profileFor(persona);
+    const { track: emotional, transition } = emotionalStateMachine.advance(
+      session.emotional ?? emotionalStateMachine.initialTrack(emotionalProfile),
+      content,
+      emotionalProfile,
+      { exerciseIndex: session.currentExerciseIndex, turn }
+    );
+
+    if (!await sessionManager.updateSession(sessionId, { emotional })) {
+      logger.warn('Failed to store emotional state', { sessionId });
+    }
+
+    if (transition.from !== transition.to) {
+      logger.info('Roleplay emotional state changed', {
+        sessionId,
+        from: transition.from,
+        to: transition.to,
+        signals: transition.signals
+      });
+    }
+
+    // Classify the turn against BBIC checklist boxes alongside the agents; the Navigator waits for it
+    const coveragePromise = bbicCoverageTracker.track(session, content, turn).catch(error => {
+      logger.warn('BBIC coverage tracking failed', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    });
+
+    // Tag the turn with process protocol indicators; the Analyst waits for them to cite them
+    const indicatorsPromise = processIndicatorDetector.detect(session, content, turn).catch(error => {
+      logger.warn('Process indicator detection failed', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    });
+
+    const agentFeedback: AgentFeedback = {};
+    const record = (agentType: FeedbackAgentType, feedback: AgentFeedbackEntry) => {
+      agentFeedback[agentType] = feedback;
+      events.onAgentFeedback?.(agentType, feedback);
+    };
+
+    const agentPromises: Array<Promise<void>> = [];
+    let analystPromise: Promise<void> = Promise.resolve();
+
+    // Analyst feedback (if enabled)
+    if (session.config.toggles.iterative) {
+      logger.info('Invoking AnalystAgent for iterative feedback', { sessionId });
+      analystPromise = indicatorsPromise
+        .then(processIndicators => new AnalystAgent().generateResponse(agentContext, content, processIndicators))
+        .then(response => {
+          logger.info('AnalystAgent produced response (pre-middleware)', {
+            sessionId,
+            hasRubric: Array.isArray(response.rubric),
+            responseType: response.type
+          });
+          record('analyst', response);
+        })
+        .catch(error => record('analyst', this.toFailure('Analyst', sessionId, error)));
+      agentPromises.push(analystPromise);
+    } else {
+      logger.info('Skipping AnalystAgent: iterative toggle disabled', { sessionId });
+    }
+
+    // Navigator guidance (if enabled)
+    if (session.config.toggles.feedforward) {
+      logger.info('Invoking NavigatorAgent for feedforward guidance', { sessionId });
+      // Waits for this turn's Analyst scores so guidance can target the weakest rubric fields
+      agentPromises.push(
+        Promise.all([coveragePromise, analystPromise])
+          .then(([coverage]) => {
+            const lastAnalyst = agentFeedback.analyst;
+            return new NavigatorAgent().generateMidConversationGuidance(agentContext, {
+              turnCount: exerciseHistory.filter(m => m.role === 'user').length,
+              lastAnalystScores: lastAnalyst && 'rubric' in lastAnalyst ? lastAnalyst.rubric : undefined,
+              uncoveredRequiredBoxes: bbicCoverageTracker.uncoveredRequired(coverage)
+            });
+          })
+          .then(response => {
+            logger.info('NavigatorAgent produced response (pre-middleware)', {
+              sessionId,
+              responseType: response.type
+            });
+            record('navigator', response);
+          })
+          .catch(error => record('navigator', this.toFailure('Navigator', sessionId, error)))
+      );
+    } else {
+      logger.info('Skipping NavigatorAgent: feedforward toggle disabled', { sessionId });
+    }
+
+    // Roleplay reply runs alongside the feedback agents so it can start streaming immediately.
+    // Only the roleplay character sees the persona's hidden facts.
+    const roleplayAgent = new RoleplayAgent();
+    const roleplayContext: AgentContext = {
+      ...agentContext,
+      exerciseConfig: { ...agentContext.exerciseConfig, persona, emotionalState: emotional.state }
+    };
+    const roleplayResponse = events.onRoleplayToken
+      ? await roleplayAgent.streamResponse(roleplayContext, content, events.onRoleplayToken)
+      : await roleplayAgent.generateResponse(roleplayContext, content);
+    const aiResponse = roleplayResponse.content;
+
+    if (aiResponse) {
+      await sessionManager.addMessage(sessionId, {
+        role: 'assistant',
+        content: aiResponse,
+        metadata: { generated: true, emotionalState: emotional.state }
+      });
+    }
+    events.onRoleplayComplete?.(aiResponse);
+
+    // Wait for all agent responses
+    await Promise.all(agentPromises);
+
+    // Stored after the roleplay reply so the session writes cannot overwrite each other
+    const coverage = await coveragePromise;
+    if (coverage) {
+      const bbicCoverage = [
+        ...(session.bbicCoverage ?? []).filter(entry => entry.exerciseIndex !== session.currentExerciseIndex),
+        ...coverage
+      ];
+      if (!await sessionManager.updateSession(sessionId, { bbicCoverage })) {
+        logger.warn('Failed to store BBIC coverage', { sessionId });
+      }
+      events.onCoverage?.(coverage);
+    }
+
+    const processIndicators = await indicatorsPromise;
+    if (processIndicators.length > 0) {
+      logger.info('Process indicators detected', {
+        sessionId,
+        turn,
+        positive: processIndicators.filter(match => match.polarity === 'positive').length,
+        concerning: processIndicators.filter(match => match.polarity === 'concerning').length
+      });
+      const stored = await sessionManager.updateSession(sessionId, {
+        processIndicators: [...(session.processIndicators ?? []), ...processIndicators]
+      });
+      if (!stored) {
+        logger.warn('Failed to store process indicators', { sessionId });
+      }
+    }
+
+    // Kept so a resumed session shows the feedback from before the reload
+    if (!await sessionManager.updateSession(sessionId, { latestFeedback: agentFeedback })) {
+      logger.warn('Failed to store latest agent feedback', { sessionId });
+    }
+
+    logger.debug('Complete agent feedback', {
+      sessionId,
+      agentFeedback: JSON.stringify(agentFeedback, null, 2),
+      feedbackKeys: Object.keys(agentFeedback),
+      hasErrors: Object.values(agentFeedback).some(isAgentFailure)
+    });
+
+    const updatedSession = await sessionManager.getSession(sessionId);
+
+    return {
+      session: {
+        id: sessionId,
+        messageCount: updatedSession?.conversationHistory.length ?? session.conversationHistory.length,
+        lastActivity: updatedSession?.metadata.lastActivityAt ?? new Date()
+      },
+      aiResponse,
+      agentFeedback,
+      coverage
+    };
+  }
+
+  /**
+   * Feedback safe to show outside development: failed agents are dropped
+   */
+  publicFeedback(agentFeedback: AgentFeedback): AgentFeedback | undefined {
+    if (process.env.NODE_ENV !== 'production') {
+      return agentFeedback;
+    }
+
+    const cleanFeedback: AgentFeedback = {};
+    (Object.keys(agentFeedback) as FeedbackAgentType[]).forEach(agentType => {
+      const feedback = agentFeedback[agentType];
+      if (feedback && !isAgentFailure(feedback)) {
+        cleanFeedback[agentType] = feedback;
+      }
+    });
+
+    return Object.keys(cleanFeedback).length > 0 ? cleanFeedback : undefined;
+  }
+
+  private toFailure(agentName: string, sessionId: string, error: unknown): AgentFailure {
+    const rawResponse = (error as { rawResponse?: unknown } | undefined)?.rawResponse;
+    const raw = rawResponse ? JSON.stringify(rawResponse) : undefined;
+    const message = error instanceof Error ? error.message : String(error);
+
+    logger.error(`${agentName} agent failed`, {
+      sessionId,
+      error: message,
+      raw
+    });
+
+    return {
+      error: `${agentName} failed: ${message}`,
+      raw
+    };
+  }
+}
+
+export function isAgentFailure(feedback: AgentFeedbackEntry | undefined): feedback is AgentFailure {
+  return !!feedback && typeof feedback === 'object' && 'error' in feedback;
+}
+
+export const turnProcessor = new TurnProcessor();
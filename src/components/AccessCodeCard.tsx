@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { codeApi } from '@/lib/api';
+import { AccessCode, AccessCodeStatus, ClassGroup } from '@/types/accessCodes';
+import { Ban, BookOpen, Loader2, RefreshCw, Save, Settings, Target } from 'lucide-react';
+
+interface AccessCodeCardProps {
+  code: AccessCode;
+  classes: ClassGroup[];
+  /** Called after the code was changed, revoked or replaced */
+  onChanged: () => void;
+  /** Extra controls next to the code actions, e.g. sharing its exercise or lesson */
+  actions?: React.ReactNode;
+}
+
+const STATUS_LABELS: Record<AccessCodeStatus, string> = {
+  active: 'Active',
+  scheduled: 'Not yet valid',
+  expired: 'Expired',
+  exhausted: 'Limit reached',
+  revoked: 'Revoked'
+};
+
+const NO_CLASS = 'none';
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+const AccessCodeCard: React.FC<AccessCodeCardProps> = ({ code, classes, onChanged, actions }) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState({ startsAt: '', expiresAt: '', maxSessions: '', classId: NO_CLASS });
+
+  const className = classes.find(group => group.id === code.class_id)?.name;
+
+  // Start from the code's current settings every time the editor opens
+  const toggleEditing = () => {
+    if (!editing) {
+      setSettings({
+        startsAt: toLocalInput(code.starts_at),
+        expiresAt: toLocalInput(code.expires_at),
+        maxSessions: code.max_sessions?.toString() ?? '',
+        classId: code.class_id ?? NO_CLASS
+      });
+    }
+    setEditing(!editing);
+  };
+
+  const run = async (action: () => Promise<unknown>, failureMessage: string, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: success });
+      setEditing(false);
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const maxSessions = settings.maxSessions.trim() ? Number(settings.maxSessions) : null;
+    if (maxSessions !== null && (!Number.isInteger(maxSessions) || maxSessions < 1)) {
+      toast({
+        title: "Invalid limit",
+        description: "The session limit must be a whole number above zero, or empty for unlimited",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    run(() => codeApi.update(code.id, {
+      startsAt: fromLocalInput(settings.startsAt),
+      expiresAt: fromLocalInput(settings.expiresAt),
+      maxSessions,
+      classId: settings.classId === NO_CLASS ? null : settings.classId
+    }), 'Failed to update code', 'Code updated');
+  };
+
+  const handleRevoke = () => run(() => codeApi.revoke(code.id), 'Failed to revoke code', `${code.id} revoked`);
+
+  const handleRegenerate = () => run(
+    () => codeApi.regenerate(code.id),
+    'Failed to regenerate code',
+    `${code.id} replaced with a new code`
+  );
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            {code.type === 'exercise' ? (
+              <Target className="h-4 w-4 text-primary" />
+            ) : (
+              <BookOpen className="h-4 w-4 text-primary" />
+            )}
+            <span className="font-semibold">{code.title}</span>
+            <Badge variant={code.type === 'exercise' ? 'default' : 'secondary'}>
+              {code.type}
+            </Badge>
+            <Badge variant={code.status === 'active' ? 'outline' : 'destructive'}>
+              {STATUS_LABELS[code.status]}
+            </Badge>
+            {className && <Badge variant="outline">{className}</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Created: {new Date(code.created_at).toLocaleDateString()}
+            {' · '}
+            {code.session_count}{code.max_sessions !== null ? ` / ${code.max_sessions}` : ''} sessions
+            {code.starts_at && ` · From ${new Date(code.starts_at).toLocaleString()}`}
+            {code.expires_at && ` · Until ${new Date(code.expires_at).toLocaleString()}`}
+          </p>
+          {code.replaced_by && (
+            <p className="text-sm text-muted-foreground">
+              Replaced by <span className="font-mono">{code.replaced_by}</span>
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          <div className={`font-mono text-lg font-bold ${code.status === 'active' ? 'text-primary' : 'text-muted-foreground line-through'}`}>
+            {code.id}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {code.status === 'active' ? 'Share this code' : 'Students cannot use this code'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={toggleEditing} disabled={!!code.revoked_at}>
+          <Settings className="h-4 w-4 mr-2" />
+          Limits
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={saving || !!code.replaced_by}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Regenerate
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleRevoke} disabled={saving || !!code.revoked_at}>
+          <Ban className="h-4 w-4 mr-2" />
+          Revoke
+        </Button>
+        {actions}
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-4 p-3 bg-muted/50 rounded-lg">
+          <div className="space-y-2">
+            <Label htmlFor={`starts-${code.id}`}>Valid from</Label>
+            <Input
+              id={`starts-${code.id}`}
+              type="datetime-local"
+              value={settings.startsAt}
+              onChange={(e) => setSettings({ ...settings, startsAt: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`expires-${code.id}`}>Expires</Label>
+            <Input
+              id={`expires-${code.id}`}
+              type="datetime-local"
+              value={settings.expiresAt}
+              onChange={(e) => setSettings({ ...settings, expiresAt: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`max-${code.id}`}>Maximum sessions</Label>
+            <Input
+              id={`max-${code.id}`}
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={settings.maxSessions}
+              onChange={(e) => setSettings({ ...settings, maxSessions: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Class</Label>
+            <Select value={settings.classId} onValueChange={(value) => setSettings({ ...settings, classId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CLASS}>No class</SelectItem>
+                {classes.map(group => (
+                  <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save limits
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessCodeCard;
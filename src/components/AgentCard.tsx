@@ -80,6 +80,18 @@ const RubricDisplay: React.FC<{ scores: RubricScore[] | Record<string, number> }
   );
 };
 
+// Student view: the server sends the assessed rubric fields without their scores
+const AssessedAreas: React.FC<{ areas: string[] }> = ({ areas }) => (
+  <div className="space-y-2">
+    <h4 className="font-semibold text-sm">Assessed Areas</h4>
+    <div className="flex flex-wrap gap-1">
+      {areas.map(area => (
+        <Badge key={area} variant="outline">{area}</Badge>
+      ))}
+    </div>
+  </div>
+);
+
 const NavigatorContent: React.FC<{ response: NavigatorResponse }> = ({ response }) => (
   <div className="space-y-4">
     {/* Handle guidance field (more common structure) */}
@@ -178,6 +190,12 @@ const AnalystContent: React.FC<{ response: AnalystResponse }> = ({ response }) =
         <Separator />
       </>
     )}
+    {!response.rubric && response.assessed_areas && response.assessed_areas.length > 0 && (
+      <>
+        <AssessedAreas areas={response.assessed_areas} />
+        <Separator />
+      </>
+    )}
     
     {/* Handle feedback text - prefer 'feedback' over 'past_only_feedback' */}
     {(response.feedback || response.past_only_feedback) && (
@@ -239,6 +257,12 @@ const ReviewerContent: React.FC<{ response: ReviewerResponse }> = ({ response })
         <Separator />
       </>
     )}
+    {response.rubric_summary.length === 0 && response.assessed_areas && response.assessed_areas.length > 0 && (
+      <>
+        <AssessedAreas areas={response.assessed_areas} />
+        <Separator />
+      </>
+    )}
 
     {response.strengths.length > 0 && (
       <div>
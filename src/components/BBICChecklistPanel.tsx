@@ -0,0 +1,79 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, Circle, CircleDot, ListChecks } from 'lucide-react';
+import { BBICBoxCoverage, BBICCoverage } from '@/types/bbicTemplate';
+import { cn } from '@/lib/utils';
+
+interface BBICChecklistPanelProps {
+  coverage: BBICCoverage[];
+  className?: string;
+}
+
+const SECTIONS: Array<{ type: BBICBoxCoverage['type']; title: string }> = [
+  { type: 'frame', title: 'Ram' },
+  { type: 'content', title: 'Innehåll' },
+  { type: 'avslut', title: 'Avslut' }
+];
+
+const STATUS_DISPLAY: Record<BBICBoxCoverage['status'], { icon: typeof Circle; label: string; className: string }> = {
+  covered: { icon: CheckCircle, label: 'Genomfört', className: 'text-green-600' },
+  partial: { icon: CircleDot, label: 'Påbörjat', className: 'text-amber-500' },
+  not_covered: { icon: Circle, label: 'Ej genomfört', className: 'text-muted-foreground' }
+};
+
+// Live checklist of the conversation structure; shows which moments are done, never how to do them
+const BBICChecklistPanel: React.FC<BBICChecklistPanelProps> = ({ coverage, className }) => (
+  <Card className={className}>
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <ListChecks className="h-5 w-5" />
+        Samtalsstruktur
+      </CardTitle>
+      <CardDescription className="text-sm">Moment du har tagit upp i samtalet hittills</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-6">
+      {coverage.map(protocol => (
+        <div key={protocol.protocolId} className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-semibold">{protocol.protocolName}</span>
+              {protocol.criteriaMet && <Badge variant="default">Struktur komplett</Badge>}
+            </div>
+            <Progress value={protocol.completion * 100} className="h-2" />
+          </div>
+
+          {SECTIONS.map(({ type, title }) => {
+            const boxes = protocol.boxes.filter(box => box.type === type);
+            if (boxes.length === 0) return null;
+
+            return (
+              <div key={type} className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase text-muted-foreground">{title}</h4>
+                <ul className="space-y-1">
+                  {boxes.map(box => {
+                    const { icon: Icon, label, className: statusClassName } = STATUS_DISPLAY[box.status];
+                    return (
+                      <li key={box.boxId} className="flex items-start gap-2 text-sm">
+                        <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', statusClassName)} aria-label={label} />
+                        <span className={cn(box.status === 'not_covered' && 'text-muted-foreground')}>
+                          {box.label}
+                        </span>
+                        {box.required && (
+                          <Badge variant="outline" className="ml-auto text-xs">Obligatoriskt</Badge>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </CardContent>
+  </Card>
+);
+
+export default BBICChecklistPanel;
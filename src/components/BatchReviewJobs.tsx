@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { reviewJobApi, transcriptApi } from '@/lib/api';
+import { buildExerciseReport, downloadReport, transcriptFromTurns } from '@/lib/reportExport';
+import { ReportFormat } from '@/types/report';
+import {
+  ReviewJob,
+  ReviewJobItemInput,
+  ReviewJobItemResult,
+  ReviewJobItemStatus,
+  ReviewJobWithItems
+} from '@/types/reviewJobs';
+import { FileDown, FileText, Loader2, RotateCcw, Upload } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<ReviewJobItemStatus, string> = {
+  queued: 'I kö',
+  running: 'Granskas',
+  completed: 'Klar',
+  failed: 'Misslyckades'
+};
+
+const STATUS_VARIANTS: Record<ReviewJobItemStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive'
+};
+
+const isActive = (job: ReviewJob) => job.status === 'queued' || job.status === 'running';
+
+const readAsText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const dataUrl = reader.result as string;
+    resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Captions and text are parsed by the job; Word documents are imported into turns first
+const toJobItem = async (file: File): Promise<ReviewJobItemInput> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'docx') {
+    const { transcript } = await transcriptApi.import({ fileBase64: await readAsBase64(file), fileName: file.name });
+    return { label: file.name, turns: transcript.turns, studentSpeaker: transcript.suggestedStudentSpeaker };
+  }
+
+  return {
+    label: file.name,
+    transcript: await readAsText(file),
+    format: extension === 'srt' || extension === 'vtt' ? extension : 'text'
+  };
+};
+
+const BatchReviewJobs: React.FC = () => {
+  const { toast } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [jobs, setJobs] = useState<ReviewJob[]>([]);
+  const [currentJob, setCurrentJob] = useState<ReviewJobWithItems | null>(null);
+  const [results, setResults] = useState<Record<string, ReviewJobItemResult>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const { jobs } = await reviewJobApi.list();
+      setJobs(jobs);
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: "Kunde inte hämta granskningsjobb",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const loadResults = useCallback(async (jobId: string) => {
+    try {
+      const { job } = await reviewJobApi.results(jobId);
+      setResults(Object.fromEntries(job.items.map(item => [item.id, item])));
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: "Kunde inte hämta granskningsresultat",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const openJob = useCallback(async (jobId: string) => {
+    try {
+      const { job } = await reviewJobApi.get(jobId);
+      setCurrentJob(job);
+      setResults({});
+      if (job.completedItems > 0) {
+        await loadResults(jobId);
+      }
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: "Kunde inte hämta granskningsjobbet",
+        variant: "destructive",
+      });
+    }
+  }, [loadResults, toast]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Poll the open job until every item is completed or failed
+  useEffect(() => {
+    if (!currentJob || !isActive(currentJob)) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const { job } = await reviewJobApi.get(currentJob.id);
+        setCurrentJob(job);
+        if (!isActive(job)) {
+          await loadResults(job.id);
+          loadJobs();
+        }
+      } catch (error) {
+        console.error('Failed to poll review job:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [currentJob, loadJobs, loadResults]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const items = await Promise.all(files.map(toJobItem));
+      const { job } = await reviewJobApi.create({ items, protocolIds: ['basis-v1'] });
+      setCurrentJob(job);
+      setResults({});
+      loadJobs();
+      toast({
+        title: "Granskning startad",
+        description: `${job.totalItems} transkript har lagts i kö`,
+      });
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: error instanceof Error ? error.message : "Kunde inte starta granskningen",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = async (itemIds?: string[]) => {
+    if (!currentJob) return;
+
+    setRetrying(true);
+    try {
+      const { job } = await reviewJobApi.retry(currentJob.id, itemIds);
+      setCurrentJob(job);
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: error instanceof Error ? error.message : "Kunde inte försöka igen",
+        variant: "destructive",
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  // Teacher report: includes the internal rubric scores
+  const handleDownloadReport = async (itemId: string, format: ReportFormat) => {
+    if (!currentJob) return;
+
+    try {
+      const { item } = await reviewJobApi.item(currentJob.id, itemId);
+      if (!item.review) return;
+
+      await downloadReport(buildExerciseReport({
+        title: item.label,
+        transcript: transcriptFromTurns(item.turns),
+        review: item.review
+      }, 'teacher'), format);
+    } catch (error) {
+      toast({
+        title: "Fel",
+        description: "Kunde inte skapa rapporten",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const processed = currentJob ? currentJob.completedItems + currentJob.failedItems : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Batchgranskning
+          </CardTitle>
+          <CardDescription>
+            Ladda upp transkript (.txt, .srt, .vtt eller .docx) för en hel klass. Granskningen körs i bakgrunden.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <input
+            ref={fileRef}
+            type="file"
+            multiple
+            accept=".txt,.srt,.vtt,.docx"
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <Button onClick={() => fileRef.current?.click()} disabled={submitting}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Välj transkript
+          </Button>
+
+          {jobs.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Tidigare jobb</p>
+              <div className="flex flex-wrap gap-2">
+                {jobs.map(job => (
+                  <Button
+                    key={job.id}
+                    size="sm"
+                    variant={currentJob?.id === job.id ? 'default' : 'outline'}
+                    onClick={() => openJob(job.id)}
+                  >
+                    {new Date(job.createdAt).toLocaleString('sv-SE')} · {job.completedItems}/{job.totalItems}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {currentJob && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">
+                {processed} av {currentJob.totalItems} granskade
+              </CardTitle>
+              {currentJob.failedItems > 0 && !isActive(currentJob) && (
+                <Button variant="outline" size="sm" onClick={() => handleRetry()} disabled={retrying}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Försök igen ({currentJob.failedItems})
+                </Button>
+              )}
+            </div>
+            <Progress value={currentJob.totalItems > 0 ? (processed / currentJob.totalItems) * 100 : 0} />
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {currentJob.items.map(item => {
+              const result = results[item.id];
+              return (
+                <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm truncate">{item.label}</span>
+                    <div className="flex items-center gap-2">
+                      {item.status === 'running' && <Loader2 className="h-4 w-4 animate-spin" />}
+                      <Badge variant={STATUS_VARIANTS[item.status]}>{STATUS_LABELS[item.status]}</Badge>
+                      {item.status === 'failed' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleRetry([item.id])} disabled={retrying}>
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {item.errorMessage && (
+                    <p className="text-xs text-destructive">{item.errorMessage}</p>
+                  )}
+                  {result?.review && (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-1">
+                        {result.review.rubric_summary.map(score => (
+                          <Badge key={score.field} variant="outline">{score.field}: {score.score}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{result.review.summary}</p>
+                      <div className="flex gap-1">
+                        {(['pdf', 'docx'] as const).map(format => (
+                          <Button key={format} size="sm" variant="ghost" onClick={() => handleDownloadReport(item.id, format)}>
+                            <FileDown className="h-4 w-4 mr-1" />
+                            Lärarrapport ({format.toUpperCase()})
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BatchReviewJobs;
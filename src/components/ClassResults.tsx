@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { studentApi } from '@/lib/api';
+import { StudentResults, StudentSessionReview } from '@/types/students';
+import { SessionStatus } from '@/types/sessionLifecycle';
+import { Loader2 } from 'lucide-react';
+
+interface ClassResultsProps {
+  classId: string;
+}
+
+const STATUS_LABELS: Record<SessionStatus, string> = {
+  active: 'Active',
+  ended: 'Ended',
+  reviewed: 'Reviewed',
+  archived: 'Archived',
+  expired: 'Expired'
+};
+
+// Stored Reviewer output with the rubric scores students never see
+const SessionReview: React.FC<{ entry: StudentSessionReview }> = ({ entry }) => (
+  <div className="ml-4 pl-3 border-l space-y-1">
+    <div className="text-xs font-medium">
+      {entry.exerciseIndex === null ? 'Session review' : `Review: ${entry.title}`}
+      <span className="text-muted-foreground font-normal"> · {new Date(entry.reviewedAt).toLocaleString()}</span>
+    </div>
+    <div className="flex flex-wrap gap-1">
+      {entry.review.rubric_summary.map(score => (
+        <Badge key={score.field} variant="outline">{score.field}: {score.score}</Badge>
+      ))}
+    </div>
+    <p className="text-muted-foreground">{entry.review.summary}</p>
+    {entry.review.strengths.length > 0 && (
+      <p><span className="font-medium">Strengths:</span> {entry.review.strengths.join('; ')}</p>
+    )}
+    {entry.review.growth_areas.length > 0 && (
+      <p><span className="font-medium">Growth areas:</span> {entry.review.growth_areas.join('; ')}</p>
+    )}
+  </div>
+);
+
+// Sessions and their reviews per pseudonym; students never give their real names
+const ClassResults: React.FC<ClassResultsProps> = ({ classId }) => {
+  const { toast } = useToast();
+  const [students, setStudents] = useState<StudentResults[] | null>(null);
+
+  useEffect(() => {
+    studentApi.classResults(classId)
+      .then(result => setStudents(result.students))
+      .catch(error => {
+        console.error('Failed to load class results:', error);
+        setStudents([]);
+        toast({
+          title: "Error",
+          description: "Failed to load student results",
+          variant: "destructive",
+        });
+      });
+  }, [classId, toast]);
+
+  if (!students) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading results...</span>
+      </div>
+    );
+  }
+
+  if (students.length === 0) {
+    return <p className="text-sm text-muted-foreground">No students have joined this class yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {students.map(student => (
+        <div key={student.studentId} className="p-3 border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">{student.pseudonym}</span>
+            <span className="text-xs text-muted-foreground">
+              Last seen {new Date(student.lastSeenAt).toLocaleString()}
+            </span>
+          </div>
+          {student.sessions.length > 0 ? (
+            <ul className="text-sm space-y-3">
+              {student.sessions.map(session => (
+                <li key={session.sessionId} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {session.title}
+                      <span className="text-muted-foreground"> · {new Date(session.startedAt).toLocaleDateString()}</span>
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant="secondary">{STATUS_LABELS[session.status]}</Badge>
+                      <Badge variant="outline">{session.studentTurns} turns</Badge>
+                    </span>
+                  </div>
+                  {session.reviews.map(entry => (
+                    <SessionReview key={entry.exerciseIndex ?? 'session'} entry={entry} />
+                  ))}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No sessions yet</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ClassResults;
@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { guardrailRuleApi, ExerciseGuardrailRule, GuardrailRuleInput } from '@/lib/api';
+import {
+  BUILT_IN_GUARDRAIL_RULES,
+  SEMANTIC_GUARDRAIL_RULE_IDS,
+  GuardrailAgentType,
+  GuardrailRuleSeverity,
+  GuardrailRuleType
+} from '@/types/guardrailRules';
+import { Loader2, Plus, Shield, Trash2 } from 'lucide-react';
+
+interface GuardrailRulesEditorProps {
+  exerciseId: string;
+}
+
+const AGENT_LABELS: Record<GuardrailAgentType, string> = {
+  navigator: 'Navigator',
+  analyst: 'Analyst',
+  reviewer: 'Reviewer'
+};
+
+const SEVERITY_LABELS: Record<GuardrailRuleSeverity, string> = {
+  error: 'Error (retry)',
+  warning: 'Warning (log only)',
+  off: 'Off'
+};
+
+// Built-in rules plus the semantic tier, which severity overrides can also target
+const OVERRIDABLE_RULES = [
+  ...BUILT_IN_GUARDRAIL_RULES.map(rule => ({
+    id: rule.id,
+    agentType: rule.agentType,
+    description: rule.description ?? rule.id,
+    severity: rule.severity
+  })),
+  ...(Object.entries(SEMANTIC_GUARDRAIL_RULE_IDS) as Array<[GuardrailAgentType, string]>).map(([agentType, id]) => ({
+    id,
+    agentType,
+    description: 'Semantisk tidsriktning (klassificerare)',
+    severity: 'error' as GuardrailRuleSeverity
+  }))
+];
+
+const emptyForm = {
+  agentType: 'analyst' as GuardrailAgentType,
+  ruleType: 'phrase_list' as Exclude<GuardrailRuleType, 'severity_override'>,
+  pattern: '',
+  phrases: '',
+  severity: 'error' as GuardrailRuleSeverity,
+  description: ''
+};
+
+const GuardrailRulesEditor: React.FC<GuardrailRulesEditorProps> = ({ exerciseId }) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ExerciseGuardrailRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRules(await guardrailRuleApi.list(exerciseId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load guardrail rules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [exerciseId, toast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const runAndReload = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await loadRules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const overrides = rules.filter(rule => rule.ruleType === 'severity_override');
+  const customRules = rules.filter(rule => rule.ruleType !== 'severity_override');
+
+  const handleOverrideChange = (targetRuleId: string, agentType: GuardrailAgentType, severity: string) => {
+    const existing = overrides.find(rule => rule.targetRuleId === targetRuleId);
+    const builtIn = OVERRIDABLE_RULES.find(rule => rule.id === targetRuleId);
+
+    runAndReload(async () => {
+      if (severity === 'default' || severity === builtIn?.severity) {
+        if (existing) await guardrailRuleApi.remove(existing.id);
+        return;
+      }
+
+      if (existing) {
+        await guardrailRuleApi.update(existing.id, { severity: severity as GuardrailRuleSeverity });
+      } else {
+        await guardrailRuleApi.create(exerciseId, {
+          agentType,
+          ruleType: 'severity_override',
+          targetRuleId,
+          severity: severity as GuardrailRuleSeverity
+        });
+      }
+    }, 'Failed to update severity override');
+  };
+
+  const handleAddRule = () => {
+    const rule: GuardrailRuleInput = {
+      agentType: form.agentType,
+      ruleType: form.ruleType,
+      severity: form.severity,
+      description: form.description || null,
+      pattern: form.ruleType === 'regex' ? form.pattern : null,
+      phrases: form.ruleType === 'phrase_list'
+        ? form.phrases.split(/[\n,]/).map(phrase => phrase.trim()).filter(Boolean)
+        : null
+    };
+
+    runAndReload(async () => {
+      await guardrailRuleApi.create(exerciseId, rule);
+      setForm(emptyForm);
+      toast({
+        title: "Rule added",
+        description: "The rule applies to sessions started from now on",
+      });
+    }, 'Failed to add guardrail rule');
+  };
+
+  const canAdd = form.ruleType === 'regex' ? form.pattern.trim().length > 0 : form.phrases.trim().length > 0;
+
+  if (loading && rules.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading guardrail rules...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Built-in rules with per-exercise severity overrides */}
+      <div className="space-y-3">
+        <h4 className="font-semibold flex items-center gap-2">
+          <Shield className="h-4 w-4 text-primary" />
+          Built-in rules
+        </h4>
+        {OVERRIDABLE_RULES.map(rule => {
+          const override = overrides.find(o => o.targetRuleId === rule.id);
+          return (
+            <div key={rule.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{AGENT_LABELS[rule.agentType]}</Badge>
+                  <span className="text-sm font-medium">{rule.description}</span>
+                </div>
+                <p className="text-xs text-muted-foreground font-mono mt-1">{rule.id}</p>
+              </div>
+              <Select
+                value={override?.severity ?? 'default'}
+                onValueChange={(value) => handleOverrideChange(rule.id, rule.agentType, value)}
+                disabled={saving}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default ({SEVERITY_LABELS[rule.severity]})</SelectItem>
+                  {(['error', 'warning', 'off'] as GuardrailRuleSeverity[]).map(severity => (
+                    <SelectItem key={severity} value={severity}>{SEVERITY_LABELS[severity]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+
+      <Separator />
+
+      {/* Exercise-specific rules */}
+      <div className="space-y-3">
+        <h4 className="font-semibold">Exercise rules</h4>
+        {customRules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exercise-specific rules yet.</p>
+        ) : customRules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{AGENT_LABELS[rule.agentType]}</Badge>
+                <Badge variant="secondary">{rule.ruleType === 'regex' ? 'Regex' : 'Phrases'}</Badge>
+                <Badge variant={rule.severity === 'error' ? 'destructive' : 'outline'}>{rule.severity}</Badge>
+              </div>
+              <p className="text-sm font-mono mt-1 truncate">
+                {rule.ruleType === 'regex' ? rule.pattern : rule.phrases?.join(', ')}
+              </p>
+              {rule.description && (
+                <p className="text-xs text-muted-foreground">{rule.description}</p>
+              )}
+            </div>
+            <Switch
+              checked={rule.enabled !== false}
+              onCheckedChange={(enabled) => runAndReload(
+                () => guardrailRuleApi.update(rule.id, { enabled }),
+                'Failed to update guardrail rule'
+              )}
+              disabled={saving}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => runAndReload(() => guardrailRuleApi.remove(rule.id), 'Failed to delete guardrail rule')}
+              disabled={saving}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      {/* Add rule form */}
+      <div className="space-y-4">
+        <h4 className="font-semibold">Add rule</h4>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Agent</Label>
+            <Select value={form.agentType} onValueChange={(value) => setForm({ ...form, agentType: value as GuardrailAgentType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(AGENT_LABELS) as GuardrailAgentType[]).map(agentType => (
+                  <SelectItem key={agentType} value={agentType}>{AGENT_LABELS[agentType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.ruleType} onValueChange={(value) => setForm({ ...form, ruleType: value as typeof form.ruleType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="phrase_list">Phrase list</SelectItem>
+                <SelectItem value="regex">Regex</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <Select value={form.severity} onValueChange={(value) => setForm({ ...form, severity: value as GuardrailRuleSeverity })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="error">{SEVERITY_LABELS.error}</SelectItem>
+                <SelectItem value="warning">{SEVERITY_LABELS.warning}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {form.ruleType === 'regex' ? (
+          <div className="space-y-2">
+            <Label htmlFor="guardrail-pattern">Pattern (case-insensitive)</Label>
+            <Input
+              id="guardrail-pattern"
+              value={form.pattern}
+              onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+              placeholder="\b(till slut|äntligen)\b"
+              className="font-mono"
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="guardrail-phrases">Phrases (one per line or comma-separated)</Label>
+            <Textarea
+              id="guardrail-phrases"
+              value={form.phrases}
+              onChange={(e) => setForm({ ...form, phrases: e.target.value })}
+              placeholder="i morgon, vid nästa möte"
+              rows={3}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="guardrail-description">Description</Label>
+          <Input
+            id="guardrail-description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Why this rule exists"
+          />
+        </div>
+
+        <Button onClick={handleAddRule} disabled={!canAdd || saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GuardrailRulesEditor;
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { protocolApi, BasisApiError } from '@/lib/api';
+import { ParsedProtocol, ProtocolTemplateType, StructuredProtocolTemplate } from '@/types/protocolParsing';
+import { AlertTriangle, CheckCircle, FileSearch, Loader2, Save, Send } from 'lucide-react';
+
+interface ProtocolReviewProps {
+  documentId: string;
+}
+
+const TYPE_LABELS: Record<ProtocolTemplateType, string> = {
+  base: 'Base protocol',
+  content: 'BBIC checklist',
+  process: 'Process protocol'
+};
+
+// Category or checklist box labels, so teachers can check the parse at a glance
+// Saved drafts may have been hand-edited into any shape, so every level is optional here
+const outlineOf = (structured: StructuredProtocolTemplate): string[] => {
+  if ('checklist' in structured && structured.checklist) {
+    const required = structured.completionCriteria?.requiredBoxes ?? [];
+    return [
+      ...(structured.checklist.frame ?? []),
+      ...(structured.checklist.content ?? []),
+      ...(structured.checklist.avslut ?? [])
+    ].map(box => `${box.id} ${box.label}${required.includes(box.id) ? ' (required)' : ''}`);
+  }
+  return 'categories' in structured && Array.isArray(structured.categories)
+    ? structured.categories.map(category => category.label)
+    : [];
+};
+
+const ProtocolReview: React.FC<ProtocolReviewProps> = ({ documentId }) => {
+  const { toast } = useToast();
+  const [protocol, setProtocol] = useState<ParsedProtocol | null>(null);
+  const [draft, setDraft] = useState('');
+  const [parseType, setParseType] = useState<ProtocolTemplateType | 'auto'>('auto');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const showProtocol = useCallback((next: ParsedProtocol) => {
+    setProtocol(next);
+    setDraft(next.structured ? JSON.stringify(next.structured, null, 2) : '');
+  }, []);
+
+  const loadProtocol = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { protocol: existing } = await protocolApi.get(documentId);
+      showProtocol(existing);
+    } catch (error) {
+      // Not parsed yet
+      if (!(error instanceof BasisApiError && error.statusCode === 404)) {
+        toast({
+          title: "Error",
+          description: "Failed to load protocol",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId, showProtocol, toast]);
+
+  useEffect(() => {
+    loadProtocol();
+  }, [loadProtocol]);
+
+  const run = async (action: () => Promise<{ protocol: ParsedProtocol }>, failureMessage: string, success?: string) => {
+    setSaving(true);
+    try {
+      const { protocol: next } = await action();
+      showProtocol(next);
+      if (success) {
+        toast({ title: success });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failureMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Parsing a published protocol again takes it out of new sessions, so it is confirmed first
+  const handleParse = () => run(
+    () => protocolApi.parse({
+      documentId,
+      ...(parseType !== 'auto' ? { type: parseType } : {}),
+      ...(protocol?.status === 'published' ? { replacePublished: true } : {})
+    }),
+    'Failed to parse protocol document',
+    'Document parsed'
+  );
+
+  const handleSave = () => {
+    let structured: StructuredProtocolTemplate;
+    try {
+      structured = JSON.parse(draft);
+    } catch {
+      toast({
+        title: "Invalid JSON",
+        description: "Fix the template syntax before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+    run(() => protocolApi.update(documentId, structured), 'Failed to save protocol', 'Changes saved');
+  };
+
+  const handlePublish = () => run(
+    () => protocolApi.publish(documentId),
+    'Failed to publish protocol',
+    'Protocol published – new sessions use the structured version'
+  );
+
+  if (loading && !protocol) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading protocol...</span>
+      </div>
+    );
+  }
+
+  const savedDraft = protocol?.structured ? JSON.stringify(protocol.structured, null, 2) : '';
+  const dirty = draft !== savedDraft;
+
+  return (
+    <div className="space-y-6">
+      {/* Parse (or re-parse) the uploaded document */}
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label>Template type</Label>
+          <Select value={parseType} onValueChange={(value) => setParseType(value as ProtocolTemplateType | 'auto')}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect from document</SelectItem>
+              {(Object.keys(TYPE_LABELS) as ProtocolTemplateType[]).map(type => (
+                <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {protocol?.status === 'published' ? (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+                Parse again
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Replace the published protocol?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The new parse is a draft. New sessions use the document text instead of this protocol
+                  until the draft is published again.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleParse}>Parse again</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        ) : (
+          <Button variant={protocol ? 'outline' : 'default'} onClick={handleParse} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+            {protocol ? 'Parse again' : 'Parse document'}
+          </Button>
+        )}
+      </div>
+      {protocol?.status === 'published' && (
+        <p className="text-xs text-muted-foreground">
+          Parsing again or saving changes turns the protocol back into a draft until it is published again.
+        </p>
+      )}
+
+      {protocol && (
+        <>
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{protocol.name}</span>
+              <span className="text-sm text-muted-foreground">v{protocol.version}</span>
+              <Badge variant="outline">{TYPE_LABELS[protocol.type]}</Badge>
+              <Badge variant={protocol.status === 'published' ? 'default' : 'secondary'}>
+                {protocol.status === 'published' ? 'Published' : 'Draft'}
+              </Badge>
+            </div>
+            {protocol.structured && (
+              <ul className="text-sm list-disc pl-5 space-y-1">
+                {outlineOf(protocol.structured).map((label, index) => (
+                  <li key={index}>{label}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Validator results for the saved template */}
+          {protocol.validationErrors.length > 0 ? (
+            <div className="space-y-2 p-3 border border-destructive/50 rounded-lg">
+              <h4 className="text-sm font-semibold flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                Fix before publishing
+              </h4>
+              <ul className="text-sm space-y-1">
+                {protocol.validationErrors.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm flex items-center gap-2 text-green-600">
+              <CheckCircle className="h-4 w-4" />
+              The template passes validation
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="protocol-template">Structured template (JSON)</Label>
+            <Textarea
+              id="protocol-template"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={18}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleSave} disabled={!dirty || saving}>
+              <Save className="h-4 w-4 mr-2" />
+              Save changes
+            </Button>
+            <Button
+              onClick={handlePublish}
+              disabled={dirty || saving || protocol.validationErrors.length > 0 || protocol.status === 'published'}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Publish
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolReview;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { retentionApi } from '@/lib/api';
+import { RetentionAction, SessionRetentionPolicy, validateRetentionPolicy } from '@/types/sessionLifecycle';
+import { Archive, Loader2, Play, Save } from 'lucide-react';
+
+// When ended sessions are archived, and when archived ones are purged or anonymized
+const SessionRetentionCard: React.FC = () => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<SessionRetentionPolicy | null>(null);
+  const [settings, setSettings] = useState({ archiveAfterDays: '', retentionDays: '', action: 'anonymize' as RetentionAction });
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const showPolicy = (loaded: SessionRetentionPolicy) => {
+    setPolicy(loaded);
+    setSettings({
+      archiveAfterDays: loaded.archiveAfterDays.toString(),
+      retentionDays: loaded.retentionDays?.toString() ?? '',
+      action: loaded.action
+    });
+  };
+
+  useEffect(() => {
+    retentionApi.get()
+      .then(result => showPolicy(result.policy))
+      .catch(error => {
+        console.error('Failed to load retention policy:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the retention policy",
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  const handleSave = async () => {
+    const update = {
+      archiveAfterDays: Number(settings.archiveAfterDays),
+      retentionDays: settings.retentionDays.trim() ? Number(settings.retentionDays) : null,
+      action: settings.action
+    };
+
+    const errors = validateRetentionPolicy(update);
+    if (errors.length > 0) {
+      toast({
+        title: "Invalid policy",
+        description: errors.join('; '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await retentionApi.update(update);
+      showPolicy(result.policy);
+      toast({ title: "Retention policy saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save the retention policy',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const { result } = await retentionApi.apply();
+      toast({
+        title: "Retention policy applied",
+        description: `${result.expired} expired, ${result.archived} archived, ${result.purged} purged, ${result.anonymized} anonymized`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to apply the retention policy',
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Session Retention
+        </CardTitle>
+        <CardDescription>
+          Ended sessions keep their transcript and review. They are archived after the archive period,
+          then purged or anonymized once the retention period has passed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!policy ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading policy...</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="archive-after-days">Archive after (days)</Label>
+                <Input
+                  id="archive-after-days"
+                  type="number"
+                  min={0}
+                  value={settings.archiveAfterDays}
+                  onChange={(e) => setSettings({ ...settings, archiveAfterDays: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retention-days">Keep archived sessions (days)</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={0}
+                  placeholder="Indefinitely"
+                  value={settings.retentionDays}
+                  onChange={(e) => setSettings({ ...settings, retentionDays: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Afterwards</Label>
+                <Select
+                  value={settings.action}
+                  onValueChange={(value) => setSettings({ ...settings, action: value as RetentionAction })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="anonymize">Anonymize (keep for research)</SelectItem>
+                    <SelectItem value="purge">Purge</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {policy.updatedAt && (
+              <p className="text-xs text-muted-foreground">
+                Last changed {new Date(policy.updatedAt).toLocaleString()}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save policy
+              </Button>
+              <Button variant="outline" onClick={handleApply} disabled={applying}>
+                {applying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Apply now
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionRetentionCard;
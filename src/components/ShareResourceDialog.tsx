@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { shareApi } from '@/lib/api';
+import { ResourceShare, ResourceType, SharePermission } from '@/types/ownership';
+import { Loader2, Share2, X } from 'lucide-react';
+
+interface ShareResourceDialogProps {
+  resourceType: ResourceType;
+  resourceId: string;
+  /** Shown in the dialog title */
+  resourceName: string;
+}
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  edit: 'Can edit'
+};
+
+// Owner-only: share a resource with colleagues by their sign-in e-mail
+const ShareResourceDialog: React.FC<ShareResourceDialogProps> = ({ resourceType, resourceId, resourceName }) => {
+  const { toast } = useToast();
+  const [shares, setShares] = useState<ResourceShare[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<SharePermission>('view');
+  const [busy, setBusy] = useState(false);
+
+  const loadShares = async () => {
+    try {
+      setShares(await shareApi.list(resourceType, resourceId));
+    } catch (error) {
+      console.error('Failed to load shares:', error);
+      setShares([]);
+      toast({
+        title: "Error",
+        description: "Failed to load colleagues",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setShares(null);
+      loadShares();
+    }
+  };
+
+  const handleShare = async () => {
+    setBusy(true);
+    try {
+      const share = await shareApi.share({ resourceType, resourceId, email: email.trim(), permission });
+      setShares(current => [...(current ?? []).filter(existing => existing.id !== share.id), share]);
+      setEmail('');
+      toast({ title: `Shared with ${share.granteeEmail ?? email.trim()}` });
+    } catch (error) {
+      toast({
+        title: "Could not share",
+        description: error instanceof Error ? error.message : "Check the e-mail address",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnshare = async (share: ResourceShare) => {
+    try {
+      await shareApi.unshare(share.id);
+      setShares(current => (current ?? []).filter(existing => existing.id !== share.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove colleague",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share: {resourceName}</DialogTitle>
+          <DialogDescription>
+            Colleagues who can view see it under "Shared with me"; colleagues who can edit may also change it.
+            {(resourceType === 'exercise' || resourceType === 'lesson') && ' Its access codes are shared too.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor={`share-email-${resourceId}`}>Colleague e-mail</Label>
+            <Input
+              id={`share-email-${resourceId}`}
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@school.se"
+            />
+          </div>
+          <Select value={permission} onValueChange={(value) => setPermission(value as SharePermission)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="view">{PERMISSION_LABELS.view}</SelectItem>
+              <SelectItem value="edit">{PERMISSION_LABELS.edit}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleShare} disabled={busy || !email.trim()}>
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Share'}
+          </Button>
+        </div>
+
+        {shares === null ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : shares.length > 0 ? (
+          <div className="space-y-2">
+            {shares.map(share => (
+              <div key={share.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                <span>{share.granteeEmail ?? share.granteeId}</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{PERMISSION_LABELS[share.permission]}</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => handleUnshare(share)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Not shared with anyone yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareResourceDialog;
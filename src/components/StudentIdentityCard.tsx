@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { studentApi, BasisApiError } from '@/lib/api';
+import { clearStudentIdentity, loadStudentIdentity, saveStudentIdentity, StoredStudentIdentity } from '@/lib/studentIdentity';
+import { StudentSessionSummary } from '@/types/students';
+import { Copy, History, KeyRound, Loader2, LogOut, Play, UserPlus } from 'lucide-react';
+
+interface StudentIdentityCardProps {
+  /** Continue an active session from the history, also one started on another device */
+  onResume?: (session: StudentSessionSummary) => void;
+}
+
+// Only active exercise and lesson sessions can be continued
+const canResume = (session: StudentSessionSummary) =>
+  session.status === 'active' && session.mode !== 'transcript';
+
+const StudentIdentityCard: React.FC<StudentIdentityCardProps> = ({ onResume }) => {
+  const { toast } = useToast();
+  const [identity, setIdentity] = useState<StoredStudentIdentity | null>(() => loadStudentIdentity());
+  const [history, setHistory] = useState<StudentSessionSummary[]>([]);
+  const [joinToken, setJoinToken] = useState('');
+  const [pseudonym, setPseudonym] = useState('');
+  const [studentKey, setStudentKey] = useState('');
+  const [showKey, setShowKey] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const signOut = useCallback(() => {
+    clearStudentIdentity();
+    setIdentity(null);
+    setHistory([]);
+    setShowKey(false);
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const { sessions } = await studentApi.history();
+      setHistory(sessions);
+    } catch (error) {
+      // The key no longer exists (e.g. the class was removed)
+      if (error instanceof BasisApiError && error.statusCode === 401) {
+        signOut();
+        toast({
+          title: "Signed out",
+          description: "Your student key is no longer valid. Join your class again.",
+          variant: "destructive",
+        });
+      }
+    }
+  }, [signOut, toast]);
+
+  useEffect(() => {
+    if (identity) {
+      loadHistory();
+    }
+  }, [identity, loadHistory]);
+
+  const handleEnroll = async () => {
+    setBusy(true);
+    try {
+      const enrollment = await studentApi.enroll({ joinToken, pseudonym });
+      saveStudentIdentity(enrollment);
+      setIdentity(enrollment);
+      setShowKey(true);
+      setJoinToken('');
+      setPseudonym('');
+      toast({
+        title: `Welcome, ${enrollment.student.pseudonym}`,
+        description: "Save your student key to continue on another device",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not join class",
+        description: error instanceof Error ? error.message : "Please check the join token",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignIn = async () => {
+    setBusy(true);
+    try {
+      const key = studentKey.trim().toUpperCase();
+      const { student } = await studentApi.signIn(key);
+      const next = { studentKey: key, student };
+      saveStudentIdentity(next);
+      setIdentity(next);
+      setStudentKey('');
+    } catch (error) {
+      toast({
+        title: "Unknown student key",
+        description: "Check the key or join your class again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!identity) return;
+    await navigator.clipboard.writeText(identity.studentKey);
+    toast({ title: "Student key copied" });
+  };
+
+  if (identity) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {identity.student.pseudonym}
+            <Badge variant="outline">{identity.student.className}</Badge>
+          </CardTitle>
+          <CardDescription>
+            New sessions are saved under your pseudonym. Use your student key to see them on another device.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Student key:</span>
+            <span className="font-mono">{showKey ? identity.studentKey : 'STU-••••-••••-••••'}</span>
+            <Button variant="ghost" size="sm" onClick={() => setShowKey(!showKey)}>
+              {showKey ? 'Hide' : 'Show'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={copyKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {history.length > 0 ? (
+            <div className="space-y-2">
+              {history.map(session => (
+                <div key={session.sessionId} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium">{session.title}</div>
+                    <div className="text-muted-foreground">
+                      {new Date(session.startedAt).toLocaleString()} · {session.studentTurns} turns
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{session.lessonCode ?? session.exerciseCode ?? session.mode}</Badge>
+                    {onResume && canResume(session) && (
+                      <Button size="sm" onClick={() => onResume(session)}>
+                        <Play className="h-4 w-4 mr-1" />
+                        Resume
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No sessions yet.</p>
+          )}
+
+          <Button variant="outline" size="sm" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out on this device
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Join your class
+        </CardTitle>
+        <CardDescription>
+          Optional: keep your sessions under a pseudonym so you and your teacher can follow them. Do not use your real name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="join">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="join">Join with class token</TabsTrigger>
+            <TabsTrigger value="key">I have a student key</TabsTrigger>
+          </TabsList>
+          <TabsContent value="join" className="space-y-4 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="join-token">Class join token</Label>
+              <Input
+                id="join-token"
+                value={joinToken}
+                onChange={(e) => setJoinToken(e.target.value.toUpperCase())}
+                placeholder="KL-XXXXXXXX"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pseudonym">Pseudonym</Label>
+              <Input
+                id="pseudonym"
+                value={pseudonym}
+                onChange={(e) => setPseudonym(e.target.value)}
+                placeholder="e.g. Blue Heron"
+                maxLength={40}
+              />
+            </div>
+            <Button onClick={handleEnroll} disabled={busy || !joinToken.trim() || pseudonym.trim().length < 2}>
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+              Join class
+            </Button>
+          </TabsContent>
+          <TabsContent value="key" className="space-y-4 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="student-key">Student key</Label>
+              <Input
+                id="student-key"
+                value={studentKey}
+                onChange={(e) => setStudentKey(e.target.value.toUpperCase())}
+                placeholder="STU-XXXX-XXXX-XXXX"
+                className="font-mono"
+              />
+            </div>
+            <Button onClick={handleSignIn} disabled={busy || !studentKey.trim()}>
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+              Continue
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentIdentityCard;
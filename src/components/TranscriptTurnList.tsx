@@ -0,0 +1,120 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AnalystResponse } from '@/types/basis';
+import { ParsedTranscript, TranscriptSegmentFeedback, TranscriptSpeakerRole } from '@/types/transcript';
+
+interface TranscriptTurnListProps {
+  transcript: ParsedTranscript;
+  /** Speaker confirmed as the practitioner; roles shown follow this choice */
+  studentSpeaker?: string;
+  onStudentSpeakerChange?: (speaker: string) => void;
+  /** Per-turn Analyst feedback keyed by segmentId */
+  segmentFeedback?: Record<string, TranscriptSegmentFeedback>;
+}
+
+const ROLE_LABELS: Record<TranscriptSpeakerRole, string> = {
+  student: 'Student',
+  counterpart: 'Motpart',
+  unknown: 'Okänd roll'
+};
+
+const UNKNOWN_SPEAKER = 'Okänd';
+
+const formatTimestamp = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const averageScore = (feedback: AnalystResponse) => {
+  const scores = Array.isArray(feedback.rubric)
+    ? feedback.rubric.map(entry => entry.score)
+    : Object.values(feedback.rubric ?? {});
+  return scores.length > 0 ? (scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1) : null;
+};
+
+const TranscriptTurnList: React.FC<TranscriptTurnListProps> = ({
+  transcript,
+  studentSpeaker,
+  onStudentSpeakerChange,
+  segmentFeedback = {}
+}) => {
+  const roleFor = (speaker: string, fallback: TranscriptSpeakerRole): TranscriptSpeakerRole => {
+    if (!studentSpeaker) return fallback;
+    if (speaker === studentSpeaker) return 'student';
+    return speaker === UNKNOWN_SPEAKER ? 'unknown' : 'counterpart';
+  };
+
+  const namedSpeakers = transcript.speakers.filter(speaker => speaker.name !== UNKNOWN_SPEAKER);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="uppercase">{transcript.format}</Badge>
+        {transcript.speakers.map(speaker => (
+          <Badge
+            key={speaker.name}
+            variant={roleFor(speaker.name, speaker.role) === 'student' ? 'default' : 'secondary'}
+          >
+            {speaker.name} · {ROLE_LABELS[roleFor(speaker.name, speaker.role)]} · {speaker.turnCount}
+          </Badge>
+        ))}
+      </div>
+
+      {onStudentSpeakerChange && namedSpeakers.length > 0 && (
+        <div className="space-y-2">
+          <Label>Which speaker are you?</Label>
+          <Select value={studentSpeaker} onValueChange={onStudentSpeakerChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select the practitioner" />
+            </SelectTrigger>
+            <SelectContent>
+              {namedSpeakers.map(speaker => (
+                <SelectItem key={speaker.name} value={speaker.name}>
+                  {speaker.name}
+                  {speaker.name === transcript.suggestedStudentSpeaker ? ' (suggested)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto space-y-2 border rounded-lg p-3">
+        {transcript.turns.map(turn => {
+          const segment = segmentFeedback[turn.segmentId];
+          const score = segment?.feedback ? averageScore(segment.feedback) : null;
+          return (
+            <div key={turn.segmentId} className="text-sm">
+              <span className="font-semibold">{turn.speaker}</span>
+              {turn.startMs !== undefined && (
+                <span className="ml-2 text-xs text-muted-foreground font-mono">{formatTimestamp(turn.startMs)}</span>
+              )}
+              <p className="text-muted-foreground">{turn.content}</p>
+              {segment?.feedback && (
+                <div className="mt-1 ml-4 p-2 rounded bg-analyst/10 border-l-2 border-analyst text-xs">
+                  {score && <Badge variant="outline" className="mr-2">{score}</Badge>}
+                  {segment.feedback.past_only_feedback || segment.feedback.feedback}
+                </div>
+              )}
+              {segment?.error && (
+                <p className="mt-1 ml-4 text-xs text-destructive">Analysis failed: {segment.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {transcript.warnings.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {transcript.warnings.length} block(s) could not be parsed and were skipped.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptTurnList;
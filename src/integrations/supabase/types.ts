@@ -38,26 +38,92 @@ export type Database = {
         }
         Relationships: []
       }
+      classes: {
+        Row: {
+          created_at: string
+          id: string
+          join_token: string
+          name: string
+          owner_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          join_token?: string
+          name: string
+          owner_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          join_token?: string
+          name?: string
+          owner_id?: string | null
+        }
+        Relationships: []
+      }
       codes: {
         Row: {
+          class_id: string | null
           created_at: string
+          expires_at: string | null
           id: string
+          max_sessions: number | null
+          owner_id: string | null
+          replaced_by: string | null
+          revoked_at: string | null
+          session_count: number
+          starts_at: string | null
           target_id: string
           type: string
+          updated_at: string
         }
         Insert: {
+          class_id?: string | null
           created_at?: string
+          expires_at?: string | null
           id: string
+          max_sessions?: number | null
+          owner_id?: string | null
+          replaced_by?: string | null
+          revoked_at?: string | null
+          session_count?: number
+          starts_at?: string | null
           target_id: string
           type: string
+          updated_at?: string
         }
         Update: {
+          class_id?: string | null
           created_at?: string
+          expires_at?: string | null
           id?: string
+          max_sessions?: number | null
+          owner_id?: string | null
+          replaced_by?: string | null
+          revoked_at?: string | null
+          session_count?: number
+          starts_at?: string | null
           target_id?: string
           type?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "codes_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "codes_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "codes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       documents: {
         Row: {
@@ -66,6 +132,7 @@ export type Database = {
           document_type: string
           file_name: string
           id: string
+          owner_id: string | null
           storage_path: string
         }
         Insert: {
@@ -74,6 +141,7 @@ export type Database = {
           document_type: string
           file_name: string
           id?: string
+          owner_id?: string | null
           storage_path: string
         }
         Update: {
@@ -82,6 +150,7 @@ export type Database = {
           document_type?: string
           file_name?: string
           id?: string
+          owner_id?: string | null
           storage_path?: string
         }
         Relationships: []
@@ -128,6 +197,8 @@ export type Database = {
           id: string
           instruction_document_id: string | null
           lesson_id: string | null
+          owner_id: string | null
+          protocol_stack: Json
           title: string
         }
         Insert: {
@@ -135,6 +206,8 @@ export type Database = {
           id?: string
           instruction_document_id?: string | null
           lesson_id?: string | null
+          owner_id?: string | null
+          protocol_stack?: Json
           title: string
         }
         Update: {
@@ -142,6 +215,8 @@ export type Database = {
           id?: string
           instruction_document_id?: string | null
           lesson_id?: string | null
+          owner_id?: string | null
+          protocol_stack?: Json
           title?: string
         }
         Relationships: [
@@ -161,20 +236,112 @@ export type Database = {
           },
         ]
       }
+      feedback_validation_logs: {
+        Row: {
+          agent_type: string
+          attempts: number
+          created_at: string
+          id: string
+          outcome: string
+          protocol_ids: string[]
+          session_id: string
+          violations: Json
+        }
+        Insert: {
+          agent_type: string
+          attempts?: number
+          created_at?: string
+          id?: string
+          outcome: string
+          protocol_ids?: string[]
+          session_id: string
+          violations?: Json
+        }
+        Update: {
+          agent_type?: string
+          attempts?: number
+          created_at?: string
+          id?: string
+          outcome?: string
+          protocol_ids?: string[]
+          session_id?: string
+          violations?: Json
+        }
+        Relationships: []
+      }
+      guardrail_rules: {
+        Row: {
+          agent_type: string
+          created_at: string
+          description: string | null
+          enabled: boolean
+          exercise_id: string
+          id: string
+          pattern: string | null
+          phrases: string[] | null
+          rule_type: string
+          severity: string
+          target_rule_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          agent_type: string
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          exercise_id: string
+          id?: string
+          pattern?: string | null
+          phrases?: string[] | null
+          rule_type: string
+          severity?: string
+          target_rule_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          agent_type?: string
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          exercise_id?: string
+          id?: string
+          pattern?: string | null
+          phrases?: string[] | null
+          rule_type?: string
+          severity?: string
+          target_rule_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardrail_rules_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lessons: {
         Row: {
           created_at: string
+          exercise_order: Json
           id: string
+          owner_id: string | null
           title: string
         }
         Insert: {
           created_at?: string
+          exercise_order?: Json
           id?: string
+          owner_id?: string | null
           title: string
         }
         Update: {
           created_at?: string
+          exercise_order?: Json
           id?: string
+          owner_id?: string | null
           title?: string
         }
         Relationships: []
@@ -212,8 +379,12 @@ export type Database = {
           id: string
           name: string
           raw_text: string
+          source_document_id: string | null
+          status: string
           structured_json: Json | null
           type: Database["public"]["Enums"]["protocol_type"]
+          updated_at: string
+          validation_errors: Json
           version: string | null
         }
         Insert: {
@@ -221,8 +392,12 @@ export type Database = {
           id?: string
           name: string
           raw_text: string
+          source_document_id?: string | null
+          status?: string
           structured_json?: Json | null
           type: Database["public"]["Enums"]["protocol_type"]
+          updated_at?: string
+          validation_errors?: Json
           version?: string | null
         }
         Update: {
@@ -230,43 +405,289 @@ export type Database = {
           id?: string
           name?: string
           raw_text?: string
+          source_document_id?: string | null
+          status?: string
           structured_json?: Json | null
           type?: Database["public"]["Enums"]["protocol_type"]
+          updated_at?: string
+          validation_errors?: Json
           version?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "protocols_source_document_id_fkey"
+            columns: ["source_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resource_shares: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          grantee_id: string
+          id: string
+          permission: string
+          resource_id: string
+          resource_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          grantee_id: string
+          id?: string
+          permission?: string
+          resource_id: string
+          resource_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          grantee_id?: string
+          id?: string
+          permission?: string
+          resource_id?: string
+          resource_type?: string
+        }
+        Relationships: []
+      }
+      session_retention_policy: {
+        Row: {
+          archive_after_days: number
+          id: boolean
+          retention_action: string
+          retention_days: number | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          archive_after_days?: number
+          id?: boolean
+          retention_action?: string
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          archive_after_days?: number
+          id?: boolean
+          retention_action?: string
+          retention_days?: number | null
+          updated_at?: string
+          updated_by?: string | null
+        }
         Relationships: []
       }
       sessions: {
         Row: {
+          anonymized_at: string | null
+          archived_at: string | null
+          ended_at: string | null
           exercise_id: string | null
           id: string
           last_activity_at: string
           lesson_id: string | null
           mode: string
+          review: Json | null
+          reviewed_at: string | null
           started_at: string
           state: Json
+          status: string
           student_id: string | null
         }
         Insert: {
+          anonymized_at?: string | null
+          archived_at?: string | null
+          ended_at?: string | null
           exercise_id?: string | null
           id?: string
           last_activity_at?: string
           lesson_id?: string | null
           mode: string
+          review?: Json | null
+          reviewed_at?: string | null
           started_at?: string
           state?: Json
+          status?: string
           student_id?: string | null
         }
         Update: {
+          anonymized_at?: string | null
+          archived_at?: string | null
+          ended_at?: string | null
           exercise_id?: string | null
           id?: string
           last_activity_at?: string
           lesson_id?: string | null
           mode?: string
+          review?: Json | null
+          reviewed_at?: string | null
           started_at?: string
           state?: Json
+          status?: string
           student_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "sessions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      students: {
+        Row: {
+          class_id: string
+          created_at: string
+          id: string
+          key_hash: string
+          last_seen_at: string
+          pseudonym: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          id?: string
+          key_hash: string
+          last_seen_at?: string
+          pseudonym: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          id?: string
+          key_hash?: string
+          last_seen_at?: string
+          pseudonym?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "students_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcript_review_job_items: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error_code: string | null
+          error_message: string | null
+          format: string | null
+          id: string
+          item_index: number
+          job_id: string
+          label: string
+          metadata: Json | null
+          result: Json | null
+          started_at: string | null
+          status: string
+          student_speaker: string | null
+          transcript: string | null
+          turns: Json | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error_code?: string | null
+          error_message?: string | null
+          format?: string | null
+          id?: string
+          item_index: number
+          job_id: string
+          label: string
+          metadata?: Json | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          student_speaker?: string | null
+          transcript?: string | null
+          turns?: Json | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error_code?: string | null
+          error_message?: string | null
+          format?: string | null
+          id?: string
+          item_index?: number
+          job_id?: string
+          label?: string
+          metadata?: Json | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          student_speaker?: string | null
+          transcript?: string | null
+          turns?: Json | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_review_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "transcript_review_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcript_review_jobs: {
+        Row: {
+          completed_items: number
+          created_at: string
+          exercise_config: Json | null
+          failed_items: number
+          finished_at: string | null
+          id: string
+          owner_id: string | null
+          protocol_ids: string[]
+          started_at: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+        Insert: {
+          completed_items?: number
+          created_at?: string
+          exercise_config?: Json | null
+          failed_items?: number
+          finished_at?: string | null
+          id?: string
+          owner_id?: string | null
+          protocol_ids?: string[]
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_items?: number
+          created_at?: string
+          exercise_config?: Json | null
+          failed_items?: number
+          finished_at?: string | null
+          id?: string
+          owner_id?: string | null
+          protocol_ids?: string[]
+          started_at?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
         Relationships: []
       }
     }
@@ -274,7 +695,19 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_access_resource: {
+        Args: {
+          _edit?: boolean
+          _owner_id: string
+          _resource_id: string
+          _resource_type: string
+        }
+        Returns: boolean
+      }
+      teacher_id_by_email: {
+        Args: { _email: string }
+        Returns: string
+      }
     }
     Enums: {
       protocol_type: "base" | "content" | "process"
@@ -13,8 +13,27 @@ import {
   SessionInputRequest,
   TranscriptReviewRequest,
   AgentResponseSet,
+  SessionReviewResult,
   BasisError
 } from '@/types/basis';
+import type { BBICCoverage } from '@/types/bbicTemplate';
+import type { GuardrailRuleDefinition } from '@/types/guardrailRules';
+import type { ProtocolStackEntry, ProtocolStackValidation } from '@/types/protocolStack';
+import type { ParsedProtocol, ParseProtocolRequest, ProtocolSummary, StructuredProtocolTemplate } from '@/types/protocolParsing';
+import type { ParsedTranscript, TranscriptImportRequest, TranscriptSegmentFeedback, TranscriptTurn } from '@/types/transcript';
+import type { CreateReviewJobRequest, ReviewJob, ReviewJobItemDetail, ReviewJobItemResult, ReviewJobWithItems } from '@/types/reviewJobs';
+import type { AccessCode, AccessCodeUpdate, ClassGroup } from '@/types/accessCodes';
+import type { EnrollStudentRequest, StudentEnrollment, StudentProfile, StudentResults, StudentSessionSummary } from '@/types/students';
+import type { ResourceShare, ResourceType, ShareResourceRequest } from '@/types/ownership';
+import {
+  RESUME_TOKEN_HEADER,
+  SOCKET_RESUME_TOKEN_PARAM,
+  SOCKET_STUDENT_KEY_PARAM,
+  type ResumeSessionResponse
+} from '@/types/sessionResume';
+import type { RetentionRunResult, SessionRetentionPolicy, SessionRetentionPolicyUpdate } from '@/types/sessionLifecycle';
+import { loadStudentIdentity, studentKeyHeaders } from '@/lib/studentIdentity';
+import { resumeTokenFor, resumeTokenHeaders } from '@/lib/sessionResume';
 
 const SUPABASE_FUNCTIONS_URL = "https://ammawhrjbwqmwhsbdjoa.supabase.co/functions/v1";
 
@@ -35,6 +54,24 @@ const API_BASE_URL = getApiBaseUrl();
 // Check if we're using Supabase Edge Functions
 const isUsingSupabaseFunctions = API_BASE_URL.includes('supabase.co/functions');
 
+// Token streaming is served by the Express backend's session WebSocket only
+export const supportsSessionStreaming = !isUsingSupabaseFunctions;
+
+// Lesson progression (advance/review per exercise) is served by the Express backend only
+export const supportsLessonProgression = !isUsingSupabaseFunctions;
+
+// Transcript file import (SRT/VTT/DOCX) is served by the Express backend only
+export const supportsTranscriptImport = !isUsingSupabaseFunctions;
+
+// Background batch review jobs are queued and processed by the Express backend only
+export const supportsReviewJobs = !isUsingSupabaseFunctions;
+
+// Protocol stack compatibility checks need the Express backend's protocol registry
+export const supportsProtocolStackValidation = !isUsingSupabaseFunctions;
+
+// Parsing protocol documents into reviewed templates is served by the Express backend only
+export const supportsProtocolReview = !isUsingSupabaseFunctions;
+
 // Error handling utility
 class BasisApiError extends Error {
   constructor(
@@ -55,7 +92,8 @@ async function supabaseApiRequest<T>(
 ): Promise<T> {
   try {
     const { data, error } = await supabase.functions.invoke(functionName, {
-      body
+      body,
+      headers: studentKeyHeaders()
     });
     
     if (error) {
@@ -88,13 +126,19 @@ async function apiRequest<T>(
   options: RequestInit = {}
 ): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
-  
+
+  // Signed-in teachers send their access token so responses include rubric scores
+  const { data: { session } } = await supabase.auth.getSession();
+
   const config: RequestInit = {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      // Enrolled students identify themselves with their student key
+      ...studentKeyHeaders(),
       ...options.headers,
     },
-    ...options,
   };
 
   try {
@@ -268,35 +312,62 @@ export const sessionApi = {
     }
   },
 
+  // Calls on a running session carry its resume token (or the student key) so only the
+  // student who started it can use it
+
   // Send user input to session
   async sendInput(sessionId: string, input: SessionInputRequest): Promise<{
     session: Session;
     aiResponse?: string;
     agentFeedback: AgentResponseSet;
+    coverage?: BBICCoverage[];
   }> {
     if (isUsingSupabaseFunctions) {
       return supabaseApiRequest('session', {
         action: 'sendInput',
         sessionId,
+        resumeToken: resumeTokenFor(sessionId),
         ...input
       });
     } else {
       return apiRequest(`/session/${sessionId}/input`, {
         method: 'POST',
+        headers: resumeTokenHeaders(sessionId),
         body: JSON.stringify(input),
       });
     }
   },
 
-  // Get session state
-  async get(sessionId: string): Promise<Session> {
+  // Move a lesson session to its next exercise; fails with LESSON_COMPLETE after the last one
+  async advance(sessionId: string): Promise<{ session: Session; initialGuidance?: AgentResponseSet }> {
+    return apiRequest(`/session/${sessionId}/advance`, {
+      method: 'POST',
+      headers: resumeTokenHeaders(sessionId),
+    });
+  },
+
+  // Reviewer feedback for one lesson exercise, or the whole session when exerciseIndex is omitted
+  async review(sessionId: string, exerciseIndex?: number): Promise<SessionReviewResult> {
+    return apiRequest(`/session/${sessionId}/review`, {
+      method: 'POST',
+      headers: resumeTokenHeaders(sessionId),
+      body: JSON.stringify(exerciseIndex === undefined ? {} : { exerciseIndex }),
+    });
+  },
+
+  // Conversation and latest feedback of a running session, to resume it after a reload
+  // Only the student who started it gets it back (resume token or student key)
+  async get(sessionId: string, resumeToken?: string): Promise<ResumeSessionResponse> {
     if (isUsingSupabaseFunctions) {
       return supabaseApiRequest('session', {
         action: 'get',
-        sessionId
+        sessionId,
+        resumeToken
       });
     } else {
-      return apiRequest(`/session/${sessionId}`);
+      return apiRequest(`/session/${sessionId}`, {
+        headers: resumeToken ? { [RESUME_TOKEN_HEADER]: resumeToken } : {},
+      });
     }
   },
 
@@ -311,7 +382,8 @@ export const sessionApi = {
     if (isUsingSupabaseFunctions) {
       return supabaseApiRequest('session', {
         action: 'getSummary',
-        sessionId
+        sessionId,
+        resumeToken: resumeTokenFor(sessionId)
       });
     } else {
       return apiRequest(`/session/${sessionId}/summary`);
@@ -325,7 +397,10 @@ export const sessionApi = {
   }> {
     if (isUsingSupabaseFunctions) {
       try {
-        return supabaseApiRequest('end-session-and-review', { session_id: sessionId });
+        return supabaseApiRequest('end-session-and-review', {
+          session_id: sessionId,
+          resumeToken: resumeTokenFor(sessionId)
+        });
       } catch (error: any) {
         if (error instanceof BasisApiError) throw error;
         throw new BasisApiError(500, 'NETWORK_ERROR', 'Network error ending session');
@@ -333,6 +408,7 @@ export const sessionApi = {
     } else {
       return apiRequest(`/session/${sessionId}/end`, {
         method: 'POST',
+        headers: resumeTokenHeaders(sessionId),
       });
     }
   },
@@ -342,11 +418,13 @@ export const sessionApi = {
     if (isUsingSupabaseFunctions) {
       return supabaseApiRequest('session', {
         action: 'end',
-        sessionId
+        sessionId,
+        resumeToken: resumeTokenFor(sessionId)
       });
     } else {
       return apiRequest(`/session/${sessionId}`, {
         method: 'DELETE',
+        headers: resumeTokenHeaders(sessionId),
       });
     }
   },
@@ -360,6 +438,8 @@ export const transcriptApi = {
     metadata: {
       wordCount: number;
       estimatedDuration: number;
+      turnCount?: number;
+      speakers?: string[];
       analysisTimestamp: Date;
     };
   }> {
@@ -375,19 +455,111 @@ export const transcriptApi = {
       });
     }
   },
+
+  // Parse an SRT/VTT/DOCX file or speaker-labelled text into turns (Express only)
+  async import(request: TranscriptImportRequest): Promise<{ transcript: ParsedTranscript }> {
+    return apiRequest('/transcript/import', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
+  // Retrospective Analyst feedback per student turn of an imported transcript (Express only)
+  async analyzeTurns(request: {
+    turns: TranscriptTurn[];
+    studentSpeaker?: string;
+    segmentIds?: string[];
+    protocolIds?: string[];
+  }): Promise<{
+    segments: TranscriptSegmentFeedback[];
+    summary: { total: number; successful: number; failed: number; analysisTime: number };
+  }> {
+    return apiRequest('/transcript/analyze-turns', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+};
+
+// Batch Review Jobs API (Express only)
+export const reviewJobApi = {
+  // Queue transcripts for background review; returns immediately with the queued job
+  async create(request: CreateReviewJobRequest): Promise<{ job: ReviewJobWithItems }> {
+    return apiRequest('/transcript/jobs', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
+  async list(): Promise<{ jobs: ReviewJob[] }> {
+    return apiRequest('/transcript/jobs');
+  },
+
+  // Status and per-item progress, for polling
+  async get(jobId: string): Promise<{ job: ReviewJobWithItems }> {
+    return apiRequest(`/transcript/jobs/${jobId}`);
+  },
+
+  async results(jobId: string): Promise<{ job: ReviewJob & { items: ReviewJobItemResult[] } }> {
+    return apiRequest(`/transcript/jobs/${jobId}/results`);
+  },
+
+  // One item with its transcript turns, for reports
+  async item(jobId: string, itemId: string): Promise<{ item: ReviewJobItemDetail }> {
+    return apiRequest(`/transcript/jobs/${jobId}/items/${itemId}`);
+  },
+
+  // Requeue failed items; all of them unless itemIds is given
+  async retry(jobId: string, itemIds?: string[]): Promise<{ job: ReviewJobWithItems }> {
+    return apiRequest(`/transcript/jobs/${jobId}/retry`, {
+      method: 'POST',
+      body: JSON.stringify({ itemIds }),
+    });
+  },
 };
 
 // Protocol API (for managing rubrics and evaluation criteria)
 export const protocolApi = {
-  // Get all available protocols
-  async list(): Promise<Array<{ id: string; name: string; version: string }>> {
+  // Get all stored protocols, drafts included (teachers only)
+  async list(): Promise<{ protocols: ProtocolSummary[] }> {
     return apiRequest('/protocols');
   },
 
-  // Get specific protocol details
-  async get(protocolId: string): Promise<any> {
+  // Get a protocol's structured template and validation errors (teachers only)
+  async get(protocolId: string): Promise<{ protocol: ParsedProtocol }> {
     return apiRequest(`/protocols/${protocolId}`);
   },
+
+  // Parse an uploaded protocol document into a draft template
+  async parse(request: ParseProtocolRequest): Promise<{ protocol: ParsedProtocol }> {
+    return apiRequest('/protocols/parse', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
+  // Save corrections to a draft; the template is re-validated
+  async update(protocolId: string, structured: StructuredProtocolTemplate): Promise<{ protocol: ParsedProtocol }> {
+    return apiRequest(`/protocols/${protocolId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ structured }),
+    });
+  },
+
+  // Publish a draft that passes validation so sessions use it
+  async publish(protocolId: string): Promise<{ protocol: ParsedProtocol }> {
+    return apiRequest(`/protocols/${protocolId}/publish`, {
+      method: 'POST',
+    });
+  },
+
+  // Check an exercise's protocol stack for overlaps, rule conflicts and unsupported combinations
+  async validateStack(stack: ProtocolStackEntry[]): Promise<ProtocolStackValidation> {
+    return apiRequest('/protocols/stack/validate', {
+      method: 'POST',
+      body: JSON.stringify({ stack }),
+    });
+  },
 };
 
 // Health check and diagnostics
@@ -414,21 +586,174 @@ export const systemApi = {
   }> {
     return apiRequest('/config');
   },
+
+  // Reload model tiers now instead of when the server's model cache expires.
+  // Edge functions keep their own short-lived cache per instance.
+  async invalidateModels(): Promise<void> {
+    if (isUsingSupabaseFunctions) {
+      return;
+    }
+    await apiRequest('/models/invalidate', {
+      method: 'POST',
+    });
+  },
 };
 
 // Add other API endpoints as needed
 export const codeApi = {
-  list: async () => {
+  list: async (): Promise<AccessCode[]> => {
     try {
-      return await supabaseApiRequest<any[]>('codes', { action: 'list' });
+      return await supabaseApiRequest<AccessCode[]>('codes', { action: 'list' });
     } catch (error) {
       console.error('Failed to fetch codes:', error);
       throw error;
     }
+  },
+
+  // Validity window, session limit and class; null clears a setting
+  update: async (codeId: string, settings: AccessCodeUpdate): Promise<AccessCode> => {
+    return supabaseApiRequest('codes', { action: 'update', codeId, settings });
+  },
+
+  revoke: async (codeId: string): Promise<AccessCode> => {
+    return supabaseApiRequest('codes', { action: 'revoke', codeId });
+  },
+
+  // Revokes the code and issues a replacement with the same settings
+  regenerate: async (codeId: string): Promise<{ code: AccessCode; replaced: AccessCode }> => {
+    return supabaseApiRequest('codes', { action: 'regenerate', codeId });
+  },
+
+  listClasses: async (): Promise<ClassGroup[]> => {
+    return supabaseApiRequest('codes', { action: 'listClasses' });
+  },
+
+  createClass: async (name: string): Promise<ClassGroup> => {
+    return supabaseApiRequest('codes', { action: 'createClass', name });
   }
 };
 
-// WebSocket connection for real-time features (future implementation)
+// Pseudonymous student identities; the stored student key is sent automatically
+export const studentApi = {
+  // Join a class; the returned studentKey must be stored (see saveStudentIdentity)
+  async enroll(request: EnrollStudentRequest): Promise<StudentEnrollment> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('students', { action: 'enroll', ...request });
+    }
+    return apiRequest('/students/enroll', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  },
+
+  // Student for a key entered on another device
+  async signIn(studentKey: string): Promise<{ student: StudentProfile }> {
+    const headers = { 'X-Student-Key': studentKey.trim().toUpperCase() };
+    if (isUsingSupabaseFunctions) {
+      const { data, error } = await supabase.functions.invoke('students', { body: { action: 'me' }, headers });
+      if (error) {
+        throw new BasisApiError(error.status || 401, 'STUDENT_KEY_INVALID', 'The student key is not recognised');
+      }
+      return data;
+    }
+    return apiRequest('/students/me', { headers });
+  },
+
+  async history(): Promise<{ sessions: StudentSessionSummary[] }> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('students', { action: 'history' });
+    }
+    return apiRequest('/students/me/sessions');
+  },
+
+  // Sessions per student of a class (teachers only)
+  async classResults(classId: string): Promise<{ classId: string; students: StudentResults[] }> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('students', { action: 'classResults', classId });
+    }
+    return apiRequest(`/students?classId=${encodeURIComponent(classId)}`);
+  }
+};
+
+// Department-wide session retention policy (teachers only)
+export const retentionApi = {
+  async get(): Promise<{ policy: SessionRetentionPolicy }> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('session-retention', { action: 'get' });
+    }
+    return apiRequest('/retention');
+  },
+
+  async update(policy: SessionRetentionPolicyUpdate): Promise<{ policy: SessionRetentionPolicy }> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('session-retention', {
+        action: 'update',
+        archiveAfterDays: policy.archiveAfterDays,
+        retentionDays: policy.retentionDays,
+        retentionAction: policy.action
+      });
+    }
+    return apiRequest('/retention', {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  },
+
+  // Expire, archive and purge or anonymize now instead of at the next scheduled run
+  async apply(): Promise<{ result: RetentionRunResult }> {
+    if (isUsingSupabaseFunctions) {
+      return supabaseApiRequest('session-retention', { action: 'apply' });
+    }
+    return apiRequest('/retention/apply', {
+      method: 'POST',
+    });
+  }
+};
+
+// Sharing exercises, lessons, documents and classes with colleagues (owner only)
+export const shareApi = {
+  list: async (resourceType: ResourceType, resourceId: string): Promise<ResourceShare[]> => {
+    return supabaseApiRequest('sharing', { action: 'list', resourceType, resourceId });
+  },
+
+  // Sharing again with the same colleague changes the permission
+  share: async (request: ShareResourceRequest): Promise<ResourceShare> => {
+    return supabaseApiRequest('sharing', { action: 'share', ...request });
+  },
+
+  unshare: async (shareId: string): Promise<{ success: boolean; id: string }> => {
+    return supabaseApiRequest('sharing', { action: 'unshare', shareId });
+  }
+};
+
+// Guardrail rules attached to an exercise (teacher-managed)
+export interface ExerciseGuardrailRule extends GuardrailRuleDefinition {
+  exerciseId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GuardrailRuleInput = Omit<GuardrailRuleDefinition, 'id'>;
+
+export const guardrailRuleApi = {
+  list: async (exerciseId: string): Promise<ExerciseGuardrailRule[]> => {
+    return supabaseApiRequest('guardrail-rules', { action: 'list', exerciseId });
+  },
+
+  create: async (exerciseId: string, rule: GuardrailRuleInput): Promise<ExerciseGuardrailRule> => {
+    return supabaseApiRequest('guardrail-rules', { action: 'create', exerciseId, rule });
+  },
+
+  update: async (ruleId: string, rule: Partial<GuardrailRuleInput>): Promise<ExerciseGuardrailRule> => {
+    return supabaseApiRequest('guardrail-rules', { action: 'update', ruleId, rule });
+  },
+
+  remove: async (ruleId: string): Promise<{ success: boolean; id: string }> => {
+    return supabaseApiRequest('guardrail-rules', { action: 'delete', ruleId });
+  }
+};
+
+// WebSocket connection for real-time session streaming
 export class BasisWebSocket {
   private ws: WebSocket | null = null;
   private sessionId: string;
@@ -440,11 +765,22 @@ export class BasisWebSocket {
 
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const wsUrl = API_BASE_URL.replace('http', 'ws') + `/ws/session/${this.sessionId}`;
+      // The server only accepts the student who started the session
+      const credentials = new URLSearchParams();
+      const resumeToken = resumeTokenFor(this.sessionId);
+      const identity = loadStudentIdentity();
+      if (resumeToken) credentials.set(SOCKET_RESUME_TOKEN_PARAM, resumeToken);
+      if (identity) credentials.set(SOCKET_STUDENT_KEY_PARAM, identity.studentKey);
+
+      const wsUrl = API_BASE_URL.replace('http', 'ws') + `/ws/session/${this.sessionId}?${credentials}`;
       this.ws = new WebSocket(wsUrl);
 
       this.ws.onopen = () => resolve();
       this.ws.onerror = (error) => reject(error);
+      this.ws.onclose = () => {
+        this.ws = null;
+        this.handlers.get('close')?.();
+      };
       
       this.ws.onmessage = (event) => {
         try {
@@ -464,6 +800,10 @@ export class BasisWebSocket {
     this.handlers.set(eventType, handler);
   }
 
+  isConnected(): boolean {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+
   send(type: string, payload: any): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({ type, payload }));
@@ -472,6 +812,7 @@ export class BasisWebSocket {
 
   disconnect(): void {
     if (this.ws) {
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
@@ -0,0 +1,218 @@
+// BASIS Training Platform - Exercise Report Export
+// Renders a reviewed exercise into a downloadable PDF or DOCX report
+
+import type { ConversationMessage, ReviewerResponse } from '@/types/basis';
+import type { TranscriptTurn } from '@/types/transcript';
+import type { ExerciseReport, ReportFormat, ReportTranscriptLine, ReportVariant } from '@/types/report';
+
+export interface ReportSource {
+  title: string;
+  transcript: ReportTranscriptLine[];
+  // The edge function's final feedback may only carry free text in `content`
+  review: Partial<ReviewerResponse> & { content?: string };
+  emotionalTrajectory?: string;
+}
+
+// Renderer-neutral layout shared by the PDF and DOCX writers
+type ReportBlock =
+  | { kind: 'title' | 'heading' | 'paragraph' | 'bullet'; text: string }
+  | { kind: 'line'; label: string; text: string };
+
+const VARIANT_LABELS: Record<ReportVariant, string> = {
+  student: 'Studentrapport',
+  teacher: 'Lärarrapport'
+};
+
+const SPEAKER_LABELS: Record<ConversationMessage['role'], string> = {
+  user: 'Student',
+  assistant: 'Rollperson',
+  system: 'System'
+};
+
+const formatOffset = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const transcriptFromMessages = (messages: ConversationMessage[]): ReportTranscriptLine[] =>
+  messages
+    .filter(message => message.content.trim())
+    .map(message => ({
+      speaker: SPEAKER_LABELS[message.role],
+      content: message.content,
+      time: new Date(message.timestamp).toLocaleTimeString('sv-SE')
+    }));
+
+export const transcriptFromTurns = (turns: TranscriptTurn[]): ReportTranscriptLine[] =>
+  turns.map(turn => ({
+    speaker: turn.speaker,
+    content: turn.content,
+    time: turn.startMs !== undefined ? formatOffset(turn.startMs) : undefined
+  }));
+
+/**
+ * Report model for one exercise; the student variant never carries rubric scores
+ */
+export const buildExerciseReport = (source: ReportSource, variant: ReportVariant): ExerciseReport => {
+  const { review } = source;
+  const hasSections = Boolean(review.strengths?.length || review.growth_areas?.length);
+
+  return {
+    variant,
+    title: source.title,
+    generatedAt: new Date().toISOString(),
+    transcript: source.transcript,
+    // Student-view responses carry only the assessed areas, without scores
+    rubricSummary: review.rubric_summary?.length
+      ? review.rubric_summary.map(entry => variant === 'teacher'
+        ? { field: entry.field, hiddenScore: entry.score, maxScore: entry.maxScore ?? 4 }
+        : { field: entry.field })
+      : (review.assessed_areas ?? []).map(field => ({ field })),
+    strengths: review.strengths ?? [],
+    growthAreas: review.growth_areas ?? [],
+    exemplarQuotes: review.exemplar_quotes ?? [],
+    // Without parsed sections the free-text review is the whole report body
+    summary: review.summary || (!hasSections ? review.content ?? '' : ''),
+    emotionalTrajectory: variant === 'teacher' ? source.emotionalTrajectory : undefined
+  };
+};
+
+const layoutReport = (report: ExerciseReport): ReportBlock[] => {
+  const blocks: ReportBlock[] = [
+    { kind: 'title', text: report.title },
+    { kind: 'paragraph', text: `${VARIANT_LABELS[report.variant]} · ${new Date(report.generatedAt).toLocaleString('sv-SE')}` }
+  ];
+
+  const section = (heading: string, items: string[], kind: 'paragraph' | 'bullet' = 'bullet') => {
+    if (items.length === 0) return;
+    blocks.push({ kind: 'heading', text: heading }, ...items.map(text => ({ kind, text })));
+  };
+
+  section('Helhetskommentar', report.summary ? [report.summary] : [], 'paragraph');
+  section(
+    report.variant === 'teacher' ? 'Bedömning (intern, 0–4)' : 'Bedömda områden',
+    report.rubricSummary.map(entry => entry.hiddenScore !== undefined
+      ? `${entry.field}: ${entry.hiddenScore}/${entry.maxScore ?? 4}`
+      : entry.field)
+  );
+  section('Styrkor', report.strengths);
+  section('Utvecklingsområden', report.growthAreas);
+  section('Exempel ur samtalet', report.exemplarQuotes.map(quote => `"${quote}"`));
+  section('Rollpersonens känsloläge', report.emotionalTrajectory ? [report.emotionalTrajectory] : [], 'paragraph');
+
+  if (report.transcript.length > 0) {
+    blocks.push({ kind: 'heading', text: 'Transkription' });
+    for (const line of report.transcript) {
+      blocks.push({ kind: 'line', label: line.time ? `${line.speaker} (${line.time}):` : `${line.speaker}:`, text: line.content });
+    }
+  }
+
+  return blocks;
+};
+
+// The built-in PDF fonts only cover Latin-1; map common typography and drop the rest
+const toPdfText = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/→/g, '->')
+    .replace(/…/g, '...')
+    .replace(/[^\n\r\t\u0020-\u00ff]/g, '');
+
+const renderPdf = async (report: ExerciseReport): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+
+  const margin = 50;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  const bottom = doc.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (text: string, size: number, bold: boolean, indent = 0, spacing = 4) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lineHeight = size * 1.35;
+
+    for (const line of doc.splitTextToSize(toPdfText(text), width - indent) as string[]) {
+      if (y + lineHeight > bottom) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    }
+    y += spacing;
+  };
+
+  for (const block of layoutReport(report)) {
+    switch (block.kind) {
+      case 'title':
+        write(block.text, 18, true, 0, 6);
+        break;
+      case 'heading':
+        y += 8;
+        write(block.text, 13, true);
+        break;
+      case 'paragraph':
+        write(block.text, 10, false);
+        break;
+      case 'bullet':
+        write(`• ${block.text}`, 10, false, 10, 2);
+        break;
+      case 'line':
+        write(block.label, 9, true, 0, 0);
+        write(block.text, 10, false, 10);
+        break;
+    }
+  }
+
+  return doc.output('blob');
+};
+
+const renderDocx = async (report: ExerciseReport): Promise<Blob> => {
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = await import('docx');
+
+  const children = layoutReport(report).map(block => {
+    switch (block.kind) {
+      case 'title':
+        return new Paragraph({ text: block.text, heading: HeadingLevel.TITLE });
+      case 'heading':
+        return new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_2 });
+      case 'bullet':
+        return new Paragraph({ text: block.text, bullet: { level: 0 } });
+      case 'line':
+        return new Paragraph({
+          children: [new TextRun({ text: `${block.label} `, bold: true }), new TextRun(block.text)],
+          spacing: { after: 120 }
+        });
+      default:
+        return new Paragraph({ text: block.text, spacing: { after: 120 } });
+    }
+  });
+
+  return Packer.toBlob(new Document({
+    creator: 'BASIS Training Platform',
+    title: report.title,
+    sections: [{ children }]
+  }));
+};
+
+export const renderReport = (report: ExerciseReport, format: ReportFormat): Promise<Blob> =>
+  format === 'pdf' ? renderPdf(report) : renderDocx(report);
+
+/**
+ * Render and save the report as rapport-<title>-<variant>-<date>.<format>
+ */
+export const downloadReport = async (report: ExerciseReport, format: ReportFormat): Promise<void> => {
+  const blob = await renderReport(report, format);
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rapport-${report.title.replace(/\s+/g, '-').toLowerCase()}-${report.variant}-${report.generatedAt.split('T')[0]}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,44 @@
+// The running training session, kept in this browser so a reload can resume it
+// The resume token proves to the server that this browser started the session; the
+// entry is cleared when the student leaves or ends the session. Sessions an enrolled
+// student resumes from their history on another device have no token: the student
+// key identifies them instead.
+
+import { RESUME_TOKEN_HEADER } from '@/types/sessionResume';
+
+const STORAGE_KEY = 'basis.activeSession';
+
+export interface StoredSession {
+  sessionId: string;
+  resumeToken?: string;
+  mode: 'exercise' | 'lesson';
+  accessCode: string;
+}
+
+export function loadStoredSession(): StoredSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as StoredSession : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStoredSession(session: StoredSession): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearStoredSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// The resume token of the stored session, when it is the given one
+export function resumeTokenFor(sessionId: string): string | undefined {
+  const stored = loadStoredSession();
+  return stored?.sessionId === sessionId ? stored.resumeToken : undefined;
+}
+
+export function resumeTokenHeaders(sessionId: string): Record<string, string> {
+  const resumeToken = resumeTokenFor(sessionId);
+  return resumeToken ? { [RESUME_TOKEN_HEADER]: resumeToken } : {};
+}
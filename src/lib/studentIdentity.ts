@@ -0,0 +1,34 @@
+// The enrolled student's key and profile, kept in this browser
+// The key is sent with every API request (X-Student-Key); on another device the
+// student signs in again by entering the same key.
+
+import type { StudentProfile } from '@/types/students';
+
+const STORAGE_KEY = 'basis.student';
+
+export interface StoredStudentIdentity {
+  studentKey: string;
+  student: StudentProfile;
+}
+
+export function loadStudentIdentity(): StoredStudentIdentity | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as StoredStudentIdentity : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStudentIdentity(identity: StoredStudentIdentity): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
+}
+
+export function clearStudentIdentity(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function studentKeyHeaders(): Record<string, string> {
+  const identity = loadStudentIdentity();
+  return identity ? { 'X-Student-Key': identity.studentKey } : {};
+}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,9 +9,19 @@ import { Separator } from '@/components/ui/separator';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import AgentCard from '@/components/AgentCard';
-import { AgentResponseSet, ConversationMessage } from '@/types/basis';
-import { sessionApi, transcriptApi, BasisApiError } from '@/lib/api';
+import TranscriptTurnList from '@/components/TranscriptTurnList';
+import BBICChecklistPanel from '@/components/BBICChecklistPanel';
+import StudentIdentityCard from '@/components/StudentIdentityCard';
+import { AgentResponseSet, ConversationMessage, EmotionalState, EmotionalTransition, LessonProgress, ReviewerResponse } from '@/types/basis';
+import { ParsedTranscript, TranscriptSegmentFeedback } from '@/types/transcript';
+import { ReportFormat } from '@/types/report';
+import { BBICCoverage } from '@/types/bbicTemplate';
+import { ResumedMessage } from '@/types/sessionResume';
+import { StudentSessionSummary } from '@/types/students';
+import { buildExerciseReport, downloadReport, transcriptFromMessages } from '@/lib/reportExport';
+import { sessionApi, transcriptApi, BasisApiError, BasisWebSocket, supportsSessionStreaming, supportsLessonProgression, supportsTranscriptImport } from '@/lib/api';
 import { supabase } from '@/integrations/supabase/client';
+import { clearStoredSession, loadStoredSession, saveStoredSession, StoredSession } from '@/lib/sessionResume';
 import { 
   ArrowLeft,
   Send,
@@ -22,9 +32,38 @@ import {
   Play,
   Loader2,
   Download,
-  CheckCircle
+  CheckCircle,
+  SkipForward,
+  Upload,
+  BarChart3,
+  FileDown,
+  X
 } from 'lucide-react';
 
+const EMOTIONAL_STATE_LABELS: Record<EmotionalState, string> = {
+  defensive: 'defensiv',
+  anxious: 'orolig',
+  calming: 'lugnare',
+  trusting: 'tillitsfull'
+};
+
+// "orolig → lugnare → tillitsfull": the character's states in order, repeats collapsed
+const describeTrajectory = (trajectory: EmotionalTransition[] = []) =>
+  trajectory.length === 0 ? null : [trajectory[0].from, ...trajectory.map(step => step.to)]
+    .filter((state, index, states) => index === 0 || state !== states[index - 1])
+    .map(state => EMOTIONAL_STATE_LABELS[state])
+    .join(' → ');
+
+// Resumed messages as the chat shows them; the welcome and exercise markers get the ids the page looks up
+const toConversationMessage = (message: ResumedMessage): ConversationMessage => ({
+  id: message.type === 'session_start'
+    ? 'system_welcome'
+    : message.type === 'exercise_start' ? `exercise_${message.exerciseIndex}` : message.id,
+  role: message.role,
+  content: message.content,
+  timestamp: new Date(message.timestamp)
+});
+
 const Student = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -33,6 +72,10 @@ const Student = () => {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [currentMessage, setCurrentMessage] = useState('');
   const [transcriptText, setTranscriptText] = useState('');
+  const [importedTranscript, setImportedTranscript] = useState<ParsedTranscript | null>(null);
+  const [studentSpeaker, setStudentSpeaker] = useState<string | undefined>(undefined);
+  const [segmentFeedback, setSegmentFeedback] = useState<Record<string, TranscriptSegmentFeedback>>({});
+  const transcriptFileRef = useRef<HTMLInputElement>(null);
   
   // Conversation history
   const [conversation, setConversation] = useState<ConversationMessage[]>([]);
@@ -45,6 +88,149 @@ const Student = () => {
   const [finalFeedback, setFinalFeedback] = useState<any>(null);
   const [exerciseTitle, setExerciseTitle] = useState<string>('');
 
+  // Lesson sessions: progress through the exercise sequence and per-exercise reviews
+  const [lessonProgress, setLessonProgress] = useState<LessonProgress | null>(null);
+  const [exerciseReviews, setExerciseReviews] = useState<Array<{ index: number; title: string; review: ReviewerResponse; trajectory?: EmotionalTransition[] }>>([]);
+
+  // BBIC checklist coverage for the current exercise, when the session uses a content protocol
+  const [coverage, setCoverage] = useState<BBICCoverage[]>([]);
+
+  // Live session socket; falls back to HTTP input when unavailable
+  const socketRef = useRef<BasisWebSocket | null>(null);
+  const streamingMessageIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return () => socketRef.current?.disconnect();
+  }, []);
+
+  const finishStreamingTurn = () => {
+    const streamingId = streamingMessageIdRef.current;
+    streamingMessageIdRef.current = null;
+    // Drop the placeholder if no reply arrived
+    setConversation(prev => prev.filter(m => m.id !== streamingId || m.content));
+    setIsLoading(false);
+  };
+
+  const connectSessionSocket = async (id: string) => {
+    const socket = new BasisWebSocket(id);
+
+    socket.on('roleplay_token', (payload: { delta: string }) => {
+      const streamingId = streamingMessageIdRef.current;
+      setConversation(prev => prev.map(m =>
+        m.id === streamingId ? { ...m, content: m.content + payload.delta } : m
+      ));
+    });
+
+    socket.on('roleplay_complete', (payload: { content: string }) => {
+      const streamingId = streamingMessageIdRef.current;
+      setConversation(prev => prev.map(m =>
+        m.id === streamingId ? { ...m, content: payload.content, timestamp: new Date() } : m
+      ));
+    });
+
+    socket.on('navigator_feedback', (payload: AgentResponseSet['navigator']) => {
+      setAgentResponses(prev => ({ ...prev, navigator: payload }));
+    });
+
+    socket.on('analyst_feedback', (payload: AgentResponseSet['analyst']) => {
+      setAgentResponses(prev => ({ ...prev, analyst: payload }));
+    });
+
+    socket.on('coverage_update', (payload: { coverage: BBICCoverage[] }) => {
+      setCoverage(payload.coverage);
+    });
+
+    socket.on('turn_complete', () => finishStreamingTurn());
+
+    socket.on('error', (payload: { error: string; message: string }) => {
+      toast({
+        title: "Session Error",
+        description: payload.message,
+        variant: "destructive",
+      });
+      finishStreamingTurn();
+    });
+
+    socket.on('close', () => {
+      socketRef.current = null;
+      if (streamingMessageIdRef.current) {
+        finishStreamingTurn();
+      }
+    });
+
+    try {
+      await socket.connect();
+      socketRef.current = socket;
+    } catch (error) {
+      console.warn('Session streaming unavailable, using HTTP input:', error);
+    }
+  };
+
+  // Pick up the session this browser started, after a reload or a lost connection
+  const resumeSession = async (stored: StoredSession) => {
+    setIsLoading(true);
+
+    try {
+      const { session, latestFeedback } = await sessionApi.get(stored.sessionId, stored.resumeToken);
+      setAccessCode(stored.accessCode);
+      setSessionMode(stored.mode);
+      setSessionId(session.id);
+      setLessonProgress(session.lesson ?? null);
+      setExerciseReviews([]);
+      setCoverage(session.coverage ?? []);
+      setConversation(session.conversation.map(toConversationMessage));
+      setAgentResponses(latestFeedback ?? {});
+
+      if (supportsSessionStreaming) {
+        await connectSessionSocket(session.id);
+      }
+
+      toast({
+        title: "Session Resumed",
+        description: `Continuing training session ${session.id}`,
+      });
+
+    } catch (error) {
+      // Keep the session for the next reload when only the server was unreachable
+      if (!(error instanceof BasisApiError) || error.statusCode !== 0) {
+        clearStoredSession();
+      }
+      toast({
+        title: "Could Not Resume Session",
+        description: error instanceof Error ? error.message : "Start the session again with your access code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const stored = loadStoredSession();
+    if (stored) {
+      resumeSession(stored);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // An enrolled student continues a session from their history, possibly started on another device
+  const handleResumeFromHistory = (session: StudentSessionSummary) => {
+    if (session.mode === 'transcript') return;
+
+    const stored: StoredSession = {
+      sessionId: session.sessionId,
+      mode: session.mode,
+      accessCode: session.lessonCode ?? session.exerciseCode ?? ''
+    };
+    saveStoredSession(stored);
+    resumeSession(stored);
+  };
+
+  const handleLeaveSession = () => {
+    clearStoredSession();
+    setSessionMode(null);
+  };
+
   const handleStartSession = async () => {
     if (!accessCode.trim()) {
       toast({
@@ -77,12 +263,24 @@ const Student = () => {
 
       const response = await sessionApi.start(sessionRequest);
       setSessionId(response.session.id);
+      if (response.session.resumeToken) {
+        saveStoredSession({
+          sessionId: response.session.id,
+          resumeToken: response.session.resumeToken,
+          mode: accessCode.startsWith('LS-') ? 'lesson' : 'exercise',
+          accessCode
+        });
+      }
+      setLessonProgress(response.session.lesson ?? null);
+      setExerciseReviews([]);
+      setCoverage(response.session.coverage ?? []);
       
       // Initialize conversation with system message
       const systemMessage: ConversationMessage = {
         id: 'system_welcome',
         role: 'system',
-        content: 'Welcome to your BASIS training session. You will be practicing conversation techniques with a concerned parent role.',
+        content: response.session.welcomeMessage
+          ?? 'Welcome to your BASIS training session. You will be practicing conversation techniques with a concerned parent role.',
         timestamp: new Date()
       };
       setConversation([systemMessage]);
@@ -92,6 +290,10 @@ const Student = () => {
         setAgentResponses(response.initialGuidance);
       }
 
+      if (supportsSessionStreaming) {
+        await connectSessionSocket(response.session.id);
+      }
+
       toast({
         title: "Session Started",
         description: `Training session ${response.session.id} has begun`,
@@ -133,6 +335,25 @@ const Student = () => {
     setConversation(prev => [...prev, userMessage]);
     setCurrentMessage('');
 
+    const socket = socketRef.current;
+    if (socket?.isConnected()) {
+      // Stream the reply into a placeholder; feedback cards fill in as each agent finishes
+      const streamingId = `ai_${Date.now()}`;
+      streamingMessageIdRef.current = streamingId;
+      setConversation(prev => [...prev, {
+        id: streamingId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date()
+      }]);
+      setAgentResponses(prev => ({ ...prev, navigator: undefined, analyst: undefined }));
+      socket.send('input', {
+        content: userMessage.content,
+        timestamp: userMessage.timestamp
+      });
+      return;
+    }
+
     try {
       const response = await sessionApi.sendInput(sessionId, {
         content: currentMessage,
@@ -152,6 +373,9 @@ const Student = () => {
 
       // Update agent feedback
       setAgentResponses(response.agentFeedback);
+      if (response.coverage) {
+        setCoverage(response.coverage);
+      }
 
     } catch (error) {
       if (error instanceof BasisApiError) {
@@ -180,14 +404,93 @@ const Student = () => {
     }
   };
 
+  const handleTranscriptFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      // Files travel base64-encoded so .docx and captions share one JSON endpoint
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+
+      const { transcript } = await transcriptApi.import({
+        fileBase64: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        fileName: file.name
+      });
+      setImportedTranscript(transcript);
+      setStudentSpeaker(transcript.suggestedStudentSpeaker);
+      setSegmentFeedback({});
+      toast({
+        title: "Transcript Imported",
+        description: `${transcript.turns.length} turns from ${transcript.speakers.length} speakers`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "Unable to import transcript file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearImportedTranscript = () => {
+    setImportedTranscript(null);
+    setStudentSpeaker(undefined);
+    setSegmentFeedback({});
+  };
+
+  const handleStudentSpeakerChange = (speaker: string) => {
+    setStudentSpeaker(speaker);
+    // Feedback was given for the previous speaker's turns
+    setSegmentFeedback({});
+  };
+
+  const handleTurnAnalysis = async () => {
+    if (!importedTranscript) return;
+
+    setIsLoading(true);
+    try {
+      const { segments, summary } = await transcriptApi.analyzeTurns({
+        turns: importedTranscript.turns,
+        studentSpeaker,
+        protocolIds: ['basis-v1']
+      });
+      setSegmentFeedback(Object.fromEntries(segments.map(segment => [segment.segmentId, segment])));
+      toast({
+        title: "Turn Analysis Complete",
+        description: summary.failed > 0
+          ? `${summary.successful} of ${summary.total} turns analyzed`
+          : `${summary.total} turns analyzed`,
+      });
+    } catch (error) {
+      toast({
+        title: "Analysis Error",
+        description: error instanceof Error ? error.message : "Unable to analyze transcript turns",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleTranscriptAnalysis = async () => {
-    if (!transcriptText.trim()) return;
+    if (!importedTranscript && !transcriptText.trim()) return;
 
     setIsLoading(true);
 
     try {
       const response = await transcriptApi.review({
-        transcript: transcriptText,
+        ...(importedTranscript
+          ? { turns: importedTranscript.turns, studentSpeaker }
+          : { transcript: transcriptText }),
         protocolIds: ['basis-v1'], // Default to BASIS protocol
         exerciseConfig: {
           focusHint: 'General conversation analysis',
@@ -202,7 +505,9 @@ const Student = () => {
 
       toast({
         title: "Analysis Complete",
-        description: `Analyzed ${response.metadata.wordCount} words (≈${response.metadata.estimatedDuration} min conversation)`,
+        description: response.metadata.turnCount
+          ? `Analyzed ${response.metadata.turnCount} turns, ${response.metadata.wordCount} words (≈${response.metadata.estimatedDuration} min conversation)`
+          : `Analyzed ${response.metadata.wordCount} words (≈${response.metadata.estimatedDuration} min conversation)`,
       });
 
     } catch (error) {
@@ -232,17 +537,82 @@ const Student = () => {
     }
   };
 
+  const handleNextExercise = async () => {
+    if (!sessionId || !lessonProgress) return;
+
+    setIsLoading(true);
+    const completedIndex = lessonProgress.currentExerciseIndex;
+    const completedTitle = lessonProgress.exercises[completedIndex]?.title ?? `Övning ${completedIndex + 1}`;
+
+    try {
+      const response = await sessionApi.advance(sessionId);
+      const progress = response.session.lesson ?? null;
+      setLessonProgress(progress);
+      setAgentResponses(response.initialGuidance ?? {});
+      setCoverage(response.session.coverage ?? []);
+
+      if (progress) {
+        const current = progress.exercises[progress.currentExerciseIndex];
+        setConversation(prev => [...prev, {
+          id: `exercise_${progress.currentExerciseIndex}`,
+          role: 'system',
+          content: response.session.welcomeMessage
+            ?? `Övning ${progress.currentExerciseIndex + 1} av ${progress.totalExercises}: ${current?.title ?? ''}`,
+          timestamp: new Date()
+        }]);
+      }
+
+      // Review the finished exercise in the background; shown with the final feedback
+      sessionApi.review(sessionId, completedIndex)
+        .then(result => setExerciseReviews(prev => [...prev, {
+          index: completedIndex,
+          title: completedTitle,
+          review: result.review.reviewer,
+          trajectory: result.emotionalTrajectory
+        }]))
+        .catch(error => console.warn('Exercise review unavailable:', error));
+
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Kunde inte gå vidare till nästa övning",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleEndSession = async () => {
     if (!sessionId) return;
 
     setIsLoading(true);
 
     try {
-      const result = await sessionApi.endSession(sessionId);
-      
-      setFinalFeedback(result.finalFeedback);
-      setExerciseTitle(result.exerciseTitle || 'Träningssession');
+      if (lessonProgress && supportsLessonProgression) {
+        // Whole-lesson review across all exercise sub-transcripts, plus the last exercise on its own
+        const lastIndex = lessonProgress.currentExerciseIndex;
+        const [lessonReview, lastExerciseReview] = await Promise.all([
+          sessionApi.review(sessionId),
+          sessionApi.review(sessionId, lastIndex).catch(() => null)
+        ]);
+        setFinalFeedback(lessonReview.review.reviewer);
+        setExerciseTitle(lessonProgress.title);
+        if (lastExerciseReview) {
+          setExerciseReviews(prev => [...prev, {
+            index: lastIndex,
+            title: lessonProgress.exercises[lastIndex]?.title ?? `Övning ${lastIndex + 1}`,
+            review: lastExerciseReview.review.reviewer,
+            trajectory: lastExerciseReview.emotionalTrajectory
+          }]);
+        }
+      } else {
+        const result = await sessionApi.endSession(sessionId);
+        setFinalFeedback(result.finalFeedback);
+        setExerciseTitle(result.exerciseTitle || 'Träningssession');
+      }
       setIsReviewComplete(true);
+      clearStoredSession();
 
       toast({
         title: "Session Avslutad",
@@ -316,6 +686,34 @@ const Student = () => {
     });
   };
 
+  // Messages of one lesson exercise, between its opening marker and the next one
+  const exerciseMessages = (exerciseIndex: number) => {
+    const start = exerciseIndex === 0 ? 0 : conversation.findIndex(m => m.id === `exercise_${exerciseIndex}`);
+    const end = conversation.findIndex(m => m.id === `exercise_${exerciseIndex + 1}`);
+    return start < 0 ? [] : conversation.slice(start, end < 0 ? undefined : end);
+  };
+
+  const handleDownloadReport = async (
+    format: ReportFormat,
+    source: { title: string; review: ReviewerResponse; trajectory?: EmotionalTransition[]; exerciseIndex?: number }
+  ) => {
+    try {
+      const report = buildExerciseReport({
+        title: source.title,
+        transcript: transcriptFromMessages(source.exerciseIndex !== undefined ? exerciseMessages(source.exerciseIndex) : conversation),
+        review: source.review,
+        emotionalTrajectory: describeTrajectory(source.trajectory) ?? undefined
+      }, 'student');
+      await downloadReport(report, format);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Kunde inte skapa rapporten",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!sessionMode) {
     return (
       <div className="min-h-screen bg-background">
@@ -341,7 +739,7 @@ const Student = () => {
         </header>
 
         <div className="container mx-auto px-6 py-16">
-          <div className="max-w-2xl mx-auto">
+          <div className="max-w-2xl mx-auto space-y-8">
             <Card className="p-8">
               <CardHeader className="text-center">
                 <CardTitle className="text-2xl mb-2">Access Training Session</CardTitle>
@@ -400,6 +798,8 @@ const Student = () => {
                 </div>
               </CardContent>
             </Card>
+
+            <StudentIdentityCard onResume={handleResumeFromHistory} />
           </div>
         </div>
       </div>
@@ -440,20 +840,56 @@ const Student = () => {
                   Conversation Transcript
                 </CardTitle>
                 <CardDescription>
-                  Paste your conversation transcript for comprehensive analysis
+                  {supportsTranscriptImport
+                    ? 'Paste your transcript ("Name: utterance" per line) or import an SRT, VTT or DOCX file'
+                    : 'Paste your conversation transcript for comprehensive analysis'}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <Textarea
-                  value={transcriptText}
-                  onChange={(e) => setTranscriptText(e.target.value)}
-                  placeholder="Paste your conversation transcript here..."
-                  rows={12}
-                  className="font-mono text-sm"
-                />
+                {supportsTranscriptImport && (
+                  <div className="flex gap-2">
+                    <input
+                      ref={transcriptFileRef}
+                      type="file"
+                      accept=".srt,.vtt,.docx,.txt"
+                      className="hidden"
+                      onChange={handleTranscriptFile}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => transcriptFileRef.current?.click()}
+                      disabled={isLoading}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import File
+                    </Button>
+                    {importedTranscript && (
+                      <Button variant="ghost" onClick={clearImportedTranscript} disabled={isLoading}>
+                        <X className="h-4 w-4 mr-2" />
+                        Clear Import
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {importedTranscript ? (
+                  <TranscriptTurnList
+                    transcript={importedTranscript}
+                    studentSpeaker={studentSpeaker}
+                    onStudentSpeakerChange={handleStudentSpeakerChange}
+                    segmentFeedback={segmentFeedback}
+                  />
+                ) : (
+                  <Textarea
+                    value={transcriptText}
+                    onChange={(e) => setTranscriptText(e.target.value)}
+                    placeholder="Paste your conversation transcript here..."
+                    rows={12}
+                    className="font-mono text-sm"
+                  />
+                )}
                 <Button 
                   onClick={handleTranscriptAnalysis}
-                  disabled={!transcriptText.trim() || isLoading}
+                  disabled={(!importedTranscript && !transcriptText.trim()) || isLoading}
                   variant="reviewer"
                   className="w-full"
                 >
@@ -464,6 +900,17 @@ const Student = () => {
                   )}
                   {isLoading ? 'Analyzing...' : 'Analyze Transcript'}
                 </Button>
+                {importedTranscript && (
+                  <Button
+                    onClick={handleTurnAnalysis}
+                    disabled={!studentSpeaker || isLoading}
+                    variant="analyst"
+                    className="w-full"
+                  >
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Analyze Each Turn
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
@@ -489,7 +936,7 @@ const Student = () => {
               <Button 
                 variant="ghost" 
                 size="sm"
-                onClick={() => setSessionMode(null)}
+                onClick={handleLeaveSession}
               >
                 <ArrowLeft className="h-4 w-4 mr-2" />
                 Back
@@ -499,6 +946,9 @@ const Student = () => {
                 <h1 className="text-2xl font-bold">Training Session</h1>
                 <p className="text-sm text-muted-foreground">
                   {sessionMode === 'exercise' ? 'Individual Exercise' : 'Lesson Sequence'}
+                  {lessonProgress && (
+                    <> · Exercise {lessonProgress.currentExerciseIndex + 1} of {lessonProgress.totalExercises}: {lessonProgress.exercises[lessonProgress.currentExerciseIndex]?.title}</>
+                  )}
                 </p>
               </div>
             </div>
@@ -552,7 +1002,11 @@ const Student = () => {
                           ? 'bg-muted/50 text-muted-foreground'
                           : 'bg-card border'
                       }`}>
-                        <p className="text-sm">{message.content}</p>
+                        {message.content ? (
+                          <p className="text-sm">{message.content}</p>
+                        ) : (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        )}
                         <p className="text-xs opacity-70 mt-1">
                           {message.timestamp.toLocaleTimeString()}
                         </p>
@@ -593,6 +1047,16 @@ const Student = () => {
 
               {/* Session Control Buttons */}
               <div className="flex gap-2 justify-center">
+                {!isReviewComplete && lessonProgress && !lessonProgress.isLastExercise && (
+                  <Button
+                    onClick={handleNextExercise}
+                    disabled={isLoading}
+                    size="lg"
+                  >
+                    <SkipForward className="h-4 w-4 mr-2" />
+                    Nästa övning
+                  </Button>
+                )}
                 {!isReviewComplete ? (
                   <Button 
                     onClick={handleEndSession}
@@ -617,6 +1081,26 @@ const Student = () => {
                     Ladda ner transkription
                   </Button>
                 )}
+                {isReviewComplete && finalFeedback && (
+                  <>
+                    <Button
+                      onClick={() => handleDownloadReport('pdf', { title: exerciseTitle, review: finalFeedback })}
+                      variant="outline"
+                      size="lg"
+                    >
+                      <FileDown className="h-4 w-4 mr-2" />
+                      Rapport (PDF)
+                    </Button>
+                    <Button
+                      onClick={() => handleDownloadReport('docx', { title: exerciseTitle, review: finalFeedback })}
+                      variant="outline"
+                      size="lg"
+                    >
+                      <FileDown className="h-4 w-4 mr-2" />
+                      Rapport (DOCX)
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -635,13 +1119,44 @@ const Student = () => {
                   response={agentResponses.analyst}
                   loading={isLoading && !agentResponses.analyst}
                 />
+                {coverage.length > 0 && <BBICChecklistPanel coverage={coverage} />}
               </>
             ) : (
-              <AgentCard 
-                agentType="reviewer"
-                response={finalFeedback}
-                loading={false}
-              />
+              <>
+                <AgentCard 
+                  agentType="reviewer"
+                  response={finalFeedback}
+                  loading={false}
+                />
+                {exerciseReviews.map(({ index: exerciseIndex, title, review, trajectory }, index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="text-sm font-semibold text-muted-foreground">{title}</h3>
+                      <div className="flex gap-1">
+                        {(['pdf', 'docx'] as const).map(format => (
+                          <Button
+                            key={format}
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDownloadReport(format, { title, review, trajectory, exerciseIndex })}
+                          >
+                            <FileDown className="h-4 w-4 mr-1" />
+                            {format.toUpperCase()}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    {describeTrajectory(trajectory) && (
+                      <p className="text-xs text-muted-foreground">Känsloläge: {describeTrajectory(trajectory)}</p>
+                    )}
+                    <AgentCard
+                      agentType="reviewer"
+                      response={review}
+                      loading={false}
+                    />
+                  </div>
+                ))}
+              </>
             )}
           </div>
         </div>
@@ -6,14 +6,25 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useNavigate } from 'react-router-dom';
 import { useSession } from '@supabase/auth-helpers-react';
 import { useToast } from '@/hooks/use-toast';
-import { exerciseApi, lessonApi, codeApi } from '@/lib/api';
+import { exerciseApi, lessonApi, codeApi, protocolApi, systemApi, supportsReviewJobs, supportsProtocolStackValidation, supportsProtocolReview } from '@/lib/api';
+import { DEFAULT_PROTOCOL_WEIGHT, ProtocolStackEntry, ProtocolStackIssue } from '@/types/protocolStack';
 import { supabase } from '@/integrations/supabase/client';
+import GuardrailRulesEditor from '@/components/GuardrailRulesEditor';
+import BatchReviewJobs from '@/components/BatchReviewJobs';
+import ProtocolReview from '@/components/ProtocolReview';
+import AccessCodeCard from '@/components/AccessCodeCard';
+import ClassResults from '@/components/ClassResults';
+import ShareResourceDialog from '@/components/ShareResourceDialog';
+import SessionRetentionCard from '@/components/SessionRetentionCard';
+import { AccessCode, ClassGroup } from '@/types/accessCodes';
+import { matchesOwnershipFilter, OwnershipFilter, resourceAccess, ResourceType } from '@/types/ownership';
 import { 
   ArrowLeft,
   Plus,
@@ -31,9 +42,18 @@ import {
   Library,
   Eye,
   Trash2,
-  LogOut
+  LogOut,
+  Shield,
+  ClipboardList,
+  FileSearch
 } from 'lucide-react';
 
+// Which agents use each model tier (mirrors AGENT_CONFIGS[*].modelTier on the server)
+const MODEL_TIER_AGENTS: Record<string, string> = {
+  INTERACTIVE: 'Navigator, Analyst, Rollspel',
+  ANALYTICAL: 'Reviewer'
+};
+
 const Teacher = () => {
   const navigate = useNavigate();
   const session = useSession();
@@ -59,7 +79,7 @@ const Teacher = () => {
   const [exerciseForm, setExerciseForm] = useState({
     title: '',
     focusHint: '',
-    protocolStack: ['BASIS'],
+    protocolStack: ['basis-v1'],
     toggles: {
       feedforward: true,
       iterative: true,
@@ -79,7 +99,13 @@ const Teacher = () => {
     exerciseOrder: []
   });
 
-  const [generatedCodes, setGeneratedCodes] = useState<any[]>([]);
+  const [generatedCodes, setGeneratedCodes] = useState<AccessCode[]>([]);
+  const [classes, setClasses] = useState<ClassGroup[]>([]);
+  const [newClassName, setNewClassName] = useState('');
+
+  // Exercises, documents, codes and classes: all visible, own, or shared by colleagues
+  const [ownershipFilter, setOwnershipFilter] = useState<OwnershipFilter>('all');
+  const teacherId = session?.user?.id;
 
   // Standalone Exercise Creator State
   const [standaloneExerciseForm, setStandaloneExerciseForm] = useState({
@@ -89,6 +115,9 @@ const Teacher = () => {
   const [currentExercise, setCurrentExercise] = useState<any>(null);
   const [currentAccessCode, setCurrentAccessCode] = useState<any>(null);
   const [selectedProtocols, setSelectedProtocols] = useState<any[]>([]);
+  // Relative protocol weights for the Reviewer, and the last stack check's findings
+  const [protocolWeights, setProtocolWeights] = useState<Record<string, number>>({});
+  const [stackIssues, setStackIssues] = useState<ProtocolStackIssue[]>([]);
   const [selectedCase, setSelectedCase] = useState<any>(null);
   const [selectedInstructionDocument, setSelectedInstructionDocument] = useState<any>(null);
   
@@ -102,8 +131,9 @@ const Teacher = () => {
   const [uploadingToLibrary, setUploadingToLibrary] = useState(false);
   
   // Optional Lesson Creator State
-  const [newLessonForm, setNewLessonForm] = useState({
-    title: ''
+  const [newLessonForm, setNewLessonForm] = useState<{ title: string; exerciseOrder: string[] }>({
+    title: '',
+    exerciseOrder: []
   });
   
   const [isCreatingExercise, setIsCreatingExercise] = useState(false);
@@ -199,8 +229,9 @@ const Teacher = () => {
 
   const fetchCodes = async () => {
     try {
-      const codes = await codeApi.list();
+      const [codes, classGroups] = await Promise.all([codeApi.list(), codeApi.listClasses()]);
       setGeneratedCodes(codes);
+      setClasses(classGroups);
     } catch (error) {
       console.error('Failed to fetch codes:', error);
       toast({
@@ -211,6 +242,28 @@ const Teacher = () => {
     }
   };
 
+  const handleCreateClass = async () => {
+    const name = newClassName.trim();
+    if (!name) return;
+
+    try {
+      const classGroup = await codeApi.createClass(name);
+      setClasses(current => [...current, classGroup].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewClassName('');
+      toast({
+        title: "Class created",
+        description: `Students join ${classGroup.name} with ${classGroup.join_token}`,
+      });
+    } catch (error) {
+      console.error('Failed to create class:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create class",
+        variant: "destructive"
+      });
+    }
+  };
+
   // Fetch all exercises
   const fetchAllExercises = async () => {
     setLoadingExercises(true);
@@ -371,10 +424,30 @@ const Teacher = () => {
 
     setIsCreatingExercise(true);
     try {
+      const protocolStack: ProtocolStackEntry[] = selectedProtocols.map(protocol => ({
+        protocolId: protocol.id,
+        weight: protocolWeights[protocol.id] ?? DEFAULT_PROTOCOL_WEIGHT
+      }));
+
+      if (supportsProtocolStackValidation && protocolStack.length > 0) {
+        const validation = await protocolApi.validateStack(protocolStack);
+        setStackIssues(validation.issues);
+
+        if (!validation.valid) {
+          toast({
+            title: "Protokollen kan inte kombineras",
+            description: "Åtgärda felen i protokollvalet innan övningen skapas.",
+            variant: "destructive"
+          });
+          return;
+        }
+      }
+
       const { data, error } = await supabase.functions.invoke('exercises', {
         body: {
           action: 'create',
           title: standaloneExerciseForm.title,
+          protocolStack,
           instructionDocumentId: selectedInstructionDocument?.id
         }
       });
@@ -475,17 +548,21 @@ const Teacher = () => {
       const { data, error } = await supabase.functions.invoke('lesson-handler', {
         body: {
           type: 'lesson',
-          title: newLessonForm.title
+          title: newLessonForm.title,
+          exercise_order: newLessonForm.exerciseOrder
         }
       });
 
       if (error) throw error;
 
       if (data.success) {
-        setNewLessonForm({ title: '' });
+        setNewLessonForm({ title: '', exerciseOrder: [] });
+        await fetchCodes();
         toast({
           title: "Success",
-          description: "Lesson created successfully!"
+          description: data.code?.id
+            ? `Lesson created successfully! Code: ${data.code.id}`
+            : "Lesson created successfully!"
         });
       }
     } catch (error) {
@@ -500,10 +577,21 @@ const Teacher = () => {
     }
   };
 
+  const toggleLessonExercise = (exerciseId: string) => {
+    setNewLessonForm(prev => ({
+      ...prev,
+      exerciseOrder: prev.exerciseOrder.includes(exerciseId)
+        ? prev.exerciseOrder.filter(id => id !== exerciseId)
+        : [...prev.exerciseOrder, exerciseId]
+    }));
+  };
+
   const resetExerciseCreator = () => {
     setCurrentExercise(null);
     setCurrentAccessCode(null);
     setSelectedProtocols([]);
+    setProtocolWeights({});
+    setStackIssues([]);
     setSelectedCase(null);
     setSelectedInstructionDocument(null);
     setStandaloneExerciseForm({ title: '' });
@@ -543,7 +631,7 @@ const Teacher = () => {
     }
   };
 
-  const updateModelConfiguration = async (tier: string, modelName: string) => {
+  const updateModelConfiguration = async (tier: string, modelName: string): Promise<boolean> => {
     try {
       const response = await supabase.functions.invoke('model-config', {
         body: { tier, model_name: modelName }
@@ -558,6 +646,7 @@ const Teacher = () => {
       
       // Refresh configurations
       fetchModelConfigurations();
+      return true;
     } catch (error) {
       console.error('Error updating model configuration:', error);
       toast({
@@ -565,16 +654,25 @@ const Teacher = () => {
         description: "Kunde inte uppdatera modellkonfiguration",
         variant: "destructive",
       });
+      return false;
     }
   };
 
   const handleSaveModelChanges = async () => {
     try {
+      let saved = 0;
       for (const config of modelConfigurations) {
-        if (config.hasChanged) {
-          await updateModelConfiguration(config.tier, config.model_name);
+        if (config.hasChanged && await updateModelConfiguration(config.tier, config.model_name)) {
+          saved++;
         }
       }
+
+      // The server caches tier models; without this, changes apply when the cache expires
+      if (saved > 0) {
+        await systemApi.invalidateModels().catch(error => {
+          console.warn('Failed to refresh the server model cache:', error);
+        });
+      }
       
       toast({
         title: "Framgång",
@@ -590,6 +688,34 @@ const Teacher = () => {
     }
   };
 
+  const isVisible = (ownerId: string | null) => matchesOwnershipFilter(ownerId, teacherId, ownershipFilter);
+  const visibleExercises = allExercises.filter(exercise => isVisible(exercise.owner_id));
+  const visibleDocuments = documentLibrary.filter(doc => isVisible(doc.owner_id));
+  const visibleCodes = generatedCodes.filter(code => isVisible(code.owner_id));
+  const visibleClasses = classes.filter(classGroup => isVisible(classGroup.owner_id));
+
+  // Owners can share; resources shared by a colleague are marked
+  const renderOwnership = (resourceType: ResourceType, resourceId: string, resourceName: string, ownerId: string | null) => {
+    const access = resourceAccess(ownerId, teacherId);
+    if (access === 'owner') {
+      return <ShareResourceDialog resourceType={resourceType} resourceId={resourceId} resourceName={resourceName} />;
+    }
+    return access === 'shared' ? <Badge variant="outline">Shared with me</Badge> : null;
+  };
+
+  const ownershipFilterSelect = (
+    <Select value={ownershipFilter} onValueChange={(value) => setOwnershipFilter(value as OwnershipFilter)}>
+      <SelectTrigger className="w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All</SelectItem>
+        <SelectItem value="mine">Mine</SelectItem>
+        <SelectItem value="shared">Shared with me</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
   // Fetch data on component mount
   useEffect(() => {
     fetchCodes();
@@ -639,7 +765,7 @@ const Teacher = () => {
 
       <div className="container mx-auto px-6 py-8">
         <Tabs defaultValue="exercise-creator" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className={`grid w-full ${supportsReviewJobs ? 'grid-cols-8' : 'grid-cols-7'}`}>
             <TabsTrigger value="exercise-creator" className="flex items-center gap-2">
               <Target className="h-4 w-4" />
               Övningar
@@ -668,6 +794,12 @@ const Teacher = () => {
               <Code className="h-4 w-4" />
               Genererade Koder
             </TabsTrigger>
+            {supportsReviewJobs && (
+              <TabsTrigger value="batch-review" className="flex items-center gap-2">
+                <ClipboardList className="h-4 w-4" />
+                Batchgranskning
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Standalone Exercise Creator */}
@@ -711,7 +843,7 @@ const Teacher = () => {
                             <SelectValue placeholder="Select a case document" />
                           </SelectTrigger>
                           <SelectContent>
-                            {documentLibrary.filter(doc => doc.document_type === 'case').map((doc) => (
+                            {visibleDocuments.filter(doc => doc.document_type === 'case').map((doc) => (
                               <SelectItem key={doc.id} value={doc.id}>
                                 {doc.file_name}
                               </SelectItem>
@@ -733,13 +865,14 @@ const Teacher = () => {
                            const doc = documentLibrary.find(d => d.id === value);
                            if (doc && !selectedProtocols.find(p => p.id === doc.id)) {
                              setSelectedProtocols(prev => [...prev, doc]);
+                             setStackIssues([]);
                            }
                          }}>
                            <SelectTrigger>
                              <SelectValue placeholder="Select protocol documents" />
                            </SelectTrigger>
                            <SelectContent>
-                             {documentLibrary.filter(doc => doc.document_type === 'protocol').map((doc) => (
+                             {visibleDocuments.filter(doc => doc.document_type === 'protocol').map((doc) => (
                                <SelectItem key={doc.id} value={doc.id}>
                                  {doc.file_name}
                                </SelectItem>
@@ -755,13 +888,43 @@ const Teacher = () => {
                                    <CheckCircle className="h-4 w-4 text-green-500" />
                                    <span className="text-sm">{protocol.file_name}</span>
                                  </div>
-                                 <Button
-                                   variant="ghost"
-                                   size="sm"
-                                   onClick={() => setSelectedProtocols(prev => prev.filter(p => p.id !== protocol.id))}
-                                 >
-                                   <X className="h-4 w-4" />
-                                 </Button>
+                                 <div className="flex items-center gap-2">
+                                   <Label htmlFor={`weight-${protocol.id}`} className="text-xs text-muted-foreground">Vikt</Label>
+                                   <Input
+                                     id={`weight-${protocol.id}`}
+                                     type="number"
+                                     min={0.1}
+                                     step={0.5}
+                                     className="h-8 w-20"
+                                     value={protocolWeights[protocol.id] ?? DEFAULT_PROTOCOL_WEIGHT}
+                                     onChange={(e) => {
+                                       setProtocolWeights(prev => ({ ...prev, [protocol.id]: Number(e.target.value) }));
+                                       setStackIssues([]);
+                                     }}
+                                   />
+                                   <Button
+                                     variant="ghost"
+                                     size="sm"
+                                     onClick={() => {
+                                       setSelectedProtocols(prev => prev.filter(p => p.id !== protocol.id));
+                                       setStackIssues([]);
+                                     }}
+                                   >
+                                     <X className="h-4 w-4" />
+                                   </Button>
+                                 </div>
+                               </div>
+                             ))}
+                           </div>
+                         )}
+                         {stackIssues.length > 0 && (
+                           <div className="space-y-1">
+                             {stackIssues.map((issue, index) => (
+                               <div key={index} className="flex items-start gap-2 text-sm">
+                                 <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                                   {issue.severity === 'error' ? 'Fel' : 'Varning'}
+                                 </Badge>
+                                 <span>{issue.message}</span>
                                </div>
                              ))}
                            </div>
@@ -899,8 +1062,9 @@ const Teacher = () => {
                   My Exercises
                 </CardTitle>
                 <CardDescription>
-                  View all created exercises and their access codes
+                  View your own exercises, exercises colleagues shared with you and their access codes
                 </CardDescription>
+                {ownershipFilterSelect}
               </CardHeader>
               <CardContent>
                 {loadingExercises ? (
@@ -908,9 +1072,9 @@ const Teacher = () => {
                     <Loader2 className="h-6 w-6 animate-spin" />
                     <span className="ml-2">Loading exercises...</span>
                   </div>
-                ) : allExercises.length > 0 ? (
+                ) : visibleExercises.length > 0 ? (
                   <div className="space-y-4">
-                    {allExercises.map((exercise) => (
+                    {visibleExercises.map((exercise) => (
                       <div key={exercise.id} className="flex items-center justify-between p-4 border rounded-lg">
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
@@ -921,13 +1085,33 @@ const Teacher = () => {
                             Created: {new Date(exercise.created_at).toLocaleDateString()}
                           </p>
                         </div>
-                        <div className="text-right">
-                          <div className="font-mono text-lg font-bold text-primary">
-                            {exercise.access_code}
+                        <div className="flex items-center gap-4">
+                          {renderOwnership('exercise', exercise.id, exercise.title, exercise.owner_id)}
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Shield className="h-4 w-4 mr-2" />
+                                Guardrails
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                              <DialogHeader>
+                                <DialogTitle>Guardrails: {exercise.title}</DialogTitle>
+                                <DialogDescription>
+                                  Adjust built-in temporal guardrails and add exercise-specific rules
+                                </DialogDescription>
+                              </DialogHeader>
+                              <GuardrailRulesEditor exerciseId={exercise.id} />
+                            </DialogContent>
+                          </Dialog>
+                          <div className="text-right">
+                            <div className="font-mono text-lg font-bold text-primary">
+                              {exercise.access_code}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              Access Code
+                            </p>
                           </div>
-                          <p className="text-xs text-muted-foreground">
-                            Access Code
-                          </p>
                         </div>
                       </div>
                     ))}
@@ -935,7 +1119,9 @@ const Teacher = () => {
                 ) : (
                   <div className="text-center py-12">
                     <Target className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                    <h3 className="text-lg font-semibold mb-2">No exercises created yet</h3>
+                    <h3 className="text-lg font-semibold mb-2">
+                      {ownershipFilter === 'all' ? 'No exercises created yet' : 'No exercises match this filter'}
+                    </h3>
                     <p className="text-muted-foreground mb-4">
                       Create your first exercise to get started.
                     </p>
@@ -956,6 +1142,7 @@ const Teacher = () => {
                 <CardDescription>
                   Upload and manage documents that can be reused across exercises
                 </CardDescription>
+                {ownershipFilterSelect}
               </CardHeader>
               <CardContent className="space-y-6">
                  {/* Upload Section */}
@@ -1032,22 +1219,25 @@ const Teacher = () => {
                       <Loader2 className="h-6 w-6 animate-spin" />
                       <span className="ml-2">Loading documents...</span>
                     </div>
-                   ) : documentLibrary.length > 0 ? (
+                   ) : visibleDocuments.length > 0 ? (
                      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
                       {/* Case Documents */}
                       <div>
                         <h4 className="font-medium mb-2">Case Documents</h4>
                         <div className="space-y-2">
-                          {documentLibrary.filter(doc => doc.document_type === 'case').map((doc) => (
+                          {visibleDocuments.filter(doc => doc.document_type === 'case').map((doc) => (
                             <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg">
                               <div className="flex items-center gap-2">
                                 <FileText className="h-4 w-4 text-primary" />
                                 <span className="text-sm font-medium">{doc.file_name}</span>
                               </div>
-                              <Badge variant="secondary">Case</Badge>
+                              <div className="flex items-center gap-2">
+                                {renderOwnership('document', doc.id, doc.file_name, doc.owner_id)}
+                                <Badge variant="secondary">Case</Badge>
+                              </div>
                             </div>
                           ))}
-                          {documentLibrary.filter(doc => doc.document_type === 'case').length === 0 && (
+                          {visibleDocuments.filter(doc => doc.document_type === 'case').length === 0 && (
                             <p className="text-sm text-muted-foreground">No case documents uploaded</p>
                           )}
                         </div>
@@ -1057,16 +1247,38 @@ const Teacher = () => {
                        <div>
                          <h4 className="font-medium mb-2">Protocol Documents</h4>
                          <div className="space-y-2">
-                           {documentLibrary.filter(doc => doc.document_type === 'protocol').map((doc) => (
+                           {visibleDocuments.filter(doc => doc.document_type === 'protocol').map((doc) => (
                              <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg">
                                <div className="flex items-center gap-2">
                                  <FileText className="h-4 w-4 text-primary" />
                                  <span className="text-sm font-medium">{doc.file_name}</span>
                                </div>
-                               <Badge variant="secondary">Protocol</Badge>
+                               <div className="flex items-center gap-2">
+                                 {renderOwnership('document', doc.id, doc.file_name, doc.owner_id)}
+                                 {supportsProtocolReview && (
+                                   <Dialog>
+                                     <DialogTrigger asChild>
+                                       <Button variant="outline" size="sm">
+                                         <FileSearch className="h-4 w-4 mr-2" />
+                                         Review
+                                       </Button>
+                                     </DialogTrigger>
+                                     <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                                       <DialogHeader>
+                                         <DialogTitle>Protocol: {doc.file_name}</DialogTitle>
+                                         <DialogDescription>
+                                           Parse the document into a structured protocol, correct it and publish it for use in sessions
+                                         </DialogDescription>
+                                       </DialogHeader>
+                                       <ProtocolReview documentId={doc.id} />
+                                     </DialogContent>
+                                   </Dialog>
+                                 )}
+                                 <Badge variant="secondary">Protocol</Badge>
+                               </div>
                              </div>
                            ))}
-                           {documentLibrary.filter(doc => doc.document_type === 'protocol').length === 0 && (
+                           {visibleDocuments.filter(doc => doc.document_type === 'protocol').length === 0 && (
                              <p className="text-sm text-muted-foreground">No protocol documents uploaded</p>
                            )}
                          </div>
@@ -1076,16 +1288,19 @@ const Teacher = () => {
                        <div>
                          <h4 className="font-medium mb-2">Instruction Documents</h4>
                          <div className="space-y-2">
-                           {documentLibrary.filter(doc => doc.document_type === 'instruction_document').map((doc) => (
+                           {visibleDocuments.filter(doc => doc.document_type === 'instruction_document').map((doc) => (
                              <div key={doc.id} className="flex items-center justify-between p-3 border rounded-lg">
                                <div className="flex items-center gap-2">
                                  <FileText className="h-4 w-4 text-primary" />
                                  <span className="text-sm font-medium">{doc.file_name}</span>
                                </div>
-                               <Badge variant="secondary">Instruktion</Badge>
+                               <div className="flex items-center gap-2">
+                                 {renderOwnership('document', doc.id, doc.file_name, doc.owner_id)}
+                                 <Badge variant="secondary">Instruktion</Badge>
+                               </div>
                              </div>
                            ))}
-                           {documentLibrary.filter(doc => doc.document_type === 'instruction_document').length === 0 && (
+                           {visibleDocuments.filter(doc => doc.document_type === 'instruction_document').length === 0 && (
                              <p className="text-sm text-muted-foreground">No instruction documents uploaded</p>
                            )}
                          </div>
@@ -1094,7 +1309,9 @@ const Teacher = () => {
                   ) : (
                     <div className="text-center py-12">
                       <Library className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                      <h3 className="text-lg font-semibold mb-2">No documents uploaded yet</h3>
+                      <h3 className="text-lg font-semibold mb-2">
+                        {ownershipFilter === 'all' ? 'No documents uploaded yet' : 'No documents match this filter'}
+                      </h3>
                       <p className="text-muted-foreground mb-4">
                         Upload case and protocol documents to build your reusable library.
                       </p>
@@ -1114,7 +1331,7 @@ const Teacher = () => {
                   Create New Lesson
                 </CardTitle>
                 <CardDescription>
-                  Create a lesson container (exercises can be linked later).
+                  Create a lesson and choose the exercises students work through in sequence.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -1123,10 +1340,37 @@ const Teacher = () => {
                   <Input
                     id="new-lesson-title"
                     value={newLessonForm.title}
-                    onChange={(e) => setNewLessonForm({ title: e.target.value })}
+                    onChange={(e) => setNewLessonForm({ ...newLessonForm, title: e.target.value })}
                     placeholder="e.g., Advanced Communication Skills Training"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Exercises (in the order students will work through them)</Label>
+                  {allExercises.length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {allExercises.map((exercise) => {
+                        const position = newLessonForm.exerciseOrder.indexOf(exercise.id);
+                        return (
+                          <div
+                            key={exercise.id}
+                            className="flex items-center gap-3 p-2 border rounded-lg cursor-pointer hover:bg-muted/50"
+                            onClick={() => toggleLessonExercise(exercise.id)}
+                          >
+                            <Checkbox checked={position >= 0} />
+                            <span className="flex-1 text-sm">{exercise.title}</span>
+                            {position >= 0 && (
+                              <Badge variant="secondary">{position + 1}</Badge>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No exercises yet. Exercises can be linked later.
+                    </p>
+                  )}
+                </div>
                 <div className="flex justify-end">
                   <Button 
                     onClick={handleCreateNewLesson}
@@ -1179,6 +1423,11 @@ const Teacher = () => {
                           <Label htmlFor={`model-${config.tier}`}>
                             {config.label} ({config.tier})
                           </Label>
+                          {MODEL_TIER_AGENTS[config.tier] && (
+                            <p className="text-xs text-muted-foreground">
+                              Används av: {MODEL_TIER_AGENTS[config.tier]}
+                            </p>
+                          )}
                           <Select
                             value={config.model_name}
                             onValueChange={(value) => {
@@ -1223,6 +1472,8 @@ const Teacher = () => {
                 </div>
               </CardContent>
             </Card>
+
+            <SessionRetentionCard />
           </TabsContent>
 
           {/* Old Exercise Creation (original functionality) */}
@@ -1326,45 +1577,80 @@ const Teacher = () => {
                   Generated Codes
                 </CardTitle>
                 <CardDescription>
-                  Access codes for created exercises and lessons. Share with students.
+                  Access codes for created exercises and lessons. Share with students. Codes can be limited to a time window, a number of sessions or a class, and revoked or replaced at any time.
                 </CardDescription>
+                {ownershipFilterSelect}
               </CardHeader>
-              <CardContent>
-                {generatedCodes.length > 0 ? (
-                  <div className="space-y-4">
-                    {generatedCodes.map((code) => (
-                      <div key={code.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            {code.type === 'exercise' ? (
-                              <Target className="h-4 w-4 text-primary" />
-                            ) : (
-                              <BookOpen className="h-4 w-4 text-primary" />
-                            )}
-                            <span className="font-semibold">{code.title}</span>
-                            <Badge variant={code.type === 'exercise' ? 'default' : 'secondary'}>
-                              {code.type}
-                            </Badge>
-                          </div>
-                          <p className="text-sm text-muted-foreground">
-                            Created: {new Date(code.created_at).toLocaleDateString()}
-                          </p>
+              <CardContent className="space-y-6">
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="new-class-name">New class</Label>
+                    <Input
+                      id="new-class-name"
+                      value={newClassName}
+                      onChange={(e) => setNewClassName(e.target.value)}
+                      placeholder="e.g. Socionom T5 HT25"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleCreateClass} disabled={!newClassName.trim()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add class
+                  </Button>
+                </div>
+
+                {visibleClasses.length > 0 && (
+                  <div className="space-y-2">
+                    {visibleClasses.map((classGroup) => (
+                      <div key={classGroup.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="flex items-center gap-2">
+                          <Users className="h-4 w-4 text-primary" />
+                          <span className="font-medium">{classGroup.name}</span>
+                          <span className="text-sm text-muted-foreground">Join token:</span>
+                          <span className="font-mono font-semibold">{classGroup.join_token}</span>
                         </div>
-                        <div className="text-right">
-                          <div className="font-mono text-lg font-bold text-primary">
-                            {code.id}
-                          </div>
-                          <p className="text-xs text-muted-foreground">
-                            Share this code
-                          </p>
+                        <div className="flex items-center gap-2">
+                          {renderOwnership('class', classGroup.id, classGroup.name, classGroup.owner_id)}
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Eye className="h-4 w-4 mr-2" />
+                                Results
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                              <DialogHeader>
+                                <DialogTitle>{classGroup.name}</DialogTitle>
+                                <DialogDescription>
+                                  Sessions per student. Students join with the class token and a pseudonym.
+                                </DialogDescription>
+                              </DialogHeader>
+                              <ClassResults classId={classGroup.id} />
+                            </DialogContent>
+                          </Dialog>
                         </div>
                       </div>
                     ))}
                   </div>
+                )}
+
+                {visibleCodes.length > 0 ? (
+                  <div className="space-y-4">
+                    {visibleCodes.map((code) => (
+                      <AccessCodeCard
+                        key={code.id}
+                        code={code}
+                        classes={classes}
+                        onChanged={fetchCodes}
+                        actions={renderOwnership(code.type, code.target_id, code.title, code.owner_id)}
+                      />
+                    ))}
+                  </div>
                 ) : (
                   <div className="text-center py-12">
                     <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                    <h3 className="text-lg font-semibold mb-2">No codes generated yet</h3>
+                    <h3 className="text-lg font-semibold mb-2">
+                      {ownershipFilter === 'all' ? 'No codes generated yet' : 'No codes match this filter'}
+                    </h3>
                     <p className="text-muted-foreground mb-4">
                       Create exercises or lessons to generate access codes for students.
                     </p>
@@ -1395,6 +1681,13 @@ const Teacher = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Background batch review of uploaded transcripts */}
+          {supportsReviewJobs && (
+            <TabsContent value="batch-review" className="space-y-6">
+              <BatchReviewJobs />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
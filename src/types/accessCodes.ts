@@ -0,0 +1,94 @@
+/**
+ * Access Code Lifecycle
+ *
+ * Exercise (EX-) and lesson (LS-) codes can be limited to a validity window and a
+ * maximum number of sessions, scoped to a class, and revoked. Every session start
+ * claims the code: the claim is rejected with a distinct error code when the code
+ * is unknown, revoked, not yet valid, expired or used up. Regenerating a code
+ * revokes it and issues a replacement with the same settings.
+ */
+
+export type AccessCodeType = 'exercise' | 'lesson';
+
+export type AccessCodeStatus = 'active' | 'scheduled' | 'expired' | 'exhausted' | 'revoked';
+
+export type AccessCodeErrorCode =
+  | 'CODE_NOT_FOUND'
+  | 'CODE_REVOKED'
+  | 'CODE_NOT_YET_VALID'
+  | 'CODE_EXPIRED'
+  | 'CODE_USAGE_LIMIT_REACHED'
+  /** The code is scoped to a class the enrolled student does not belong to */
+  | 'CODE_WRONG_CLASS'
+  /** The code is scoped to a class and the caller is not an enrolled student */
+  | 'CODE_CLASS_ONLY'
+  /** Concurrent session starts kept winning the usage count update */
+  | 'CODE_CLAIM_CONFLICT';
+
+/** Built-in demo codes; they are not stored in the codes table and never expire */
+export const DEMO_ACCESS_CODES = ['EX-DEMO001', 'LS-DEMO001'];
+
+export interface ClassGroup {
+  id: string;
+  name: string;
+  /** Students join the class with this token and a pseudonym */
+  join_token: string;
+  /** Teacher who created the class; null for classes created before ownership */
+  owner_id: string | null;
+  created_at: string;
+}
+
+/** Lifecycle fields as stored on a codes row */
+export interface AccessCodeLimits {
+  starts_at: string | null;
+  expires_at: string | null;
+  /** Null for unlimited */
+  max_sessions: number | null;
+  session_count: number;
+  revoked_at: string | null;
+}
+
+/** Code as listed by the codes function (snake_case like the table) */
+export interface AccessCode extends AccessCodeLimits {
+  id: string;
+  type: AccessCodeType;
+  target_id: string;
+  lesson_id: string | null;
+  exercise_id: string | null;
+  /** Exercise or lesson title */
+  title: string;
+  status: AccessCodeStatus;
+  /** Code issued when this one was regenerated */
+  replaced_by: string | null;
+  class_id: string | null;
+  /** Owner of the exercise or lesson the code opens */
+  owner_id: string | null;
+  created_at: string;
+}
+
+/** Settings a teacher can change; null clears a limit */
+export interface AccessCodeUpdate {
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  maxSessions?: number | null;
+  classId?: string | null;
+}
+
+/**
+ * Current status of a code; revocation wins over the window, the window over the usage limit
+ */
+export function accessCodeStatus(code: AccessCodeLimits, now: Date = new Date()): AccessCodeStatus {
+  if (code.revoked_at) {
+    return 'revoked';
+  }
+  if (code.starts_at && new Date(code.starts_at) > now) {
+    return 'scheduled';
+  }
+  if (code.expires_at && new Date(code.expires_at) <= now) {
+    return 'expired';
+  }
+  if (code.max_sessions !== null && code.session_count >= code.max_sessions) {
+    return 'exhausted';
+  }
+  return 'active';
+}
@@ -1,6 +1,10 @@
 // BASIS Training Platform - Core Type Definitions
 // Defines the data models and interfaces for the training system
 
+import type { TranscriptTurn } from './transcript';
+import type { BBICCoverage } from './bbicTemplate';
+import type { ProtocolStackEntry } from './protocolStack';
+
 export interface Protocol {
   id: string;
   name: string;
@@ -24,6 +28,49 @@ export interface Case {
   context?: Record<string, any>;
 }
 
+// Roleplay persona built from a case row and/or the exercise's case document
+export interface CasePersona {
+  caseId: string;
+  name?: string;
+  role: string;
+  background: string;
+  goals?: string;
+  hiddenFacts: string[]; // Known only to the roleplay character, never sent to the client
+  emotionalProfile?: EmotionalProfile;
+}
+
+// The emotional profile is case design, so it stays server-side like the hidden facts
+export type PublicCasePersona = Omit<CasePersona, 'hiddenFacts' | 'emotionalProfile'>;
+
+// Roleplay character emotional states, from most closed to most open
+export type EmotionalState = 'defensive' | 'anxious' | 'calming' | 'trusting';
+
+// What the student's last message did, as detected by the emotional state machine
+export type EmotionalSignal = 'empathy' | 'open_question' | 'reflection' | 'judgement' | 'dismissal' | 'pressure';
+
+export interface EmotionalRule {
+  signal: EmotionalSignal;
+  from?: EmotionalState[]; // Only applies in these states (default: any)
+  shift?: number; // Steps towards trusting (positive) or defensive (negative)
+  to?: EmotionalState; // Jump straight to a state instead of shifting
+}
+
+export interface EmotionalProfile {
+  initialState: EmotionalState;
+  trustThreshold: number; // Consecutive empathic turns needed before the character becomes trusting
+  gateHiddenFacts: boolean; // Hidden facts are only revealed once trusting
+  rules?: EmotionalRule[]; // Replace the default rules when set
+}
+
+export interface EmotionalTransition {
+  exerciseIndex: number;
+  turn: number;
+  from: EmotionalState;
+  to: EmotionalState;
+  signals: EmotionalSignal[];
+  at: string;
+}
+
 export interface ExerciseToggles {
   feedforward: boolean;
   iterative: boolean;
@@ -34,7 +81,7 @@ export interface ExerciseToggles {
 export interface Exercise {
   id: string;
   title: string;
-  protocolStack: string[]; // Protocol IDs with optional weights
+  protocolStack: ProtocolStackEntry[]; // Protocol IDs with relative weights
   caseId: string;
   toggles: ExerciseToggles;
   focusHint: string;
@@ -68,6 +115,25 @@ export interface Session {
   mode: 'exercise' | 'lesson' | 'transcript';
   state: SessionState;
   metadata: Record<string, any>;
+  lesson?: LessonProgress;
+  welcomeMessage?: string; // Opening message introducing the case persona
+  coverage?: BBICCoverage[]; // Live BBIC checklist coverage for the current exercise
+  resumeToken?: string; // Returned when the session starts; lets this browser resume it after a reload
+}
+
+export interface LessonProgress {
+  lessonId: string;
+  title: string;
+  currentExerciseIndex: number;
+  totalExercises: number;
+  isLastExercise: boolean;
+  exercises: Array<{
+    index: number;
+    exerciseId: string;
+    title: string;
+    startedAt: string;
+    completedAt?: string;
+  }>;
 }
 
 export interface ConversationMessage {
@@ -98,6 +164,7 @@ export interface AnalystResponse {
   past_only_feedback?: string;
   feedback?: string;
   suggestions?: string[];
+  assessed_areas?: string[]; // Student view: rubric fields without scores
 }
 
 export interface ReviewerResponse {
@@ -107,6 +174,7 @@ export interface ReviewerResponse {
   growth_areas: string[];
   exemplar_quotes: string[];
   summary: string;
+  assessed_areas?: string[]; // Student view: rubric_summary is emptied, only the fields remain
 }
 
 export interface RubricScore {
@@ -125,7 +193,7 @@ export interface AgentResponseSet {
 
 export interface CreateExerciseRequest {
   title: string;
-  protocolStack: string[];
+  protocolStack: Array<string | ProtocolStackEntry>;
   case: Omit<Case, 'id'>;
   toggles: ExerciseToggles;
   focusHint: string;
@@ -148,8 +216,17 @@ export interface SessionInputRequest {
   timestamp?: Date;
 }
 
+export interface SessionReviewResult {
+  scope: 'exercise' | 'lesson' | 'session';
+  exercise?: { index: number; exerciseId: string; title: string };
+  review: { reviewer: ReviewerResponse };
+  emotionalTrajectory?: EmotionalTransition[];
+}
+
 export interface TranscriptReviewRequest {
-  transcript: string;
+  transcript?: string; // Raw text; parsed into speaker turns by the server
+  turns?: TranscriptTurn[]; // Turns from a transcript import, used instead of transcript
+  studentSpeaker?: string; // Speaker the student confirmed as the practitioner
   protocolIds?: string[];
   exerciseConfig?: {
     focusHint: string;
@@ -195,6 +272,8 @@ export interface GuardrailConfig {
 export type AgentType = 'navigator' | 'analyst' | 'reviewer';
 export type SessionMode = 'exercise' | 'lesson' | 'transcript';
 export type ConversationRole = 'system' | 'user' | 'assistant';
+// Selects the response projection: only teachers and researchers receive rubric scores
+export type CallerRole = 'student' | 'teacher' | 'research';
 
 // Default Configurations
 
@@ -9,6 +9,8 @@
  * - Student feedback is always qualitative and action-oriented
  */
 
+import { ProtocolValidator } from './protocolTemplate';
+
 export interface BBICBox {
   /** Unique identifier for this checklist item (e.g., "R1", "A2", "C3") */
   id: string;
@@ -167,6 +169,37 @@ export interface BBICProtocolTemplate {
   };
 }
 
+/**
+ * Live coverage of one checklist box during a session
+ * Derived from the student's turns; exampleScript and hiddenScore are never included
+ */
+export interface BBICBoxCoverage {
+  boxId: string;
+  label: string;
+  type: BBICBox['type'];
+  /** Listed in completionCriteria.requiredBoxes */
+  required: boolean;
+  status: BBICBox['status'];
+  /** Student turn within the exercise (1-based) where the status last improved */
+  turn?: number;
+}
+
+/**
+ * Checklist coverage for one BBIC protocol in the current exercise
+ */
+export interface BBICCoverage {
+  protocolId: string;
+  protocolName: string;
+  exerciseIndex: number;
+  boxes: BBICBoxCoverage[];
+  /** completionCriteria.minimumCoverage, 0-1 */
+  minimumCoverage: number;
+  /** Partial boxes count half, as in BBICValidator.calculateCompletion */
+  completion: number;
+  /** All required boxes covered and completion at or above minimumCoverage */
+  criteriaMet: boolean;
+}
+
 /** 
  * Default feedback rules for BBIC protocols
  * Emphasizes behavior-focused, actionable guidance
@@ -365,20 +398,21 @@ export class BBICValidator {
   } {
     const violations: string[] = [];
     
-    // Check for forbidden terms
-    const lowerFeedback = feedback.toLowerCase();
+    // Check for forbidden terms as whole words ("berättade" does not contain "rätt")
     for (const term of rules.forbiddenTerms) {
-      if (lowerFeedback.includes(term.toLowerCase())) {
+      if (ProtocolValidator.containsTerm(feedback, term)) {
         violations.push(`Forbidden term detected: "${term}"`);
       }
     }
+
+    const lowerFeedback = feedback.toLowerCase();
     
-    // Check for required action-oriented patterns
+    // Check for required action-oriented patterns; an empty list requires none
     const hasRequiredPattern = rules.requiredPatterns.some(pattern => 
       lowerFeedback.includes(pattern.toLowerCase())
     );
     
-    if (!hasRequiredPattern) {
+    if (rules.requiredPatterns.length > 0 && !hasRequiredPattern) {
       violations.push("Feedback must include action-oriented language (När du, Nästa gång, etc.)");
     }
     
@@ -0,0 +1,118 @@
+/**
+ * Guardrail Rule Model
+ *
+ * Temporal guardrails combine built-in patterns (below, with stable ids) and
+ * teacher-defined rules stored per exercise in the guardrail_rules table.
+ *
+ * RULE TYPES:
+ * - regex: custom pattern matched case-insensitively against the agent output
+ * - phrase_list: literal phrases, matched as whole words
+ * - severity_override: changes the severity of a built-in rule, a custom rule,
+ *   or the semantic tier (`<agent>.semantic`); 'off' disables it
+ *
+ * Rules are merged with the defaults when a session starts.
+ */
+
+export type GuardrailAgentType = 'navigator' | 'analyst' | 'reviewer';
+
+export type GuardrailRuleType = 'regex' | 'phrase_list' | 'severity_override';
+
+export type GuardrailRuleSeverity = 'error' | 'warning' | 'off';
+
+export interface GuardrailRuleDefinition {
+  /** Stable identifier; built-in rules use `<agent>.<name>` */
+  id: string;
+  agentType: GuardrailAgentType;
+  ruleType: GuardrailRuleType;
+  /** Regex source for regex rules */
+  pattern?: string | null;
+  /** Literal phrases for phrase_list rules */
+  phrases?: string[] | null;
+  /** Rule id whose severity a severity_override changes */
+  targetRuleId?: string | null;
+  severity: GuardrailRuleSeverity;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+/** Built-in rules; ids are stable so overrides keep working across releases */
+export const BUILT_IN_GUARDRAIL_RULES: GuardrailRuleDefinition[] = [
+  {
+    id: 'navigator.retrospective_sv',
+    agentType: 'navigator',
+    ruleType: 'regex',
+    pattern: '\\b(nyligen|precis|nyss|du gjorde|tidigare svar|det som hände|i ditt förra)\\b',
+    severity: 'error',
+    description: 'Retrospektiva ord (svenska)'
+  },
+  {
+    id: 'navigator.retrospective_en',
+    agentType: 'navigator',
+    ruleType: 'regex',
+    pattern: '\\b(you just|previously|earlier|what happened|your last)\\b',
+    severity: 'error',
+    description: 'Retrospektiva ord (engelska)'
+  },
+  {
+    id: 'navigator.response_analysis',
+    agentType: 'navigator',
+    ruleType: 'regex',
+    pattern: '\\b(analys av|feedback på|bedömning av) .*(replik|svar|yttrande)\\b',
+    severity: 'error',
+    description: 'Analys av studentens repliker'
+  },
+  {
+    id: 'analyst.prospective_sv',
+    agentType: 'analyst',
+    ruleType: 'regex',
+    pattern: '\\b(nästa gång|framöver|bör du nu|kommande steg|fortsätt med|nästa)\\b',
+    severity: 'error',
+    description: 'Framåtblickande ord (svenska)'
+  },
+  {
+    id: 'analyst.prospective_en',
+    agentType: 'analyst',
+    ruleType: 'regex',
+    pattern: '\\b(next time|going forward|you should now|upcoming|continue to)\\b',
+    severity: 'error',
+    description: 'Framåtblickande ord (engelska)'
+  },
+  {
+    id: 'analyst.future_planning',
+    agentType: 'analyst',
+    ruleType: 'regex',
+    pattern: '\\b(i framtiden|kommande|planera för|förbered dig)\\b',
+    severity: 'error',
+    description: 'Planering för framtiden'
+  },
+  {
+    id: 'reviewer.segment_id',
+    agentType: 'reviewer',
+    ruleType: 'regex',
+    pattern: '\\bsegment_id\\b',
+    severity: 'error',
+    description: 'Segmentreferenser'
+  },
+  {
+    id: 'reviewer.segment_specific_sv',
+    agentType: 'reviewer',
+    ruleType: 'regex',
+    pattern: '\\b(i replik|efter replik|denna specifika|just nu)\\b',
+    severity: 'error',
+    description: 'Replikspecifika formuleringar (svenska)'
+  },
+  {
+    id: 'reviewer.segment_specific_en',
+    agentType: 'reviewer',
+    ruleType: 'regex',
+    pattern: '\\b(this specific response|in this reply|right now)\\b',
+    severity: 'error',
+    description: 'Replikspecifika formuleringar (engelska)'
+  }
+];
+
+/** Pseudo rule ids for the semantic classifier tier, targetable by severity overrides */
+export const SEMANTIC_GUARDRAIL_RULE_IDS: Partial<Record<GuardrailAgentType, string>> = {
+  navigator: 'navigator.semantic',
+  analyst: 'analyst.semantic'
+};
@@ -0,0 +1,59 @@
+/**
+ * Teacher Ownership and Sharing
+ *
+ * Exercises, lessons, documents and classes belong to the teacher who created them.
+ * The owner can share a resource with a colleague to view or to edit; access codes
+ * follow the exercise or lesson they open. Resources created before ownership have
+ * no owner and stay available to the whole department. Row-level security enforces
+ * the same rules for direct table reads (see the teacher_ownership migration).
+ */
+
+export type ResourceType = 'exercise' | 'lesson' | 'document' | 'class';
+
+export type SharePermission = 'view' | 'edit';
+
+/** How the signed-in teacher reaches a resource */
+export type ResourceAccess = 'owner' | 'shared' | 'department';
+
+/** Teacher page filter: everything visible, own resources, or resources shared by colleagues */
+export type OwnershipFilter = 'all' | 'mine' | 'shared';
+
+export interface ResourceShare {
+  id: string;
+  resourceType: ResourceType;
+  resourceId: string;
+  granteeId: string;
+  granteeEmail: string | null;
+  permission: SharePermission;
+  createdAt: string;
+}
+
+export interface ShareResourceRequest {
+  resourceType: ResourceType;
+  resourceId: string;
+  /** The colleague's sign-in e-mail */
+  email: string;
+  permission: SharePermission;
+}
+
+export function resourceAccess(ownerId: string | null | undefined, teacherId: string | undefined): ResourceAccess {
+  if (!ownerId) {
+    return 'department';
+  }
+  return ownerId === teacherId ? 'owner' : 'shared';
+}
+
+/**
+ * Whether a resource with this owner is shown under the filter
+ */
+export function matchesOwnershipFilter(
+  ownerId: string | null | undefined,
+  teacherId: string | undefined,
+  filter: OwnershipFilter
+): boolean {
+  if (filter === 'all') {
+    return true;
+  }
+  const access = resourceAccess(ownerId, teacherId);
+  return filter === 'mine' ? access === 'owner' : access === 'shared';
+}
@@ -13,6 +13,8 @@
  * - Research data collection and calibration
  */
 
+import { ProtocolValidator } from './protocolTemplate';
+
 export interface ProcessProtocolCategory {
   /** Unique identifier for this process category */
   id: string;
@@ -202,6 +204,27 @@ export interface ProcessProtocolTemplate {
   };
 }
 
+/**
+ * A process indicator observed in one student turn
+ * Polarity is the processIndicators list (positive or concerning) the indicator comes from.
+ */
+export interface ProcessIndicatorMatch {
+  protocolId: string;
+  categoryId: string;
+  categoryLabel: string;
+  processType: ProcessProtocolTemplate['processType'];
+  polarity: 'positive' | 'concerning';
+  indicator: string;
+  /** The student's own words showing the indicator, as character offsets into the turn */
+  evidence: {
+    text: string;
+    start: number;
+    end: number;
+  };
+  exerciseIndex: number;
+  turn: number;
+}
+
 /** 
  * Default validation rules for process protocols
  * Emphasizes process awareness and behavioral development
@@ -461,20 +484,21 @@ export class ProcessProtocolValidator {
   } {
     const violations: string[] = [];
     
-    // Check for forbidden terms
-    const lowerFeedback = feedback.toLowerCase();
+    // Check for forbidden terms as whole words ("berättade" does not contain "rätt")
     for (const term of rules.forbiddenTerms) {
-      if (lowerFeedback.includes(term.toLowerCase())) {
+      if (ProtocolValidator.containsTerm(feedback, term)) {
         violations.push(`Forbidden term detected: "${term}"`);
       }
     }
+
+    const lowerFeedback = feedback.toLowerCase();
     
-    // Check for required process-focused patterns
+    // Check for required process-focused patterns; an empty list requires none
     const hasRequiredPattern = rules.requiredPatterns.some(pattern =>
       lowerFeedback.includes(pattern.toLowerCase())
     );
     
-    if (!hasRequiredPattern) {
+    if (rules.requiredPatterns.length > 0 && !hasRequiredPattern) {
       violations.push("Feedback must include process-focused language (Jag observerade, Din process, etc.)");
     }
     
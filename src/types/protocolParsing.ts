@@ -0,0 +1,49 @@
+/**
+ * Parsed Protocol Documents
+ *
+ * Protocol documents uploaded to the library are parsed into one of the
+ * structured templates (base, BBIC content or process) and saved as a draft in
+ * the protocols table. The draft shares its id with the source document and is
+ * checked with the template's validator; a teacher corrects the parse and
+ * publishes it once it validates. Only published protocols are used in
+ * sessions; until then the document is used as unstructured text.
+ */
+
+import type { BasisProtocolTemplate } from './protocolTemplate';
+import type { BBICProtocolTemplate } from './bbicTemplate';
+import type { ProcessProtocolTemplate } from './processProtocolTemplate';
+
+export type ProtocolTemplateType = 'base' | 'content' | 'process';
+
+export type ProtocolStatus = 'draft' | 'published';
+
+export type StructuredProtocolTemplate =
+  | BasisProtocolTemplate
+  | BBICProtocolTemplate
+  | ProcessProtocolTemplate;
+
+export interface ProtocolSummary {
+  id: string;
+  name: string;
+  version: string;
+  type: ProtocolTemplateType;
+  status: ProtocolStatus;
+  /** Library document the protocol was parsed from; null for protocols created another way */
+  sourceDocumentId: string | null;
+  updatedAt: string | null;
+}
+
+export interface ParsedProtocol extends ProtocolSummary {
+  /** Null for protocols stored as raw text only */
+  structured: StructuredProtocolTemplate | null;
+  /** Validator errors for the current structured template; publishing requires none */
+  validationErrors: string[];
+}
+
+export interface ParseProtocolRequest {
+  documentId: string;
+  /** Template type to parse into; inferred from the document when omitted */
+  type?: ProtocolTemplateType;
+  /** Required to parse a published protocol again, which turns it back into a draft */
+  replacePublished?: boolean;
+}
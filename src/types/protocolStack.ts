@@ -0,0 +1,39 @@
+/**
+ * Exercise Protocol Stacks
+ *
+ * An exercise combines protocols (base/rubric, BBIC content, process) into a
+ * stack. Each entry carries a relative weight that the Reviewer applies in its
+ * holistic assessment. Stacks are checked when an exercise is created so that
+ * teachers see overlapping categories, feedback rules that cannot all be met
+ * and combinations the agents do not support.
+ */
+
+export interface ProtocolStackEntry {
+  protocolId: string;
+  /** Relative weight (> 0); shares are normalized across the stack */
+  weight: number;
+}
+
+export const DEFAULT_PROTOCOL_WEIGHT = 1;
+
+export type ProtocolStackIssueType =
+  | 'invalid_weight'
+  | 'duplicate_protocol'
+  | 'unknown_protocol'
+  | 'overlapping_categories'
+  | 'conflicting_feedback_rules'
+  | 'unsupported_combination';
+
+export interface ProtocolStackIssue {
+  type: ProtocolStackIssueType;
+  /** Errors block exercise creation; warnings are shown to the teacher */
+  severity: 'error' | 'warning';
+  protocolIds: string[];
+  message: string;
+}
+
+export interface ProtocolStackValidation {
+  valid: boolean;
+  stack: ProtocolStackEntry[];
+  issues: ProtocolStackIssue[];
+}
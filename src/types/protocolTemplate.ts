@@ -294,6 +294,15 @@ export const EXAMPLE_PROTOCOL: BasisProtocolTemplate = {
  * Validation utility functions
  */
 export class ProtocolValidator {
+  /**
+   * Whether the text contains the term as a whole word or phrase, case-insensitively.
+   * \b does not treat å, ä and ö as word characters; Unicode letter lookarounds do.
+   */
+  static containsTerm(text: string, term: string): boolean {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return !!escaped && new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+  }
+
   /**
    * Validates that student-facing feedback follows protocol guidelines
    */
@@ -310,10 +319,9 @@ export class ProtocolValidator {
   } {
     const violations: string[] = [];
     
-    // Check for forbidden terms
-    const lowerFeedback = feedback.toLowerCase();
+    // Check for forbidden terms as whole words ("berättade" does not contain "rätt")
     for (const term of rules.forbiddenTerms) {
-      if (lowerFeedback.includes(term.toLowerCase())) {
+      if (this.containsTerm(feedback, term)) {
         violations.push(`Forbidden term detected: "${term}"`);
       }
     }
@@ -0,0 +1,41 @@
+/**
+ * Exercise Reports
+ *
+ * Downloadable PDF/DOCX report of one reviewed exercise: the transcript and
+ * the Reviewer's holistic feedback. Students attach it to their written
+ * reflection; teachers get the same report with the internal rubric scores.
+ *
+ * CRITICAL: hiddenScore is only filled in for the teacher variant.
+ */
+
+export type ReportVariant = 'student' | 'teacher';
+
+export type ReportFormat = 'pdf' | 'docx';
+
+export interface ReportTranscriptLine {
+  speaker: string;
+  content: string;
+  /** Clock time (live sessions) or mm:ss offset (recorded transcripts) */
+  time?: string;
+}
+
+export interface ReportRubricEntry {
+  field: string;
+  /** Internal 0-4 assessment; never present in student reports */
+  hiddenScore?: number;
+  maxScore?: number;
+}
+
+export interface ExerciseReport {
+  variant: ReportVariant;
+  title: string;
+  generatedAt: string;
+  transcript: ReportTranscriptLine[];
+  rubricSummary: ReportRubricEntry[];
+  strengths: string[];
+  growthAreas: string[];
+  exemplarQuotes: string[];
+  summary: string;
+  /** Teacher variant: how the roleplay character's emotional state moved, e.g. "orolig → tillitsfull" */
+  emotionalTrajectory?: string;
+}
@@ -0,0 +1,79 @@
+/**
+ * Batch Review Jobs
+ *
+ * Teachers queue many transcripts for Reviewer feedback at once. A job is
+ * created immediately and its items are reviewed in the background with
+ * bounded concurrency; status and results are persisted per item so the
+ * Teacher page can poll progress and retry the items that failed.
+ */
+
+import type { ReviewerResponse } from './basis';
+import type { TranscriptFormat, TranscriptTurn } from './transcript';
+
+export type ReviewJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type ReviewJobItemStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ReviewJobItemInput {
+  /** Shown in the Teacher UI, e.g. the uploaded file name or a student's name */
+  label?: string;
+  /** Raw transcript text, parsed like POST /api/transcript/review */
+  transcript?: string;
+  format?: Exclude<TranscriptFormat, 'docx'>;
+  /** Turns from a transcript import, used instead of transcript */
+  turns?: TranscriptTurn[];
+  studentSpeaker?: string;
+}
+
+export interface CreateReviewJobRequest {
+  items: ReviewJobItemInput[];
+  protocolIds?: string[];
+  exerciseConfig?: {
+    focusHint?: string;
+    caseRole?: string;
+    caseBackground?: string;
+  };
+}
+
+export interface ReviewJobItem {
+  id: string;
+  index: number;
+  label: string;
+  status: ReviewJobItemStatus;
+  attempts: number;
+  errorCode?: string;
+  errorMessage?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface ReviewJobItemResult extends ReviewJobItem {
+  review?: ReviewerResponse;
+  metadata?: {
+    turnCount: number;
+    wordCount: number;
+    estimatedDuration: number;
+    analysisTime: number;
+  };
+}
+
+/** One item with its transcript turns, for reports */
+export interface ReviewJobItemDetail extends ReviewJobItemResult {
+  turns: TranscriptTurn[];
+}
+
+export interface ReviewJob {
+  id: string;
+  status: ReviewJobStatus;
+  protocolIds: string[];
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface ReviewJobWithItems extends ReviewJob {
+  items: ReviewJobItem[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Session Lifecycle and Retention
+ *
+ * Sessions are never deleted when they end. A session is active while the student
+ * trains, ended when they finish, and reviewed once the whole-session Reviewer output
+ * is stored with it. Sessions left inactive for two hours become expired. Ended,
+ * reviewed and expired sessions are archived after the retention policy's archive
+ * period and kept, with their transcript and Reviewer output, for grading and
+ * research. After the retention period archived sessions are purged or anonymized,
+ * as the department's policy says.
+ */
+
+export type SessionStatus = 'active' | 'ended' | 'reviewed' | 'archived' | 'expired';
+
+export const SESSION_STATUSES: SessionStatus[] = ['active', 'ended', 'reviewed', 'archived', 'expired'];
+
+/** Purge deletes archived sessions; anonymize keeps them without the student link */
+export type RetentionAction = 'purge' | 'anonymize';
+
+export interface SessionRetentionPolicy {
+  /** Days after a session ended (or expired) before it is archived */
+  archiveAfterDays: number;
+  /** Days an archived session is kept before the action applies; null keeps it indefinitely */
+  retentionDays: number | null;
+  action: RetentionAction;
+  updatedAt: string | null;
+}
+
+export type SessionRetentionPolicyUpdate = Pick<SessionRetentionPolicy, 'archiveAfterDays' | 'retentionDays' | 'action'>;
+
+/** Sessions changed by one retention run */
+export interface RetentionRunResult {
+  expired: number;
+  archived: number;
+  purged: number;
+  anonymized: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: SessionRetentionPolicy = {
+  archiveAfterDays: 30,
+  retentionDays: 365,
+  action: 'anonymize',
+  updatedAt: null
+};
+
+/** Longest period a teacher can set, in days (ten years) */
+export const MAX_RETENTION_DAYS = 3650;
+
+/**
+ * Problems with a policy update, empty when it can be saved
+ */
+export function validateRetentionPolicy(policy: Partial<SessionRetentionPolicyUpdate>): string[] {
+  const errors: string[] = [];
+  const isDays = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_RETENTION_DAYS;
+
+  if (!isDays(policy.archiveAfterDays)) {
+    errors.push(`archiveAfterDays must be a whole number of days between 0 and ${MAX_RETENTION_DAYS}`);
+  }
+  if (policy.retentionDays !== null && !isDays(policy.retentionDays)) {
+    errors.push(`retentionDays must be null or a whole number of days between 0 and ${MAX_RETENTION_DAYS}`);
+  }
+  if (policy.action !== 'purge' && policy.action !== 'anonymize') {
+    errors.push('action must be purge or anonymize');
+  }
+
+  return errors;
+}
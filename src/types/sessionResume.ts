@@ -0,0 +1,50 @@
+/**
+ * Session Resume
+ *
+ * A page reload or a dropped connection must not lose a training session. Starting a
+ * session returns a secret resume token that the Student page keeps in the browser;
+ * only its SHA-256 hash is stored with the session. Fetching the session with the
+ * token (X-Resume-Token) — or with the student key of the enrolled student who
+ * started it — returns the conversation and the latest agent feedback so the page
+ * can pick up where it left off. Every other call on the session (input, advance,
+ * review, end) needs the same credentials; anyone else is refused.
+ */
+
+import { AgentResponseSet, LessonProgress } from './basis';
+import { BBICCoverage } from './bbicTemplate';
+
+export const RESUME_TOKEN_HEADER = 'X-Resume-Token';
+
+/** The session WebSocket carries the same credentials as query parameters, since browsers cannot set upgrade headers */
+export const SOCKET_RESUME_TOKEN_PARAM = 'resumeToken';
+export const SOCKET_STUDENT_KEY_PARAM = 'studentKey';
+
+/** Conversation message as returned for a resumed session */
+export interface ResumedMessage {
+  id: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  /** session_start for the welcome message, exercise_start when a lesson moves on */
+  type?: 'session_start' | 'exercise_start';
+  /** Lesson exercise opened by an exercise_start message */
+  exerciseIndex?: number;
+}
+
+export interface ResumedSession {
+  id: string;
+  mode: 'exercise' | 'lesson' | 'transcript';
+  protocols: string[];
+  messageCount: number;
+  startedAt: string;
+  lastActivity: string;
+  lesson?: LessonProgress;
+  coverage?: BBICCoverage[];
+  conversation: ResumedMessage[];
+}
+
+export interface ResumeSessionResponse {
+  session: ResumedSession;
+  /** Feedback from the last turn (or the exercise briefing), projected for the caller */
+  latestFeedback?: AgentResponseSet;
+}
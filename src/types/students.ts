@@ -0,0 +1,69 @@
+/**
+ * Pseudonymous Student Identities
+ *
+ * Students join a class with the class join token and a pseudonym and receive a
+ * secret student key. The key is sent with every request (X-Student-Key), ties
+ * new sessions to the student and lets them see their own session history on
+ * any device. Teachers see results per pseudonym; no real names are stored.
+ */
+
+import { SessionStatus } from './sessionLifecycle';
+import type { ReviewerResponse } from './basis';
+
+export const STUDENT_KEY_HEADER = 'X-Student-Key';
+
+export interface StudentProfile {
+  id: string;
+  pseudonym: string;
+  classId: string;
+  className: string;
+}
+
+export interface EnrollStudentRequest {
+  joinToken: string;
+  pseudonym: string;
+}
+
+export interface StudentEnrollment {
+  student: StudentProfile;
+  /** Shown once; the student keeps it to continue on other devices */
+  studentKey: string;
+}
+
+export interface StudentSessionSummary {
+  sessionId: string;
+  mode: 'exercise' | 'lesson' | 'transcript';
+  status: SessionStatus;
+  /** Exercise title, or lesson title for lesson sessions */
+  title: string;
+  exerciseCode: string | null;
+  lessonCode: string | null;
+  startedAt: string;
+  lastActivityAt: string;
+  /** Number of student messages in the conversation */
+  studentTurns: number;
+}
+
+/** Stored Reviewer output of a session, for one lesson exercise or the whole session */
+export interface StudentSessionReview {
+  /** Null for the whole-session review */
+  exerciseIndex: number | null;
+  /** Exercise title, or the session title for the whole-session review */
+  title: string;
+  review: ReviewerResponse;
+  reviewedAt: string;
+}
+
+/** A session with its stored reviews, as teachers see it (rubric scores included) */
+export interface StudentSessionResult extends StudentSessionSummary {
+  reviews: StudentSessionReview[];
+}
+
+/** One student's sessions, as teachers see them */
+export interface StudentResults {
+  studentId: string;
+  pseudonym: string;
+  joinedAt: string;
+  lastSeenAt: string;
+  sessions: StudentSessionResult[];
+}
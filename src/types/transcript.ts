@@ -0,0 +1,75 @@
+/**
+ * Transcript Import Model
+ *
+ * Recorded practice conversations are imported from captions (SRT, WebVTT),
+ * Word documents or "Name: utterance" text and normalized into speaker turns.
+ * The Reviewer receives these turns instead of the raw transcript text.
+ *
+ * Consecutive caption cues from the same speaker are merged into one turn;
+ * timestamps are kept in milliseconds from the start of the recording.
+ *
+ * SPEAKER ROLES:
+ * Roles come from known labels ("Student", "Förälder", ...) when present;
+ * otherwise the importer suggests which speaker is the practitioner and the
+ * student confirms it (studentSpeaker) before review or per-turn analysis.
+ * Each turn has a stable segmentId ("seg_turn_001") that Analyst feedback
+ * for uploaded transcripts refers to.
+ */
+
+import type { AnalystResponse } from './basis';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'docx' | 'text';
+
+/** Which side of the conversation a speaker is on; 'unknown' when the label gives no hint */
+export type TranscriptSpeakerRole = 'student' | 'counterpart' | 'unknown';
+
+export interface TranscriptTurn {
+  index: number;
+  /** Stable id derived from the turn's position, matches AnalystResponse.segment_id */
+  segmentId: string;
+  /** Speaker label as written in the source, or 'Okänd' when the source has none */
+  speaker: string;
+  role: TranscriptSpeakerRole;
+  content: string;
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  turns: TranscriptTurn[];
+  speakers: TranscriptSpeaker[];
+  /** How the roles were found: speaker labels, the question/opening heuristic, or not at all */
+  speakerDetection: 'labels' | 'heuristic' | 'none';
+  /** Speaker most likely to be the practitioner; to be confirmed by the student */
+  suggestedStudentSpeaker?: string;
+  durationMs?: number;
+  /** Lines or cues that could not be parsed and were skipped */
+  warnings: string[];
+}
+
+export interface TranscriptSpeaker {
+  name: string;
+  role: TranscriptSpeakerRole;
+  turnCount: number;
+  questionCount: number;
+}
+
+/** Retrospective Analyst feedback for one student turn of an uploaded transcript */
+export interface TranscriptSegmentFeedback {
+  segmentId: string;
+  turnIndex: number;
+  speaker: string;
+  feedback?: AnalystResponse;
+  error?: string;
+}
+
+export interface TranscriptImportRequest {
+  /** Plain text, SRT or VTT content */
+  content?: string;
+  /** Base64-encoded file, required for .docx */
+  fileBase64?: string;
+  fileName?: string;
+  /** Detected from fileName or content when omitted */
+  format?: TranscriptFormat;
+}
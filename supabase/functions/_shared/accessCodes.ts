@@ -0,0 +1,149 @@
+// Shared access code lifecycle for Edge Functions
+// Mirrors server/services/accessCodes.ts and src/types/accessCodes.ts: codes can be
+// limited to a validity window and a number of sessions, scoped to a class and revoked.
+// Starting a session claims the code, which counts the session against its limit.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type AccessCodeType = 'exercise' | 'lesson';
+
+export type AccessCodeStatus = 'active' | 'scheduled' | 'expired' | 'exhausted' | 'revoked';
+
+export const DEMO_ACCESS_CODES = ['EX-DEMO001', 'LS-DEMO001'];
+
+// Must match STATUS_BY_ACCESS_CODE_ERROR in server/routes/session.ts
+export const ACCESS_CODE_HTTP_STATUS: Record<string, number> = {
+  CODE_NOT_FOUND: 404,
+  CODE_REVOKED: 410,
+  CODE_EXPIRED: 410,
+  CODE_NOT_YET_VALID: 403,
+  CODE_USAGE_LIMIT_REACHED: 403,
+  CODE_WRONG_CLASS: 403,
+  CODE_CLASS_ONLY: 403,
+  CODE_CLAIM_CONFLICT: 409
+};
+
+const REJECTIONS: Record<Exclude<AccessCodeStatus, 'active'>, string> = {
+  revoked: 'CODE_REVOKED',
+  scheduled: 'CODE_NOT_YET_VALID',
+  expired: 'CODE_EXPIRED',
+  exhausted: 'CODE_USAGE_LIMIT_REACHED'
+};
+
+const MAX_CLAIM_ATTEMPTS = 5;
+
+export interface AccessCodeLimits {
+  starts_at: string | null;
+  expires_at: string | null;
+  max_sessions: number | null;
+  session_count: number;
+  revoked_at: string | null;
+}
+
+export class AccessCodeError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'AccessCodeError';
+  }
+
+  get httpStatus(): number {
+    return ACCESS_CODE_HTTP_STATUS[this.code] ?? 400;
+  }
+}
+
+/**
+ * Current status of a code; revocation wins over the window, the window over the usage limit
+ */
+export function accessCodeStatus(code: AccessCodeLimits, now: Date = new Date()): AccessCodeStatus {
+  if (code.revoked_at) return 'revoked';
+  if (code.starts_at && new Date(code.starts_at) > now) return 'scheduled';
+  if (code.expires_at && new Date(code.expires_at) <= now) return 'expired';
+  if (code.max_sessions !== null && code.session_count >= code.max_sessions) return 'exhausted';
+  return 'active';
+}
+
+/**
+ * New code in the EX-/LS- format with a longer random part than the original 6 characters
+ */
+export function generateAccessCode(type: AccessCodeType): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const random = crypto.getRandomValues(new Uint8Array(8));
+  const suffix = Array.from(random, byte => chars[byte % chars.length]).join('');
+  return `${type === 'lesson' ? 'LS' : 'EX'}-${suffix}`;
+}
+
+/**
+ * Validate a code and count one session against it; returns the code's target and class
+ * Enrolled students pass their class; class-scoped codes only accept students of that class.
+ */
+export async function claimAccessCode(
+  supabase: SupabaseClient,
+  codeId: string,
+  type: AccessCodeType,
+  studentClassId?: string
+): Promise<{ targetId: string; classId: string | null }> {
+  for (let attempt = 1; attempt <= MAX_CLAIM_ATTEMPTS; attempt++) {
+    const { data: code, error } = await supabase
+      .from('codes')
+      .select('id, type, target_id, starts_at, expires_at, max_sessions, session_count, revoked_at, class_id, replaced_by')
+      .eq('id', codeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up access code: ${error.message}`);
+    }
+    if (!code || code.type !== type || !code.target_id) {
+      throw new AccessCodeError('CODE_NOT_FOUND', `Unknown ${type} code ${codeId}`);
+    }
+
+    const status = accessCodeStatus(code);
+    if (status !== 'active') {
+      console.log('Access code rejected', { codeId, status });
+      throw new AccessCodeError(REJECTIONS[status], describeRejection(status, code));
+    }
+
+    if (code.class_id && !studentClassId) {
+      throw new AccessCodeError('CODE_CLASS_ONLY', 'This code is for a class: join the class with your student key first');
+    }
+    if (code.class_id && code.class_id !== studentClassId) {
+      throw new AccessCodeError('CODE_WRONG_CLASS', 'This code belongs to another class');
+    }
+
+    // Only succeeds if no other session claimed the code since it was read
+    const { data: updated, error: updateError } = await supabase
+      .from('codes')
+      .update({ session_count: code.session_count + 1 })
+      .eq('id', code.id)
+      .eq('session_count', code.session_count)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to update access code usage: ${updateError.message}`);
+    }
+    if (updated && updated.length > 0) {
+      return { targetId: code.target_id, classId: code.class_id };
+    }
+
+    console.warn('Access code claim conflicted, retrying', { codeId, attempt });
+  }
+
+  throw new AccessCodeError('CODE_CLAIM_CONFLICT', 'The code is being used by many students at once, please try again');
+}
+
+function describeRejection(
+  status: Exclude<AccessCodeStatus, 'active'>,
+  code: AccessCodeLimits & { replaced_by: string | null }
+): string {
+  switch (status) {
+    case 'revoked':
+      return code.replaced_by
+        ? 'This code has been replaced by a new one, ask your teacher for it'
+        : 'This code has been revoked';
+    case 'scheduled':
+      return `This code is valid from ${code.starts_at}`;
+    case 'expired':
+      return `This code expired at ${code.expires_at}`;
+    case 'exhausted':
+      return `This code has reached its limit of ${code.max_sessions} sessions`;
+  }
+}
@@ -0,0 +1,219 @@
+// Shared LLM provider for Edge Functions
+// LLM_PROVIDER=openai (default) | local | stub
+// - local: any OpenAI-compatible endpoint at LOCAL_LLM_BASE_URL
+// - stub: deterministic offline fixtures, no network or API key needed
+// Hosted OpenAI models are resolved per agent from the model_configurations tiers.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type AgentType = 'roleplay' | 'analyst' | 'navigator' | 'reviewer';
+
+// Must match AGENT_CONFIGS[*].modelTier in server/config/agents.ts
+const AGENT_MODEL_TIERS: Record<AgentType, 'INTERACTIVE' | 'ANALYTICAL'> = {
+  roleplay: 'INTERACTIVE',
+  analyst: 'INTERACTIVE',
+  navigator: 'INTERACTIVE',
+  reviewer: 'ANALYTICAL'
+};
+
+const MODEL_CACHE_TTL = 60 * 1000;
+let tierModels: Map<string, string> | null = null;
+let tierModelsLoadedAt = 0;
+const rejectedModels = new Set<string>();
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  /** Explicit model; defaults to the agent's configured tier model */
+  model?: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature: number;
+  response_format?: Record<string, unknown>;
+  /** Selects the model tier, and the fixture returned by the stub provider */
+  agentType: AgentType;
+}
+
+const STUB_FIXTURES: Record<AgentType, string> = {
+  roleplay: 'Jag vet inte riktigt var jag ska börja. Jag är bara så orolig för hur mitt barn har det.',
+  analyst: JSON.stringify({
+    type: 'iterative_feedback',
+    segment_id: 'seg_stub0001',
+    rubric: [
+      { field: 'empathy', score: 3 },
+      { field: 'clarity', score: 3 },
+      { field: 'boundaries', score: 3 }
+    ],
+    evidence_quotes: ['Studentens senaste replik'],
+    past_only_feedback: 'Du visade intresse för förälderns situation genom att ställa en fråga. Det gav föräldern utrymme att beskriva oron med egna ord.'
+  }),
+  navigator: JSON.stringify({
+    type: 'feedforward',
+    guidance: 'Bjud in föräldern att berätta med egna ord vad som oroar hen mest.',
+    next_steps: ['Ställ en öppen fråga', 'Bekräfta förälderns känslor']
+  }),
+  reviewer: `Styrkor:
+- Genomgående visade samtalet ett respektfullt bemötande
+- Öppna frågor bjöd in föräldern att berätta
+
+Utvecklingsområden:
+- Sammanfattningar av förälderns oro förekom sparsamt
+
+Nästa steg:
+- Prova att sammanfatta förälderns oro med egna ord
+
+Helhetskommentar:
+Över hela interaktionen präglades samtalet av ett lyssnande förhållningssätt och ett lugnt tempo.`
+};
+
+function getProvider(): 'openai' | 'local' | 'stub' {
+  const provider = (Deno.env.get('LLM_PROVIDER') ?? 'openai').toLowerCase();
+  if (provider === 'local' || provider === 'stub') {
+    return provider;
+  }
+  return 'openai';
+}
+
+export function isLLMConfigured(): boolean {
+  return getProvider() !== 'openai' || !!Deno.env.get('OPENAI_API_KEY');
+}
+
+export function getDefaultModel(): string {
+  switch (getProvider()) {
+    case 'local':
+      return Deno.env.get('LOCAL_LLM_MODEL') ?? 'llama3.1';
+    case 'stub':
+      return 'stub';
+    default:
+      return Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
+  }
+}
+
+async function loadTierModels(): Promise<Map<string, string>> {
+  if (tierModels && Date.now() - tierModelsLoadedAt < MODEL_CACHE_TTL) {
+    return tierModels;
+  }
+
+  const models = new Map<string, string>();
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+    const { data, error } = await supabase
+      .from('model_configurations')
+      .select('tier, model_name');
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      models.set(row.tier, row.model_name);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to load model configurations, using default model:', error);
+    if (tierModels) {
+      return tierModels;
+    }
+  }
+
+  if (tierModels && Array.from(models.entries()).some(([tier, model]) => tierModels?.get(tier) !== model)) {
+    rejectedModels.clear();
+  }
+
+  tierModels = models;
+  tierModelsLoadedAt = Date.now();
+  return models;
+}
+
+/**
+ * Resolve the model for an agent from its model_configurations tier
+ */
+export async function resolveModel(agentType: AgentType): Promise<string> {
+  if (getProvider() !== 'openai') {
+    return getDefaultModel();
+  }
+
+  const models = await loadTierModels();
+  const configured = models.get(AGENT_MODEL_TIERS[agentType]);
+
+  return configured && !rejectedModels.has(configured) ? configured : getDefaultModel();
+}
+
+function isModelRejection(status: number, errorData: { error?: { code?: string; message?: string } }): boolean {
+  const code = errorData?.error?.code;
+  const message = String(errorData?.error?.message ?? '');
+  return status === 404
+    || code === 'model_not_found'
+    || (status === 400 && /model/i.test(message) && /(does not exist|not supported|invalid)/i.test(message));
+}
+
+/**
+ * Run a chat completion against the configured provider and return the message content
+ */
+export async function createChatCompletion(options: ChatCompletionOptions): Promise<string> {
+  const provider = getProvider();
+
+  if (provider === 'stub') {
+    return STUB_FIXTURES[options.agentType];
+  }
+
+  const baseUrl = provider === 'local'
+    ? (Deno.env.get('LOCAL_LLM_BASE_URL') ?? 'http://localhost:11434/v1')
+    : 'https://api.openai.com/v1';
+  const apiKey = provider === 'local'
+    ? (Deno.env.get('LOCAL_LLM_API_KEY') ?? 'local')
+    : Deno.env.get('OPENAI_API_KEY');
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY not found in environment variables');
+  }
+
+  const { agentType, model: explicitModel, ...body } = options;
+  const model = explicitModel ?? await resolveModel(agentType);
+
+  const send = (requestModel: string) => fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...body,
+      model: requestModel,
+    }),
+  });
+
+  let response = await send(model);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const fallbackModel = getDefaultModel();
+
+    if (model !== fallbackModel && isModelRejection(response.status, errorData)) {
+      // Configured tier model is unavailable; retry once with the default model
+      console.warn(`⚠️ Model "${model}" rejected, falling back to ${fallbackModel}`);
+      rejectedModels.add(model);
+      response = await send(fallbackModel);
+    }
+
+    if (!response.ok) {
+      const retryError = response.bodyUsed ? errorData : await response.json().catch(() => ({}));
+      throw new Error(`LLM API error (${provider}): ${response.status} - ${retryError.error?.message || 'Unknown error'}`);
+    }
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+
+  if (!content) {
+    throw new Error(`No response content from ${provider} provider`);
+  }
+
+  return content;
+}
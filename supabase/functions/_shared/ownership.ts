@@ -0,0 +1,110 @@
+// Shared teacher ownership for Edge Functions
+// Mirrors the teacher_ownership migration and src/types/ownership.ts. Edge Functions use
+// the service role, which bypasses row-level security, so they apply the same rules here:
+// a teacher reaches resources they own, resources a colleague shared with them, and
+// resources without an owner (created before ownership). Codes follow their exercise or lesson.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type ResourceType = 'exercise' | 'lesson' | 'document' | 'class';
+
+export type SharePermission = 'view' | 'edit';
+
+export const RESOURCE_TABLES: Record<ResourceType, string> = {
+  exercise: 'exercises',
+  lesson: 'lessons',
+  document: 'documents',
+  class: 'classes'
+};
+
+/**
+ * Signed-in teacher (or researcher) for the request's JWT; null for the anon key and invalid tokens
+ */
+export async function resolveTeacherId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!token || !supabaseUrl || !serviceKey) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await createClient(supabaseUrl, serviceKey).auth.getUser(token);
+    return error || !data.user ? null : data.user.id;
+  } catch (error) {
+    // Fail closed like resolveCallerRole
+    console.warn('Failed to resolve teacher:', error);
+    return null;
+  }
+}
+
+/**
+ * Ids of resources of this type that colleagues shared with the teacher, with the permission
+ */
+export async function sharedResourceIds(
+  supabase: SupabaseClient,
+  teacherId: string,
+  resourceType: ResourceType
+): Promise<Map<string, SharePermission>> {
+  const { data, error } = await supabase
+    .from('resource_shares')
+    .select('resource_id, permission')
+    .eq('grantee_id', teacherId)
+    .eq('resource_type', resourceType);
+
+  if (error) {
+    throw new Error(`Failed to load shared ${resourceType}s: ${error.message}`);
+  }
+
+  return new Map((data ?? []).map(share => [share.resource_id as string, share.permission as SharePermission]));
+}
+
+/**
+ * PostgREST in() list; ids are quoted so text ids with dots or commas stay intact
+ */
+export function inList(ids: Iterable<string>): string {
+  return `(${[...ids].map(id => `"${id.replace(/"/g, '\\"')}"`).join(',')})`;
+}
+
+/**
+ * PostgREST or() filter for rows the teacher can see: own, unowned, or shared (by idColumn)
+ */
+export function visibleTo(teacherId: string, sharedIds: Iterable<string>, idColumn = 'id'): string {
+  const shared = [...sharedIds];
+  return [
+    'owner_id.is.null',
+    `owner_id.eq.${teacherId}`,
+    ...(shared.length > 0 ? [`${idColumn}.in.${inList(shared)}`] : [])
+  ].join(',');
+}
+
+/**
+ * Whether the teacher may read (or, with edit, change) a resource with this owner
+ */
+export async function canAccessResource(
+  supabase: SupabaseClient,
+  teacherId: string,
+  resourceType: ResourceType,
+  resourceId: string,
+  ownerId: string | null,
+  edit = false
+): Promise<boolean> {
+  if (!ownerId || ownerId === teacherId) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from('resource_shares')
+    .select('permission')
+    .eq('resource_type', resourceType)
+    .eq('resource_id', resourceId)
+    .eq('grantee_id', teacherId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check access to ${resourceType} ${resourceId}: ${error.message}`);
+  }
+
+  return !!data && (!edit || data.permission === 'edit');
+}
@@ -0,0 +1,91 @@
+// Shared response projection for Edge Functions
+// Mirrors server/services/responseProjection.ts: hiddenScore confidentiality at the API boundary.
+// Teachers and researchers (signed-in users) receive rubric scores; everyone else,
+// including students calling with the anon key, gets the qualitative student view.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type CallerRole = 'student' | 'teacher' | 'research';
+
+// Keys that hold numeric assessments anywhere in an agent payload
+const SCORE_KEYS = new Set(['hiddenScore', 'score', 'scores', 'overallScore', 'maxScore']);
+
+// Rubric containers: Analyst `rubric` is dropped, Reviewer `rubric_summary` is kept as an empty list
+const RUBRIC_KEYS = new Set(['rubric', 'rubric_summary']);
+
+// Unvalidated agent output attached to failures; it can hold scores in any shape
+const RAW_KEYS = new Set(['raw']);
+
+/**
+ * Role from the caller's JWT; the anon key and invalid tokens resolve to 'student'
+ */
+export async function resolveCallerRole(req: Request): Promise<CallerRole> {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!token || !supabaseUrl || !serviceKey) {
+    return 'student';
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) {
+      return 'student';
+    }
+    return data.user.app_metadata?.role === 'research' ? 'research' : 'teacher';
+  } catch (error) {
+    // Fail closed: an unverifiable token gets the student view
+    console.warn('Failed to resolve caller role:', error);
+    return 'student';
+  }
+}
+
+function rubricFields(rubric: unknown): string[] {
+  if (Array.isArray(rubric)) {
+    return rubric
+      .map(entry => (entry && typeof entry === 'object' ? (entry as { field?: unknown }).field : undefined))
+      .filter((field): field is string => typeof field === 'string');
+  }
+
+  return rubric && typeof rubric === 'object' ? Object.keys(rubric) : [];
+}
+
+function studentView(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(studentView);
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const projected: Record<string, unknown> = {};
+  let assessedAreas: string[] | undefined;
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (SCORE_KEYS.has(key) || RAW_KEYS.has(key)) continue;
+
+    if (RUBRIC_KEYS.has(key)) {
+      assessedAreas = [...(assessedAreas ?? []), ...rubricFields(entry)];
+      if (key === 'rubric_summary') projected.rubric_summary = [];
+      continue;
+    }
+
+    projected[key] = studentView(entry);
+  }
+
+  if (assessedAreas && assessedAreas.length > 0) {
+    projected.assessed_areas = [...new Set(assessedAreas)];
+  }
+
+  return projected;
+}
+
+/**
+ * Project a response body for the caller; only teachers and researchers see scores
+ */
+export function projectResponse<T>(payload: T, role: CallerRole): T {
+  return role === 'teacher' || role === 'research' ? payload : studentView(payload) as T;
+}
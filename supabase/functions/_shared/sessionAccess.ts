@@ -0,0 +1,33 @@
+// Shared session access for Edge Functions
+// Mirrors server/middleware/sessionAccess.ts: only the student who started a session may
+// use it, by its resume token or, for enrolled students, by their student key. Only the
+// SHA-256 hash of the resume token is stored (see src/types/sessionResume.ts).
+
+import type { StudentProfile } from './students.ts';
+
+export function generateResumeToken(): string {
+  const random = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...random)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function hashResumeToken(resumeToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(resumeToken));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether the caller started the session: by resume token or, for enrolled students, by student key
+ */
+export async function canResume(
+  owner: { studentId?: string | null; resumeTokenHash?: string | null },
+  resumeToken: unknown,
+  student: StudentProfile | null
+): Promise<boolean> {
+  if (owner.studentId && student?.id === owner.studentId) {
+    return true;
+  }
+  if (!owner.resumeTokenHash || typeof resumeToken !== 'string' || !resumeToken.trim()) {
+    return false;
+  }
+  return await hashResumeToken(resumeToken.trim()) === owner.resumeTokenHash;
+}
@@ -0,0 +1,205 @@
+// Shared session lifecycle for Edge Functions
+// Mirrors server/services/sessionRetention.ts and src/types/sessionLifecycle.ts: sessions are
+// kept when they end. Inactive sessions become expired, closed sessions are archived after
+// the policy's archive period, and archived sessions are purged or anonymized after the
+// retention period.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type SessionStatus = 'active' | 'ended' | 'reviewed' | 'archived' | 'expired';
+
+export type RetentionAction = 'purge' | 'anonymize';
+
+export interface SessionRetentionPolicy {
+  archiveAfterDays: number;
+  retentionDays: number | null;
+  action: RetentionAction;
+  updatedAt: string | null;
+}
+
+export interface RetentionRunResult {
+  expired: number;
+  archived: number;
+  purged: number;
+  anonymized: number;
+}
+
+// Sessions without activity for two hours expire, as in the session function
+export const SESSION_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+export const MAX_RETENTION_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLICY_COLUMNS = 'archive_after_days, retention_days, retention_action, updated_at';
+
+const DEFAULT_POLICY: SessionRetentionPolicy = {
+  archiveAfterDays: 30,
+  retentionDays: 365,
+  action: 'anonymize',
+  updatedAt: null
+};
+
+interface PolicyRow {
+  archive_after_days: number;
+  retention_days: number | null;
+  retention_action: RetentionAction;
+  updated_at: string;
+}
+
+function fromRow(row: PolicyRow): SessionRetentionPolicy {
+  return {
+    archiveAfterDays: row.archive_after_days,
+    retentionDays: row.retention_days,
+    action: row.retention_action,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function loadRetentionPolicy(supabase: SupabaseClient): Promise<SessionRetentionPolicy> {
+  const { data, error } = await supabase
+    .from('session_retention_policy')
+    .select(POLICY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load retention policy: ${error.message}`);
+  }
+
+  return data ? fromRow(data as PolicyRow) : DEFAULT_POLICY;
+}
+
+/**
+ * Problems with a policy update, empty when it can be saved
+ */
+export function validateRetentionPolicy(policy: Partial<SessionRetentionPolicy>): string[] {
+  const errors: string[] = [];
+  const isDays = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_RETENTION_DAYS;
+
+  if (!isDays(policy.archiveAfterDays)) {
+    errors.push(`archiveAfterDays must be a whole number of days between 0 and ${MAX_RETENTION_DAYS}`);
+  }
+  if (policy.retentionDays !== null && !isDays(policy.retentionDays)) {
+    errors.push(`retentionDays must be null or a whole number of days between 0 and ${MAX_RETENTION_DAYS}`);
+  }
+  if (policy.action !== 'purge' && policy.action !== 'anonymize') {
+    errors.push('action must be purge or anonymize');
+  }
+
+  return errors;
+}
+
+export async function saveRetentionPolicy(
+  supabase: SupabaseClient,
+  policy: Pick<SessionRetentionPolicy, 'archiveAfterDays' | 'retentionDays' | 'action'>,
+  teacherId: string
+): Promise<SessionRetentionPolicy> {
+  const { data, error } = await supabase
+    .from('session_retention_policy')
+    .upsert({
+      id: true,
+      archive_after_days: policy.archiveAfterDays,
+      retention_days: policy.retentionDays,
+      retention_action: policy.action,
+      updated_by: teacherId
+    })
+    .select(POLICY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to store retention policy: ${error?.message}`);
+  }
+
+  return fromRow(data as PolicyRow);
+}
+
+/**
+ * Expire inactive sessions, then archive, purge or anonymize according to the policy
+ */
+export async function applyRetention(supabase: SupabaseClient): Promise<RetentionRunResult> {
+  const policy = await loadRetentionPolicy(supabase);
+  const now = new Date();
+
+  const { data: expired, error: expireError } = await supabase
+    .from('sessions')
+    .update({ status: 'expired', ended_at: now.toISOString() })
+    .eq('status', 'active')
+    .lt('last_activity_at', new Date(now.getTime() - SESSION_TIMEOUT_MS).toISOString())
+    .select('id');
+
+  if (expireError) {
+    throw new Error(`Failed to expire sessions: ${expireError.message}`);
+  }
+
+  const { data: archived, error: archiveError } = await supabase
+    .from('sessions')
+    .update({ status: 'archived', archived_at: now.toISOString() })
+    .in('status', ['ended', 'reviewed', 'expired'])
+    .lt('ended_at', new Date(now.getTime() - policy.archiveAfterDays * DAY_MS).toISOString())
+    .select('id');
+
+  if (archiveError) {
+    throw new Error(`Failed to archive sessions: ${archiveError.message}`);
+  }
+
+  const result: RetentionRunResult = {
+    expired: expired?.length ?? 0,
+    archived: archived?.length ?? 0,
+    purged: 0,
+    anonymized: 0
+  };
+
+  if (policy.retentionDays === null) {
+    return result;
+  }
+
+  const cutoff = new Date(now.getTime() - policy.retentionDays * DAY_MS).toISOString();
+
+  if (policy.action === 'purge') {
+    const { data: purged, error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('status', 'archived')
+      .lt('archived_at', cutoff)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to purge archived sessions: ${error.message}`);
+    }
+    result.purged = purged?.length ?? 0;
+    return result;
+  }
+
+  // Anonymize: detach from the student; transcripts and reviews stay for research
+  const { data: rows, error } = await supabase
+    .from('sessions')
+    .select('id, state')
+    .eq('status', 'archived')
+    .is('anonymized_at', null)
+    .lt('archived_at', cutoff);
+
+  if (error) {
+    throw new Error(`Failed to load archived sessions: ${error.message}`);
+  }
+
+  for (const row of (rows ?? []) as Array<{ id: string; state: { metadata?: Record<string, unknown> } | null }>) {
+    const state = row.state ?? {};
+    const { error: updateError } = await supabase
+      .from('sessions')
+      .update({
+        student_id: null,
+        anonymized_at: now.toISOString(),
+        state: { ...state, metadata: { ...state.metadata, studentId: null, resumeTokenHash: null } }
+      })
+      .eq('id', row.id);
+
+    if (updateError) {
+      console.warn('Failed to anonymize session', { sessionId: row.id, error: updateError.message });
+      continue;
+    }
+    result.anonymized++;
+  }
+
+  return result;
+}
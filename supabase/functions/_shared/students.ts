@@ -0,0 +1,130 @@
+// Shared student identity for Edge Functions
+// Mirrors server/services/studentIdentity.ts: students join a class with its join token
+// and a pseudonym, and identify themselves with a secret student key (X-Student-Key).
+// Only the SHA-256 hash of the key is stored.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export const STUDENT_KEY_HEADER = 'x-student-key';
+
+export interface StudentProfile {
+  id: string;
+  pseudonym: string;
+  classId: string;
+  className: string;
+}
+
+const KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export async function hashStudentKey(studentKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(studentKey));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * New key in the STU-XXXX-XXXX-XXXX format
+ */
+export function generateStudentKey(): string {
+  const random = crypto.getRandomValues(new Uint8Array(12));
+  const chars = Array.from(random, byte => KEY_ALPHABET[byte % KEY_ALPHABET.length]).join('');
+  return `STU-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+/**
+ * Student for the request's X-Student-Key header: null without the header, 'invalid' for an unknown key
+ */
+export async function resolveStudent(supabase: SupabaseClient, req: Request): Promise<StudentProfile | null | 'invalid'> {
+  const studentKey = req.headers.get(STUDENT_KEY_HEADER)?.trim().toUpperCase();
+  if (!studentKey) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('students')
+    .select('id, pseudonym, class_id, classes(name)')
+    .eq('key_hash', await hashStudentKey(studentKey))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up student: ${error.message}`);
+  }
+  if (!data) {
+    return 'invalid';
+  }
+
+  await supabase
+    .from('students')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return {
+    id: data.id,
+    pseudonym: data.pseudonym,
+    classId: data.class_id,
+    className: (data.classes as { name?: string } | null)?.name ?? ''
+  };
+}
+
+export interface SessionRow {
+  id: string;
+  mode: string;
+  status: string | null;
+  student_id: string | null;
+  started_at: string;
+  last_activity_at: string;
+  review?: Record<string, unknown> | null;
+  reviewed_at?: string | null;
+  state: {
+    config?: { title?: string };
+    lesson?: { title?: string; segments?: Array<{ title?: string }> };
+    conversationHistory?: Array<{ role: string }>;
+    metadata?: { exerciseCode?: string | null; lessonCode?: string | null };
+    exerciseReviews?: Array<{ exerciseIndex: number; review: Record<string, unknown>; reviewedAt: string }>;
+  } | null;
+}
+
+/**
+ * History entry for a sessions row (see StudentSessionSummary in src/types/students.ts)
+ */
+export function summarizeSession(row: SessionRow) {
+  const state = row.state ?? {};
+  return {
+    sessionId: row.id,
+    mode: row.mode,
+    status: row.status ?? 'active',
+    title: state.lesson?.title ?? state.config?.title ?? 'Untitled session',
+    exerciseCode: state.metadata?.exerciseCode ?? null,
+    lessonCode: state.metadata?.lessonCode ?? null,
+    startedAt: row.started_at,
+    lastActivityAt: row.last_activity_at,
+    studentTurns: (state.conversationHistory ?? []).filter(message => message.role === 'user').length
+  };
+}
+
+/**
+ * Class results entry: the history entry with the stored Reviewer output, per lesson
+ * exercise and for the whole session (see StudentSessionResult in src/types/students.ts)
+ */
+export function summarizeSessionWithReviews(row: SessionRow) {
+  const summary = summarizeSession(row);
+  const state = row.state ?? {};
+  const reviews = [...(state.exerciseReviews ?? [])]
+    .sort((a, b) => a.exerciseIndex - b.exerciseIndex)
+    .map(entry => ({
+      exerciseIndex: entry.exerciseIndex as number | null,
+      title: state.lesson?.segments?.[entry.exerciseIndex]?.title ?? `Exercise ${entry.exerciseIndex + 1}`,
+      review: entry.review,
+      reviewedAt: entry.reviewedAt
+    }));
+
+  if (row.review) {
+    reviews.push({
+      exerciseIndex: null,
+      title: summary.title,
+      review: row.review,
+      reviewedAt: row.reviewed_at ?? row.last_activity_at
+    });
+  }
+
+  return { ...summary, reviews };
+}
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { accessCodeStatus, generateAccessCode, type AccessCodeType } from '../_shared/accessCodes.ts';
+import { canAccessResource, inList, resolveTeacherId, sharedResourceIds, visibleTo } from '../_shared/ownership.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +19,265 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const CODE_COLUMNS = 'id, type, target_id, created_at, starts_at, expires_at, max_sessions, session_count, revoked_at, replaced_by, class_id, owner_id';
+const CLASS_COLUMNS = 'id, name, join_token, owner_id, created_at';
+
+interface CodeRow {
+  id: string;
+  type: AccessCodeType;
+  target_id: string;
+  created_at: string;
+  starts_at: string | null;
+  expires_at: string | null;
+  max_sessions: number | null;
+  session_count: number;
+  revoked_at: string | null;
+  replaced_by: string | null;
+  class_id: string | null;
+  owner_id: string | null;
+}
+
+interface CodeSettings {
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  maxSessions?: number | null;
+  classId?: string | null;
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+    status,
+  });
+}
+
+function withStatus(code: CodeRow, title: string) {
+  return {
+    ...code,
+    lesson_id: code.type === 'lesson' ? code.target_id : null,
+    exercise_id: code.type === 'exercise' ? code.target_id : null,
+    status: accessCodeStatus(code),
+    title
+  };
+}
+
+async function titleOf(code: CodeRow): Promise<string> {
+  const { data } = await supabase
+    .from(code.type === 'lesson' ? 'lessons' : 'exercises')
+    .select('title')
+    .eq('id', code.target_id)
+    .maybeSingle();
+  return data?.title || 'Unknown';
+}
+
+/**
+ * Settings payload to codes columns; returns an error message for invalid values
+ */
+function toRow(settings: CodeSettings, current: CodeRow): Record<string, unknown> | string {
+  const row: Record<string, unknown> = {};
+
+  for (const [key, column] of [['startsAt', 'starts_at'], ['expiresAt', 'expires_at']] as const) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (value !== null && Number.isNaN(new Date(value).getTime())) {
+      return `${key} must be an ISO date or null`;
+    }
+    row[column] = value === null ? null : new Date(value).toISOString();
+  }
+
+  if (settings.maxSessions !== undefined) {
+    if (settings.maxSessions !== null && (!Number.isInteger(settings.maxSessions) || settings.maxSessions < 1)) {
+      return 'maxSessions must be a positive integer or null';
+    }
+    row.max_sessions = settings.maxSessions;
+  }
+
+  if (settings.classId !== undefined) {
+    row.class_id = settings.classId || null;
+  }
+
+  const startsAt = (row.starts_at !== undefined ? row.starts_at : current.starts_at) as string | null;
+  const expiresAt = (row.expires_at !== undefined ? row.expires_at : current.expires_at) as string | null;
+  if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+    return 'expiresAt must be after startsAt';
+  }
+
+  return row;
+}
+
+async function loadCode(codeId: unknown): Promise<CodeRow | null> {
+  if (typeof codeId !== 'string' || !codeId) {
+    return null;
+  }
+  const { data, error } = await supabase
+    .from('codes')
+    .select(CODE_COLUMNS)
+    .eq('id', codeId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch code: ${error.message}`);
+  }
+  return data as CodeRow | null;
+}
+
+function codeNotFound(codeId: unknown) {
+  return jsonResponse({ error: "CODE_NOT_FOUND", message: `Code ${codeId ?? ''} not found` }, 404);
+}
+
+function forbidden(message: string) {
+  return jsonResponse({ error: "FORBIDDEN", message }, 403);
+}
+
+/**
+ * Codes can be changed by the owner of their exercise or lesson and colleagues with edit permission
+ */
+async function loadEditableCode(teacherId: string, codeId: unknown): Promise<CodeRow | Response> {
+  const code = await loadCode(codeId);
+  if (!code) return codeNotFound(codeId);
+
+  if (!await canAccessResource(supabase, teacherId, code.type, code.target_id, code.owner_id, true)) {
+    return forbidden(`You do not have permission to manage code ${code.id}`);
+  }
+  return code;
+}
+
+async function canUseClass(teacherId: string, classId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('classes')
+    .select('id, owner_id')
+    .eq('id', classId)
+    .maybeSingle();
+  return !!data && await canAccessResource(supabase, teacherId, 'class', data.id, data.owner_id);
+}
+
+async function handleUpdate(teacherId: string, body: { codeId?: string; settings?: CodeSettings }) {
+  const code = await loadEditableCode(teacherId, body.codeId);
+  if (code instanceof Response) return code;
+
+  const row = toRow(body.settings ?? {}, code);
+  if (typeof row === 'string') {
+    return jsonResponse({ error: "INVALID_SETTINGS", message: row }, 400);
+  }
+  if (typeof row.class_id === 'string' && !await canUseClass(teacherId, row.class_id)) {
+    return forbidden('Codes can only be scoped to your own or shared classes');
+  }
+
+  const { data, error } = await supabase
+    .from('codes')
+    .update(row)
+    .eq('id', code.id)
+    .select(CODE_COLUMNS)
+    .single();
+  if (error) {
+    throw new Error(`Failed to update code: ${error.message}`);
+  }
+
+  console.log(`✅ Updated code ${code.id}`, row);
+  return jsonResponse(withStatus(data as CodeRow, await titleOf(code)));
+}
+
+async function handleRevoke(teacherId: string, body: { codeId?: string }) {
+  const code = await loadEditableCode(teacherId, body.codeId);
+  if (code instanceof Response) return code;
+
+  if (code.revoked_at) {
+    return jsonResponse(withStatus(code, await titleOf(code)));
+  }
+
+  const { data, error } = await supabase
+    .from('codes')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', code.id)
+    .select(CODE_COLUMNS)
+    .single();
+  if (error) {
+    throw new Error(`Failed to revoke code: ${error.message}`);
+  }
+
+  console.log(`🚫 Revoked code ${code.id}`);
+  return jsonResponse(withStatus(data as CodeRow, await titleOf(code)));
+}
+
+/**
+ * Revoke a code and issue a replacement for the same target with the same window, limit and class
+ */
+async function handleRegenerate(teacherId: string, body: { codeId?: string }) {
+  const code = await loadEditableCode(teacherId, body.codeId);
+  if (code instanceof Response) return code;
+
+  if (code.replaced_by) {
+    return jsonResponse({
+      error: "CODE_ALREADY_REPLACED",
+      message: `Code ${code.id} was already replaced by ${code.replaced_by}`
+    }, 409);
+  }
+
+  const { data: replacement, error: insertError } = await supabase
+    .from('codes')
+    .insert({
+      id: generateAccessCode(code.type),
+      type: code.type,
+      target_id: code.target_id,
+      starts_at: code.starts_at,
+      expires_at: code.expires_at,
+      max_sessions: code.max_sessions,
+      class_id: code.class_id,
+      owner_id: code.owner_id
+    })
+    .select(CODE_COLUMNS)
+    .single();
+  if (insertError || !replacement) {
+    throw new Error(`Failed to create replacement code: ${insertError?.message}`);
+  }
+
+  const { data: revoked, error: revokeError } = await supabase
+    .from('codes')
+    .update({ revoked_at: code.revoked_at ?? new Date().toISOString(), replaced_by: replacement.id })
+    .eq('id', code.id)
+    .select(CODE_COLUMNS)
+    .single();
+  if (revokeError) {
+    throw new Error(`Failed to revoke code: ${revokeError.message}`);
+  }
+
+  console.log(`🔁 Regenerated code ${code.id} as ${replacement.id}`);
+  const title = await titleOf(code);
+  return jsonResponse({
+    code: withStatus(replacement as CodeRow, title),
+    replaced: withStatus(revoked as CodeRow, title)
+  });
+}
+
+async function handleListClasses(teacherId: string) {
+  const shared = await sharedResourceIds(supabase, teacherId, 'class');
+  const { data, error } = await supabase
+    .from('classes')
+    .select(CLASS_COLUMNS)
+    .or(visibleTo(teacherId, shared.keys()))
+    .order('name', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to fetch classes: ${error.message}`);
+  }
+  return jsonResponse(data ?? []);
+}
+
+async function handleCreateClass(teacherId: string, body: { name?: string }) {
+  const name = body.name?.trim();
+  if (!name) {
+    return jsonResponse({ error: "MISSING_NAME", message: "name is required" }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('classes')
+    .insert({ name, owner_id: teacherId })
+    .select(CLASS_COLUMNS)
+    .single();
+  if (error) {
+    throw new Error(`Failed to create class: ${error.message}`);
+  }
+  return jsonResponse(data, 201);
+}
+
 serve(async (req: Request): Promise<Response> => {
   console.log(`📥 ${req.method} request received at ${new Date().toISOString()}`);
   
@@ -45,26 +306,52 @@ serve(async (req: Request): Promise<Response> => {
     console.log(`📋 Request body:`, body);
     
     const { action } = body;
-    
-    if (action !== "list") {
-      console.log(`❌ Invalid action: ${action}`);
-      return new Response(
-        JSON.stringify({ 
-          error: "INVALID_ACTION", 
-          message: "Only 'list' action is supported" 
-        }),
-        { 
-          status: 400,
-          headers: { "Content-Type": "application/json", ...corsHeaders }
-        }
-      );
+
+    // Every action is scoped to the signed-in teacher's own and shared exercises, lessons and classes
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return forbidden("Only teachers can manage access codes");
+    }
+
+    switch (action) {
+      case "list":
+        break;
+      case "update":
+        return await handleUpdate(teacherId, body);
+      case "revoke":
+        return await handleRevoke(teacherId, body);
+      case "regenerate":
+        return await handleRegenerate(teacherId, body);
+      case "listClasses":
+        return await handleListClasses(teacherId);
+      case "createClass":
+        return await handleCreateClass(teacherId, body);
+      default:
+        console.log(`❌ Invalid action: ${action}`);
+        return jsonResponse({
+          error: "INVALID_ACTION",
+          message: `Unsupported action: ${action}`
+        }, 400);
     }
 
-    // First, fetch all codes from the codes table
+    // First, fetch the codes of the teacher's own, shared and unowned exercises and lessons
     console.log("🔍 Fetching codes from database...");
+    const [sharedExercises, sharedLessons] = await Promise.all([
+      sharedResourceIds(supabase, teacherId, 'exercise'),
+      sharedResourceIds(supabase, teacherId, 'lesson')
+    ]);
+    const visible = [visibleTo(teacherId, [])];
+    if (sharedExercises.size > 0) {
+      visible.push(`and(type.eq.exercise,target_id.in.${inList(sharedExercises.keys())})`);
+    }
+    if (sharedLessons.size > 0) {
+      visible.push(`and(type.eq.lesson,target_id.in.${inList(sharedLessons.keys())})`);
+    }
+
     const { data: codes, error: codesError } = await supabase
       .from('codes')
-      .select('id, type, target_id, created_at')
+      .select(CODE_COLUMNS)
+      .or(visible.join(','))
       .order('created_at', { ascending: false });
 
     if (codesError) {
@@ -126,29 +413,11 @@ serve(async (req: Request): Promise<Response> => {
             }
           }
 
-          return {
-            id: code.id,
-            type: code.type,
-            target_id: targetId,
-            lesson_id: code.type === 'lesson' ? targetId : null,
-            exercise_id: code.type === 'exercise' ? targetId : null,
-            created_at: code.created_at,
-            title,
-            details
-          };
+          return { ...withStatus(code as CodeRow, title), details };
         } catch (error) {
           console.error(`⚠️ Error enriching code ${code.id}:`, error);
           // Return safe fallback values
-          return {
-            id: code.id,
-            type: code.type,
-            target_id: targetId,
-            lesson_id: code.type === 'lesson' ? targetId : null,
-            exercise_id: code.type === 'exercise' ? targetId : null,
-            created_at: code.created_at,
-            title: 'Unknown',
-            details: {}
-          };
+          return { ...withStatus(code as CodeRow, 'Unknown'), details: {} };
         }
       })
     );
@@ -2,6 +2,7 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
 import mammoth from 'https://esm.sh/mammoth@1.8.0';
+import { canAccessResource, resolveTeacherId } from '../_shared/ownership.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,6 +28,18 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // The uploading teacher owns the document
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return new Response(JSON.stringify({ 
+        error: 'FORBIDDEN', 
+        message: 'Only signed-in teachers can upload documents' 
+      }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Parse multipart form data
     const formData = await req.formData();
     const file = formData.get('file') as File;
@@ -69,7 +82,7 @@ serve(async (req) => {
     if (exercise_id) {
       const { data: exerciseCheck, error: exerciseError } = await supabase
         .from('exercises')
-        .select('id')
+        .select('id, owner_id')
         .eq('id', exercise_id)
         .single();
 
@@ -82,6 +95,16 @@ serve(async (req) => {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+
+      if (!await canAccessResource(supabase, teacherId, 'exercise', exerciseCheck.id, exerciseCheck.owner_id, true)) {
+        return new Response(JSON.stringify({ 
+          error: 'FORBIDDEN', 
+          message: 'You do not have permission to add documents to this exercise' 
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
     }
 
     console.log(`Processing file upload: ${file.name} for exercise: ${exercise_id}`);
@@ -135,7 +158,8 @@ serve(async (req) => {
         file_name: file.name,
         storage_path: uploadData.path,
         document_type: document_type,
-        content: extractedContent
+        content: extractedContent,
+        owner_id: teacherId
       })
       .select()
       .single();
@@ -2,14 +2,19 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ReviewerAgent } from './reviewerAgent.ts';
+import { projectResponse, resolveCallerRole } from '../_shared/projection.ts';
+import { resolveStudent } from '../_shared/students.ts';
+import { canResume } from '../_shared/sessionAccess.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-student-key',
 };
 
 interface EndSessionRequest {
   session_id: string;
+  /** Resume token returned when the session started; enrolled students may send their key instead */
+  resumeToken?: string;
 }
 
 serve(async (req) => {
@@ -31,7 +36,7 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { session_id } = await req.json() as EndSessionRequest;
+    const { session_id, resumeToken } = await req.json() as EndSessionRequest;
 
     if (!session_id) {
       return new Response(JSON.stringify({ error: 'session_id is required' }), {
@@ -57,6 +62,22 @@ serve(async (req) => {
       });
     }
 
+    // Only the student who started the session may end it
+    const student = await resolveStudent(supabase, req);
+    const owner = {
+      studentId: sessionData.student_id,
+      resumeTokenHash: sessionData.state?.metadata?.resumeTokenHash
+    };
+    if (!await canResume(owner, resumeToken, student === 'invalid' ? null : student)) {
+      return new Response(JSON.stringify({
+        error: 'SESSION_ACCESS_FORBIDDEN',
+        message: 'Only the student who started this session can end it'
+      }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // 2. Get exercise and protocols data
     let exerciseData = null;
     let protocolsData: any[] = [];
@@ -142,19 +163,24 @@ serve(async (req) => {
       exerciseConfig
     );
 
-    // 6. Store final feedback in session state
+    // 6. Store final feedback with the session, which is kept as reviewed (archived sessions stay archived)
+    const completedAt = new Date().toISOString();
     const updatedState = {
       ...sessionData.state,
       finalFeedback: reviewerResponse,
       isCompleted: true,
-      completedAt: new Date().toISOString()
+      completedAt
     };
 
     const { error: updateError } = await supabase
       .from('sessions')
       .update({ 
         state: updatedState,
-        last_activity_at: new Date().toISOString()
+        status: sessionData.status === 'archived' ? 'archived' : 'reviewed',
+        review: reviewerResponse,
+        reviewed_at: completedAt,
+        ended_at: sessionData.ended_at ?? completedAt,
+        last_activity_at: completedAt
       })
       .eq('id', session_id);
 
@@ -170,7 +196,7 @@ serve(async (req) => {
 
     return new Response(JSON.stringify({
       success: true,
-      finalFeedback: reviewerResponse,
+      finalFeedback: projectResponse(reviewerResponse, await resolveCallerRole(req)),
       exerciseTitle: exerciseData?.title || 'Träningssession'
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -2,6 +2,8 @@
  * Reviewer Agent for End Session Analysis
  */
 
+import { createChatCompletion, isLLMConfigured } from '../_shared/llm.ts';
+
 interface ExerciseConfig {
   focus?: string;
   focusHint?: string;
@@ -25,11 +27,8 @@ interface ReviewerResponse {
 }
 
 export class ReviewerAgent {
-  private openaiApiKey: string;
-
   constructor() {
-    this.openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
-    if (!this.openaiApiKey) {
+    if (!isLLMConfigured()) {
       throw new Error('OPENAI_API_KEY is required');
     }
   }
@@ -80,30 +79,16 @@ ${transcript}
 Ge en helhetsbedömning enligt strukturen ovan.`;
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          max_tokens: 1000,
-          temperature: 0.7,
-        }),
+      const content = await createChatCompletion({
+        agentType: 'reviewer',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        max_tokens: 1000,
+        temperature: 0.7,
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-
       // Parse the structured response
       const sections = this.parseReviewerResponse(content);
 
@@ -3,9 +3,16 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canAccessResource, resolveTeacherId, sharedResourceIds, visibleTo } from '../_shared/ownership.ts';
 
 type ExerciseToggles = Record<string, unknown>;
 
+// Protocol IDs with relative weights; plain IDs get weight 1
+interface ProtocolStackEntry {
+  protocolId: string;
+  weight: number;
+}
+
 interface ExerciseCasePayload {
   role: string;
   background: string;
@@ -15,7 +22,7 @@ interface ExerciseCasePayload {
 interface ExercisesRequestBody {
   action: 'create' | 'list' | 'get';
   title?: string;
-  protocolStack?: string[];
+  protocolStack?: Array<string | { protocolId: string; weight?: number }>;
   case?: ExerciseCasePayload;
   toggles?: ExerciseToggles;
   instructionDocumentId?: string;
@@ -46,6 +53,27 @@ const supabase = createClient(
   }
 );
 
+function normalizeProtocolStack(input: ExercisesRequestBody['protocolStack']): ProtocolStackEntry[] {
+  return (input ?? []).map(entry => typeof entry === 'string'
+    ? { protocolId: entry, weight: 1 }
+    : { protocolId: entry.protocolId, weight: entry.weight === undefined ? 1 : Number(entry.weight) });
+}
+
+// Structural checks only; compatibility between protocols is checked by the Express API
+function protocolStackError(stack: ProtocolStackEntry[]): string | null {
+  const ids = stack.map(entry => entry.protocolId);
+  if (ids.some(id => typeof id !== 'string' || id.length === 0)) {
+    return 'Every protocol stack entry needs a protocolId';
+  }
+  if (new Set(ids).size !== ids.length) {
+    return 'A protocol can only appear once in the stack';
+  }
+  if (stack.some(entry => !Number.isFinite(entry.weight) || entry.weight <= 0)) {
+    return 'Protocol weights must be positive numbers';
+  }
+  return null;
+}
+
 function generateExerciseId(): string {
   return `ex_${crypto.randomUUID().replace(/-/g, '').slice(0, 18)}`;
 }
@@ -85,15 +113,18 @@ async function insertCase(caseData: ExerciseCasePayload) {
 
 async function insertExercise(payload: {
   title: string;
-  protocolStack?: string[];
+  protocolStack: ProtocolStackEntry[];
   toggles?: ExerciseToggles;
   instructionDocumentId?: string;
+  ownerId: string;
 }) {
   const { data, error } = await supabase
     .from('exercises')
     .insert({
       title: payload.title,
-      instruction_document_id: payload.instructionDocumentId || null
+      protocol_stack: payload.protocolStack,
+      instruction_document_id: payload.instructionDocumentId || null,
+      owner_id: payload.ownerId
     })
     .select()
     .single();
@@ -106,14 +137,15 @@ async function insertExercise(payload: {
   return data;
 }
 
-async function upsertExerciseCode(exerciseId: string) {
+async function upsertExerciseCode(exerciseId: string, ownerId: string) {
   const displayCode = generateDisplayCode('EX');
   const { data, error } = await supabase
     .from('codes')
     .insert({
       id: displayCode,
       type: 'exercise',
-      target_id: exerciseId
+      target_id: exerciseId,
+      owner_id: ownerId
     })
     .select()
     .single();
@@ -126,7 +158,7 @@ async function upsertExerciseCode(exerciseId: string) {
   return data;
 }
 
-async function fetchExerciseWithCode(exerciseId: string) {
+async function fetchExerciseWithCode(teacherId: string, exerciseId: string) {
   const { data: exercise, error: exerciseError } = await supabase
     .from('exercises')
     .select('*')
@@ -137,7 +169,8 @@ async function fetchExerciseWithCode(exerciseId: string) {
     throw new Error(`Failed to fetch exercise: ${exerciseError.message}`);
   }
 
-  if (!exercise) {
+  // Exercises the teacher cannot reach are reported as not found
+  if (!exercise || !await canAccessResource(supabase, teacherId, 'exercise', exercise.id, exercise.owner_id)) {
     return null;
   }
 
@@ -155,7 +188,7 @@ async function fetchExerciseWithCode(exerciseId: string) {
   };
 }
 
-async function handleCreate(body: ExercisesRequestBody) {
+async function handleCreate(teacherId: string, body: ExercisesRequestBody) {
   console.log('📥 Exercise creation request:', JSON.stringify(body, null, 2));
   
   const { title, protocolStack, case: caseData, toggles, instructionDocumentId } = body;
@@ -168,16 +201,26 @@ async function handleCreate(body: ExercisesRequestBody) {
     }, 400);
   }
 
+  const stack = normalizeProtocolStack(protocolStack);
+  const stackError = protocolStackError(stack);
+  if (stackError) {
+    return jsonResponse({
+      error: 'INVALID_PROTOCOL_STACK',
+      message: stackError
+    }, 400);
+  }
+
   console.log('🏋️ Creating exercise record...');
   const exerciseRecord = await insertExercise({
     title,
-    protocolStack,
+    protocolStack: stack,
     toggles,
-    instructionDocumentId
+    instructionDocumentId,
+    ownerId: teacherId
   });
   
   console.log('🎟️ Creating access code...');
-  const accessCode = await upsertExerciseCode(exerciseRecord.id);
+  const accessCode = await upsertExerciseCode(exerciseRecord.id, teacherId);
 
   console.log('✅ Exercise created successfully:', exerciseRecord.id);
   return jsonResponse({
@@ -188,10 +231,12 @@ async function handleCreate(body: ExercisesRequestBody) {
   });
 }
 
-async function handleList() {
+async function handleList(teacherId: string) {
+  const shared = await sharedResourceIds(supabase, teacherId, 'exercise');
   const { data: exercises, error } = await supabase
     .from('exercises')
     .select('*')
+    .or(visibleTo(teacherId, shared.keys()))
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -209,7 +254,8 @@ async function handleList() {
   const { data: codes, error: codeError } = await supabase
     .from('codes')
     .select('id, target_id')
-    .eq('type', 'exercise');
+    .eq('type', 'exercise')
+    .in('target_id', exercises.map((exercise) => String(exercise.id)));
 
   if (codeError) {
     console.warn('⚠️ Failed to fetch exercise codes:', codeError);
@@ -231,7 +277,7 @@ async function handleList() {
   return jsonResponse(payload);
 }
 
-async function handleGet(body: ExercisesRequestBody) {
+async function handleGet(teacherId: string, body: ExercisesRequestBody) {
   const { exerciseId } = body;
 
   if (!exerciseId) {
@@ -242,7 +288,7 @@ async function handleGet(body: ExercisesRequestBody) {
   }
 
   let targetId = exerciseId;
-  let directLookup = await fetchExerciseWithCode(targetId);
+  let directLookup = await fetchExerciseWithCode(teacherId, targetId);
 
   if (!directLookup) {
     const { data: codeRecord, error: codeLookupError } = await supabase
@@ -268,7 +314,7 @@ async function handleGet(body: ExercisesRequestBody) {
     }
 
     targetId = (codeRecord as any).target_id;
-    directLookup = await fetchExerciseWithCode(targetId);
+    directLookup = await fetchExerciseWithCode(teacherId, targetId);
   }
 
   if (!directLookup) {
@@ -299,13 +345,22 @@ serve(async (req: Request): Promise<Response> => {
 
     console.log(`📥 Exercises function invoked with action: ${action}`);
 
+    // Exercises belong to teachers; each sees their own, shared and unowned exercises
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return jsonResponse({
+        error: 'FORBIDDEN',
+        message: 'Only signed-in teachers can manage exercises'
+      }, 403);
+    }
+
     switch (action) {
       case 'create':
-        return await handleCreate(body);
+        return await handleCreate(teacherId, body);
       case 'list':
-        return await handleList();
+        return await handleList(teacherId);
       case 'get':
-        return await handleGet(body);
+        return await handleGet(teacherId, body);
       default:
         return jsonResponse({
           error: 'INVALID_ACTION',
@@ -0,0 +1,371 @@
+// Supabase Edge Function: guardrail-rules
+// Teacher CRUD for per-exercise guardrail rules (regex, phrase lists, severity overrides)
+// Rules follow their exercise: teachers list the rules of exercises they can access and
+// change them with edit access (see _shared/ownership.ts)
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canAccessResource, resolveTeacherId } from '../_shared/ownership.ts';
+
+type AgentType = 'navigator' | 'analyst' | 'reviewer';
+type RuleType = 'regex' | 'phrase_list' | 'severity_override';
+type Severity = 'error' | 'warning' | 'off';
+
+interface GuardrailRulePayload {
+  agentType?: AgentType;
+  ruleType?: RuleType;
+  pattern?: string | null;
+  phrases?: string[] | null;
+  targetRuleId?: string | null;
+  severity?: Severity;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+interface GuardrailRulesRequestBody {
+  action: 'list' | 'create' | 'update' | 'delete';
+  exerciseId?: string;
+  ruleId?: string;
+  rule?: GuardrailRulePayload;
+}
+
+const AGENT_TYPES: AgentType[] = ['navigator', 'analyst', 'reviewer'];
+const RULE_TYPES: RuleType[] = ['regex', 'phrase_list', 'severity_override'];
+const SEVERITIES: Severity[] = ['error', 'warning', 'off'];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+    status,
+  });
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+function toRow(rule: GuardrailRulePayload) {
+  const row: Record<string, unknown> = {};
+  if (rule.agentType !== undefined) row.agent_type = rule.agentType;
+  if (rule.ruleType !== undefined) row.rule_type = rule.ruleType;
+  if (rule.pattern !== undefined) row.pattern = rule.pattern?.trim() || null;
+  if (rule.phrases !== undefined) {
+    row.phrases = rule.phrases ? rule.phrases.map((p) => p.trim()).filter(Boolean) : null;
+  }
+  if (rule.targetRuleId !== undefined) row.target_rule_id = rule.targetRuleId || null;
+  if (rule.severity !== undefined) row.severity = rule.severity;
+  if (rule.description !== undefined) row.description = rule.description || null;
+  if (rule.enabled !== undefined) row.enabled = rule.enabled;
+  return row;
+}
+
+interface GuardrailRuleRow {
+  id: string;
+  exercise_id: string;
+  agent_type: AgentType;
+  rule_type: RuleType;
+  pattern: string | null;
+  phrases: string[] | null;
+  target_rule_id: string | null;
+  severity: Severity;
+  description: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+function fromRow(row: GuardrailRuleRow) {
+  return {
+    id: row.id,
+    exerciseId: row.exercise_id,
+    agentType: row.agent_type,
+    ruleType: row.rule_type,
+    pattern: row.pattern,
+    phrases: row.phrases,
+    targetRuleId: row.target_rule_id,
+    severity: row.severity,
+    description: row.description,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Check the teacher's access to the exercise; returns the error response, or null when allowed
+ */
+async function authorizeExercise(teacherId: string, exerciseId: string, edit: boolean): Promise<Response | null> {
+  const { data: exercise, error } = await supabase
+    .from('exercises')
+    .select('id, owner_id')
+    .eq('id', exerciseId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch exercise: ${error.message}`);
+  }
+
+  if (!exercise || !await canAccessResource(supabase, teacherId, 'exercise', exercise.id, exercise.owner_id)) {
+    return jsonResponse({
+      error: 'EXERCISE_NOT_FOUND',
+      message: 'Exercise not found'
+    }, 404);
+  }
+
+  if (edit && !await canAccessResource(supabase, teacherId, 'exercise', exercise.id, exercise.owner_id, true)) {
+    return jsonResponse({
+      error: 'FORBIDDEN',
+      message: 'You do not have permission to change the guardrail rules of this exercise'
+    }, 403);
+  }
+
+  return null;
+}
+
+/**
+ * The rule and the teacher's edit access to its exercise; returns the error response otherwise
+ */
+async function authorizeRule(teacherId: string, ruleId: string): Promise<GuardrailRuleRow | Response> {
+  const { data: existing, error } = await supabase
+    .from('guardrail_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch guardrail rule: ${error.message}`);
+  }
+
+  if (!existing) {
+    return jsonResponse({
+      error: 'RULE_NOT_FOUND',
+      message: 'Guardrail rule not found'
+    }, 404);
+  }
+
+  return await authorizeExercise(teacherId, existing.exercise_id, true) ?? existing as GuardrailRuleRow;
+}
+
+/**
+ * Validate a complete rule; returns an error message or null
+ */
+function validateRule(rule: GuardrailRulePayload): string | null {
+  if (!rule.agentType || !AGENT_TYPES.includes(rule.agentType)) {
+    return `agentType must be one of: ${AGENT_TYPES.join(', ')}`;
+  }
+  if (!rule.ruleType || !RULE_TYPES.includes(rule.ruleType)) {
+    return `ruleType must be one of: ${RULE_TYPES.join(', ')}`;
+  }
+  if (rule.severity && !SEVERITIES.includes(rule.severity)) {
+    return `severity must be one of: ${SEVERITIES.join(', ')}`;
+  }
+
+  switch (rule.ruleType) {
+    case 'regex':
+      if (!rule.pattern?.trim()) return 'pattern is required for regex rules';
+      try {
+        new RegExp(rule.pattern, 'gi');
+      } catch (error) {
+        return `Invalid regex: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      return null;
+    case 'phrase_list':
+      if (!rule.phrases?.some((p) => p.trim().length > 0)) return 'phrases must contain at least one phrase';
+      return null;
+    case 'severity_override':
+      if (!rule.targetRuleId?.trim()) return 'targetRuleId is required for severity overrides';
+      return null;
+  }
+}
+
+async function handleList(teacherId: string, body: GuardrailRulesRequestBody) {
+  if (!body.exerciseId) {
+    return jsonResponse({
+      error: 'MISSING_EXERCISE_ID',
+      message: 'exerciseId is required'
+    }, 400);
+  }
+
+  const denied = await authorizeExercise(teacherId, body.exerciseId, false);
+  if (denied) {
+    return denied;
+  }
+
+  const { data, error } = await supabase
+    .from('guardrail_rules')
+    .select('*')
+    .eq('exercise_id', body.exerciseId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ Failed to list guardrail rules:', error);
+    return jsonResponse({
+      error: 'DATABASE_ERROR',
+      message: 'Unable to list guardrail rules'
+    }, 500);
+  }
+
+  return jsonResponse((data ?? []).map(fromRow));
+}
+
+async function handleCreate(teacherId: string, body: GuardrailRulesRequestBody) {
+  const { exerciseId, rule } = body;
+
+  if (!exerciseId || !rule) {
+    return jsonResponse({
+      error: 'MISSING_REQUIRED_FIELDS',
+      message: 'exerciseId and rule are required'
+    }, 400);
+  }
+
+  const validationError = validateRule(rule);
+  if (validationError) {
+    return jsonResponse({ error: 'INVALID_RULE', message: validationError }, 400);
+  }
+
+  const denied = await authorizeExercise(teacherId, exerciseId, true);
+  if (denied) {
+    return denied;
+  }
+
+  console.log(`🛡️ Creating ${rule.ruleType} guardrail rule for exercise ${exerciseId}`);
+  const { data, error } = await supabase
+    .from('guardrail_rules')
+    .insert({ ...toRow(rule), exercise_id: exerciseId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Guardrail rule insertion failed:', error);
+    throw new Error(`Failed to create guardrail rule: ${error.message}`);
+  }
+
+  return jsonResponse(fromRow(data));
+}
+
+async function handleUpdate(teacherId: string, body: GuardrailRulesRequestBody) {
+  const { ruleId, rule } = body;
+
+  if (!ruleId || !rule) {
+    return jsonResponse({
+      error: 'MISSING_REQUIRED_FIELDS',
+      message: 'ruleId and rule are required'
+    }, 400);
+  }
+
+  const existing = await authorizeRule(teacherId, ruleId);
+  if (existing instanceof Response) {
+    return existing;
+  }
+
+  // Validate the rule as it will look after the update
+  const merged: GuardrailRulePayload = { ...fromRow(existing), ...rule };
+  const validationError = validateRule(merged);
+  if (validationError) {
+    return jsonResponse({ error: 'INVALID_RULE', message: validationError }, 400);
+  }
+
+  // The exercise is fixed; a rule cannot be moved to another teacher's exercise
+  const { data, error } = await supabase
+    .from('guardrail_rules')
+    .update(toRow(rule))
+    .eq('id', ruleId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Guardrail rule update failed:', error);
+    throw new Error(`Failed to update guardrail rule: ${error.message}`);
+  }
+
+  return jsonResponse(fromRow(data));
+}
+
+async function handleDelete(teacherId: string, body: GuardrailRulesRequestBody) {
+  if (!body.ruleId) {
+    return jsonResponse({
+      error: 'MISSING_RULE_ID',
+      message: 'ruleId is required'
+    }, 400);
+  }
+
+  const existing = await authorizeRule(teacherId, body.ruleId);
+  if (existing instanceof Response) {
+    return existing;
+  }
+
+  const { error } = await supabase
+    .from('guardrail_rules')
+    .delete()
+    .eq('id', body.ruleId);
+
+  if (error) {
+    console.error('❌ Guardrail rule deletion failed:', error);
+    throw new Error(`Failed to delete guardrail rule: ${error.message}`);
+  }
+
+  return jsonResponse({ success: true, id: body.ruleId });
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({
+      error: 'METHOD_NOT_ALLOWED',
+      message: 'Only POST method is supported'
+    }, 405);
+  }
+
+  try {
+    const body = await req.json() as GuardrailRulesRequestBody;
+    const { action } = body;
+
+    console.log(`📥 Guardrail rules function invoked with action: ${action}`);
+
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return jsonResponse({
+        error: 'FORBIDDEN',
+        message: 'Only signed-in teachers can manage guardrail rules'
+      }, 403);
+    }
+
+    switch (action) {
+      case 'list':
+        return await handleList(teacherId, body);
+      case 'create':
+        return await handleCreate(teacherId, body);
+      case 'update':
+        return await handleUpdate(teacherId, body);
+      case 'delete':
+        return await handleDelete(teacherId, body);
+      default:
+        return jsonResponse({
+          error: 'INVALID_ACTION',
+          message: `Unsupported action: ${action}`
+        }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Unexpected error in guardrail-rules function:', error);
+    return jsonResponse({
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
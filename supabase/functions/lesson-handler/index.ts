@@ -1,5 +1,6 @@
 // deno-lint-ignore-file no-explicit-any
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { resolveTeacherId } from '../_shared/ownership.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -38,6 +39,12 @@ Deno.serve(async (req: Request): Promise<Response> => {
   }
 
   try {
+    // The creating teacher owns the exercise or lesson and its access code
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return json({ error: 'FORBIDDEN', message: 'Only signed-in teachers can create exercises and lessons' }, 403);
+    }
+
     const body = await req.json();
     const { type } = body as { type?: 'exercise' | 'lesson' };
 
@@ -53,7 +60,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
       // Insert exercise first
       const { data: exercise, error: exErr } = await supabase
         .from('exercises')
-        .insert({ title, ...(lesson_id ? { lesson_id } : {}) })
+        .insert({ title, owner_id: teacherId, ...(lesson_id ? { lesson_id } : {}) })
         .select('*')
         .single();
 
@@ -69,7 +76,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
         const code = generateAccessCode('EX');
         const { data, error } = await supabase
           .from('codes')
-          .insert({ id: code, type: 'exercise', target_id: exercise.id })
+          .insert({ id: code, type: 'exercise', target_id: exercise.id, owner_id: teacherId })
           .select('*')
           .single();
 
@@ -99,12 +106,15 @@ Deno.serve(async (req: Request): Promise<Response> => {
     }
 
     if (type === 'lesson') {
-      const { title } = body as { title?: string };
+      const { title, exercise_order = [] } = body as { title?: string; exercise_order?: string[] };
       if (!title) return json({ error: 'VALIDATION_ERROR', message: 'title is required' }, 400);
+      if (!Array.isArray(exercise_order) || exercise_order.some((id) => typeof id !== 'string')) {
+        return json({ error: 'VALIDATION_ERROR', message: 'exercise_order must be an array of exercise ids' }, 400);
+      }
 
       const { data: lesson, error: lessonErr } = await supabase
         .from('lessons')
-        .insert({ title })
+        .insert({ title, exercise_order, owner_id: teacherId })
         .select('*')
         .single();
 
@@ -113,7 +123,31 @@ Deno.serve(async (req: Request): Promise<Response> => {
         return json({ error: 'DATABASE_ERROR', message: 'Failed to create lesson', details: lessonErr }, 500);
       }
 
-      return json({ success: true, lesson }, 201);
+      // Students join lessons with an LS- code; without one the lesson is unreachable
+      let codeRow: { id: string } | null = null;
+      for (let attempts = 0; attempts < 6 && !codeRow; attempts++) {
+        const { data, error } = await supabase
+          .from('codes')
+          .insert({ id: generateAccessCode('LS'), type: 'lesson', target_id: lesson.id, owner_id: teacherId })
+          .select('*')
+          .single();
+
+        if (!error && data) {
+          codeRow = data;
+        } else if (error && error.code !== '23505') {
+          console.error('Lesson code insert failed (non-unique):', error);
+          await supabase.from('lessons').delete().eq('id', lesson.id);
+          return json({ error: 'DATABASE_ERROR', message: 'Failed to create access code', details: error }, 500);
+        }
+      }
+
+      if (!codeRow) {
+        console.error('Failed to generate unique lesson access code after retries');
+        await supabase.from('lessons').delete().eq('id', lesson.id);
+        return json({ error: 'DATABASE_ERROR', message: 'Failed to generate unique access code' }, 500);
+      }
+
+      return json({ success: true, lesson, code: codeRow }, 201);
     }
 
     return json({ error: 'INVALID_TYPE', message: 'Type must be either "exercise" or "lesson"' }, 400);
@@ -4,6 +4,7 @@
 // deno-lint-ignore-file no-explicit-any
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canAccessResource, resolveTeacherId, sharedResourceIds, visibleTo } from '../_shared/ownership.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -54,6 +55,15 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
     console.log(`Lessons function called with action: ${action}`);
 
+    // Lessons belong to teachers; each sees their own, shared and unowned lessons
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return jsonResponse({
+        error: "FORBIDDEN",
+        message: "Only signed-in teachers can manage lessons",
+      }, 403);
+    }
+
     switch (action) {
       case 'create': {
         const { title, objectives, exerciseOrder = [] } = body;
@@ -71,7 +81,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
         const { data: lesson, error: lessonError } = await supabase
           .from('lessons')
           .insert({
-            title
+            title,
+            exercise_order: Array.isArray(exerciseOrder) ? exerciseOrder : [],
+            owner_id: teacherId
           })
           .select()
           .single();
@@ -95,7 +107,8 @@ Deno.serve(async (req: Request): Promise<Response> => {
           .insert({
             id: displayCode,
             type: 'lesson',
-            target_id: lesson.id
+            target_id: lesson.id,
+            owner_id: teacherId
           })
           .select()
           .single();
@@ -120,9 +133,11 @@ Deno.serve(async (req: Request): Promise<Response> => {
       }
 
       case 'list': {
+        const shared = await sharedResourceIds(supabase, teacherId, 'lesson');
         const { data: lessons, error } = await supabase
           .from('lessons')
           .select('*')
+          .or(visibleTo(teacherId, shared.keys()))
           .order('created_at', { ascending: false });
 
         if (error) {
@@ -152,7 +167,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
           .eq('id', lessonId)
           .single();
 
-        if (error) {
+        if (error || !await canAccessResource(supabase, teacherId, 'lesson', lesson.id, lesson.owner_id)) {
           console.error('Error fetching lesson:', error);
           return jsonResponse({
             error: "LESSON_NOT_FOUND",
@@ -0,0 +1,117 @@
+// Supabase Edge Function: session-retention
+// The department's session retention policy: how long ended sessions stay before they are
+// archived, and when archived sessions are purged or anonymized. Teachers read and change
+// the policy; `apply` runs the lifecycle housekeeping now (the Express server runs it every
+// 30 minutes).
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { resolveTeacherId } from '../_shared/ownership.ts';
+import {
+  applyRetention,
+  loadRetentionPolicy,
+  saveRetentionPolicy,
+  validateRetentionPolicy,
+  type RetentionAction
+} from '../_shared/sessionLifecycle.ts';
+
+interface RetentionRequestBody {
+  action: 'get' | 'update' | 'apply';
+  archiveAfterDays?: number;
+  retentionDays?: number | null;
+  retentionAction?: RetentionAction;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+    status,
+  });
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+async function handleUpdate(teacherId: string, body: RetentionRequestBody) {
+  const policy = {
+    archiveAfterDays: body.archiveAfterDays,
+    retentionDays: body.retentionDays,
+    action: body.retentionAction
+  };
+
+  const errors = validateRetentionPolicy(policy);
+  if (errors.length > 0) {
+    return jsonResponse({ error: 'INVALID_POLICY', message: errors.join('; ') }, 400);
+  }
+
+  const saved = await saveRetentionPolicy(supabase, {
+    archiveAfterDays: policy.archiveAfterDays as number,
+    retentionDays: policy.retentionDays as number | null,
+    action: policy.action as RetentionAction
+  }, teacherId);
+
+  console.log(`🗄️ Retention policy updated by ${teacherId}`, saved);
+  return jsonResponse({ policy: saved });
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({
+      error: 'METHOD_NOT_ALLOWED',
+      message: 'Only POST method is supported'
+    }, 405);
+  }
+
+  try {
+    const body = await req.json() as RetentionRequestBody;
+    const { action } = body;
+
+    console.log(`📥 Session retention function invoked with action: ${action}`);
+
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return jsonResponse({
+        error: 'FORBIDDEN',
+        message: 'The retention policy is only available to teachers'
+      }, 403);
+    }
+
+    switch (action) {
+      case 'get':
+        return jsonResponse({ policy: await loadRetentionPolicy(supabase) });
+      case 'update':
+        return await handleUpdate(teacherId, body);
+      case 'apply':
+        return jsonResponse({ result: await applyRetention(supabase) });
+      default:
+        return jsonResponse({
+          error: 'INVALID_ACTION',
+          message: `Unsupported action: ${action}`
+        }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Unexpected error in session-retention function:', error);
+    return jsonResponse({
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
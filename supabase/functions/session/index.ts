@@ -5,10 +5,16 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createChatCompletion, isLLMConfigured } from '../_shared/llm.ts';
+import { projectResponse, resolveCallerRole } from '../_shared/projection.ts';
+import { AccessCodeError, claimAccessCode, DEMO_ACCESS_CODES } from '../_shared/accessCodes.ts';
+import { resolveStudent, type StudentProfile } from '../_shared/students.ts';
+import { SESSION_TIMEOUT_MS } from '../_shared/sessionLifecycle.ts';
+import { canResume, generateResumeToken, hashResumeToken } from '../_shared/sessionAccess.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-student-key",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
@@ -64,12 +70,18 @@ interface SessionState {
   conversationHistory: ConversationMessage[];
   protocols: string[];
   config: ExerciseConfig;
+  // Agent feedback of the last turn, or the opening guidance; shown again on resume
+  latestFeedback?: Record<string, unknown>;
   metadata: {
     startedAt: Date;
     lastActivityAt: Date;
     studentId?: string;
     exerciseCode?: string;
     lessonCode?: string;
+    classId?: string;
+    // SHA-256 of the resume token; the token itself is only on the session returned by createSession
+    resumeTokenHash?: string;
+    resumeToken?: string;
   };
 }
 
@@ -83,11 +95,35 @@ function generateId(length = 12): string {
   return result;
 }
 
+// Load a session for an action on it; only the student who started it may use it
+async function authorizeSession(req: Request, sessionId: string, resumeToken: unknown): Promise<SessionState | Response> {
+  const session = await getSession(sessionId);
+  if (!session) {
+    console.log('Session not found', { sessionId });
+    return jsonResponse({
+      error: "SESSION_NOT_FOUND",
+      message: "Training session not found or expired",
+    }, 404);
+  }
+
+  const student = await resolveStudent(supabase, req);
+  if (!await canResume(session.metadata, resumeToken, student === 'invalid' ? null : student)) {
+    console.log('Session access denied', { sessionId });
+    return jsonResponse({
+      error: "SESSION_ACCESS_FORBIDDEN",
+      message: "Only the student who started this session can use it",
+    }, 403);
+  }
+
+  return session;
+}
+
 // Session management functions
 async function createSession(config: {
   mode: 'exercise' | 'lesson';
   exerciseCode?: string;
   lessonCode?: string;
+  student?: StudentProfile;
 }): Promise<SessionState> {
   const sessionId = generateId(12);
   
@@ -109,96 +145,105 @@ async function createSession(config: {
     protocols: ['basis-v1']
   };
   
-  if (config.exerciseCode) {
-    console.log('Attempting to resolve exercise code and fetch exercise from Supabase', { exerciseCode: config.exerciseCode });
+  // Codes other than the demo codes must pass the lifecycle checks (window, usage limit, revocation)
+  let codeRecord: { target_id: string } | null = null;
+  let classId: string | null = null;
+  const claimCode = async (code: string, type: 'exercise' | 'lesson') => {
     try {
-      // First, resolve the exercise code to get the target_id
-      const { data: codeRecord, error: codeError } = await supabase
-        .from('codes')
-        .select('target_id')
-        .eq('type', 'exercise')
-        .eq('id', config.exerciseCode)
+      return await claimAccessCode(supabase, code, type, config.student?.classId);
+    } catch (err) {
+      if (err instanceof AccessCodeError) {
+        throw { __type: err.code, message: err.message, __httpStatus: err.httpStatus } as any;
+      }
+      throw { __type: 'CODE_RESOLUTION_ERROR', message: 'Failed to resolve access code', details: String(err), __httpStatus: 500 } as any;
+    }
+  };
+
+  if (config.lessonCode && !DEMO_ACCESS_CODES.includes(config.lessonCode)) {
+    classId = (await claimCode(config.lessonCode, 'lesson')).classId;
+  }
+
+  if (config.exerciseCode && !DEMO_ACCESS_CODES.includes(config.exerciseCode)) {
+    const claimed = await claimCode(config.exerciseCode, 'exercise');
+    codeRecord = { target_id: claimed.targetId };
+    classId = classId ?? claimed.classId;
+  }
+
+  if (codeRecord) {
+    console.log('Fetching exercise for claimed code', { exerciseCode: config.exerciseCode, targetId: codeRecord.target_id });
+    try {
+      // Now fetch the actual exercise using the target_id
+      const { data: exercise, error: exerciseError } = await supabase
+        .from('exercises')
+        .select(`
+          *,
+          instruction_document:documents!exercises_instruction_document_id_fkey(content)
+        `)
+        .eq('id', codeRecord.target_id)
         .maybeSingle();
       
-      console.log('Code resolution result', { hasError: !!codeError, found: !!codeRecord, targetId: codeRecord?.target_id });
+      console.log('Exercise fetch result', { hasError: !!exerciseError, found: !!exercise, exerciseId: codeRecord.target_id });
       
-      if (codeError || !codeRecord?.target_id) {
-        console.warn('Exercise code not found or query error.', {
+      if (exerciseError || !exercise) {
+        console.warn('Exercise not found for target_id.', {
           exerciseCode: config.exerciseCode,
-          error: codeError?.message
+          targetId: codeRecord.target_id,
+          error: exerciseError?.message
         });
-        throw { __type: 'EXERCISE_CODE_NOT_FOUND', message: 'Invalid or unknown exerciseCode', __httpStatus: 400 } as any;
+        throw { __type: 'EXERCISE_NOT_FOUND', message: 'Exercise not found for provided code', __httpStatus: 404 } as any;
       } else {
-        // Now fetch the actual exercise using the target_id
-        const { data: exercise, error: exerciseError } = await supabase
-          .from('exercises')
-          .select(`
-            *,
-            instruction_document:documents!exercises_instruction_document_id_fkey(content)
-          `)
-          .eq('id', codeRecord.target_id)
-          .maybeSingle();
-        
-        console.log('Exercise fetch result', { hasError: !!exerciseError, found: !!exercise, exerciseId: codeRecord.target_id });
-        
-        if (exerciseError || !exercise) {
-          console.warn('Exercise not found for target_id.', {
-            exerciseCode: config.exerciseCode,
-            targetId: codeRecord.target_id,
-            error: exerciseError?.message
-          });
-          throw { __type: 'EXERCISE_NOT_FOUND', message: 'Exercise not found for provided code', __httpStatus: 404 } as any;
-        } else {
-          // Fetch linked documents with content to inform prompts
-          const { data: links, error: linksError } = await supabase
-            .from('exercise_documents')
-            .select('document_id')
-            .eq('exercise_id', exercise.id);
-          let documents: any[] = [];
-          let caseContent = '';
-          let protocolContent = '';
-          if (!linksError && links && links.length) {
-            const docIds = links.map((l: any) => l.document_id);
-            const { data: docs } = await supabase
-              .from('documents')
-              .select('id, file_name, document_type, content')
-              .in('id', docIds);
-            documents = docs || [];
-            
-            // Extract content by type
-            documents.forEach(doc => {
-              if (doc.document_type === 'case' && doc.content) {
-                caseContent = doc.content;
-              } else if (doc.document_type === 'protocol' && doc.content) {
-                protocolContent = doc.content;
-              }
-            });
-          }
-          linkedDocsSummary = documents.length ? `Linked documents: ${documents.map(d => `${d.document_type}:${d.file_name}`).join(', ')}` : '';
-
-          // Create exercise config with defaults for missing fields
-          exerciseConfig = {
-            id: exercise.id,
-            title: exercise.title,
-            caseId: 'default-case', // Default case ID since exercises table doesn't have case_id
-            toggles: {
-              feedforward: true,
-              iterative: true,
-              mode: 'text' as const,
-              skipRoleplayForGlobalFeedback: false
-            },
-            focusHint: '', // No longer using focus_area
-            protocols: ['basis-v1'], // Default protocol
-            meta: { 
-              linkedDocsSummary: linkedDocsSummary || undefined,
-              caseContent: caseContent || undefined,
-              protocolContent: protocolContent || undefined,
-              instructionContent: exercise.instruction_document?.content || undefined
+        // Fetch linked documents with content to inform prompts
+        const { data: links, error: linksError } = await supabase
+          .from('exercise_documents')
+          .select('document_id')
+          .eq('exercise_id', exercise.id);
+        let documents: any[] = [];
+        let caseContent = '';
+        let protocolContent = '';
+        if (!linksError && links && links.length) {
+          const docIds = links.map((l: any) => l.document_id);
+          const { data: docs } = await supabase
+            .from('documents')
+            .select('id, file_name, document_type, content')
+            .in('id', docIds);
+          documents = docs || [];
+          
+          // Extract content by type
+          documents.forEach(doc => {
+            if (doc.document_type === 'case' && doc.content) {
+              caseContent = doc.content;
+            } else if (doc.document_type === 'protocol' && doc.content) {
+              protocolContent = doc.content;
             }
-          };
+          });
         }
+        linkedDocsSummary = documents.length ? `Linked documents: ${documents.map(d => `${d.document_type}:${d.file_name}`).join(', ')}` : '';
+
+        // Create exercise config with defaults for missing fields
+        exerciseConfig = {
+          id: exercise.id,
+          title: exercise.title,
+          caseId: 'default-case', // Default case ID since exercises table doesn't have case_id
+          toggles: {
+            feedforward: true,
+            iterative: true,
+            mode: 'text' as const,
+            skipRoleplayForGlobalFeedback: false
+          },
+          focusHint: '', // No longer using focus_area
+          protocols: ['basis-v1'], // Default protocol
+          meta: { 
+            linkedDocsSummary: linkedDocsSummary || undefined,
+            caseContent: caseContent || undefined,
+            protocolContent: protocolContent || undefined,
+            instructionContent: exercise.instruction_document?.content || undefined
+          }
+        };
       }
     } catch (err) {
+      if (err && typeof err === 'object' && '__type' in err) {
+        throw err;
+      }
       console.error('Unexpected error during exercise resolution', {
         exerciseCode: config.exerciseCode,
         error: String(err)
@@ -206,7 +251,7 @@ async function createSession(config: {
       throw { __type: 'EXERCISE_RESOLUTION_ERROR', message: 'Failed to resolve exercise', details: String(err), __httpStatus: 500 } as any;
     }
   } else {
-    // Default to demo exercise configuration when no exerciseCode is provided
+    // Default to demo exercise configuration for the demo codes or when no exerciseCode is provided
     exerciseConfig = demoExerciseConfig;
   }
 
@@ -220,18 +265,27 @@ async function createSession(config: {
     metadata: { type: 'session_start' }
   };
 
+  const resumeToken = generateResumeToken();
   const sessionState = {
     conversationHistory: [initialMessage],
     currentExerciseIndex: 0,
     protocols: exerciseConfig.protocols,
-    config: exerciseConfig
+    config: exerciseConfig,
+    metadata: {
+      exerciseCode: config.exerciseCode ?? null,
+      lessonCode: config.lessonCode ?? null,
+      classId,
+      studentId: config.student?.id ?? null,
+      resumeTokenHash: await hashResumeToken(resumeToken)
+    }
   };
 
   // Insert session into database
   const insertPayload = {
     mode: config.mode,
-    exercise_id: config.exerciseCode ? exerciseConfig.id : null,
+    exercise_id: codeRecord ? exerciseConfig.id : null,
     lesson_id: config.lessonCode ?? null,
+    student_id: config.student?.id ?? null,
     state: sessionState,
     started_at: new Date().toISOString(),
     last_activity_at: new Date().toISOString()
@@ -262,7 +316,11 @@ async function createSession(config: {
       startedAt: new Date(dbSession.started_at),
       lastActivityAt: new Date(dbSession.last_activity_at),
       exerciseCode: config.exerciseCode,
-      lessonCode: config.lessonCode
+      lessonCode: config.lessonCode,
+      classId: classId ?? undefined,
+      studentId: config.student?.id,
+      resumeTokenHash: sessionState.metadata.resumeTokenHash,
+      resumeToken
     }
   };
   
@@ -287,14 +345,21 @@ async function getSession(sessionId: string): Promise<SessionState | null> {
     return null;
   }
 
-  // Check if session has expired (2 hours)
-  const SESSION_TIMEOUT = 2 * 60 * 60 * 1000;
+  // Ended, reviewed, archived and expired sessions are kept but no longer accept input
+  if ((dbSession.status ?? 'active') !== 'active') {
+    return null;
+  }
+
+  // Check if session has expired (2 hours); it is kept as expired
   const now = new Date();
   const timeSinceLastActivity = now.getTime() - new Date(dbSession.last_activity_at).getTime();
   
-  if (timeSinceLastActivity > SESSION_TIMEOUT) {
-    await endSession(sessionId);
-    console.log('Session expired and removed', { sessionId });
+  if (timeSinceLastActivity > SESSION_TIMEOUT_MS) {
+    await supabase
+      .from('sessions')
+      .update({ status: 'expired', ended_at: now.toISOString() })
+      .eq('id', sessionId);
+    console.log('Session expired', { sessionId });
     return null;
   }
 
@@ -316,11 +381,15 @@ async function getSession(sessionId: string): Promise<SessionState | null> {
       focusHint: '',
       protocols: ['basis-v1']
     },
+    latestFeedback: state.latestFeedback,
     metadata: {
       startedAt: new Date(dbSession.started_at),
       lastActivityAt: new Date(dbSession.last_activity_at),
-      exerciseCode: dbSession.exercise_id,
-      lessonCode: dbSession.lesson_id
+      exerciseCode: state.metadata?.exerciseCode ?? dbSession.exercise_id,
+      lessonCode: state.metadata?.lessonCode ?? dbSession.lesson_id,
+      classId: state.metadata?.classId ?? undefined,
+      studentId: dbSession.student_id ?? undefined,
+      resumeTokenHash: state.metadata?.resumeTokenHash ?? undefined
     }
   };
 
@@ -341,37 +410,65 @@ async function addMessage(sessionId: string, message: Omit<ConversationMessage,
   };
 
   session.conversationHistory.push(newMessage);
+
+  if (!await persistState(session)) {
+    return null;
+  }
+
+  console.log('Message added to session', {
+    sessionId,
+    messageId: newMessage.id,
+    role: newMessage.role,
+    contentLength: newMessage.content.length
+  });
+
+  return newMessage;
+}
+
+async function storeLatestFeedback(sessionId: string, latestFeedback: Record<string, unknown>): Promise<boolean> {
+  const session = await getSession(sessionId);
+
+  if (!session) {
+    return false;
+  }
+
+  session.latestFeedback = latestFeedback;
+  return await persistState(session);
+}
+
+// Update session state in database and bump last activity
+async function persistState(session: SessionState): Promise<boolean> {
   session.metadata.lastActivityAt = new Date();
 
-  // Update session state in database
   const updatedState = {
     conversationHistory: session.conversationHistory,
     currentExerciseIndex: session.currentExerciseIndex,
     protocols: session.protocols,
-    config: session.config
+    config: session.config,
+    latestFeedback: session.latestFeedback,
+    metadata: {
+      exerciseCode: session.metadata.exerciseCode ?? null,
+      lessonCode: session.metadata.lessonCode ?? null,
+      classId: session.metadata.classId ?? null,
+      studentId: session.metadata.studentId ?? null,
+      resumeTokenHash: session.metadata.resumeTokenHash ?? null
+    }
   };
 
   const { error } = await supabase
     .from('sessions')
     .update({
       state: updatedState,
-      last_activity_at: new Date().toISOString()
+      last_activity_at: session.metadata.lastActivityAt.toISOString()
     })
-    .eq('id', sessionId);
+    .eq('id', session.id);
 
   if (error) {
-    console.error('Failed to update session state', { sessionId, error });
-    return null;
+    console.error('Failed to update session state', { sessionId: session.id, error });
+    return false;
   }
 
-  console.log('Message added to session', {
-    sessionId,
-    messageId: newMessage.id,
-    role: newMessage.role,
-    contentLength: newMessage.content.length
-  });
-
-  return newMessage;
+  return true;
 }
 
 async function endSession(sessionId: string): Promise<boolean> {
@@ -381,13 +478,14 @@ async function endSession(sessionId: string): Promise<boolean> {
     return false;
   }
 
+  // Kept as ended with its transcript; the retention policy archives it later
   const { error } = await supabase
     .from('sessions')
-    .delete()
+    .update({ status: 'ended', ended_at: new Date().toISOString() })
     .eq('id', sessionId);
 
   if (error) {
-    console.error('Failed to delete session', { sessionId, error });
+    console.error('Failed to end session', { sessionId, error });
     return false;
   }
   
@@ -400,45 +498,38 @@ async function endSession(sessionId: string): Promise<boolean> {
   return true;
 }
 
-// Real OpenAI-powered roleplay response generation
+// LLM-powered roleplay response generation
 async function generateRoleplayResponse(userInput: string, context: any): Promise<string> {
-  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openAIApiKey) {
+  if (!isLLMConfigured()) {
     throw new Error('OPENAI_API_KEY not found in environment variables');
   }
 
-  console.log('About to call OpenAI for roleplay response', {
+  console.log('About to call LLM provider for roleplay response', {
     action: 'roleplay',
     contentLength: userInput.length,
     hasContext: !!context
   });
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: (() => {
-              const cfg = (context?.session?.config) as any;
-              let systemPrompt = `Du är en rollspelskaraktär i en träningsövning för socionomstudenter.`;
-              
-              // Inject case content if available
-              if (cfg?.meta?.caseContent) {
-                systemPrompt += `\n\nFÖLJANDE CASE-INFORMATION DEFINIERAR DIN KARAKTÄR OCH SITUATION:\n${cfg.meta.caseContent}\n`;
-                systemPrompt += `\nAGERA EXAKT ENLIGT DENNA CASE-BESKRIVNING. Din karaktär, situation och bakgrund kommer från texten ovan.`;
-              } else {
-                // Fallback if no case content
-                systemPrompt += `\n\nDu är en "Orolig förälder" som har kontaktat socialtjänsten med oro för sitt barn. Du är genuint orolig för ditt barns välmående och kan vara emotionell, defensiv eller överväldigad.`;
-              }
-              
-              systemPrompt += `\n\nRIKTLINJER:
+    const content = await createChatCompletion({
+      agentType: 'roleplay',
+      messages: [
+        {
+          role: 'system',
+          content: (() => {
+            const cfg = (context?.session?.config) as any;
+            let systemPrompt = `Du är en rollspelskaraktär i en träningsövning för socionomstudenter.`;
+            
+            // Inject case content if available
+            if (cfg?.meta?.caseContent) {
+              systemPrompt += `\n\nFÖLJANDE CASE-INFORMATION DEFINIERAR DIN KARAKTÄR OCH SITUATION:\n${cfg.meta.caseContent}\n`;
+              systemPrompt += `\nAGERA EXAKT ENLIGT DENNA CASE-BESKRIVNING. Din karaktär, situation och bakgrund kommer från texten ovan.`;
+            } else {
+              // Fallback if no case content
+              systemPrompt += `\n\nDu är en "Orolig förälder" som har kontaktat socialtjänsten med oro för sitt barn. Du är genuint orolig för ditt barns välmående och kan vara emotionell, defensiv eller överväldigad.`;
+            }
+            
+            systemPrompt += `\n\nRIKTLINJER:
 - Håll dig strikt inom din definierade karaktär och situation
 - Var realistisk och trovärdig i dina svar
 - Svara på svenska
@@ -446,34 +537,26 @@ async function generateRoleplayResponse(userInput: string, context: any): Promis
 - Ge studenten möjlighet att träna aktivt lyssnande och professionell kommunikation
 - Svara kort och naturligt (1-2 meningar) som karaktären skulle göra`;
 
-              // Add protocol guidance if available
-              if (cfg?.meta?.protocolContent) {
-                systemPrompt += `\n\nTRÄNINGSFOKUS (för din information): Studenten tränar enligt följande protokoll:\n${cfg.meta.protocolContent}`;
-              }
-              
-              return systemPrompt;
-            })()
-          },
-          {
-            role: 'user',
-            content: userInput
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.7,
-      }),
+            // Add protocol guidance if available
+            if (cfg?.meta?.protocolContent) {
+              systemPrompt += `\n\nTRÄNINGSFOKUS (för din information): Studenten tränar enligt följande protokoll:\n${cfg.meta.protocolContent}`;
+            }
+            
+            return systemPrompt;
+          })()
+        },
+        {
+          role: 'user',
+          content: userInput
+        }
+      ],
+      max_tokens: 150,
+      temperature: 0.7,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
-    }
-
-    const data = await response.json();
-    console.log('OpenAI response raw', data);
-    console.log('OpenAI roleplay response generated successfully');
-    return data.choices[0].message.content;
+    console.log('LLM response raw', content);
+    console.log('Roleplay response generated successfully');
+    return content;
   } catch (error) {
     console.error('Error generating roleplay response:', error);
     // Fallback to simple response on error
@@ -481,14 +564,13 @@ async function generateRoleplayResponse(userInput: string, context: any): Promis
   }
 }
 
-// Real OpenAI-powered agent feedback generation
+// LLM-powered agent feedback generation
 async function generateAgentFeedback(content: string, conversationHistory: ConversationMessage[], exerciseConfig?: ExerciseConfig): Promise<any> {
-  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openAIApiKey) {
+  if (!isLLMConfigured()) {
     throw new Error('OPENAI_API_KEY not found in environment variables');
   }
 
-  console.log('About to call OpenAI for agent feedback', {
+  console.log('About to call LLM provider for agent feedback', {
     action: 'agent_feedback',
     contentLength: content.length,
     historyLength: conversationHistory.length
@@ -498,48 +580,43 @@ async function generateAgentFeedback(content: string, conversationHistory: Conve
 
   try {
     // Generate Analyst feedback
-    const analystResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: (() => {
-              const instructionContent = exerciseConfig?.meta?.instructionContent || 'Allmän övning av aktivt lyssnande';
-              const title = exerciseConfig?.title ?? 'Namnlös övning';
-              const protocolContent = exerciseConfig?.meta?.protocolContent;
-              
-              let systemPrompt = `Du är en Analytiker-agent som ger retrospektiv feedback för övningen "${title}". Analysera ENDAST vad som just hände i studentens svar. Följ instruktionerna: ${instructionContent}. Ge aldrig framtida råd.`;
-              
-              if (protocolContent) {
-                systemPrompt += `\n\nPROTOKOLL FÖR BEDÖMNING:\n${protocolContent}\n\nAnvänd detta protokoll som grund för din bedömning. Analysera hur väl studenten följer protokollets riktlinjer.`;
-              }
-              
-              systemPrompt += `\n\nSvara med JSON i exakt denna struktur:\n{\n  "type": "iterative_feedback",\n  "segment_id": "seg_" + random_8_chars,\n  "rubric": [\n    {"field": "empathy", "score": 1-5},\n    {"field": "clarity", "score": 1-5},\n    {"field": "boundaries", "score": 1-5}\n  ],\n  "evidence_quotes": ["citat från studentens svar"],\n  "past_only_feedback": "Retrospektiv analys som fokuserar endast på vad som precis hände (max 2-3 meningar på svenska)"\n}`;
-              
-              return systemPrompt;
-            })()
-          },
-          {
-            role: 'user',
-            content: `Analyze this student response: "${content}"`
-          }
-        ],
-        max_tokens: 400,
-        temperature: 0.3,
-      }),
+    const analystContent = await createChatCompletion({
+      agentType: 'analyst',
+      messages: [
+        {
+          role: 'system',
+          content: (() => {
+            const instructionContent = exerciseConfig?.meta?.instructionContent || 'Allmän övning av aktivt lyssnande';
+            const title = exerciseConfig?.title ?? 'Namnlös övning';
+            const protocolContent = exerciseConfig?.meta?.protocolContent;
+            
+            let systemPrompt = `Du är en Analytiker-agent som ger retrospektiv feedback för övningen "${title}". Analysera ENDAST vad som just hände i studentens svar. Följ instruktionerna: ${instructionContent}. Ge aldrig framtida råd.`;
+            
+            if (protocolContent) {
+              systemPrompt += `\n\nPROTOKOLL FÖR BEDÖMNING:\n${protocolContent}\n\nAnvänd detta protokoll som grund för din bedömning. Analysera hur väl studenten följer protokollets riktlinjer.`;
+            }
+            
+            systemPrompt += `\n\nSvara med JSON i exakt denna struktur:\n{\n  "type": "iterative_feedback",\n  "segment_id": "seg_" + random_8_chars,\n  "rubric": [\n    {"field": "empathy", "score": 1-5},\n    {"field": "clarity", "score": 1-5},\n    {"field": "boundaries", "score": 1-5}\n  ],\n  "evidence_quotes": ["citat från studentens svar"],\n  "past_only_feedback": "Retrospektiv analys som fokuserar endast på vad som precis hände (max 2-3 meningar på svenska)"\n}`;
+            
+            return systemPrompt;
+          })()
+        },
+        {
+          role: 'user',
+          content: `Analyze this student response: "${content}"`
+        }
+      ],
+      max_tokens: 400,
+      temperature: 0.3,
+    }).catch((error) => {
+      console.error('Analyst completion failed:', error);
+      return null;
     });
 
-    if (analystResponse.ok) {
-      const analystData = await analystResponse.json();
-      console.log('OpenAI Analyst response raw', analystData);
+    if (analystContent) {
+      console.log('LLM Analyst response raw', analystContent);
       try {
-        agentFeedback.analyst = JSON.parse(analystData.choices[0].message.content);
+        agentFeedback.analyst = JSON.parse(analystContent);
       } catch {
         // Fallback if JSON parsing fails
         agentFeedback.analyst = {
@@ -551,61 +628,56 @@ async function generateAgentFeedback(content: string, conversationHistory: Conve
             {"field": "boundaries", "score": 3}
           ],
           evidence_quotes: [content.substring(0, 50) + "..."],
-          past_only_feedback: analystData.choices[0].message.content
+          past_only_feedback: analystContent
         };
       }
     }
 
     // Generate Navigator feedback
-    const navigatorResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: (() => {
-              const instructionContent = exerciseConfig?.meta?.instructionContent || 'allmän övning av aktivt lyssnande';
-              const title = exerciseConfig?.title ?? 'Namnlös övning';
-              const protocolContent = exerciseConfig?.meta?.protocolContent;
-              
-              let systemPrompt = `Du är en Navigatör-agent för övningen "${title}". Ge ENDAST framåtriktad, handlingsbar vägledning enligt instruktionerna: ${instructionContent}. Analysera aldrig det förflutna.`;
-              
-              if (protocolContent) {
-                systemPrompt += `\n\nPROTOKOLL FÖR VÄGLEDNING:\n${protocolContent}\n\nAnvänd detta protokoll för att guida studenten mot rätt tekniker och förhållningssätt i deras nästa steg.`;
-              }
-              
-              systemPrompt += `\n\nDin roll är att hjälpa studenten att engagera sig bättre med rollspelskaraktären i nästa interaktion. Fokusera på att guida studenten mot att använda tekniker från protokollet för att bygga bättre rapport och kommunikation med rollspelskaraktären.`;
-              
-              systemPrompt += `\n\nSvara med JSON i exakt denna struktur:\n{\n  "type": "feedforward",\n  "guidance": "framåtriktad vägledning på svenska (max 2-3 meningar)",\n  "next_steps": ["handling 1", "handling 2"]\n}`;
-              
-              return systemPrompt;
-            })()
-          },
-          {
-            role: 'user',
-            content: `Ge framåtriktad vägledning för studentens nästa interaktion med rollspelskaraktären. Hur kan studenten förbättra sitt nästa svar för att bättre engagera sig med karaktären enligt instruktionerna "${exerciseConfig?.meta?.instructionContent || 'aktivt lyssnande'}"?`
-          }
-        ],
-        max_tokens: 300,
-        temperature: 0.7,
-      }),
+    const navigatorContent = await createChatCompletion({
+      agentType: 'navigator',
+      messages: [
+        {
+          role: 'system',
+          content: (() => {
+            const instructionContent = exerciseConfig?.meta?.instructionContent || 'allmän övning av aktivt lyssnande';
+            const title = exerciseConfig?.title ?? 'Namnlös övning';
+            const protocolContent = exerciseConfig?.meta?.protocolContent;
+            
+            let systemPrompt = `Du är en Navigatör-agent för övningen "${title}". Ge ENDAST framåtriktad, handlingsbar vägledning enligt instruktionerna: ${instructionContent}. Analysera aldrig det förflutna.`;
+            
+            if (protocolContent) {
+              systemPrompt += `\n\nPROTOKOLL FÖR VÄGLEDNING:\n${protocolContent}\n\nAnvänd detta protokoll för att guida studenten mot rätt tekniker och förhållningssätt i deras nästa steg.`;
+            }
+            
+            systemPrompt += `\n\nDin roll är att hjälpa studenten att engagera sig bättre med rollspelskaraktären i nästa interaktion. Fokusera på att guida studenten mot att använda tekniker från protokollet för att bygga bättre rapport och kommunikation med rollspelskaraktären.`;
+            
+            systemPrompt += `\n\nSvara med JSON i exakt denna struktur:\n{\n  "type": "feedforward",\n  "guidance": "framåtriktad vägledning på svenska (max 2-3 meningar)",\n  "next_steps": ["handling 1", "handling 2"]\n}`;
+            
+            return systemPrompt;
+          })()
+        },
+        {
+          role: 'user',
+          content: `Ge framåtriktad vägledning för studentens nästa interaktion med rollspelskaraktären. Hur kan studenten förbättra sitt nästa svar för att bättre engagera sig med karaktären enligt instruktionerna "${exerciseConfig?.meta?.instructionContent || 'aktivt lyssnande'}"?`
+        }
+      ],
+      max_tokens: 300,
+      temperature: 0.7,
+    }).catch((error) => {
+      console.error('Navigator completion failed:', error);
+      return null;
     });
 
-    if (navigatorResponse.ok) {
-      const navigatorData = await navigatorResponse.json();
-      console.log('OpenAI Navigator response raw', navigatorData);
+    if (navigatorContent) {
+      console.log('LLM Navigator response raw', navigatorContent);
       try {
-        agentFeedback.navigator = JSON.parse(navigatorData.choices[0].message.content);
+        agentFeedback.navigator = JSON.parse(navigatorContent);
       } catch {
         // Fallback if JSON parsing fails
         agentFeedback.navigator = {
           type: "feedforward",
-          guidance: navigatorData.choices[0].message.content,
+          guidance: navigatorContent,
           next_steps: ["Continue building rapport", "Ask clarifying questions"]
         };
       }
@@ -676,12 +748,22 @@ Deno.serve(async (req: Request): Promise<Response> => {
           }, 400);
         }
 
+        // Enrolled students are identified by their student key
+        const student = await resolveStudent(supabase, req);
+        if (student === 'invalid') {
+          return jsonResponse({
+            error: "STUDENT_KEY_INVALID",
+            message: "The student key is not recognised; join your class again or check the key",
+          }, 401);
+        }
+
         // Create session
         try {
           const session = await createSession({
             mode: lessonCode ? 'lesson' : 'exercise',
             exerciseCode,
-            lessonCode
+            lessonCode,
+            student: student ?? undefined
           });
 
           // Generate initial Navigator guidance if feedforward is enabled
@@ -695,6 +777,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
                 suggestions: ["Start with active listening", "Ask open-ended questions", "Show empathy"]
               }
             };
+            await storeLatestFeedback(session.id, initialGuidance);
           }
 
           return jsonResponse({
@@ -703,7 +786,8 @@ Deno.serve(async (req: Request): Promise<Response> => {
               mode: session.mode,
               config: session.config,
               protocols: session.protocols,
-              startedAt: session.metadata.startedAt
+              startedAt: session.metadata.startedAt,
+              resumeToken: session.metadata.resumeToken
             },
             initialGuidance
           });
@@ -718,7 +802,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
       }
 
       case "sendInput": {
-        const { sessionId, content, timestamp } = body;
+        const { sessionId, content, timestamp, resumeToken } = body;
 
         if (!sessionId || !content || typeof content !== 'string' || content.trim().length === 0) {
           return jsonResponse({
@@ -727,14 +811,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
           }, 400);
         }
 
-        // Get session
-        const session = await getSession(sessionId);
-        if (!session) {
-          console.log('Session not found in sendInput', { sessionId });
-          return jsonResponse({
-            error: "SESSION_NOT_FOUND",
-            message: "Training session not found or expired",
-          }, 404);
+        const session = await authorizeSession(req, sessionId, resumeToken);
+        if (session instanceof Response) {
+          return session;
         }
 
         console.log('Session retrieved successfully in sendInput', { 
@@ -770,15 +849,13 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
         // Generate real agent feedback
         const agentFeedback = await generateAgentFeedback(content, session.conversationHistory, session.config);
+        await storeLatestFeedback(sessionId, agentFeedback);
 
         // Get updated session state
         const updatedSession = await getSession(sessionId);
 
-        // Remove rubric data from analyst feedback before sending to client (should be hidden from students)
-        const clientFeedback = { ...agentFeedback };
-        if (clientFeedback.analyst && clientFeedback.analyst.rubric) {
-          delete clientFeedback.analyst.rubric;
-        }
+        // Rubric scores are hidden from students; teachers and researchers see them
+        const clientFeedback = projectResponse(agentFeedback, await resolveCallerRole(req));
 
         return jsonResponse({
           session: {
@@ -792,7 +869,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
       }
 
       case "get": {
-        const { sessionId } = body;
+        const { sessionId, resumeToken } = body;
 
         if (!sessionId) {
           return jsonResponse({
@@ -801,13 +878,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
           }, 400);
         }
         
-        const session = await getSession(sessionId);
-        if (!session) {
-          console.log('Session not found in get', { sessionId });
-          return jsonResponse({
-            error: "SESSION_NOT_FOUND",
-            message: "Session not found or expired",
-          }, 404);
+        const session = await authorizeSession(req, sessionId, resumeToken);
+        if (session instanceof Response) {
+          return session;
         }
 
         console.log('Session retrieved successfully in get', { 
@@ -823,13 +896,24 @@ Deno.serve(async (req: Request): Promise<Response> => {
             protocols: session.protocols,
             messageCount: session.conversationHistory.length,
             startedAt: session.metadata.startedAt,
-            lastActivity: session.metadata.lastActivityAt
-          }
+            lastActivity: session.metadata.lastActivityAt,
+            // Same shape as ResumedMessage in src/types/sessionResume.ts
+            conversation: session.conversationHistory.map(message => ({
+              id: message.id,
+              role: message.role,
+              content: message.content,
+              timestamp: message.timestamp,
+              ...(message.metadata?.type === 'session_start' ? { type: 'session_start' } : {})
+            }))
+          },
+          ...(session.latestFeedback
+            ? { latestFeedback: projectResponse(session.latestFeedback, await resolveCallerRole(req)) }
+            : {})
         });
       }
 
       case "end": {
-        const { sessionId } = body;
+        const { sessionId, resumeToken } = body;
 
         if (!sessionId) {
           return jsonResponse({
@@ -837,6 +921,11 @@ Deno.serve(async (req: Request): Promise<Response> => {
             message: "sessionId is required",
           }, 400);
         }
+
+        const session = await authorizeSession(req, sessionId, resumeToken);
+        if (session instanceof Response) {
+          return session;
+        }
         
         const success = await endSession(sessionId);
         if (!success) {
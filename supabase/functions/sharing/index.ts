@@ -0,0 +1,257 @@
+// Supabase Edge Function: sharing
+// Owners share exercises, lessons, documents and classes with colleagues to view or to edit.
+// Colleagues are found by their sign-in e-mail; access codes follow their exercise or lesson.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import {
+  RESOURCE_TABLES,
+  resolveTeacherId,
+  type ResourceType,
+  type SharePermission
+} from '../_shared/ownership.ts';
+
+interface SharingRequestBody {
+  action: 'list' | 'share' | 'unshare';
+  resourceType?: ResourceType;
+  resourceId?: string;
+  email?: string;
+  permission?: SharePermission;
+  shareId?: string;
+}
+
+interface ShareRow {
+  id: string;
+  resource_type: ResourceType;
+  resource_id: string;
+  grantee_id: string;
+  permission: SharePermission;
+  created_at: string;
+}
+
+const PERMISSIONS: SharePermission[] = ['view', 'edit'];
+const SHARE_COLUMNS = 'id, resource_type, resource_id, grantee_id, permission, created_at';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+    status,
+  });
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+async function emailOf(userId: string): Promise<string | null> {
+  const { data } = await supabase.auth.admin.getUserById(userId);
+  return data.user?.email ?? null;
+}
+
+// Same shape as ResourceShare in src/types/ownership.ts
+async function fromRow(row: ShareRow) {
+  return {
+    id: row.id,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    granteeId: row.grantee_id,
+    granteeEmail: await emailOf(row.grantee_id),
+    permission: row.permission,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Only the owner manages shares; returns an error response for everyone else
+ */
+async function requireOwner(teacherId: string, resourceType: unknown, resourceId: unknown): Promise<Response | null> {
+  if (typeof resourceType !== 'string' || !(resourceType in RESOURCE_TABLES) || typeof resourceId !== 'string' || !resourceId) {
+    return jsonResponse({
+      error: 'INVALID_RESOURCE',
+      message: `resourceType must be one of ${Object.keys(RESOURCE_TABLES).join(', ')} and resourceId is required`
+    }, 400);
+  }
+
+  const { data: resource, error } = await supabase
+    .from(RESOURCE_TABLES[resourceType as ResourceType])
+    .select('id, owner_id')
+    .eq('id', resourceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ${resourceType}: ${error.message}`);
+  }
+  if (!resource) {
+    return jsonResponse({ error: 'RESOURCE_NOT_FOUND', message: `${resourceType} ${resourceId} not found` }, 404);
+  }
+  if (!resource.owner_id) {
+    return jsonResponse({
+      error: 'NOT_OWNED',
+      message: `This ${resourceType} has no owner and is already available to every teacher`
+    }, 409);
+  }
+  if (resource.owner_id !== teacherId) {
+    return jsonResponse({ error: 'FORBIDDEN', message: `Only the owner can share this ${resourceType}` }, 403);
+  }
+  return null;
+}
+
+async function handleList(teacherId: string, body: SharingRequestBody) {
+  const rejection = await requireOwner(teacherId, body.resourceType, body.resourceId);
+  if (rejection) return rejection;
+
+  const { data, error } = await supabase
+    .from('resource_shares')
+    .select(SHARE_COLUMNS)
+    .eq('resource_type', body.resourceType)
+    .eq('resource_id', body.resourceId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load shares: ${error.message}`);
+  }
+
+  return jsonResponse(await Promise.all(((data ?? []) as ShareRow[]).map(fromRow)));
+}
+
+async function handleShare(teacherId: string, body: SharingRequestBody) {
+  const rejection = await requireOwner(teacherId, body.resourceType, body.resourceId);
+  if (rejection) return rejection;
+
+  const email = body.email?.trim();
+  const permission = body.permission ?? 'view';
+  if (!email) {
+    return jsonResponse({ error: 'MISSING_EMAIL', message: 'email is required' }, 400);
+  }
+  if (!PERMISSIONS.includes(permission)) {
+    return jsonResponse({ error: 'INVALID_PERMISSION', message: 'permission must be view or edit' }, 400);
+  }
+
+  const { data: granteeId, error: lookupError } = await supabase.rpc('teacher_id_by_email', { _email: email });
+  if (lookupError) {
+    throw new Error(`Failed to look up colleague: ${lookupError.message}`);
+  }
+  if (!granteeId) {
+    return jsonResponse({ error: 'TEACHER_NOT_FOUND', message: `No teacher account uses ${email}` }, 404);
+  }
+  if (granteeId === teacherId) {
+    return jsonResponse({ error: 'INVALID_GRANTEE', message: 'You already own this resource' }, 400);
+  }
+
+  // Sharing again with the same colleague changes the permission
+  const { data, error } = await supabase
+    .from('resource_shares')
+    .upsert({
+      resource_type: body.resourceType,
+      resource_id: body.resourceId,
+      grantee_id: granteeId,
+      permission,
+      created_by: teacherId
+    }, { onConflict: 'resource_type,resource_id,grantee_id' })
+    .select(SHARE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to share ${body.resourceType}: ${error.message}`);
+  }
+
+  console.log(`🤝 Shared ${body.resourceType} ${body.resourceId} with ${granteeId} (${permission})`);
+  return jsonResponse(await fromRow(data as ShareRow), 201);
+}
+
+async function handleUnshare(teacherId: string, body: SharingRequestBody) {
+  if (!body.shareId) {
+    return jsonResponse({ error: 'MISSING_SHARE_ID', message: 'shareId is required' }, 400);
+  }
+
+  const { data: share, error } = await supabase
+    .from('resource_shares')
+    .select(SHARE_COLUMNS)
+    .eq('id', body.shareId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load share: ${error.message}`);
+  }
+  if (!share) {
+    return jsonResponse({ error: 'SHARE_NOT_FOUND', message: `Share ${body.shareId} not found` }, 404);
+  }
+
+  // Colleagues may also leave a resource that was shared with them
+  if (share.grantee_id !== teacherId) {
+    const rejection = await requireOwner(teacherId, share.resource_type, share.resource_id);
+    if (rejection) return rejection;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('resource_shares')
+    .delete()
+    .eq('id', share.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to remove share: ${deleteError.message}`);
+  }
+
+  return jsonResponse({ success: true, id: share.id });
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({
+      error: 'METHOD_NOT_ALLOWED',
+      message: 'Only POST method is supported'
+    }, 405);
+  }
+
+  try {
+    const body = await req.json() as SharingRequestBody;
+    const { action } = body;
+
+    console.log(`📥 Sharing function invoked with action: ${action}`);
+
+    const teacherId = await resolveTeacherId(req);
+    if (!teacherId) {
+      return jsonResponse({
+        error: 'FORBIDDEN',
+        message: 'Only signed-in teachers can share resources'
+      }, 403);
+    }
+
+    switch (action) {
+      case 'list':
+        return await handleList(teacherId, body);
+      case 'share':
+        return await handleShare(teacherId, body);
+      case 'unshare':
+        return await handleUnshare(teacherId, body);
+      default:
+        return jsonResponse({
+          error: 'INVALID_ACTION',
+          message: `Unsupported action: ${action}`
+        }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Unexpected error in sharing function:', error);
+    return jsonResponse({
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
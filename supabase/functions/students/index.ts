@@ -0,0 +1,227 @@
+// Supabase Edge Function: students
+// Pseudonymous enrollment with a class join token, the student's own session history,
+// and per-student results for teachers. Mirrors server/routes/students.ts.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canAccessResource, resolveTeacherId } from '../_shared/ownership.ts';
+import {
+  generateStudentKey,
+  hashStudentKey,
+  resolveStudent,
+  summarizeSession,
+  summarizeSessionWithReviews,
+  type SessionRow,
+  type StudentProfile
+} from '../_shared/students.ts';
+
+interface StudentsRequestBody {
+  action: 'enroll' | 'me' | 'history' | 'classResults';
+  joinToken?: string;
+  pseudonym?: string;
+  classId?: string;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-student-key",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const SESSION_COLUMNS = 'id, mode, status, student_id, started_at, last_activity_at, state';
+
+// Teachers also get the stored whole-session review
+const RESULT_COLUMNS = `${SESSION_COLUMNS}, review, reviewed_at`;
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+    status,
+  });
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+async function handleEnroll(body: StudentsRequestBody) {
+  const joinToken = body.joinToken?.trim().toUpperCase();
+  const pseudonym = body.pseudonym?.trim() ?? '';
+
+  if (!joinToken) {
+    return jsonResponse({ error: 'INVALID_REQUEST', message: 'joinToken and pseudonym are required' }, 400);
+  }
+  if (pseudonym.length < 2 || pseudonym.length > 40) {
+    return jsonResponse({ error: 'INVALID_PSEUDONYM', message: 'The pseudonym must be 2-40 characters' }, 400);
+  }
+
+  const { data: classGroup, error: classError } = await supabase
+    .from('classes')
+    .select('id, name')
+    .eq('join_token', joinToken)
+    .maybeSingle();
+
+  if (classError) {
+    throw new Error(`Failed to look up class: ${classError.message}`);
+  }
+  if (!classGroup) {
+    return jsonResponse({ error: 'CLASS_NOT_FOUND', message: 'No class has this join token' }, 404);
+  }
+
+  const studentKey = generateStudentKey();
+  const { data: student, error } = await supabase
+    .from('students')
+    .insert({ class_id: classGroup.id, pseudonym, key_hash: await hashStudentKey(studentKey) })
+    .select('id')
+    .single();
+
+  if (error || !student) {
+    if (error?.code === '23505') {
+      return jsonResponse({ error: 'PSEUDONYM_TAKEN', message: 'Someone in the class already uses this pseudonym' }, 409);
+    }
+    throw new Error(`Failed to enroll student: ${error?.message}`);
+  }
+
+  console.log(`✅ Student ${student.id} joined class ${classGroup.id}`);
+
+  return jsonResponse({
+    student: { id: student.id, pseudonym, classId: classGroup.id, className: classGroup.name },
+    studentKey
+  }, 201);
+}
+
+async function handleHistory(student: StudentProfile) {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select(SESSION_COLUMNS)
+    .eq('student_id', student.id)
+    .order('started_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load session history: ${error.message}`);
+  }
+
+  return jsonResponse({ sessions: ((data ?? []) as SessionRow[]).map(summarizeSession) });
+}
+
+async function handleClassResults(teacherId: string, body: StudentsRequestBody) {
+  if (!body.classId) {
+    return jsonResponse({ error: 'MISSING_CLASS_ID', message: 'classId is required' }, 400);
+  }
+
+  // Results of a class are visible to its owner and colleagues it was shared with
+  const { data: classGroup } = await supabase
+    .from('classes')
+    .select('id, owner_id')
+    .eq('id', body.classId)
+    .maybeSingle();
+
+  if (!classGroup || !await canAccessResource(supabase, teacherId, 'class', classGroup.id, classGroup.owner_id)) {
+    return jsonResponse({ error: 'CLASS_NOT_FOUND', message: 'Class not found' }, 404);
+  }
+
+  const { data: students, error } = await supabase
+    .from('students')
+    .select('id, pseudonym, created_at, last_seen_at')
+    .eq('class_id', body.classId)
+    .order('pseudonym', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load students: ${error.message}`);
+  }
+  if (!students || students.length === 0) {
+    return jsonResponse({ classId: body.classId, students: [] });
+  }
+
+  const { data: sessions, error: sessionError } = await supabase
+    .from('sessions')
+    .select(RESULT_COLUMNS)
+    .in('student_id', students.map(student => student.id))
+    .order('started_at', { ascending: false });
+
+  if (sessionError) {
+    throw new Error(`Failed to load student sessions: ${sessionError.message}`);
+  }
+
+  const rows = (sessions ?? []) as SessionRow[];
+  return jsonResponse({
+    classId: body.classId,
+    students: students.map(student => ({
+      studentId: student.id,
+      pseudonym: student.pseudonym,
+      joinedAt: student.created_at,
+      lastSeenAt: student.last_seen_at,
+      sessions: rows.filter(row => row.student_id === student.id).map(summarizeSessionWithReviews)
+    }))
+  });
+}
+
+serve(async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({
+      error: 'METHOD_NOT_ALLOWED',
+      message: 'Only POST method is supported'
+    }, 405);
+  }
+
+  try {
+    const body = await req.json() as StudentsRequestBody;
+    const { action } = body;
+
+    console.log(`📥 Students function invoked with action: ${action}`);
+
+    switch (action) {
+      case 'enroll':
+        return await handleEnroll(body);
+      case 'me':
+      case 'history': {
+        const student = await resolveStudent(supabase, req);
+        if (student === 'invalid') {
+          return jsonResponse({
+            error: 'STUDENT_KEY_INVALID',
+            message: 'The student key is not recognised; join your class again or check the key'
+          }, 401);
+        }
+        if (!student) {
+          return jsonResponse({
+            error: 'STUDENT_KEY_REQUIRED',
+            message: 'Send your student key in the X-Student-Key header'
+          }, 401);
+        }
+        return action === 'me' ? jsonResponse({ student }) : await handleHistory(student);
+      }
+      case 'classResults': {
+        const teacherId = await resolveTeacherId(req);
+        if (!teacherId) {
+          return jsonResponse({
+            error: 'FORBIDDEN',
+            message: 'Student results are only available to teachers'
+          }, 403);
+        }
+        return await handleClassResults(teacherId, body);
+      }
+      default:
+        return jsonResponse({
+          error: 'INVALID_ACTION',
+          message: `Unsupported action: ${action}`
+        }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Unexpected error in students function:', error);
+    return jsonResponse({
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
@@ -4,6 +4,7 @@
 // deno-lint-ignore-file no-explicit-any
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { projectResponse, resolveCallerRole } from '../_shared/projection.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -201,7 +202,7 @@ Deno.serve(async (req: Request): Promise<Response> => {
         // Generate analysis
         const result = await generateTranscriptAnalysis(transcript);
 
-        return jsonResponse(result);
+        return jsonResponse(projectResponse(result, await resolveCallerRole(req)));
       }
 
       default:
@@ -0,0 +1,52 @@
+-- Migration: guardrail_rules
+-- Purpose: teacher-editable temporal guardrail rules attached to an exercise.
+-- Rules are merged with the built-in defaults (src/types/guardrailRules.ts) when a session starts.
+
+CREATE TABLE public.guardrail_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exercise_id UUID NOT NULL REFERENCES public.exercises(id) ON DELETE CASCADE,
+  agent_type TEXT NOT NULL CHECK (agent_type IN ('navigator', 'analyst', 'reviewer')),
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('regex', 'phrase_list', 'severity_override')),
+  pattern TEXT,
+  phrases TEXT[],
+  -- Built-in rule id (e.g. 'analyst.prospective_sv'), '<agent>.semantic', or a custom rule id
+  target_rule_id TEXT,
+  severity TEXT NOT NULL DEFAULT 'error' CHECK (severity IN ('error', 'warning', 'off')),
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT guardrail_rules_payload_check CHECK (
+    (rule_type = 'regex' AND pattern IS NOT NULL)
+    OR (rule_type = 'phrase_list' AND phrases IS NOT NULL AND array_length(phrases, 1) > 0)
+    OR (rule_type = 'severity_override' AND target_rule_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_guardrail_rules_exercise_id ON public.guardrail_rules(exercise_id);
+
+-- Enable RLS
+ALTER TABLE public.guardrail_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to guardrail_rules"
+ON public.guardrail_rules
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow service role full access to guardrail_rules"
+ON public.guardrail_rules
+FOR ALL
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_guardrail_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_guardrail_rules_updated_at
+  BEFORE UPDATE ON public.guardrail_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_guardrail_rules_updated_at();
@@ -0,0 +1,18 @@
+-- Migration: lesson_exercise_order
+-- Purpose: restore the ordered exercise sequence on lessons so lesson sessions can
+-- walk through their exercises. The column was lost when the lessons table was recreated.
+
+ALTER TABLE public.lessons
+ADD COLUMN IF NOT EXISTS exercise_order JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Backfill from exercises already linked to a lesson, oldest first
+UPDATE public.lessons AS l
+SET exercise_order = linked.exercise_ids
+FROM (
+  SELECT lesson_id, jsonb_agg(id::text ORDER BY created_at) AS exercise_ids
+  FROM public.exercises
+  WHERE lesson_id IS NOT NULL
+  GROUP BY lesson_id
+) AS linked
+WHERE linked.lesson_id = l.id
+  AND l.exercise_order = '[]'::jsonb;
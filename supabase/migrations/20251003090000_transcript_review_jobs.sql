@@ -0,0 +1,77 @@
+-- Migration: transcript_review_jobs
+-- Purpose: asynchronous batch transcript reviews. A job is queued by a teacher and its
+-- items are reviewed in the background; status and results are stored per item so
+-- progress survives page reloads and failed items can be retried.
+
+CREATE TABLE public.transcript_review_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  protocol_ids TEXT[] NOT NULL DEFAULT ARRAY['basis-v1'],
+  exercise_config JSONB,
+  total_items INTEGER NOT NULL DEFAULT 0,
+  completed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.transcript_review_job_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.transcript_review_jobs(id) ON DELETE CASCADE,
+  item_index INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  -- Raw transcript text, or turns from a transcript import
+  transcript TEXT,
+  format TEXT,
+  turns JSONB,
+  student_speaker TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  result JSONB,
+  metadata JSONB,
+  error_code TEXT,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT transcript_review_job_items_payload_check CHECK (transcript IS NOT NULL OR turns IS NOT NULL),
+  UNIQUE (job_id, item_index)
+);
+
+CREATE INDEX idx_transcript_review_job_items_job_id ON public.transcript_review_job_items(job_id);
+CREATE INDEX idx_transcript_review_job_items_status ON public.transcript_review_job_items(status);
+
+-- Enable RLS
+ALTER TABLE public.transcript_review_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transcript_review_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to transcript_review_jobs"
+ON public.transcript_review_jobs
+FOR ALL
+USING (true);
+
+CREATE POLICY "Allow service role full access to transcript_review_job_items"
+ON public.transcript_review_job_items
+FOR ALL
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_transcript_review_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_transcript_review_jobs_updated_at
+  BEFORE UPDATE ON public.transcript_review_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_transcript_review_jobs_updated_at();
+
+CREATE TRIGGER update_transcript_review_job_items_updated_at
+  BEFORE UPDATE ON public.transcript_review_job_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_transcript_review_jobs_updated_at();
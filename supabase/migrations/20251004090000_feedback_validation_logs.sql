@@ -0,0 +1,29 @@
+-- Migration: feedback_validation_logs
+-- Purpose: results of checking student-facing agent feedback (Analyst past_only_feedback,
+-- Reviewer summary) against the validationRules of the protocols in use. One row per
+-- agent generation, so teachers can see which rules were broken and how it was resolved.
+
+CREATE TABLE public.feedback_validation_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Training session id, or a label such as 'transcript_analysis' for transcript reviews
+  session_id TEXT NOT NULL,
+  agent_type TEXT NOT NULL CHECK (agent_type IN ('analyst', 'reviewer')),
+  protocol_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- passed: valid on first try; repaired/regenerated: valid after recovery; failed: still invalid
+  outcome TEXT NOT NULL CHECK (outcome IN ('passed', 'repaired', 'regenerated', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  -- Every violation seen during the generation: [{ protocolId, field, rule, message, matches }]
+  violations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_feedback_validation_logs_session_id ON public.feedback_validation_logs(session_id);
+CREATE INDEX idx_feedback_validation_logs_created_at ON public.feedback_validation_logs(created_at);
+
+-- Enable RLS
+ALTER TABLE public.feedback_validation_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to feedback_validation_logs"
+ON public.feedback_validation_logs
+FOR ALL
+USING (true);
@@ -0,0 +1,10 @@
+-- Migration: exercise_protocol_stack
+-- Purpose: persist the protocols an exercise is composed of, each with a relative
+-- weight the Reviewer applies. Entries are { "protocolId": text, "weight": number };
+-- an empty stack falls back to the protocol documents linked to the exercise.
+
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS protocol_stack JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.exercises
+ADD CONSTRAINT exercises_protocol_stack_is_array CHECK (jsonb_typeof(protocol_stack) = 'array');
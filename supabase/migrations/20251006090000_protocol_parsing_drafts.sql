@@ -0,0 +1,20 @@
+-- Migration: protocol_parsing_drafts
+-- Purpose: uploaded protocol documents are parsed into structured templates that a
+-- teacher reviews before publishing. A parsed protocol shares its id with the source
+-- document, so exercises linking the document pick up the structured version once it
+-- is published. Drafts are never resolved for sessions.
+
+ALTER TABLE public.protocols
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published',
+ADD COLUMN IF NOT EXISTS source_document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS validation_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.protocols
+ADD CONSTRAINT protocols_status_check CHECK (status IN ('draft', 'published'));
+
+ALTER TABLE public.protocols
+ADD CONSTRAINT protocols_validation_errors_is_array CHECK (jsonb_typeof(validation_errors) = 'array');
+
+CREATE INDEX IF NOT EXISTS idx_protocols_status ON public.protocols(status);
+CREATE INDEX IF NOT EXISTS idx_protocols_source_document_id ON public.protocols(source_document_id);
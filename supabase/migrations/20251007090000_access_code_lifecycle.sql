@@ -0,0 +1,53 @@
+-- Migration: access_code_lifecycle
+-- Purpose: access codes get an optional validity window, a maximum number of sessions,
+-- revocation and scoping to a class. Revoked and regenerated codes are kept so
+-- sessions started with them still resolve; a regenerated code points at its
+-- replacement through replaced_by.
+
+CREATE TABLE public.classes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to classes"
+ON public.classes
+FOR ALL
+USING (true);
+
+ALTER TABLE public.codes
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS max_sessions INTEGER,
+ADD COLUMN IF NOT EXISTS session_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS replaced_by TEXT REFERENCES public.codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.codes
+ADD CONSTRAINT codes_max_sessions_check CHECK (max_sessions IS NULL OR max_sessions > 0);
+
+ALTER TABLE public.codes
+ADD CONSTRAINT codes_session_count_check CHECK (session_count >= 0);
+
+ALTER TABLE public.codes
+ADD CONSTRAINT codes_validity_window_check CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_codes_class_id ON public.codes(class_id);
+CREATE INDEX IF NOT EXISTS idx_codes_expires_at ON public.codes(expires_at) WHERE expires_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.update_codes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_codes_updated_at
+  BEFORE UPDATE ON public.codes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_codes_updated_at();
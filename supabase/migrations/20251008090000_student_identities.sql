@@ -0,0 +1,37 @@
+-- Migration: student_identities
+-- Purpose: lightweight pseudonymous student identities. A student joins a class with
+-- the class join token and a pseudonym of their own choosing and receives a secret
+-- student key; only a hash of the key is stored. The key ties sessions to the student
+-- across devices without accounts or real names.
+
+ALTER TABLE public.classes
+ADD COLUMN IF NOT EXISTS join_token TEXT NOT NULL DEFAULT ('KL-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)));
+
+ALTER TABLE public.classes
+ADD CONSTRAINT classes_join_token_key UNIQUE (join_token);
+
+CREATE TABLE public.students (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  pseudonym TEXT NOT NULL CHECK (char_length(pseudonym) BETWEEN 2 AND 40),
+  -- SHA-256 of the student key; the key itself is only shown to the student
+  key_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_students_class_pseudonym ON public.students(class_id, lower(pseudonym));
+
+ALTER TABLE public.students ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to students"
+ON public.students
+FOR ALL
+USING (true);
+
+-- student_id was never populated, so the text column can become a reference
+ALTER TABLE public.sessions
+ALTER COLUMN student_id TYPE UUID USING NULLIF(student_id, '')::uuid;
+
+ALTER TABLE public.sessions
+ADD CONSTRAINT sessions_student_id_fkey FOREIGN KEY (student_id) REFERENCES public.students(id) ON DELETE SET NULL;
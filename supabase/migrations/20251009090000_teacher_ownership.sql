@@ -0,0 +1,230 @@
+-- Migration: teacher_ownership
+-- Purpose: exercises, lessons, documents, classes and access codes belong to the teacher
+-- who created them and can be shared with colleagues with view or edit permission.
+-- Rows created before this migration (and rows whose owner account is deleted) have no
+-- owner and stay available to every teacher in the department. Codes follow the
+-- exercise or lesson they open: sharing an exercise also shares its codes.
+-- Edge Functions use the service role and apply the same rules in
+-- supabase/functions/_shared/ownership.ts.
+
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.lessons
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.classes
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.codes
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exercises_owner_id ON public.exercises (owner_id);
+CREATE INDEX IF NOT EXISTS idx_lessons_owner_id ON public.lessons (owner_id);
+CREATE INDEX IF NOT EXISTS idx_documents_owner_id ON public.documents (owner_id);
+CREATE INDEX IF NOT EXISTS idx_classes_owner_id ON public.classes (owner_id);
+CREATE INDEX IF NOT EXISTS idx_codes_owner_id ON public.codes (owner_id);
+
+-- Colleague permissions; only the owner shares a resource (through the sharing function)
+CREATE TABLE public.resource_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('exercise', 'lesson', 'document', 'class')),
+  resource_id TEXT NOT NULL,
+  grantee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission TEXT NOT NULL DEFAULT 'view' CHECK (permission IN ('view', 'edit')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (resource_type, resource_id, grantee_id)
+);
+
+CREATE INDEX idx_resource_shares_grantee ON public.resource_shares (grantee_id, resource_type);
+
+ALTER TABLE public.resource_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can read shares they gave or received"
+ON public.resource_shares
+FOR SELECT
+TO authenticated
+USING (grantee_id = auth.uid() OR created_by = auth.uid());
+
+-- Whether the signed-in teacher may read (or, with _edit, change) a resource
+CREATE OR REPLACE FUNCTION public.can_access_resource(
+  _resource_type TEXT,
+  _resource_id TEXT,
+  _owner_id UUID,
+  _edit BOOLEAN DEFAULT false
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    _owner_id IS NULL
+    OR _owner_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM public.resource_shares s
+      WHERE s.resource_type = _resource_type
+        AND s.resource_id = _resource_id
+        AND s.grantee_id = auth.uid()
+        AND (NOT _edit OR s.permission = 'edit')
+    )
+  );
+$$;
+
+-- Colleagues with edit permission may change a resource but not take it over
+CREATE OR REPLACE FUNCTION public.protect_owner_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+     AND auth.uid() IS NOT NULL
+     AND OLD.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner can transfer ownership';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_exercises_owner_id BEFORE UPDATE ON public.exercises
+FOR EACH ROW EXECUTE FUNCTION public.protect_owner_id();
+CREATE TRIGGER protect_lessons_owner_id BEFORE UPDATE ON public.lessons
+FOR EACH ROW EXECUTE FUNCTION public.protect_owner_id();
+CREATE TRIGGER protect_documents_owner_id BEFORE UPDATE ON public.documents
+FOR EACH ROW EXECUTE FUNCTION public.protect_owner_id();
+CREATE TRIGGER protect_classes_owner_id BEFORE UPDATE ON public.classes
+FOR EACH ROW EXECUTE FUNCTION public.protect_owner_id();
+CREATE TRIGGER protect_codes_owner_id BEFORE UPDATE ON public.codes
+FOR EACH ROW EXECUTE FUNCTION public.protect_owner_id();
+
+-- Colleague lookup by e-mail for sharing; service role only
+CREATE OR REPLACE FUNCTION public.teacher_id_by_email(_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(trim(_email)) LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.teacher_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.teacher_id_by_email(TEXT) TO service_role;
+
+-- Replace the open policies; students never read these tables directly
+DROP POLICY IF EXISTS "Allow public read access to exercises" ON public.exercises;
+DROP POLICY IF EXISTS "Allow service role full access to exercises" ON public.exercises;
+DROP POLICY IF EXISTS "Allow public read access to lessons" ON public.lessons;
+DROP POLICY IF EXISTS "Allow service role full access to lessons" ON public.lessons;
+DROP POLICY IF EXISTS "Allow public read access to documents" ON public.documents;
+DROP POLICY IF EXISTS "Allow service role full access to documents" ON public.documents;
+DROP POLICY IF EXISTS "Allow public read access to exercise_documents" ON public.exercise_documents;
+DROP POLICY IF EXISTS "Allow service role full access to exercise_documents" ON public.exercise_documents;
+DROP POLICY IF EXISTS "Allow public read access to codes" ON public.codes;
+DROP POLICY IF EXISTS "Allow service role full access to codes" ON public.codes;
+DROP POLICY IF EXISTS "Allow service role full access to classes" ON public.classes;
+
+-- Exercises
+CREATE POLICY "Teachers can read accessible exercises"
+ON public.exercises FOR SELECT TO authenticated
+USING (public.can_access_resource('exercise', id::text, owner_id));
+
+CREATE POLICY "Teachers can create their own exercises"
+ON public.exercises FOR INSERT TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and editors can update exercises"
+ON public.exercises FOR UPDATE TO authenticated
+USING (public.can_access_resource('exercise', id::text, owner_id, true));
+
+CREATE POLICY "Owners can delete exercises"
+ON public.exercises FOR DELETE TO authenticated
+USING (owner_id = auth.uid());
+
+-- Lessons
+CREATE POLICY "Teachers can read accessible lessons"
+ON public.lessons FOR SELECT TO authenticated
+USING (public.can_access_resource('lesson', id::text, owner_id));
+
+CREATE POLICY "Teachers can create their own lessons"
+ON public.lessons FOR INSERT TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and editors can update lessons"
+ON public.lessons FOR UPDATE TO authenticated
+USING (public.can_access_resource('lesson', id::text, owner_id, true));
+
+CREATE POLICY "Owners can delete lessons"
+ON public.lessons FOR DELETE TO authenticated
+USING (owner_id = auth.uid());
+
+-- Documents
+CREATE POLICY "Teachers can read accessible documents"
+ON public.documents FOR SELECT TO authenticated
+USING (public.can_access_resource('document', id::text, owner_id));
+
+CREATE POLICY "Teachers can create their own documents"
+ON public.documents FOR INSERT TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and editors can update documents"
+ON public.documents FOR UPDATE TO authenticated
+USING (public.can_access_resource('document', id::text, owner_id, true));
+
+CREATE POLICY "Owners can delete documents"
+ON public.documents FOR DELETE TO authenticated
+USING (owner_id = auth.uid());
+
+-- Classes
+CREATE POLICY "Teachers can read accessible classes"
+ON public.classes FOR SELECT TO authenticated
+USING (public.can_access_resource('class', id::text, owner_id));
+
+CREATE POLICY "Teachers can create their own classes"
+ON public.classes FOR INSERT TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and editors can update classes"
+ON public.classes FOR UPDATE TO authenticated
+USING (public.can_access_resource('class', id::text, owner_id, true));
+
+CREATE POLICY "Owners can delete classes"
+ON public.classes FOR DELETE TO authenticated
+USING (owner_id = auth.uid());
+
+-- Codes: shares are granted on the exercise or lesson (codes.type matches resource_type)
+CREATE POLICY "Teachers can read codes of accessible targets"
+ON public.codes FOR SELECT TO authenticated
+USING (public.can_access_resource(type, target_id, owner_id));
+
+CREATE POLICY "Owners and editors can update codes"
+ON public.codes FOR UPDATE TO authenticated
+USING (public.can_access_resource(type, target_id, owner_id, true));
+
+-- Exercise documents: access follows the exercise
+CREATE POLICY "Teachers can read documents of accessible exercises"
+ON public.exercise_documents FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id)
+));
+
+CREATE POLICY "Owners and editors can link exercise documents"
+ON public.exercise_documents FOR INSERT TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id, true)
+));
+
+CREATE POLICY "Owners and editors can unlink exercise documents"
+ON public.exercise_documents FOR DELETE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id, true)
+));
@@ -0,0 +1,58 @@
+-- Migration: session_lifecycle
+-- Purpose: sessions are no longer deleted when they end or expire. Each session has a
+-- lifecycle status (active, ended, reviewed, archived, expired) and keeps its Reviewer
+-- output. A department-wide retention policy decides when ended sessions are archived
+-- and when archived sessions are purged or anonymized (see src/types/sessionLifecycle.ts).
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'ended', 'reviewed', 'archived', 'expired')),
+ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS review JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_status_activity ON public.sessions (status, last_activity_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_status_ended ON public.sessions (status, ended_at);
+
+-- Sessions completed by end-session-and-review before this migration kept their review in state
+UPDATE public.sessions
+SET status = 'reviewed',
+    review = state->'finalFeedback',
+    reviewed_at = COALESCE((state->>'completedAt')::timestamptz, last_activity_at),
+    ended_at = COALESCE((state->>'completedAt')::timestamptz, last_activity_at)
+WHERE state ? 'finalFeedback';
+
+-- Single-row retention policy for the department
+CREATE TABLE public.session_retention_policy (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  archive_after_days INTEGER NOT NULL DEFAULT 30 CHECK (archive_after_days BETWEEN 0 AND 3650),
+  retention_days INTEGER DEFAULT 365 CHECK (retention_days IS NULL OR retention_days BETWEEN 0 AND 3650),
+  retention_action TEXT NOT NULL DEFAULT 'anonymize' CHECK (retention_action IN ('purge', 'anonymize')),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.session_retention_policy (id) VALUES (true);
+
+ALTER TABLE public.session_retention_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can read the retention policy"
+ON public.session_retention_policy
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_session_retention_policy_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_session_retention_policy_updated_at
+BEFORE UPDATE ON public.session_retention_policy
+FOR EACH ROW
+EXECUTE FUNCTION public.update_session_retention_policy_updated_at();
@@ -0,0 +1,10 @@
+-- Migration: review_job_owner
+-- Purpose: review jobs belong to the teacher who queued them. The Express server lists,
+-- reads and retries only the caller's jobs; jobs queued before this migration (and jobs
+-- whose owner account is deleted) have no owner and are not available to any teacher.
+
+ALTER TABLE public.transcript_review_jobs
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transcript_review_jobs_owner_id
+ON public.transcript_review_jobs (owner_id, created_at DESC);
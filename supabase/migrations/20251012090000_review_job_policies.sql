@@ -0,0 +1,20 @@
+-- Migration: review_job_policies
+-- Purpose: review jobs hold imported transcripts and Reviewer results with rubric scores.
+-- Replace the open policies: the Express server uses the service role, and a signed-in
+-- teacher may only read the jobs they queued. Nobody writes these tables directly.
+
+DROP POLICY IF EXISTS "Allow service role full access to transcript_review_jobs" ON public.transcript_review_jobs;
+DROP POLICY IF EXISTS "Allow service role full access to transcript_review_job_items" ON public.transcript_review_job_items;
+
+CREATE POLICY "Teachers can read their own review jobs"
+ON public.transcript_review_jobs FOR SELECT TO authenticated
+USING (owner_id = auth.uid());
+
+CREATE POLICY "Teachers can read items of their own review jobs"
+ON public.transcript_review_job_items FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1
+  FROM public.transcript_review_jobs j
+  WHERE j.id = job_id
+    AND j.owner_id = auth.uid()
+));
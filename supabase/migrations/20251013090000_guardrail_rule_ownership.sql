@@ -0,0 +1,36 @@
+-- Migration: guardrail_rule_ownership
+-- Purpose: guardrail rules follow the exercise they belong to, like exercise documents in
+-- the teacher_ownership migration. Replace the open policies: teachers read the rules of
+-- exercises they can access; owners and editors change them. The guardrail-rules Edge
+-- Function and the Express server use the service role and apply the same rules.
+
+DROP POLICY IF EXISTS "Allow public read access to guardrail_rules" ON public.guardrail_rules;
+DROP POLICY IF EXISTS "Allow service role full access to guardrail_rules" ON public.guardrail_rules;
+
+CREATE POLICY "Teachers can read guardrail rules of accessible exercises"
+ON public.guardrail_rules FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id)
+));
+
+CREATE POLICY "Owners and editors can create guardrail rules"
+ON public.guardrail_rules FOR INSERT TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id, true)
+));
+
+CREATE POLICY "Owners and editors can update guardrail rules"
+ON public.guardrail_rules FOR UPDATE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id, true)
+));
+
+CREATE POLICY "Owners and editors can delete guardrail rules"
+ON public.guardrail_rules FOR DELETE TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.exercises e
+  WHERE e.id = exercise_id AND public.can_access_resource('exercise', e.id::text, e.owner_id, true)
+));
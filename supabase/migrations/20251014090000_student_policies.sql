@@ -0,0 +1,11 @@
+-- Migration: student_policies
+-- Purpose: students hold pseudonyms and student key hashes. Replace the open policy so
+-- only the service role (the Express server and the students Edge Function) reaches the
+-- table; students identify themselves with their key, never through direct queries.
+
+DROP POLICY IF EXISTS "Allow service role full access to students" ON public.students;
+
+CREATE POLICY "Service role can manage students"
+ON public.students FOR ALL TO service_role
+USING (true)
+WITH CHECK (true);
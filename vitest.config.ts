@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+// Server tests run offline against the stub provider; Supabase is never reached
+export default defineConfig({
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    env: {
+      LLM_PROVIDER: "stub",
+      SUPABASE_URL: "http://127.0.0.1:1",
+      SUPABASE_SERVICE_ROLE_KEY: "test",
+      LOG_LEVEL: "error",
+    },
+  },
+});